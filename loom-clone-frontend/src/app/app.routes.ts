@@ -1,9 +1,19 @@
 import { Routes } from '@angular/router';
 import { HomeComponent } from './home/home.component';
+import { LibraryComponent } from './library/library.component';
+import { RecordingDetailComponent } from './recording-detail/recording-detail.component';
 
 export const routes: Routes = [
   {
     path: '',
     component: HomeComponent,
   },
+  {
+    path: 'library',
+    component: LibraryComponent,
+  },
+  {
+    path: 'recordings/:name',
+    component: RecordingDetailComponent,
+  },
 ];
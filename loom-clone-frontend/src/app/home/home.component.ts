@@ -3,14 +3,41 @@ import {
   OnDestroy,
   OnInit,
   computed,
+  effect,
   inject,
   ChangeDetectionStrategy,
   signal,
 } from '@angular/core';
+import { RouterLink } from '@angular/router';
 import { BrowserCompatService } from '../services/storage/browser-compat.service';
 import { FolderStorageService } from '../services/storage/folder-storage.service';
 import { MediaDevicesService } from '../services/recording/media-devices.service';
 import { RecordingSessionService } from '../services/recording/recording-session.service';
+import { VideoCompositorService } from '../services/recording/video-compositor.service';
+import { AudioMixerService } from '../services/recording/audio-mixer.service';
+import { RecordingPostProcessorService } from '../services/recording/recording-post-processor.service';
+import { RecordingOutputService } from '../services/recording/recording-output.service';
+import { CameraBubbleSettingsComponent } from '../recording/camera-bubble-settings.component';
+import { AudioMixSettingsComponent } from '../recording/audio-mix-settings.component';
+import { RecordingOutputSettingsComponent } from '../recording/recording-output-settings.component';
+import { CountdownSettingsComponent } from '../recording/countdown-settings.component';
+import { RecordingCountdownComponent } from '../recording/recording-countdown.component';
+import { RecordingLimitsSettingsComponent } from '../recording/recording-limits-settings.component';
+import { RecordingProgressComponent } from '../recording/recording-progress.component';
+import { MicrophoneLevelMeterComponent } from '../recording/microphone-level-meter.component';
+import { MicrophoneProcessingSettingsComponent } from '../recording/microphone-processing-settings.component';
+import { MicrophoneLevelService } from '../services/recording/microphone-level.service';
+import { CameraPreviewComponent } from '../recording/camera-preview.component';
+import { AnnotationLayerComponent } from '../recording/annotation-layer.component';
+import { AnnotationService } from '../services/recording/annotation.service';
+import { KeyboardShortcutsComponent } from '../recording/keyboard-shortcuts.component';
+import { ShortcutService } from '../services/recording/shortcut.service';
+import { CameraPreviewService } from '../services/recording/camera-preview.service';
+import { RecordingMetadataFormComponent } from '../recordings/recording-metadata-form.component';
+import { RecordingThumbnailComponent } from '../recordings/recording-thumbnail.component';
+import { WorkspaceSwitcherComponent } from '../recordings/workspace-switcher.component';
+import { StorageBackendPickerComponent } from '../recordings/storage-backend-picker.component';
+import { formatDuration, formatFileSize, formatTimestamp } from '../recordings/recording-format';
 import { RecordingFileSummary } from '../models/media.models';
 
 /**
@@ -19,6 +46,25 @@ import { RecordingFileSummary } from '../models/media.models';
  */
 @Component({
   selector: 'app-home',
+  imports: [
+    CameraBubbleSettingsComponent,
+    AudioMixSettingsComponent,
+    RecordingOutputSettingsComponent,
+    CountdownSettingsComponent,
+    RecordingCountdownComponent,
+    RecordingLimitsSettingsComponent,
+    RecordingProgressComponent,
+    MicrophoneLevelMeterComponent,
+    MicrophoneProcessingSettingsComponent,
+    CameraPreviewComponent,
+    AnnotationLayerComponent,
+    KeyboardShortcutsComponent,
+    RecordingMetadataFormComponent,
+    RecordingThumbnailComponent,
+    WorkspaceSwitcherComponent,
+    StorageBackendPickerComponent,
+    RouterLink,
+  ],
   templateUrl: './home.component.html',
   styleUrl: './home.component.css',
   changeDetection: ChangeDetectionStrategy.OnPush,
@@ -29,10 +75,20 @@ export class HomeComponent implements OnInit, OnDestroy {
   private readonly folderStorage = inject(FolderStorageService);
   private readonly mediaDevices = inject(MediaDevicesService);
   private readonly recordingSession = inject(RecordingSessionService);
+  private readonly videoCompositor = inject(VideoCompositorService);
+  private readonly audioMixer = inject(AudioMixerService);
+  private readonly postProcessor = inject(RecordingPostProcessorService);
+  private readonly recordingOutput = inject(RecordingOutputService);
+  private readonly microphoneLevel = inject(MicrophoneLevelService);
+  private readonly cameraPreview = inject(CameraPreviewService);
+  private readonly annotations = inject(AnnotationService);
+  private readonly shortcuts = inject(ShortcutService);
 
   // ============ Folder Selection Signals ============
   readonly isSupported = this.browserCompat.isSupported;
   readonly supportMessage = this.browserCompat.supportMessage;
+  readonly folderPickerSupported = this.browserCompat.folderPickerSupported;
+  readonly storageKind = this.folderStorage.storageKind;
   readonly folderName = this.folderStorage.folderName;
   readonly permissionState = this.folderStorage.permissionState;
   readonly isLoading = this.folderStorage.isLoading;
@@ -52,20 +108,27 @@ export class HomeComponent implements OnInit, OnDestroy {
   readonly selectedMicrophoneKey = this.mediaDevices.selectedMicrophoneKey;
   readonly mediaDevicesEnumerating = this.mediaDevices.isEnumerating;
   readonly mediaDeviceError = this.mediaDevices.errorMessage;
+  readonly mediaDeviceNotice = this.mediaDevices.deviceNotice;
   readonly mediaDevicePermissionState = this.mediaDevices.permissionState;
   readonly microphoneEnabled = this.mediaDevices.microphoneEnabled;
   readonly cameraEnabled = this.mediaDevices.cameraEnabled;
   readonly screenSharingEnabled = this.mediaDevices.screenSharingEnabled;
+  readonly systemAudioEnabled = this.mediaDevices.systemAudioEnabled;
 
   readonly recordingStatus = this.recordingSession.recordingStatus;
   readonly recordingError = this.recordingSession.errorMessage;
   readonly recordingStatusMessage = this.recordingSession.statusMessage;
   readonly isRecording = this.recordingSession.isRecording;
+  readonly isPaused = this.recordingSession.isPaused;
+  readonly hasActiveSession = this.recordingSession.hasActiveSession;
+  readonly isCountingDown = this.recordingSession.isCountingDown;
   readonly hasEnabledInput = this.mediaDevices.hasEnabledInput;
 
   readonly recordings = this.folderStorage.recordings;
   readonly recordingsLoading = this.folderStorage.recordingsLoading;
   readonly recordingsError = this.folderStorage.recordingsError;
+  readonly interruptedRecordings = this.folderStorage.interruptedRecordings;
+  readonly currentFolder = computed(() => this.folderStorage.currentPath().join('/'));
 
   private readonly _selectedRecording = signal<RecordingFileSummary | null>(null);
   private readonly _playbackUrl = signal<string | null>(null);
@@ -88,6 +151,12 @@ export class HomeComponent implements OnInit, OnDestroy {
     () => !this.hasEnabledInput() || this.mediaDevicePermissionState() === 'granted',
   );
 
+  readonly hasAudioSource = computed(
+    () =>
+      (this.microphoneEnabled() && this.selectedMicrophoneKey() !== null) ||
+      (this.screenSharingEnabled() && this.systemAudioEnabled()),
+  );
+
   readonly hasRecordingSource = computed(
     () => this.screenSharingEnabled() || this.hasEnabledInput(),
   );
@@ -101,24 +170,58 @@ export class HomeComponent implements OnInit, OnDestroy {
   );
 
   readonly hasRecordings = computed(() => this.recordings().length > 0);
+  readonly hasInterruptedRecordings = computed(() => this.interruptedRecordings().length > 0);
   readonly isAudioPlayback = computed(() => {
     const recording = this._selectedRecording();
-    if (!recording) {
-      return false;
-    }
-
-    if (recording.mimeType.startsWith('audio/')) {
-      return true;
-    }
-
-    const extension = recording.name.split('.').pop()?.toLowerCase() ?? '';
-    return ['mp3', 'wav', 'm4a', 'ogg', 'opus'].includes(extension);
+    return recording !== null && this.folderStorage.isAudioRecording(recording);
   });
 
   private activePlaybackObjectUrl: string | null = null;
+  private unregisterShortcuts: (() => void) | null = null;
+
+  constructor() {
+    // Media keys and the browser's call controls reflect the live recording state
+    effect(() => {
+      const hasActiveSession = this.hasActiveSession();
+      this.shortcuts.updateMediaSession({
+        status: this.recordingStatus(),
+        microphoneActive:
+          hasActiveSession &&
+          this.microphoneEnabled() &&
+          this.mediaDevices.canToggleMicrophoneLive(),
+        cameraActive:
+          hasActiveSession && this.cameraEnabled() && this.mediaDevices.canToggleCameraLive(),
+      });
+    });
+  }
 
   async ngOnInit(): Promise<void> {
-    await this.mediaDevices.init();
+    await Promise.all([
+      this.mediaDevices.init(),
+      this.videoCompositor.init(),
+      this.audioMixer.init(),
+      this.recordingOutput.init(),
+      this.recordingSession.init(),
+      this.microphoneLevel.init(),
+      this.cameraPreview.init(),
+      this.annotations.init(),
+      this.shortcuts.init(),
+    ]);
+
+    this.unregisterShortcuts = this.shortcuts.registerHandlers({
+      'toggle-recording': () => void this.onToggleRecordingShortcut(),
+      'toggle-pause': () => (this.isPaused() ? this.onResumeRecording() : this.onPauseRecording()),
+      'toggle-microphone': () =>
+        void this.mediaDevices.setMicrophoneEnabled(!this.microphoneEnabled()),
+      'toggle-camera': () => void this.mediaDevices.setCameraEnabled(!this.cameraEnabled()),
+      'add-marker': () => this.onAddMarker(),
+      'toggle-annotations': () => {
+        if (this.videoCompositor.isCompositing()) {
+          this.annotations.toggleActive();
+        }
+      },
+      'clear-annotations': () => this.annotations.clear(),
+    });
 
     // Auto-check for stored folder on component init
     await this.folderStorage.initializeFolder();
@@ -129,29 +232,29 @@ export class HomeComponent implements OnInit, OnDestroy {
   }
 
   ngOnDestroy(): void {
+    this.unregisterShortcuts?.();
     this.clearPlayback();
   }
 
   // ============ Folder Selection Handlers ============
 
   /**
-   * Handle select folder button click
+   * Handle change folder button click
    */
-  async onSelectFolder(): Promise<void> {
-    await this.folderStorage.selectNewFolder();
+  async onChangeFolder(): Promise<void> {
+    this.clearPlayback();
+    await this.folderStorage.changeFolderLocation();
 
     if (this.isReady()) {
       await this.folderStorage.refreshRecordings();
-      this.clearPlayback();
     }
   }
 
   /**
-   * Handle change folder button click
+   * Reload the recordings list after switching workspace or storage
    */
-  async onChangeFolder(): Promise<void> {
+  async onWorkspaceChanged(): Promise<void> {
     this.clearPlayback();
-    await this.folderStorage.changeFolderLocation();
 
     if (this.isReady()) {
       await this.folderStorage.refreshRecordings();
@@ -181,6 +284,7 @@ export class HomeComponent implements OnInit, OnDestroy {
 
     this.mediaDevices.selectCamera(target.value);
     await this.mediaDevices.saveDeviceSelection();
+    await this.recordingSession.switchDevice('videoinput');
   }
 
   /**
@@ -194,6 +298,7 @@ export class HomeComponent implements OnInit, OnDestroy {
 
     this.mediaDevices.selectMicrophone(target.value);
     await this.mediaDevices.saveDeviceSelection();
+    await this.recordingSession.switchDevice('audioinput');
   }
 
   /**
@@ -218,6 +323,11 @@ export class HomeComponent implements OnInit, OnDestroy {
     await this.mediaDevices.setScreenSharingEnabled(target.checked);
   }
 
+  async onToggleSystemAudio(event: Event): Promise<void> {
+    const target = event.target as HTMLInputElement;
+    await this.mediaDevices.setSystemAudioEnabled(target.checked);
+  }
+
   async onStartRecording(): Promise<void> {
     this.recordingSession.clearError();
     await this.recordingSession.startRecording();
@@ -227,6 +337,51 @@ export class HomeComponent implements OnInit, OnDestroy {
     await this.recordingSession.stopRecording();
   }
 
+  onPauseRecording(): void {
+    this.recordingSession.pauseRecording();
+  }
+
+  onResumeRecording(): void {
+    this.recordingSession.resumeRecording();
+  }
+
+  onAddMarker(): void {
+    this.recordingSession.addMarker();
+  }
+
+  /**
+   * Start when the start button would be enabled, otherwise stop a running recording
+   */
+  private async onToggleRecordingShortcut(): Promise<void> {
+    if (this.hasActiveSession()) {
+      await this.onStopRecording();
+    } else if (this.canStartRecording()) {
+      await this.onStartRecording();
+    }
+  }
+
+  async onRecoverRecording(recording: RecordingFileSummary): Promise<void> {
+    // Also drops a block cut off by the interruption, so the file plays to its last frame
+    const durationMs = await this.postProcessor.makeSeekable(recording.path);
+    await this.folderStorage.recoverInterruptedRecording(recording.path);
+
+    if (durationMs) {
+      try {
+        await this.folderStorage.updateRecordingMetadata(recording.path, { durationMs });
+      } catch (error) {
+        console.error('Failed to save recovered recording duration:', error);
+      }
+    }
+  }
+
+  async onDiscardRecording(recording: RecordingFileSummary): Promise<void> {
+    if (!confirm(`Delete the interrupted recording "${recording.path}"?`)) {
+      return;
+    }
+
+    await this.folderStorage.discardInterruptedRecording(recording.path);
+  }
+
   async onPlayRecording(recording: RecordingFileSummary): Promise<void> {
     this._playbackLoading.set(true);
     this._playbackError.set(null);
@@ -234,7 +389,7 @@ export class HomeComponent implements OnInit, OnDestroy {
     this.clearPlaybackUrlOnly();
 
     try {
-      const file = await this.folderStorage.readRecordingFile(recording.name);
+      const file = await this.folderStorage.readRecordingFile(recording.path);
       const playbackUrl = URL.createObjectURL(file);
 
       this.activePlaybackObjectUrl = playbackUrl;
@@ -255,21 +410,15 @@ export class HomeComponent implements OnInit, OnDestroy {
   }
 
   formatFileSize(sizeInBytes: number): string {
-    if (sizeInBytes < 1024) {
-      return `${sizeInBytes} B`;
-    }
-
-    const sizeInKilobytes = sizeInBytes / 1024;
-    if (sizeInKilobytes < 1024) {
-      return `${sizeInKilobytes.toFixed(1)} KB`;
-    }
-
-    const sizeInMegabytes = sizeInKilobytes / 1024;
-    return `${sizeInMegabytes.toFixed(1)} MB`;
+    return formatFileSize(sizeInBytes);
   }
 
   formatTimestamp(timestamp: number): string {
-    return new Date(timestamp).toLocaleString();
+    return formatTimestamp(timestamp);
+  }
+
+  formatDuration(durationMs: number): string {
+    return formatDuration(durationMs);
   }
 
   private clearPlayback(): void {
@@ -0,0 +1,419 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  computed,
+  effect,
+  inject,
+  input,
+  signal,
+  untracked,
+} from '@angular/core';
+import { Router, RouterLink } from '@angular/router';
+import { FolderStorageService } from '../services/storage/folder-storage.service';
+import { RecordingThumbnailComponent } from '../recordings/recording-thumbnail.component';
+import { RecordingTrashComponent } from '../recordings/recording-trash.component';
+import { WorkspaceSwitcherComponent } from '../recordings/workspace-switcher.component';
+import { formatDuration, formatFileSize, formatTimestamp } from '../recordings/recording-format';
+import {
+  LibrarySortDirection,
+  LibrarySortField,
+  LibraryTypeFilter,
+  LibraryViewMode,
+  RecordingFileSummary,
+} from '../models/media.models';
+
+const SORT_FIELDS: LibrarySortField[] = ['date', 'size', 'duration'];
+const TYPE_FILTERS: LibraryTypeFilter[] = ['all', 'video', 'audio'];
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Drag data type carrying the path of a recording being moved between folders
+ */
+const RECORDING_DRAG_TYPE = 'application/x-loom-recording';
+
+/**
+ * A folder level shown in the breadcrumbs or as a subfolder tile
+ */
+interface FolderLink {
+  label: string;
+  path: string[];
+}
+
+/**
+ * Library page listing the recordings and subfolders of one folder
+ * The folder being browsed, search, sort, filters and the grid/list choice live in the URL
+ * query params (folder, q, sort, dir, type, from, to, view) so a view can be bookmarked or shared
+ * Recordings are moved by dragging them onto a subfolder or a breadcrumb
+ */
+@Component({
+  selector: 'app-library',
+  imports: [
+    RouterLink,
+    RecordingThumbnailComponent,
+    RecordingTrashComponent,
+    WorkspaceSwitcherComponent,
+  ],
+  templateUrl: './library.component.html',
+  styleUrl: './library.component.css',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class LibraryComponent {
+  private readonly folderStorage = inject(FolderStorageService);
+  private readonly router = inject(Router);
+
+  // ============ Query Param Inputs (bound by the router) ============
+  readonly folder = input<string>();
+  readonly q = input<string>();
+  readonly sort = input<string>();
+  readonly dir = input<string>();
+  readonly type = input<string>();
+  readonly from = input<string>();
+  readonly to = input<string>();
+  readonly view = input<string>();
+
+  // ============ Folder Signals ============
+  readonly folderName = this.folderStorage.folderName;
+  readonly permissionState = this.folderStorage.permissionState;
+  readonly isLoading = this.folderStorage.isLoading;
+  readonly recordingsLoading = this.folderStorage.recordingsLoading;
+  readonly recordingsError = this.folderStorage.recordingsError;
+  readonly subfolders = this.folderStorage.subfolders;
+
+  readonly hasFolder = computed(() => this.folderName() !== null);
+  readonly canListRecordings = computed(() => this.folderStorage.storageLimits()?.listable ?? true);
+  readonly needsPermission = computed(
+    () => this.hasFolder() && this.permissionState() === 'prompt',
+  );
+
+  private readonly _isCreatingFolder = signal(false);
+  private readonly _folderError = signal<string | null>(null);
+  private readonly _dropTarget = signal<string | null>(null);
+  private readonly _moveMessage = signal<string | null>(null);
+
+  readonly isCreatingFolder = this._isCreatingFolder.asReadonly();
+  readonly folderError = this._folderError.asReadonly();
+  readonly dropTarget = this._dropTarget.asReadonly();
+  readonly moveMessage = this._moveMessage.asReadonly();
+
+  // ============ Normalized View State ============
+  readonly folderPath = computed(() =>
+    (this.folder() ?? '').split('/').filter((segment) => segment.length > 0),
+  );
+
+  /**
+   * The chosen folder followed by each subfolder down to the one being browsed
+   */
+  readonly breadcrumbs = computed<FolderLink[]>(() => {
+    const path = this.folderPath();
+    return [
+      { label: this.folderName() ?? 'Recordings', path: [] },
+      ...path.map((segment, index) => ({ label: segment, path: path.slice(0, index + 1) })),
+    ];
+  });
+
+  readonly folderLinks = computed<FolderLink[]>(() =>
+    this.subfolders().map((name) => ({ label: name, path: [...this.folderPath(), name] })),
+  );
+
+  readonly searchText = computed(() => this.q()?.trim() ?? '');
+  readonly sortField = computed<LibrarySortField>(() =>
+    SORT_FIELDS.includes(this.sort() as LibrarySortField)
+      ? (this.sort() as LibrarySortField)
+      : 'date',
+  );
+  readonly sortDirection = computed<LibrarySortDirection>(() =>
+    this.dir() === 'asc' ? 'asc' : 'desc',
+  );
+  readonly typeFilter = computed<LibraryTypeFilter>(() =>
+    TYPE_FILTERS.includes(this.type() as LibraryTypeFilter)
+      ? (this.type() as LibraryTypeFilter)
+      : 'all',
+  );
+  readonly fromDate = computed(() => this.parseDate(this.from()));
+  readonly toDate = computed(() => this.parseDate(this.to()));
+  readonly viewMode = computed<LibraryViewMode>(() => (this.view() === 'list' ? 'list' : 'grid'));
+
+  readonly hasFilters = computed(
+    () =>
+      this.searchText() !== '' ||
+      this.typeFilter() !== 'all' ||
+      this.fromDate() !== null ||
+      this.toDate() !== null,
+  );
+
+  readonly sortOptions: { value: LibrarySortField; label: string }[] = [
+    { value: 'date', label: 'Date' },
+    { value: 'size', label: 'Size' },
+    { value: 'duration', label: 'Duration' },
+  ];
+
+  readonly typeOptions: { value: LibraryTypeFilter; label: string }[] = [
+    { value: 'all', label: 'All types' },
+    { value: 'video', label: 'Video' },
+    { value: 'audio', label: 'Audio only' },
+  ];
+
+  readonly totalCount = computed(() => this.folderStorage.recordings().length);
+
+  readonly visibleRecordings = computed(() => {
+    const terms = this.searchText().toLowerCase().split(/\s+/).filter(Boolean);
+    const type = this.typeFilter();
+    const from = this.fromDate();
+    const to = this.toDate();
+
+    const filtered = this.folderStorage.recordings().filter((recording) => {
+      if (type !== 'all' && this.isAudio(recording) !== (type === 'audio')) {
+        return false;
+      }
+
+      const createdAt = this.createdAt(recording);
+      // The end date is inclusive, so compare against the start of the following day
+      if ((from !== null && createdAt < from) || (to !== null && createdAt >= to + MS_PER_DAY)) {
+        return false;
+      }
+
+      const haystack = this.searchableText(recording);
+      return terms.every((term) => haystack.includes(term));
+    });
+
+    const direction = this.sortDirection() === 'asc' ? 1 : -1;
+    const field = this.sortField();
+    return filtered.sort(
+      (a, b) => direction * (this.sortValue(a, field) - this.sortValue(b, field)),
+    );
+  });
+
+  constructor() {
+    // Breadcrumbs, subfolder links and back/forward all change the folder param
+    effect(() => {
+      const path = this.folderPath();
+      untracked(() => void this.openFolder(path));
+    });
+  }
+
+  async onGrantPermission(): Promise<void> {
+    const granted = await this.folderStorage.requestPermission();
+    if (granted) {
+      await this.folderStorage.refreshRecordings();
+    }
+  }
+
+  /**
+   * Another workspace has other folders, so browsing starts again at its top level
+   */
+  async onWorkspaceChanged(): Promise<void> {
+    await this.updateQuery({ folder: null });
+    await this.openFolder([]);
+  }
+
+  async onSearchInput(event: Event): Promise<void> {
+    const value = (event.target as HTMLInputElement).value;
+    // Typing replaces the history entry instead of adding one per keystroke
+    await this.updateQuery({ q: value.trim() || null }, true);
+  }
+
+  async onSortChange(event: Event): Promise<void> {
+    const value = (event.target as HTMLSelectElement).value as LibrarySortField;
+    await this.updateQuery({ sort: value === 'date' ? null : value });
+  }
+
+  async onToggleDirection(): Promise<void> {
+    await this.updateQuery({ dir: this.sortDirection() === 'desc' ? 'asc' : null });
+  }
+
+  async onTypeChange(event: Event): Promise<void> {
+    const value = (event.target as HTMLSelectElement).value as LibraryTypeFilter;
+    await this.updateQuery({ type: value === 'all' ? null : value });
+  }
+
+  async onFromChange(event: Event): Promise<void> {
+    await this.updateQuery({ from: (event.target as HTMLInputElement).value || null });
+  }
+
+  async onToChange(event: Event): Promise<void> {
+    await this.updateQuery({ to: (event.target as HTMLInputElement).value || null });
+  }
+
+  async onViewChange(view: LibraryViewMode): Promise<void> {
+    await this.updateQuery({ view: view === 'grid' ? null : view });
+  }
+
+  async onClearFilters(): Promise<void> {
+    await this.updateQuery({ q: null, type: null, from: null, to: null });
+  }
+
+  /**
+   * Query params for a folder link; other params such as the search are kept by merging
+   */
+  folderQuery(path: string[]): Record<string, string | null> {
+    return { folder: path.length > 0 ? path.join('/') : null };
+  }
+
+  onStartCreateFolder(): void {
+    this._folderError.set(null);
+    this._isCreatingFolder.set(true);
+  }
+
+  onCancelCreateFolder(): void {
+    this._folderError.set(null);
+    this._isCreatingFolder.set(false);
+  }
+
+  async onCreateFolder(event: Event, name: string): Promise<void> {
+    event.preventDefault();
+    this._folderError.set(null);
+
+    try {
+      await this.folderStorage.createFolder(name);
+      this._isCreatingFolder.set(false);
+    } catch (error) {
+      this._folderError.set(error instanceof Error ? error.message : 'Unable to create folder');
+    }
+  }
+
+  onDragStart(event: DragEvent, recording: RecordingFileSummary): void {
+    event.dataTransfer?.setData(RECORDING_DRAG_TYPE, recording.path);
+    event.dataTransfer?.setData('text/plain', recording.name);
+    if (event.dataTransfer) {
+      event.dataTransfer.effectAllowed = 'move';
+    }
+  }
+
+  onDragOver(event: DragEvent, target: FolderLink): void {
+    // Only recordings dragged from this page can be dropped, and not into their own folder
+    if (
+      !event.dataTransfer?.types.includes(RECORDING_DRAG_TYPE) ||
+      this.isCurrentFolder(target.path)
+    ) {
+      return;
+    }
+
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'move';
+    this._dropTarget.set(target.path.join('/'));
+  }
+
+  onDragLeave(target: FolderLink): void {
+    if (this._dropTarget() === target.path.join('/')) {
+      this._dropTarget.set(null);
+    }
+  }
+
+  async onDrop(event: DragEvent, target: FolderLink): Promise<void> {
+    event.preventDefault();
+    this._dropTarget.set(null);
+
+    const path = event.dataTransfer?.getData(RECORDING_DRAG_TYPE);
+    if (!path) {
+      return;
+    }
+
+    try {
+      const moved = await this.folderStorage.moveRecording(path, target.path);
+      this._moveMessage.set(`Moved "${moved.name}" to ${target.label}`);
+    } catch (error) {
+      this._moveMessage.set(error instanceof Error ? error.message : 'Unable to move recording');
+    }
+  }
+
+  recordingTitle(recording: RecordingFileSummary): string {
+    return recording.metadata?.title ?? recording.name;
+  }
+
+  formatFileSize(sizeInBytes: number): string {
+    return formatFileSize(sizeInBytes);
+  }
+
+  formatTimestamp(timestamp: number): string {
+    return formatTimestamp(timestamp);
+  }
+
+  formatDuration(durationMs: number): string {
+    return formatDuration(durationMs);
+  }
+
+  private async openFolder(path: string[]): Promise<void> {
+    // Opened directly rather than from the home page
+    if (!this.hasFolder()) {
+      await this.folderStorage.initializeFolder();
+    }
+
+    this._isCreatingFolder.set(false);
+    this._moveMessage.set(null);
+    await this.folderStorage.openFolder(path);
+
+    // A folder that was moved or deleted falls back to the top level; show that in the URL
+    const opened = this.folderStorage.currentPath();
+    if (!this.isCurrentFolder(opened)) {
+      await this.updateQuery(this.folderQuery(opened), true);
+    }
+  }
+
+  private isCurrentFolder(path: string[]): boolean {
+    return path.join('/') === this.folderPath().join('/');
+  }
+
+  /**
+   * Merge changes into the query params; null removes a param so defaults keep the URL short
+   */
+  private async updateQuery(
+    changes: Record<string, string | null>,
+    replaceUrl = false,
+  ): Promise<void> {
+    await this.router.navigate([], {
+      queryParams: changes,
+      queryParamsHandling: 'merge',
+      replaceUrl,
+    });
+  }
+
+  /**
+   * Start of the given YYYY-MM-DD day in local time, or null when missing or invalid
+   */
+  private parseDate(value: string | undefined): number | null {
+    if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      return null;
+    }
+
+    const [year, month, day] = value.split('-').map(Number);
+    const timestamp = new Date(year, month - 1, day).getTime();
+    return Number.isNaN(timestamp) ? null : timestamp;
+  }
+
+  private isAudio(recording: RecordingFileSummary): boolean {
+    return this.folderStorage.isAudioRecording(recording);
+  }
+
+  private createdAt(recording: RecordingFileSummary): number {
+    return recording.metadata?.createdAt ?? recording.lastModified;
+  }
+
+  private searchableText(recording: RecordingFileSummary): string {
+    const metadata = recording.metadata;
+    return [
+      recording.name,
+      metadata?.title,
+      metadata?.description,
+      ...(metadata?.tags ?? []),
+      metadata?.sources?.cameraLabel,
+      metadata?.sources?.microphoneLabel,
+    ]
+      .filter(Boolean)
+      .join('\n')
+      .toLowerCase();
+  }
+
+  /**
+   * Recordings without a known duration sort as zero length
+   */
+  private sortValue(recording: RecordingFileSummary, field: LibrarySortField): number {
+    switch (field) {
+      case 'size':
+        return recording.size;
+      case 'duration':
+        return recording.metadata?.durationMs ?? 0;
+      default:
+        return this.createdAt(recording);
+    }
+  }
+}
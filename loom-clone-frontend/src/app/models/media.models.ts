@@ -30,6 +30,16 @@ export interface SelectedMediaDevices {
   lastSelected: number;
 }
 
+/**
+ * Selection key the IndexedDB migrations store for a legacy selection whose deviceId was empty,
+ * as browsers report before permission is granted
+ * Such a device only gets its real key when enumerated, so MediaDevicesService swaps this key
+ * for the first enumerated device of that kind without a deviceId
+ */
+export function legacyEmptyDeviceSelectionKey(kind: MediaDeviceKind): string {
+  return `${kind}:legacy-empty-id`;
+}
+
 /**
  * User toggle preferences for microphone and camera
  * Persisted to IndexedDB preferences store
@@ -38,6 +48,7 @@ export interface MediaTogglePreferences {
   microphoneEnabled: boolean;
   cameraEnabled: boolean;
   screenSharingEnabled: boolean;
+  systemAudioEnabled: boolean;
   lastUpdated: number;
 }
 
@@ -50,7 +61,14 @@ export type MediaPermissionState = 'granted' | 'prompt' | 'denied' | 'unknown';
 /**
  * High-level recording runtime status
  */
-export type RecordingStatus = 'idle' | 'starting' | 'recording' | 'stopping' | 'error';
+export type RecordingStatus =
+  | 'idle'
+  | 'starting'
+  | 'countdown'
+  | 'recording'
+  | 'paused'
+  | 'stopping'
+  | 'error';
 
 /**
  * Active media tracks used during recording session
@@ -60,14 +78,334 @@ export interface ActiveRecordingTracks {
   cameraTrack: MediaStreamTrack | null;
 }
 
+/**
+ * Screen corner where the camera bubble is drawn
+ */
+export type CameraBubbleCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+/**
+ * Relative size of the camera bubble compared to the output frame
+ */
+export type CameraBubbleSize = 'small' | 'medium' | 'large';
+
+/**
+ * Shape used to clip the camera bubble
+ */
+export type CameraBubbleShape = 'circle' | 'rounded';
+
+/**
+ * Layout preferences for the camera bubble composited over screen recordings
+ * Persisted to IndexedDB preferences store
+ */
+export interface CameraBubbleSettings {
+  corner: CameraBubbleCorner;
+  size: CameraBubbleSize;
+  shape: CameraBubbleShape;
+  lastUpdated: number;
+}
+
+/**
+ * Where the camera image is mirrored
+ * - preview: only the on-screen preview, like a mirror; the recording stays true to life
+ * - preview-and-output: the recording is mirrored as well
+ */
+export type CameraMirrorMode = 'off' | 'preview' | 'preview-and-output';
+
+/**
+ * Camera preview preferences
+ * Persisted to IndexedDB preferences store
+ */
+export interface CameraPreviewSettings {
+  mirror: CameraMirrorMode;
+  showGuides: boolean;
+  lastUpdated: number;
+}
+
+/**
+ * Users of the shared camera stream; it stays open while any of them holds it
+ */
+export type CameraStreamUser = 'preview' | 'recording';
+
+/**
+ * Source tracks drawn by the video compositor
+ */
+export interface CompositorSources {
+  screenTrack: MediaStreamTrack | null;
+  cameraTrack: MediaStreamTrack | null;
+}
+
+/**
+ * Actions that can be bound to a keyboard shortcut
+ */
+export type ShortcutAction =
+  | 'toggle-recording'
+  | 'toggle-pause'
+  | 'toggle-microphone'
+  | 'toggle-camera'
+  | 'add-marker'
+  | 'toggle-annotations'
+  | 'clear-annotations';
+
+/**
+ * Keyboard shortcut preferences
+ * Bindings are modifiers in a fixed order followed by KeyboardEvent.code, e.g. "Alt+Shift+KeyR";
+ * null leaves the action unbound
+ * Persisted to IndexedDB preferences store
+ */
+export interface ShortcutSettings {
+  bindings: Record<ShortcutAction, string | null>;
+  lastUpdated: number;
+}
+
+export type AnnotationTool = 'pen' | 'highlighter' | 'arrow' | 'rectangle';
+
+/**
+ * Point on the recorded frame, normalized to 0–1 so it survives output resizing
+ */
+export interface AnnotationPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * A drawn annotation; arrows and rectangles use only the first and last point
+ * finishedAt is null while the pointer is still down
+ */
+export interface AnnotationStroke {
+  tool: AnnotationTool;
+  color: string;
+  points: AnnotationPoint[];
+  finishedAt: number | null;
+}
+
+/**
+ * Annotation tool preferences (fadeSeconds 0 = keep until cleared)
+ * Persisted to IndexedDB preferences store
+ */
+export interface AnnotationSettings {
+  tool: AnnotationTool;
+  color: string;
+  fadeSeconds: number;
+  lastUpdated: number;
+}
+
+/**
+ * Source tracks mixed into the recording audio track
+ */
+export interface AudioMixerSources {
+  microphoneTrack: MediaStreamTrack | null;
+  systemAudioTrack: MediaStreamTrack | null;
+}
+
+/**
+ * Delay between choosing sources and the recorder starting (0 = start immediately)
+ * Persisted to IndexedDB preferences store
+ */
+export interface RecordingCountdownSettings {
+  seconds: number;
+  lastUpdated: number;
+}
+
+/**
+ * Optional limits that stop a recording automatically (null = no limit)
+ * Persisted to IndexedDB preferences store
+ */
+export interface RecordingLimitSettings {
+  maxDurationMs: number | null;
+  maxBytes: number | null;
+  lastUpdated: number;
+}
+
+/**
+ * Problems spotted by the microphone level monitor
+ * - silent: the enabled microphone has picked up near-silence for too long
+ * - speaking-while-muted: sound is reaching a microphone that is toggled off
+ */
+export type MicrophoneLevelWarning = 'silent' | 'speaking-while-muted';
+
+/**
+ * Microphone monitor preferences (silenceWarningSeconds 0 = never warn)
+ * Persisted to IndexedDB preferences store
+ */
+export interface MicrophoneMonitorSettings {
+  silenceWarningSeconds: number;
+  lastUpdated: number;
+}
+
+/**
+ * Audio processing requested for one microphone (null = browser/device default)
+ * Persisted to IndexedDB preferences store, keyed by the microphone's selectionKey
+ */
+export interface MicrophoneProcessingSettings {
+  noiseSuppression: boolean;
+  echoCancellation: boolean;
+  autoGainControl: boolean;
+  sampleRate: number | null;
+  channelCount: number | null;
+  lastUpdated: number;
+}
+
+/**
+ * Processing the browser actually applied to a microphone track, read from getSettings()
+ * Browsers leave out values they do not report
+ */
+export type AppliedMicrophoneSettings = Pick<
+  MediaTrackSettings,
+  'noiseSuppression' | 'echoCancellation' | 'autoGainControl' | 'sampleRate' | 'channelCount'
+>;
+
+/**
+ * Per-source gain levels for the audio mix (1 = unchanged)
+ * Persisted to IndexedDB preferences store
+ */
+export interface AudioMixLevels {
+  microphoneGain: number;
+  systemAudioGain: number;
+  lastUpdated: number;
+}
+
+/**
+ * Container format for new recordings
+ */
+export type RecordingOutputFormat = 'webm' | 'mp4';
+
+/**
+ * How this browser can produce MP4 recordings
+ * - native: MediaRecorder records video/mp4 directly
+ * - webcodecs: frames are encoded with WebCodecs and muxed in the app
+ */
+export type Mp4RecordingSupport = 'native' | 'webcodecs' | 'unsupported';
+
+/**
+ * Named capture and encoding presets; custom uses the user's own profile
+ */
+export type RecordingQualityPreset = '720p30' | '1080p30' | '1440p60' | 'custom';
+
+/**
+ * Capture limits and encoder bitrates for a recording
+ * width and height bound the output frame; sources are scaled down to fit, never up
+ */
+export interface RecordingQualityProfile {
+  width: number;
+  height: number;
+  frameRate: number;
+  videoBitsPerSecond: number;
+  audioBitsPerSecond: number;
+}
+
+/**
+ * Output preferences for new recordings
+ * fileByDate saves new recordings into year/month subfolders such as "2026/10/"
+ * saveWorkspaceId picks the workspace new recordings go into (null = the active workspace)
+ * Persisted to IndexedDB preferences store
+ */
+export interface RecordingOutputSettings {
+  format: RecordingOutputFormat;
+  quality: RecordingQualityPreset;
+  customQuality: RecordingQualityProfile;
+  fileByDate: boolean;
+  saveWorkspaceId: string | null;
+  lastUpdated: number;
+}
+
+/**
+ * The part of the MediaRecorder API that RecordingSessionService relies on,
+ * so an in-app encoder can stand in for the native recorder
+ */
+export interface RecordingEncoder {
+  readonly mimeType: string;
+  ondataavailable: ((event: BlobEvent) => void) | null;
+  onerror: ((event: ErrorEvent) => void) | null;
+  onstop: ((event: Event) => void) | null;
+  start(timeslice?: number): void;
+  pause(): void;
+  resume(): void;
+  stop(): void;
+}
+
+/**
+ * Capture sources and devices used for a recording
+ */
+export interface RecordingSourceInfo {
+  screen: boolean;
+  systemAudio: boolean;
+  cameraLabel: string | null;
+  microphoneLabel: string | null;
+  mimeType: string;
+}
+
+/**
+ * A point of interest dropped while recording, at a time within the recording
+ */
+export interface RecordingMarker {
+  timeMs: number;
+  label: string;
+}
+
+/**
+ * User-editable and captured details about a recording
+ * Stored in the manifest file inside the recordings folder
+ */
+export interface RecordingMetadata {
+  title: string;
+  description: string;
+  tags: string[];
+  durationMs: number | null;
+  createdAt: number;
+  sources: RecordingSourceInfo | null;
+  markers: RecordingMarker[];
+}
+
 /**
  * Recording file summary shown in playback list
+ * path is relative to the chosen folder with "/" between subfolders, e.g. "2026/10/clip.webm";
+ * at the top level it equals name
  */
 export interface RecordingFileSummary {
   name: string;
+  path: string;
   mimeType: string;
   size: number;
   lastModified: number;
+  metadata?: RecordingMetadata;
+}
+
+/**
+ * Library sort keys; date is the recording's creation time
+ */
+export type LibrarySortField = 'date' | 'size' | 'duration';
+
+export type LibrarySortDirection = 'asc' | 'desc';
+
+/**
+ * Library media type filter
+ */
+export type LibraryTypeFilter = 'all' | 'video' | 'audio';
+
+export type LibraryViewMode = 'grid' | 'list';
+
+/**
+ * Cached preview images for a recording, stored in the IndexedDB thumbnails store
+ * Keyed by path, last-modified time and size so edited or replaced files are regenerated
+ */
+export interface RecordingThumbnail {
+  key: string;
+  name: string;
+  kind: 'video' | 'audio';
+  poster: Blob;
+  spriteStrip: Blob | null;
+  spriteFrameCount: number;
+  createdAt: number;
+}
+
+/**
+ * Object URLs for a cached thumbnail, ready for binding in templates
+ */
+export interface RecordingThumbnailView {
+  kind: 'video' | 'audio';
+  posterUrl: string;
+  spriteUrl: string | null;
+  spriteFrameCount: number;
 }
 
 /**
@@ -2,8 +2,11 @@
  * Storage models and interfaces for the Loom Clone application
  */
 
+import { RecordingMetadata } from './media.models';
+
 /**
  * Data structure for storing folder information in IndexedDB
+ * Written before workspaces existed; converted into a workspace on first load
  */
 export interface StoredFolderData {
   handle: FileSystemDirectoryHandle;
@@ -11,6 +14,27 @@ export interface StoredFolderData {
   folderName: string;
 }
 
+/**
+ * A named recordings folder, e.g. one per client or project
+ * The workspace used most recently is the active one
+ * Persisted to the IndexedDB workspaces store
+ */
+export interface RecordingWorkspace {
+  id: string;
+  name: string;
+  handle: FileSystemDirectoryHandle;
+  folderName: string;
+  createdAt: number;
+  lastUsed: number;
+}
+
+/**
+ * A stored workspace with the access the browser currently grants to its folder
+ */
+export interface RecordingWorkspaceView extends RecordingWorkspace {
+  permissionState: PermissionState;
+}
+
 /**
  * Represents the current state of folder selection
  */
@@ -21,6 +45,220 @@ export interface FolderSelectionState {
   errorMessage?: string;
 }
 
+/**
+ * Marker for a recording that is being streamed to disk
+ * filename is the path relative to the chosen folder, which may include subfolders
+ * Persisted to IndexedDB until the file is finalized so interrupted sessions can be recovered
+ */
+export interface PendingRecordingData {
+  filename: string;
+  folderHandle: FileSystemDirectoryHandle;
+  startedAt: number;
+}
+
+/**
+ * Incremental sink that appends recording chunks to a file as they arrive
+ * workspaceId is null when the recording is not saved into a workspace, e.g. in browser storage;
+ * storageLimits describe the storage the file is written to
+ */
+export interface RecordingFileWriter {
+  readonly filename: string;
+  readonly workspaceId: string | null;
+  readonly storageLimits: StorageBackendLimits;
+  readonly bytesWritten: number;
+  append(chunk: Blob): Promise<void>;
+  close(): Promise<void>;
+  abort(): Promise<void>;
+}
+
+/**
+ * Where recordings are kept
+ * - folder: a folder the user picked on their computer
+ * - opfs: the Origin Private File System, storage the browser keeps private to this site
+ * - download: every finished recording is handed to the browser as a download
+ * - memory: held in memory only, for tests
+ */
+export type StorageBackendKind = 'folder' | 'opfs' | 'download' | 'memory';
+
+/**
+ * What a storage backend can and cannot do, shown to the user when choosing one
+ * - listable: saved recordings can be listed and read back, so they appear in the library
+ * - survivesReload: recordings are still there after the page is closed
+ * - visibleOnDisk: recordings are ordinary files other apps can open
+ * - crashSafe: the file is written while recording, so a crash loses only the last few seconds
+ */
+export interface StorageBackendLimits {
+  label: string;
+  description: string;
+  listable: boolean;
+  survivesReload: boolean;
+  visibleOnDisk: boolean;
+  crashSafe: boolean;
+  notes: string[];
+}
+
+/**
+ * Contents of one folder of a storage backend
+ * files are named by their filename only; folders are the names of the subfolders
+ */
+export interface StorageListing {
+  files: File[];
+  folders: string[];
+}
+
+/**
+ * A file being written chunk by chunk
+ */
+export interface StorageWriteStream {
+  append(chunk: Blob): Promise<void>;
+  close(): Promise<void>;
+  abort(): Promise<void>;
+}
+
+/**
+ * Space used and available in a backend, in bytes
+ */
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+/**
+ * Where recordings, their manifests and the trash are read from and written to
+ * Paths are relative to the backend's root with "/" between subfolders
+ * Missing files are reported by rejecting with a DOMException named NotFoundError,
+ * the same way directory handles do
+ *
+ * directory is set for backends built on a directory handle, so interrupted recordings
+ * can be traced back to the folder they were written to
+ */
+export interface RecordingStorageBackend {
+  readonly kind: StorageBackendKind;
+  readonly limits: StorageBackendLimits;
+  readonly directory: FileSystemDirectoryHandle | null;
+  list(folder: string[]): Promise<StorageListing>;
+  read(path: string): Promise<File>;
+  write(path: string, data: Blob): Promise<void>;
+  stream(path: string): Promise<StorageWriteStream>;
+  delete(path: string): Promise<void>;
+  /**
+   * Move or rename a file, creating missing folders on the way to the new path
+   * Resolves with the file at its new path
+   */
+  move(path: string, newPath: string): Promise<File>;
+  createFolder(folder: string[]): Promise<void>;
+  estimateUsage(): Promise<StorageUsage | null>;
+}
+
+/**
+ * The storage backend chosen in this browser
+ * Persisted to IndexedDB preferences store
+ */
+export interface StorageBackendSettings {
+  kind: StorageBackendKind;
+  lastUpdated: number;
+}
+
+/**
+ * Manifest entry for a single recording file
+ * Size and lastModified are kept so files renamed outside the app can be matched again
+ */
+export interface RecordingManifestEntry extends RecordingMetadata {
+  filename: string;
+  size: number;
+  lastModified: number;
+}
+
+/**
+ * Portable manifest stored as a JSON file inside the recordings folder
+ */
+export interface RecordingManifest {
+  version: 1;
+  updatedAt: number;
+  recordings: Record<string, RecordingManifestEntry>;
+}
+
+/**
+ * A deleted recording waiting in the trash folder
+ * trashName is the file's name inside the trash folder; originalName is the path it is
+ * restored to, relative to the chosen folder
+ */
+export interface TrashedRecording {
+  trashName: string;
+  originalName: string;
+  deletedAt: number;
+  mimeType: string;
+  size: number;
+  lastModified: number;
+  metadata: RecordingMetadata | null;
+}
+
+/**
+ * Index stored as a JSON file inside the trash folder
+ */
+export interface RecordingTrashIndex {
+  version: 1;
+  updatedAt: number;
+  items: Record<string, TrashedRecording>;
+}
+
+/**
+ * Trash preferences (retentionDays 0 = keep until the trash is emptied)
+ * Persisted to IndexedDB preferences store
+ */
+export interface TrashSettings {
+  retentionDays: number;
+  lastUpdated: number;
+}
+
+/**
+ * Index created on an IndexedDB object store by a migration
+ */
+export interface IndexedDbIndexDefinition {
+  name: string;
+  keyPath: string | string[];
+  options?: IDBIndexParameters;
+}
+
+/**
+ * Object store created by a migration, optionally with indexes
+ */
+export interface IndexedDbStoreDefinition {
+  name: string;
+  options?: IDBObjectStoreParameters;
+  indexes?: IndexedDbIndexDefinition[];
+}
+
+/**
+ * Rewrites every record of a store during a migration
+ * Return the replacement value, or undefined to leave the record unchanged
+ */
+export interface IndexedDbRecordTransform {
+  storeName: string;
+  transform: (value: unknown, key: IDBValidKey) => unknown;
+}
+
+/**
+ * A single declarative schema step; migrations run in ascending version order
+ * for every version above the one the browser already has
+ */
+export interface IndexedDbMigration {
+  version: number;
+  description: string;
+  createStores?: IndexedDbStoreDefinition[];
+  createIndexes?: { storeName: string; indexes: IndexedDbIndexDefinition[] }[];
+  transformRecords?: IndexedDbRecordTransform[];
+}
+
+/**
+ * Options for cursor iteration over a store or index
+ */
+export interface IndexedDbIterateOptions {
+  indexName?: string;
+  query?: IDBValidKey | IDBKeyRange;
+  direction?: IDBCursorDirection;
+}
+
 /**
  * Permission states for file system access
  */
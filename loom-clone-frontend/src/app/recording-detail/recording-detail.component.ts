@@ -0,0 +1,294 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  DestroyRef,
+  ElementRef,
+  computed,
+  effect,
+  inject,
+  input,
+  signal,
+  untracked,
+  viewChild,
+} from '@angular/core';
+import { Router, RouterLink } from '@angular/router';
+import { FolderStorageService } from '../services/storage/folder-storage.service';
+import { RecordingMetadataFormComponent } from '../recordings/recording-metadata-form.component';
+import { RecordingFileActionsComponent } from '../recordings/recording-file-actions.component';
+import { formatDuration, formatFileSize, formatTimestamp } from '../recordings/recording-format';
+import { RecordingFileSummary } from '../models/media.models';
+import { FolderAccessError, FolderAccessErrorCode } from '../models/storage.models';
+
+/**
+ * Why a recording could not be opened
+ * - no-folder: no recordings folder has been chosen in this browser
+ * - permission: folder access has to be granted again
+ * - not-found: the file is no longer in the folder
+ * - unreadable: any other read failure
+ */
+type RecordingLoadProblem = 'no-folder' | 'permission' | 'not-found' | 'unreadable';
+
+/**
+ * Full player for one recording at /recordings/:name, where name is the recording's path
+ * within the chosen folder (URL-encoded, so subfolders stay in one route segment)
+ * ?t= seeks on load and accepts seconds ("151") or clock time ("2:31", "1:02:31"),
+ * so a link can point a teammate at a moment in the recording
+ */
+@Component({
+  selector: 'app-recording-detail',
+  imports: [RouterLink, RecordingMetadataFormComponent, RecordingFileActionsComponent],
+  templateUrl: './recording-detail.component.html',
+  styleUrl: './recording-detail.component.css',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class RecordingDetailComponent {
+  private readonly folderStorage = inject(FolderStorageService);
+  private readonly router = inject(Router);
+  private readonly player = viewChild<ElementRef<HTMLMediaElement>>('player');
+
+  // ============ Route Inputs (bound by the router) ============
+  readonly name = input.required<string>();
+  readonly t = input<string>();
+
+  private readonly _recording = signal<RecordingFileSummary | null>(null);
+  private readonly _playbackUrl = signal<string | null>(null);
+  private readonly _isLoading = signal(true);
+  private readonly _problem = signal<RecordingLoadProblem | null>(null);
+  private readonly _errorMessage = signal<string | null>(null);
+  private readonly _copyMessage = signal<string | null>(null);
+
+  readonly recording = this._recording.asReadonly();
+  readonly playbackUrl = this._playbackUrl.asReadonly();
+  readonly isLoading = this._isLoading.asReadonly();
+  readonly problem = this._problem.asReadonly();
+  readonly errorMessage = this._errorMessage.asReadonly();
+  readonly copyMessage = this._copyMessage.asReadonly();
+  readonly folderName = this.folderStorage.folderName;
+
+  readonly isAudio = computed(() => {
+    const recording = this._recording();
+    return recording ? this.folderStorage.isAudioRecording(recording) : false;
+  });
+
+  readonly title = computed(() => {
+    const recording = this._recording();
+    return recording?.metadata?.title || recording?.name || this.name();
+  });
+
+  readonly markers = computed(() => this._recording()?.metadata?.markers ?? []);
+
+  /**
+   * Start position from ?t= in seconds, or null when absent or unreadable
+   */
+  readonly startSeconds = computed(() => this.parseTime(this.t()));
+
+  private activeObjectUrl: string | null = null;
+  private loadSequence = 0;
+  private copyMessageTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor() {
+    // Navigating between recordings reuses this component, so reload whenever the name changes
+    effect(() => {
+      const name = this.name();
+      untracked(() => void this.load(name));
+    });
+
+    // Keep metadata edits made in the panel in view
+    effect(() => {
+      const updated = this.folderStorage
+        .recordings()
+        .find((recording) => recording.path === this.name());
+      if (updated) {
+        untracked(() =>
+          this._recording.update((recording) =>
+            recording ? { ...recording, metadata: updated.metadata } : recording,
+          ),
+        );
+      }
+    });
+
+    inject(DestroyRef).onDestroy(() => {
+      this.revokePlaybackUrl();
+      if (this.copyMessageTimer) {
+        clearTimeout(this.copyMessageTimer);
+      }
+    });
+  }
+
+  async onGrantPermission(): Promise<void> {
+    const granted = await this.folderStorage.requestPermission();
+    if (granted) {
+      await this.load(this.name());
+    }
+  }
+
+  onLoadedMetadata(): void {
+    const start = this.startSeconds();
+    const player = this.player()?.nativeElement;
+    if (start === null || !player) {
+      return;
+    }
+
+    // Recordings made by MediaRecorder may report an infinite duration until played through
+    player.currentTime = Number.isFinite(player.duration)
+      ? Math.min(start, player.duration)
+      : start;
+  }
+
+  onSeekToMarker(timeMs: number): void {
+    const player = this.player()?.nativeElement;
+    if (player) {
+      player.currentTime = timeMs / 1000;
+      void player.play().catch(() => undefined);
+    }
+  }
+
+  async onCopyLink(): Promise<void> {
+    const seconds = Math.floor(this.player()?.nativeElement.currentTime ?? 0);
+    const urlTree = this.router.createUrlTree(['/recordings', this.name()], {
+      queryParams: { t: seconds > 0 ? seconds : null },
+    });
+    const link = new URL(this.router.serializeUrl(urlTree), document.baseURI).href;
+
+    try {
+      await navigator.clipboard.writeText(link);
+      this.showCopyMessage(
+        seconds > 0 ? `Link to ${formatDuration(seconds * 1000)} copied` : 'Link copied',
+      );
+    } catch (error) {
+      console.error('[RecordingDetailComponent] Failed to copy link:', error);
+      this.showCopyMessage('Could not copy the link; copy it from the address bar instead');
+    }
+  }
+
+  async onRenamed(name: string): Promise<void> {
+    // Keep ?t= so the address stays a working link to the same moment
+    await this.router.navigate(['/recordings', name], {
+      queryParamsHandling: 'preserve',
+      replaceUrl: true,
+    });
+  }
+
+  async onDeleted(): Promise<void> {
+    await this.router.navigate(['/library']);
+  }
+
+  formatFileSize(sizeInBytes: number): string {
+    return formatFileSize(sizeInBytes);
+  }
+
+  formatTimestamp(timestamp: number): string {
+    return formatTimestamp(timestamp);
+  }
+
+  formatDuration(durationMs: number): string {
+    return formatDuration(durationMs);
+  }
+
+  private async load(name: string): Promise<void> {
+    // A newer load for another recording takes over from this one
+    const sequence = ++this.loadSequence;
+    const isCurrent = (): boolean => sequence === this.loadSequence;
+
+    this._isLoading.set(true);
+    this._problem.set(null);
+    this._errorMessage.set(null);
+    this._recording.set(null);
+    this.revokePlaybackUrl();
+
+    try {
+      // Opened from a link rather than from inside the app
+      if (!this.folderStorage.storageKind()) {
+        await this.folderStorage.initializeFolder();
+      }
+
+      if (!isCurrent()) {
+        return;
+      }
+
+      if (!this.folderStorage.storageKind()) {
+        this._problem.set('no-folder');
+        return;
+      }
+
+      if (this.folderStorage.permissionState() !== 'granted') {
+        this._problem.set('permission');
+        return;
+      }
+
+      const file = await this.folderStorage.readRecordingFile(name);
+      const metadata = await this.folderStorage.readRecordingMetadata(name);
+      if (!isCurrent()) {
+        return;
+      }
+
+      this.activeObjectUrl = URL.createObjectURL(file);
+      this._playbackUrl.set(this.activeObjectUrl);
+      this._recording.set({
+        name: name.split('/').pop() ?? name,
+        path: name,
+        metadata: metadata ?? undefined,
+        mimeType: file.type,
+        size: file.size,
+        lastModified: file.lastModified,
+      });
+    } catch (error) {
+      if (!isCurrent()) {
+        return;
+      }
+
+      if (error instanceof FolderAccessError) {
+        this._problem.set(
+          error.code === FolderAccessErrorCode.PERMISSION_DENIED ? 'permission' : 'not-found',
+        );
+      } else {
+        this._problem.set('unreadable');
+      }
+      this._errorMessage.set(error instanceof Error ? error.message : null);
+    } finally {
+      if (isCurrent()) {
+        this._isLoading.set(false);
+      }
+    }
+  }
+
+  /**
+   * Parse seconds ("151", "151.5") or clock time ("2:31", "1:02:31")
+   */
+  private parseTime(value: string | undefined): number | null {
+    if (!value) {
+      return null;
+    }
+
+    if (/^\d+(\.\d+)?$/.test(value)) {
+      return Number(value);
+    }
+
+    if (/^\d+(:[0-5]?\d){1,2}$/.test(value)) {
+      return value.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+    }
+
+    return null;
+  }
+
+  private showCopyMessage(message: string): void {
+    if (this.copyMessageTimer) {
+      clearTimeout(this.copyMessageTimer);
+    }
+
+    this._copyMessage.set(message);
+    this.copyMessageTimer = setTimeout(() => {
+      this._copyMessage.set(null);
+      this.copyMessageTimer = null;
+    }, 3000);
+  }
+
+  private revokePlaybackUrl(): void {
+    if (this.activeObjectUrl) {
+      URL.revokeObjectURL(this.activeObjectUrl);
+      this.activeObjectUrl = null;
+    }
+
+    this._playbackUrl.set(null);
+  }
+}
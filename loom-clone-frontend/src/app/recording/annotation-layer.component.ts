@@ -0,0 +1,322 @@
+import { ChangeDetectionStrategy, Component, computed, inject } from '@angular/core';
+import { AnnotationPoint, AnnotationTool } from '../models/media.models';
+import { AnnotationService } from '../services/recording/annotation.service';
+import { ShortcutService } from '../services/recording/shortcut.service';
+import { VideoCompositorService } from '../services/recording/video-compositor.service';
+
+/**
+ * Annotation mode for the recording in progress
+ * Shows the composited output full-screen and turns pointer drags into strokes that the
+ * compositor burns into the video; the mode and clearing also have keyboard shortcuts
+ */
+@Component({
+  selector: 'app-annotation-layer',
+  template: `
+    @if (outputStream(); as stream) {
+      @if (isActive()) {
+        <div
+          class="annotation-overlay"
+          role="dialog"
+          aria-modal="true"
+          aria-label="Annotate recording"
+        >
+          <div class="annotation-toolbar" role="toolbar" aria-label="Annotation tools">
+            @for (tool of tools; track tool.value) {
+              <button
+                type="button"
+                class="annotation-button"
+                [attr.aria-pressed]="settings().tool === tool.value"
+                (click)="onSelectTool(tool.value)"
+              >
+                {{ tool.label }}
+              </button>
+            }
+
+            <span class="annotation-divider" aria-hidden="true"></span>
+
+            @for (color of colors; track color.value) {
+              <button
+                type="button"
+                class="annotation-swatch"
+                [style.background]="color.value"
+                [attr.aria-pressed]="settings().color === color.value"
+                [attr.aria-label]="color.label"
+                (click)="onSelectColor(color.value)"
+              ></button>
+            }
+
+            <span class="annotation-divider" aria-hidden="true"></span>
+
+            <label class="annotation-field" for="annotation-fade-select">
+              <span>Fade</span>
+              <select
+                id="annotation-fade-select"
+                class="annotation-select"
+                [value]="settings().fadeSeconds"
+                (change)="onFadeChange($event)"
+              >
+                @for (option of fadeOptions; track option.value) {
+                  <option [value]="option.value">{{ option.label }}</option>
+                }
+              </select>
+            </label>
+
+            <button type="button" class="annotation-button" (click)="onClear()">Clear</button>
+            <button type="button" class="annotation-button is-done" (click)="onToggle()">
+              Done
+            </button>
+          </div>
+
+          <video
+            class="annotation-surface"
+            [srcObject]="stream"
+            autoplay
+            muted
+            playsinline
+            aria-label="Recording preview; drag to draw"
+            (pointerdown)="onPointerDown($event)"
+            (pointermove)="onPointerMove($event)"
+            (pointerup)="onPointerUp()"
+            (pointercancel)="onPointerUp()"
+          ></video>
+
+          <p class="annotation-hint">
+            Drag to draw. {{ clearShortcut() }} clears, Esc or {{ toggleShortcut() }} returns to the
+            controls.
+          </p>
+        </div>
+      } @else {
+        <button type="button" class="annotation-open" (click)="onToggle()">
+          ✏️ Annotate <span class="annotation-shortcut">{{ toggleShortcut() }}</span>
+        </button>
+      }
+    }
+  `,
+  styles: `
+    :host {
+      display: block;
+    }
+
+    .annotation-open {
+      margin-top: 0.75rem;
+      padding: 0.5rem 1rem;
+      border: 2px solid #e5e7eb;
+      border-radius: 8px;
+      background: white;
+      color: #333;
+      font-size: 0.95rem;
+      cursor: pointer;
+    }
+
+    .annotation-shortcut {
+      margin-left: 0.375rem;
+      font-size: 0.8rem;
+      color: #6b7280;
+    }
+
+    .annotation-overlay {
+      position: fixed;
+      inset: 0;
+      z-index: 900;
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      justify-content: center;
+      gap: 0.75rem;
+      padding: 1rem;
+      background: rgba(17, 24, 39, 0.92);
+    }
+
+    .annotation-toolbar {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 0.5rem;
+      padding: 0.5rem 0.75rem;
+      border-radius: 8px;
+      background: white;
+    }
+
+    .annotation-button {
+      padding: 0.375rem 0.75rem;
+      border: 2px solid #e5e7eb;
+      border-radius: 6px;
+      background: white;
+      color: #333;
+      font-size: 0.9rem;
+      cursor: pointer;
+    }
+
+    .annotation-button[aria-pressed='true'] {
+      border-color: #667eea;
+      background: #eef2ff;
+    }
+
+    .annotation-button.is-done {
+      background: #667eea;
+      border-color: #667eea;
+      color: white;
+    }
+
+    .annotation-swatch {
+      width: 1.75rem;
+      height: 1.75rem;
+      border: 2px solid #e5e7eb;
+      border-radius: 50%;
+      cursor: pointer;
+    }
+
+    .annotation-swatch[aria-pressed='true'] {
+      outline: 3px solid #667eea;
+      outline-offset: 2px;
+    }
+
+    .annotation-divider {
+      width: 1px;
+      align-self: stretch;
+      background: #e5e7eb;
+    }
+
+    .annotation-field {
+      display: flex;
+      align-items: center;
+      gap: 0.375rem;
+      font-size: 0.9rem;
+      color: #4b5563;
+    }
+
+    .annotation-select {
+      padding: 0.25rem;
+      font-size: 0.9rem;
+      border: 2px solid #e5e7eb;
+      border-radius: 6px;
+      background: white;
+      color: #333;
+    }
+
+    .annotation-open:focus-visible,
+    .annotation-button:focus-visible,
+    .annotation-swatch:focus-visible,
+    .annotation-select:focus {
+      outline: 3px solid #667eea;
+      outline-offset: 2px;
+    }
+
+    .annotation-surface {
+      max-width: 100%;
+      max-height: calc(100vh - 9rem);
+      border-radius: 8px;
+      cursor: crosshair;
+      touch-action: none;
+    }
+
+    .annotation-hint {
+      margin: 0;
+      color: #d1d5db;
+      font-size: 0.9rem;
+    }
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  host: {
+    '(document:keydown.escape)': 'onEscape()',
+  },
+})
+export class AnnotationLayerComponent {
+  private readonly annotations = inject(AnnotationService);
+  private readonly videoCompositor = inject(VideoCompositorService);
+  private readonly shortcuts = inject(ShortcutService);
+
+  readonly settings = this.annotations.settings;
+  readonly isActive = this.annotations.isActive;
+
+  readonly outputStream = computed(() => {
+    const track = this.videoCompositor.outputTrack();
+    return track ? new MediaStream([track]) : null;
+  });
+
+  readonly toggleShortcut = computed(() =>
+    this.shortcuts.formatBinding(this.shortcuts.bindings()['toggle-annotations']),
+  );
+  readonly clearShortcut = computed(() =>
+    this.shortcuts.formatBinding(this.shortcuts.bindings()['clear-annotations']),
+  );
+
+  readonly tools: { value: AnnotationTool; label: string }[] = [
+    { value: 'pen', label: 'Pen' },
+    { value: 'highlighter', label: 'Highlighter' },
+    { value: 'arrow', label: 'Arrow' },
+    { value: 'rectangle', label: 'Rectangle' },
+  ];
+
+  readonly colors: { value: string; label: string }[] = [
+    { value: '#ef4444', label: 'Red' },
+    { value: '#facc15', label: 'Yellow' },
+    { value: '#22c55e', label: 'Green' },
+    { value: '#3b82f6', label: 'Blue' },
+    { value: '#ffffff', label: 'White' },
+  ];
+
+  readonly fadeOptions: { value: number; label: string }[] = [
+    { value: 3, label: '3 s' },
+    { value: 5, label: '5 s' },
+    { value: 10, label: '10 s' },
+    { value: 0, label: 'Never' },
+  ];
+
+  onEscape(): void {
+    if (this.isActive()) {
+      this.annotations.setActive(false);
+    }
+  }
+
+  onToggle(): void {
+    this.annotations.toggleActive();
+  }
+
+  onClear(): void {
+    this.annotations.clear();
+  }
+
+  async onSelectTool(tool: AnnotationTool): Promise<void> {
+    await this.annotations.setTool(tool);
+  }
+
+  async onSelectColor(color: string): Promise<void> {
+    await this.annotations.setColor(color);
+  }
+
+  async onFadeChange(event: Event): Promise<void> {
+    const target = event.target as HTMLSelectElement;
+    await this.annotations.setFadeSeconds(Number(target.value));
+  }
+
+  onPointerDown(event: PointerEvent): void {
+    if (event.button !== 0) {
+      return;
+    }
+
+    (event.target as HTMLElement).setPointerCapture(event.pointerId);
+    this.annotations.beginStroke(this.toPoint(event));
+  }
+
+  onPointerMove(event: PointerEvent): void {
+    if (event.buttons & 1) {
+      this.annotations.extendStroke(this.toPoint(event));
+    }
+  }
+
+  onPointerUp(): void {
+    this.annotations.endStroke();
+  }
+
+  /**
+   * The surface keeps the video's aspect ratio, so its box maps straight onto the frame
+   */
+  private toPoint(event: PointerEvent): AnnotationPoint {
+    const surface = event.target as HTMLElement;
+    return {
+      x: Math.min(1, Math.max(0, event.offsetX / surface.clientWidth)),
+      y: Math.min(1, Math.max(0, event.offsetY / surface.clientHeight)),
+    };
+  }
+}
@@ -0,0 +1,114 @@
+import { ChangeDetectionStrategy, Component, computed, inject } from '@angular/core';
+import { AudioMixerService } from '../services/recording/audio-mixer.service';
+import { MediaDevicesService } from '../services/recording/media-devices.service';
+
+/**
+ * Per-source level controls for the recording audio mix
+ */
+@Component({
+  selector: 'app-audio-mix-settings',
+  template: `
+    <fieldset class="mix-settings">
+      <legend class="mix-legend">Audio levels</legend>
+
+      @if (showMicrophone()) {
+        <label class="mix-field" for="microphone-gain-input">
+          <span>Microphone</span>
+          <input
+            id="microphone-gain-input"
+            type="range"
+            min="0"
+            max="2"
+            step="0.05"
+            [value]="levels().microphoneGain"
+            (input)="onMicrophoneGainChange($event)"
+            [attr.aria-valuetext]="formatGain(levels().microphoneGain)"
+          />
+          <span class="mix-value">{{ formatGain(levels().microphoneGain) }}</span>
+        </label>
+      }
+
+      @if (showSystemAudio()) {
+        <label class="mix-field" for="system-audio-gain-input">
+          <span>System/tab audio</span>
+          <input
+            id="system-audio-gain-input"
+            type="range"
+            min="0"
+            max="2"
+            step="0.05"
+            [value]="levels().systemAudioGain"
+            (input)="onSystemAudioGainChange($event)"
+            [attr.aria-valuetext]="formatGain(levels().systemAudioGain)"
+          />
+          <span class="mix-value">{{ formatGain(levels().systemAudioGain) }}</span>
+        </label>
+      }
+    </fieldset>
+  `,
+  styles: `
+    .mix-settings {
+      border: 2px solid #e5e7eb;
+      border-radius: 8px;
+      padding: 0.75rem 1rem 1rem;
+      margin: 0 0 1.5rem;
+      display: flex;
+      flex-direction: column;
+      gap: 0.5rem;
+      text-align: left;
+    }
+
+    .mix-legend {
+      font-weight: 600;
+      color: #333;
+      padding: 0 0.25rem;
+    }
+
+    .mix-field {
+      display: grid;
+      grid-template-columns: 9rem 1fr 3.5rem;
+      align-items: center;
+      gap: 0.75rem;
+      font-size: 0.95rem;
+      color: #4b5563;
+    }
+
+    .mix-field input {
+      accent-color: #667eea;
+    }
+
+    .mix-value {
+      text-align: right;
+      font-variant-numeric: tabular-nums;
+    }
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class AudioMixSettingsComponent {
+  private readonly audioMixer = inject(AudioMixerService);
+  private readonly mediaDevices = inject(MediaDevicesService);
+
+  readonly levels = this.audioMixer.mixLevels;
+
+  readonly showMicrophone = computed(
+    () =>
+      this.mediaDevices.microphoneEnabled() && this.mediaDevices.selectedMicrophoneKey() !== null,
+  );
+  readonly showSystemAudio = computed(
+    () => this.mediaDevices.screenSharingEnabled() && this.mediaDevices.systemAudioEnabled(),
+  );
+
+  async onMicrophoneGainChange(event: Event): Promise<void> {
+    const target = event.target as HTMLInputElement;
+    await this.audioMixer.setMicrophoneGain(Number(target.value));
+  }
+
+  async onSystemAudioGainChange(event: Event): Promise<void> {
+    const target = event.target as HTMLInputElement;
+    await this.audioMixer.setSystemAudioGain(Number(target.value));
+  }
+
+  formatGain(gain: number): string {
+    return `${Math.round(gain * 100)}%`;
+  }
+}
@@ -0,0 +1,152 @@
+import { ChangeDetectionStrategy, Component, inject } from '@angular/core';
+import { VideoCompositorService } from '../services/recording/video-compositor.service';
+import { CameraBubbleCorner, CameraBubbleShape, CameraBubbleSize } from '../models/media.models';
+
+/**
+ * Layout controls for the camera bubble drawn over screen recordings
+ */
+@Component({
+  selector: 'app-camera-bubble-settings',
+  template: `
+    <fieldset class="bubble-settings">
+      <legend class="bubble-legend">Camera bubble</legend>
+
+      <label class="bubble-field" for="bubble-corner-select">
+        <span>Corner</span>
+        <select
+          id="bubble-corner-select"
+          class="bubble-select"
+          [value]="settings().corner"
+          (change)="onCornerChange($event)"
+        >
+          @for (option of cornerOptions; track option.value) {
+            <option [value]="option.value">{{ option.label }}</option>
+          }
+        </select>
+      </label>
+
+      <label class="bubble-field" for="bubble-size-select">
+        <span>Size</span>
+        <select
+          id="bubble-size-select"
+          class="bubble-select"
+          [value]="settings().size"
+          (change)="onSizeChange($event)"
+        >
+          @for (option of sizeOptions; track option.value) {
+            <option [value]="option.value">{{ option.label }}</option>
+          }
+        </select>
+      </label>
+
+      <label class="bubble-field" for="bubble-shape-select">
+        <span>Shape</span>
+        <select
+          id="bubble-shape-select"
+          class="bubble-select"
+          [value]="settings().shape"
+          (change)="onShapeChange($event)"
+        >
+          @for (option of shapeOptions; track option.value) {
+            <option [value]="option.value">{{ option.label }}</option>
+          }
+        </select>
+      </label>
+
+      <p class="bubble-note">Use the camera toggle to hide or show the bubble while recording.</p>
+    </fieldset>
+  `,
+  styles: `
+    .bubble-settings {
+      border: 2px solid #e5e7eb;
+      border-radius: 8px;
+      padding: 0.75rem 1rem 1rem;
+      margin: 0.75rem 0 0;
+      display: grid;
+      grid-template-columns: repeat(3, 1fr);
+      gap: 0.75rem;
+      text-align: left;
+    }
+
+    .bubble-legend {
+      font-weight: 600;
+      color: #333;
+      padding: 0 0.25rem;
+    }
+
+    .bubble-field {
+      display: flex;
+      flex-direction: column;
+      gap: 0.25rem;
+      font-size: 0.95rem;
+      color: #4b5563;
+    }
+
+    .bubble-select {
+      padding: 0.5rem;
+      font-size: 0.95rem;
+      border: 2px solid #e5e7eb;
+      border-radius: 8px;
+      background: white;
+      color: #333;
+    }
+
+    .bubble-select:focus {
+      outline: 3px solid #667eea;
+      outline-offset: 2px;
+      border-color: #667eea;
+    }
+
+    .bubble-note {
+      grid-column: 1 / -1;
+      margin: 0;
+      font-size: 0.9rem;
+      color: #4b5563;
+    }
+
+    @media (max-width: 768px) {
+      .bubble-settings {
+        grid-template-columns: 1fr;
+      }
+    }
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class CameraBubbleSettingsComponent {
+  private readonly videoCompositor = inject(VideoCompositorService);
+
+  readonly settings = this.videoCompositor.bubbleSettings;
+
+  readonly cornerOptions: { value: CameraBubbleCorner; label: string }[] = [
+    { value: 'top-left', label: 'Top left' },
+    { value: 'top-right', label: 'Top right' },
+    { value: 'bottom-left', label: 'Bottom left' },
+    { value: 'bottom-right', label: 'Bottom right' },
+  ];
+
+  readonly sizeOptions: { value: CameraBubbleSize; label: string }[] = [
+    { value: 'small', label: 'Small' },
+    { value: 'medium', label: 'Medium' },
+    { value: 'large', label: 'Large' },
+  ];
+
+  readonly shapeOptions: { value: CameraBubbleShape; label: string }[] = [
+    { value: 'circle', label: 'Circle' },
+    { value: 'rounded', label: 'Rounded square' },
+  ];
+
+  async onCornerChange(event: Event): Promise<void> {
+    const target = event.target as HTMLSelectElement;
+    await this.videoCompositor.setBubbleCorner(target.value as CameraBubbleCorner);
+  }
+
+  async onSizeChange(event: Event): Promise<void> {
+    const target = event.target as HTMLSelectElement;
+    await this.videoCompositor.setBubbleSize(target.value as CameraBubbleSize);
+  }
+
+  async onShapeChange(event: Event): Promise<void> {
+    const target = event.target as HTMLSelectElement;
+    await this.videoCompositor.setBubbleShape(target.value as CameraBubbleShape);
+  }
+}
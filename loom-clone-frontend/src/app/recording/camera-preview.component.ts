@@ -0,0 +1,253 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  DestroyRef,
+  computed,
+  effect,
+  inject,
+  signal,
+  untracked,
+} from '@angular/core';
+import { CameraMirrorMode } from '../models/media.models';
+import { CameraPreviewService } from '../services/recording/camera-preview.service';
+import { MediaDevicesService } from '../services/recording/media-devices.service';
+
+/**
+ * Live preview of the selected camera with mirroring and framing guides
+ * Uses the camera stream shared with the recording session, so it keeps running while recording
+ */
+@Component({
+  selector: 'app-camera-preview',
+  template: `
+    <div class="preview-frame" [class.is-mirrored]="mirrorPreview()">
+      @if (stream()) {
+        <video
+          class="preview-video"
+          [srcObject]="stream()"
+          autoplay
+          muted
+          playsinline
+          aria-label="Camera preview"
+        ></video>
+      } @else {
+        <p class="preview-placeholder">{{ placeholder() }}</p>
+      }
+
+      @if (showGuides() && stream()) {
+        <div class="preview-guides" aria-hidden="true">
+          <span class="guide-line guide-vertical" style="left: 33.333%"></span>
+          <span class="guide-line guide-vertical" style="left: 66.667%"></span>
+          <span class="guide-line guide-horizontal" style="top: 33.333%"></span>
+          <span class="guide-line guide-horizontal" style="top: 66.667%"></span>
+          <span class="guide-face"></span>
+        </div>
+      }
+    </div>
+
+    <div class="preview-controls">
+      <label class="preview-field" for="camera-mirror-select">
+        <span>Mirror</span>
+        <select
+          id="camera-mirror-select"
+          class="preview-select"
+          [value]="mirror()"
+          (change)="onMirrorChange($event)"
+        >
+          @for (option of mirrorOptions; track option.value) {
+            <option [value]="option.value">{{ option.label }}</option>
+          }
+        </select>
+      </label>
+
+      <label class="preview-toggle" for="camera-guides-toggle">
+        <input
+          id="camera-guides-toggle"
+          type="checkbox"
+          [checked]="showGuides()"
+          (change)="onGuidesChange($event)"
+        />
+        <span>Framing guides</span>
+      </label>
+    </div>
+  `,
+  styles: `
+    :host {
+      display: block;
+      margin-top: 0.75rem;
+    }
+
+    .preview-frame {
+      position: relative;
+      aspect-ratio: 16 / 9;
+      border-radius: 8px;
+      overflow: hidden;
+      background: #111827;
+    }
+
+    .preview-video {
+      width: 100%;
+      height: 100%;
+      object-fit: cover;
+      display: block;
+    }
+
+    .is-mirrored .preview-video {
+      transform: scaleX(-1);
+    }
+
+    .preview-placeholder {
+      position: absolute;
+      inset: 0;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      margin: 0;
+      padding: 1rem;
+      color: #d1d5db;
+      font-size: 0.9rem;
+      text-align: center;
+    }
+
+    .preview-guides {
+      position: absolute;
+      inset: 0;
+      pointer-events: none;
+    }
+
+    .guide-line {
+      position: absolute;
+      background: rgba(255, 255, 255, 0.45);
+    }
+
+    .guide-vertical {
+      top: 0;
+      bottom: 0;
+      width: 1px;
+    }
+
+    .guide-horizontal {
+      left: 0;
+      right: 0;
+      height: 1px;
+    }
+
+    .guide-face {
+      position: absolute;
+      left: 50%;
+      top: 12%;
+      width: 26%;
+      height: 56%;
+      transform: translateX(-50%);
+      border: 2px dashed rgba(255, 255, 255, 0.7);
+      border-radius: 50%;
+    }
+
+    .preview-controls {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 1rem;
+      margin-top: 0.5rem;
+      font-size: 0.9rem;
+      color: #4b5563;
+    }
+
+    .preview-field,
+    .preview-toggle {
+      display: flex;
+      align-items: center;
+      gap: 0.375rem;
+    }
+
+    .preview-select {
+      padding: 0.25rem;
+      font-size: 0.9rem;
+      border: 2px solid #e5e7eb;
+      border-radius: 6px;
+      background: white;
+      color: #333;
+    }
+
+    .preview-select:focus {
+      outline: 3px solid #667eea;
+      outline-offset: 2px;
+      border-color: #667eea;
+    }
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class CameraPreviewComponent {
+  private readonly cameraPreview = inject(CameraPreviewService);
+  private readonly mediaDevices = inject(MediaDevicesService);
+  private readonly _previewError = signal<string | null>(null);
+
+  readonly stream = this.cameraPreview.stream;
+  readonly mirrorPreview = this.cameraPreview.mirrorPreview;
+  readonly mirror = computed(() => this.cameraPreview.settings().mirror);
+  readonly showGuides = computed(() => this.cameraPreview.settings().showGuides);
+
+  readonly placeholder = computed(
+    () => this._previewError() ?? 'Grant camera access to see the preview.',
+  );
+
+  readonly mirrorOptions: { value: CameraMirrorMode; label: string }[] = [
+    { value: 'preview', label: 'Preview only' },
+    { value: 'preview-and-output', label: 'Preview and recording' },
+    { value: 'off', label: 'Off' },
+  ];
+
+  constructor() {
+    effect(() => {
+      const camera = this.mediaDevices.selectedCamera();
+      // A grant made after the preview appeared is what makes the camera available
+      const granted = this.mediaDevices.hasDevicePermission();
+
+      untracked(() => {
+        if (camera) {
+          void this.openPreview(camera.deviceId.trim(), granted);
+        } else {
+          this.cameraPreview.release('preview');
+        }
+      });
+    });
+
+    inject(DestroyRef).onDestroy(() => this.cameraPreview.release('preview'));
+  }
+
+  async onMirrorChange(event: Event): Promise<void> {
+    const target = event.target as HTMLSelectElement;
+    await this.cameraPreview.setMirror(target.value as CameraMirrorMode);
+  }
+
+  async onGuidesChange(event: Event): Promise<void> {
+    const target = event.target as HTMLInputElement;
+    await this.cameraPreview.setShowGuides(target.checked);
+  }
+
+  /**
+   * Only opens the camera when access was already granted, so the preview never prompts
+   */
+  private async openPreview(deviceId: string, granted: boolean): Promise<void> {
+    if (!granted && !(await this.hasCameraAccess())) {
+      return;
+    }
+
+    try {
+      this._previewError.set(null);
+      await this.cameraPreview.acquire('preview', deviceId);
+    } catch (error) {
+      if (!(error instanceof DOMException && error.name === 'AbortError')) {
+        this._previewError.set('Camera preview is unavailable. The camera may be in use.');
+      }
+    }
+  }
+
+  private async hasCameraAccess(): Promise<boolean> {
+    try {
+      const status = await navigator.permissions.query({ name: 'camera' as PermissionName });
+      return status.state === 'granted';
+    } catch {
+      return false;
+    }
+  }
+}
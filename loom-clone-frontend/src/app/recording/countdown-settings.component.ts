@@ -0,0 +1,77 @@
+import { ChangeDetectionStrategy, Component, inject, input } from '@angular/core';
+import { RecordingSessionService } from '../services/recording/recording-session.service';
+
+/**
+ * Picker for the countdown shown before recording starts
+ */
+@Component({
+  selector: 'app-countdown-settings',
+  template: `
+    <label class="countdown-field" for="countdown-select">
+      <span class="countdown-label">Countdown</span>
+      <select
+        id="countdown-select"
+        class="countdown-select"
+        [value]="seconds()"
+        [disabled]="disabled()"
+        (change)="onSecondsChange($event)"
+      >
+        @for (option of secondsOptions; track option.value) {
+          <option [value]="option.value">{{ option.label }}</option>
+        }
+      </select>
+    </label>
+  `,
+  styles: `
+    :host {
+      display: block;
+      margin-top: 1rem;
+      text-align: left;
+    }
+
+    .countdown-field {
+      display: flex;
+      flex-direction: column;
+      gap: 0.25rem;
+    }
+
+    .countdown-label {
+      font-weight: 600;
+      color: #333;
+    }
+
+    .countdown-select {
+      padding: 0.5rem;
+      font-size: 0.95rem;
+      border: 2px solid #e5e7eb;
+      border-radius: 8px;
+      background: white;
+      color: #333;
+    }
+
+    .countdown-select:focus {
+      outline: 3px solid #667eea;
+      outline-offset: 2px;
+      border-color: #667eea;
+    }
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class CountdownSettingsComponent {
+  private readonly recordingSession = inject(RecordingSessionService);
+
+  readonly seconds = this.recordingSession.countdownSeconds;
+  readonly disabled = input(false);
+
+  readonly secondsOptions: { value: number; label: string }[] = [
+    { value: 0, label: 'Off' },
+    { value: 3, label: '3 seconds' },
+    { value: 5, label: '5 seconds' },
+    { value: 10, label: '10 seconds' },
+  ];
+
+  async onSecondsChange(event: Event): Promise<void> {
+    const target = event.target as HTMLSelectElement;
+    await this.recordingSession.setCountdownSeconds(Number(target.value));
+  }
+}
@@ -0,0 +1,303 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  ElementRef,
+  Injector,
+  afterNextRender,
+  inject,
+  signal,
+  viewChild,
+} from '@angular/core';
+import { ShortcutAction } from '../models/media.models';
+import { ShortcutService } from '../services/recording/shortcut.service';
+
+/**
+ * Keyboard shortcut help and editor
+ * Opens with "?" or its button; each binding can be re-recorded, cleared or reset to defaults
+ */
+@Component({
+  selector: 'app-keyboard-shortcuts',
+  template: `
+    <button type="button" class="shortcuts-open" (click)="onOpen()">
+      ⌨️ Keyboard shortcuts <span class="shortcuts-hint">?</span>
+    </button>
+
+    @if (isOpen()) {
+      <div class="shortcuts-backdrop" aria-hidden="true"></div>
+      <div
+        #dialog
+        class="shortcuts-panel"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcuts-title"
+        tabindex="-1"
+      >
+        <h3 id="shortcuts-title" class="shortcuts-title">Keyboard shortcuts</h3>
+
+        <ul class="shortcuts-list">
+          @for (action of actions; track action.value) {
+            <li class="shortcuts-row">
+              <span class="shortcuts-label">{{ action.label }}</span>
+              @if (capturingAction() === action.value) {
+                <kbd class="shortcuts-key is-capturing" aria-live="polite">Press keys…</kbd>
+              } @else {
+                <kbd class="shortcuts-key">{{ formatBinding(bindings()[action.value]) }}</kbd>
+              }
+              <button
+                type="button"
+                class="shortcuts-button"
+                [attr.aria-label]="'Change shortcut for ' + action.label"
+                (click)="onCapture(action.value)"
+              >
+                Change
+              </button>
+              <button
+                type="button"
+                class="shortcuts-button"
+                [attr.aria-label]="'Remove shortcut for ' + action.label"
+                [disabled]="!bindings()[action.value]"
+                (click)="onUnbind(action.value)"
+              >
+                Clear
+              </button>
+            </li>
+          }
+        </ul>
+
+        @if (bindingError(); as error) {
+          <p class="shortcuts-error" role="alert">{{ error }}</p>
+        }
+
+        <p class="shortcuts-note">
+          Shortcuts work while this page has focus. Media keys and the browser's microphone and
+          camera controls also start, pause and toggle the recording where supported.
+        </p>
+
+        <div class="shortcuts-actions">
+          <button type="button" class="shortcuts-button" (click)="onReset()">
+            Reset to defaults
+          </button>
+          <button type="button" class="shortcuts-button is-primary" (click)="onClose()">
+            Close
+          </button>
+        </div>
+      </div>
+    }
+  `,
+  styles: `
+    :host {
+      display: block;
+      margin-top: 0.75rem;
+    }
+
+    .shortcuts-open {
+      padding: 0.375rem 0.75rem;
+      border: 2px solid #e5e7eb;
+      border-radius: 8px;
+      background: white;
+      color: #333;
+      font-size: 0.9rem;
+      cursor: pointer;
+    }
+
+    .shortcuts-hint {
+      margin-left: 0.25rem;
+      font-size: 0.8rem;
+      color: #6b7280;
+    }
+
+    .shortcuts-backdrop {
+      position: fixed;
+      inset: 0;
+      z-index: 950;
+      background: rgba(17, 24, 39, 0.6);
+    }
+
+    .shortcuts-panel {
+      position: fixed;
+      top: 50%;
+      left: 50%;
+      z-index: 951;
+      width: min(36rem, calc(100vw - 2rem));
+      max-height: calc(100vh - 2rem);
+      overflow-y: auto;
+      transform: translate(-50%, -50%);
+      padding: 1.25rem 1.5rem;
+      border-radius: 12px;
+      background: white;
+      text-align: left;
+    }
+
+    .shortcuts-title {
+      margin: 0 0 0.75rem;
+      color: #333;
+    }
+
+    .shortcuts-list {
+      list-style: none;
+      margin: 0;
+      padding: 0;
+    }
+
+    .shortcuts-row {
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+      padding: 0.375rem 0;
+      border-bottom: 1px solid #f3f4f6;
+    }
+
+    .shortcuts-label {
+      flex: 1;
+      color: #4b5563;
+    }
+
+    .shortcuts-key {
+      min-width: 7rem;
+      padding: 0.125rem 0.5rem;
+      border: 1px solid #d1d5db;
+      border-radius: 6px;
+      background: #f9fafb;
+      font-family: inherit;
+      font-size: 0.85rem;
+      text-align: center;
+    }
+
+    .shortcuts-key.is-capturing {
+      border-color: #667eea;
+      color: #667eea;
+    }
+
+    .shortcuts-button {
+      padding: 0.25rem 0.625rem;
+      border: 2px solid #e5e7eb;
+      border-radius: 6px;
+      background: white;
+      color: #333;
+      font-size: 0.85rem;
+      cursor: pointer;
+    }
+
+    .shortcuts-button:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+
+    .shortcuts-button.is-primary {
+      background: #667eea;
+      border-color: #667eea;
+      color: white;
+    }
+
+    .shortcuts-open:focus-visible,
+    .shortcuts-button:focus-visible {
+      outline: 3px solid #667eea;
+      outline-offset: 2px;
+    }
+
+    .shortcuts-error {
+      margin: 0.75rem 0 0;
+      padding: 0.5rem 0.75rem;
+      border-radius: 8px;
+      background: #fee2e2;
+      color: #991b1b;
+      font-size: 0.9rem;
+    }
+
+    .shortcuts-note {
+      margin: 0.75rem 0 0;
+      font-size: 0.85rem;
+      color: #6b7280;
+    }
+
+    .shortcuts-actions {
+      display: flex;
+      justify-content: flex-end;
+      gap: 0.5rem;
+      margin-top: 1rem;
+    }
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  host: {
+    '(document:keydown)': 'onKeydown($event)',
+  },
+})
+export class KeyboardShortcutsComponent {
+  private readonly shortcuts = inject(ShortcutService);
+  private readonly injector = inject(Injector);
+  private readonly dialog = viewChild<ElementRef<HTMLElement>>('dialog');
+  private readonly _isOpen = signal(false);
+  private readonly _capturingAction = signal<ShortcutAction | null>(null);
+
+  readonly isOpen = this._isOpen.asReadonly();
+  readonly capturingAction = this._capturingAction.asReadonly();
+  readonly actions = this.shortcuts.actions;
+  readonly bindings = this.shortcuts.bindings;
+  readonly bindingError = this.shortcuts.bindingError;
+
+  formatBinding(binding: string | null): string {
+    return this.shortcuts.formatBinding(binding);
+  }
+
+  onOpen(): void {
+    this._isOpen.set(true);
+    afterNextRender(() => this.dialog()?.nativeElement.focus(), { injector: this.injector });
+  }
+
+  onClose(): void {
+    this.stopCapture();
+    this._isOpen.set(false);
+  }
+
+  onCapture(action: ShortcutAction): void {
+    this._capturingAction.set(action);
+    this.shortcuts.setCapturing(true);
+  }
+
+  async onUnbind(action: ShortcutAction): Promise<void> {
+    this.stopCapture();
+    await this.shortcuts.setBinding(action, null);
+  }
+
+  async onReset(): Promise<void> {
+    this.stopCapture();
+    await this.shortcuts.resetBindings();
+  }
+
+  async onKeydown(event: KeyboardEvent): Promise<void> {
+    const action = this._capturingAction();
+    if (action) {
+      event.preventDefault();
+      if (event.key === 'Escape') {
+        this.stopCapture();
+        return;
+      }
+
+      const binding = this.shortcuts.bindingFromEvent(event);
+      if (binding) {
+        this.stopCapture();
+        await this.shortcuts.setBinding(action, binding);
+      }
+      return;
+    }
+
+    if (this._isOpen() && event.key === 'Escape') {
+      this.onClose();
+    } else if (!this._isOpen() && event.key === '?' && !this.isTyping(event.target)) {
+      event.preventDefault();
+      this.onOpen();
+    }
+  }
+
+  private stopCapture(): void {
+    this._capturingAction.set(null);
+    this.shortcuts.setCapturing(false);
+  }
+
+  private isTyping(target: EventTarget | null): boolean {
+    return (
+      target instanceof HTMLElement &&
+      (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+    );
+  }
+}
@@ -0,0 +1,184 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  DestroyRef,
+  computed,
+  effect,
+  inject,
+  untracked,
+} from '@angular/core';
+import { MediaDevicesService } from '../services/recording/media-devices.service';
+import { MicrophoneLevelService } from '../services/recording/microphone-level.service';
+import { RecordingSessionService } from '../services/recording/recording-session.service';
+
+/**
+ * Live microphone level with silent-mic and speaking-while-muted warnings
+ * Previews the selected microphone while idle and shows the recording microphone while recording
+ */
+@Component({
+  selector: 'app-microphone-level-meter',
+  template: `
+    <div class="level-row">
+      <div
+        class="level-track"
+        role="meter"
+        aria-label="Microphone level"
+        aria-valuemin="0"
+        aria-valuemax="100"
+        [attr.aria-valuenow]="percent()"
+      >
+        <div class="level-fill" [style.transform]="'scaleX(' + level() + ')'"></div>
+      </div>
+
+      <label class="level-setting" for="silence-warning-select">
+        <span>Warn after</span>
+        <select
+          id="silence-warning-select"
+          class="level-select"
+          [value]="silenceWarningSeconds()"
+          (change)="onSilenceWarningChange($event)"
+        >
+          @for (option of silenceOptions; track option.value) {
+            <option [value]="option.value">{{ option.label }}</option>
+          }
+        </select>
+      </label>
+    </div>
+
+    @if (!isMonitoring() && microphoneEnabled()) {
+      <p class="level-note">Grant microphone access to see the input level.</p>
+    }
+
+    @if (warningMessage(); as message) {
+      <p class="level-warning" role="alert">
+        <span aria-hidden="true">⚠️</span>
+        {{ message }}
+      </p>
+    }
+  `,
+  styles: `
+    :host {
+      display: block;
+      margin-top: 0.5rem;
+      text-align: left;
+    }
+
+    .level-row {
+      display: flex;
+      align-items: center;
+      gap: 0.75rem;
+    }
+
+    .level-track {
+      flex: 1;
+      height: 0.625rem;
+      border-radius: 999px;
+      background: #e5e7eb;
+      overflow: hidden;
+    }
+
+    .level-fill {
+      height: 100%;
+      background: linear-gradient(90deg, #10b981 0%, #10b981 70%, #f59e0b 85%, #ef4444 100%);
+      transform-origin: left;
+      transition: transform 0.1s linear;
+    }
+
+    .level-setting {
+      display: flex;
+      align-items: center;
+      gap: 0.375rem;
+      font-size: 0.85rem;
+      color: #4b5563;
+    }
+
+    .level-select {
+      padding: 0.25rem;
+      font-size: 0.85rem;
+      border: 2px solid #e5e7eb;
+      border-radius: 6px;
+      background: white;
+      color: #333;
+    }
+
+    .level-select:focus {
+      outline: 3px solid #667eea;
+      outline-offset: 2px;
+      border-color: #667eea;
+    }
+
+    .level-note {
+      margin: 0.375rem 0 0;
+      font-size: 0.85rem;
+      color: #4b5563;
+    }
+
+    .level-warning {
+      margin: 0.5rem 0 0;
+      padding: 0.5rem 0.75rem;
+      border-radius: 8px;
+      background: #fef3c7;
+      color: #92400e;
+      font-size: 0.9rem;
+    }
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class MicrophoneLevelMeterComponent {
+  private readonly microphoneLevel = inject(MicrophoneLevelService);
+  private readonly mediaDevices = inject(MediaDevicesService);
+  private readonly recordingSession = inject(RecordingSessionService);
+
+  readonly level = this.microphoneLevel.level;
+  readonly isMonitoring = this.microphoneLevel.isMonitoring;
+  readonly microphoneEnabled = this.mediaDevices.microphoneEnabled;
+  readonly percent = computed(() => Math.round(this.level() * 100));
+  readonly silenceWarningSeconds = computed(
+    () => this.microphoneLevel.settings().silenceWarningSeconds,
+  );
+
+  readonly silenceOptions: { value: number; label: string }[] = [
+    { value: 5, label: '5 s silence' },
+    { value: 10, label: '10 s silence' },
+    { value: 30, label: '30 s silence' },
+    { value: 0, label: 'Never' },
+  ];
+
+  readonly warningMessage = computed(() => {
+    switch (this.microphoneLevel.warning()) {
+      case 'silent':
+        return `No sound from the microphone for ${this.silenceWarningSeconds()} seconds. Check that the right input is selected and not muted.`;
+      case 'speaking-while-muted':
+        return 'You seem to be speaking, but the microphone is turned off.';
+      default:
+        return null;
+    }
+  });
+
+  constructor() {
+    // The recording session meters its own microphone track; preview only while idle
+    effect(() => {
+      const status = this.recordingSession.recordingStatus();
+      const microphone = this.mediaDevices.selectedMicrophone();
+      const enabled = this.mediaDevices.microphoneEnabled();
+      // Re-checked after an explicit grant, which makes the preview possible
+      this.mediaDevices.hasDevicePermission();
+      const idle = status === 'idle' || status === 'error';
+
+      untracked(() => {
+        if (idle && enabled && microphone) {
+          void this.microphoneLevel.startPreview(microphone.deviceId.trim());
+        } else if (idle) {
+          this.microphoneLevel.stopPreview();
+        }
+      });
+    });
+
+    inject(DestroyRef).onDestroy(() => this.microphoneLevel.stopPreview());
+  }
+
+  async onSilenceWarningChange(event: Event): Promise<void> {
+    const target = event.target as HTMLSelectElement;
+    await this.microphoneLevel.setSilenceWarningSeconds(Number(target.value));
+  }
+}
@@ -0,0 +1,206 @@
+import { ChangeDetectionStrategy, Component, computed, inject } from '@angular/core';
+import { MicrophoneProcessingSettings } from '../models/media.models';
+import { MediaDevicesService } from '../services/recording/media-devices.service';
+
+type ProcessingToggle = 'noiseSuppression' | 'echoCancellation' | 'autoGainControl';
+
+/**
+ * Per-microphone noise suppression, echo cancellation, auto gain, sample rate and channels
+ * Shows what the browser actually applied next to what was asked for
+ */
+@Component({
+  selector: 'app-microphone-processing-settings',
+  template: `
+    <fieldset class="processing-settings">
+      <legend class="processing-legend">Microphone processing</legend>
+
+      @for (toggle of toggles; track toggle.value) {
+        <label class="processing-toggle" [for]="'processing-' + toggle.value">
+          <input
+            [id]="'processing-' + toggle.value"
+            type="checkbox"
+            [checked]="processing()[toggle.value]"
+            (change)="onToggleChange(toggle.value, $event)"
+          />
+          <span>{{ toggle.label }}</span>
+          <span class="processing-applied">{{ appliedToggle(toggle.value) }}</span>
+        </label>
+      }
+
+      <label class="processing-field" for="processing-sample-rate">
+        <span>Sample rate</span>
+        <select
+          id="processing-sample-rate"
+          class="processing-select"
+          [value]="processing().sampleRate ?? ''"
+          (change)="onSampleRateChange($event)"
+        >
+          @for (option of sampleRateOptions; track option.value) {
+            <option [value]="option.value ?? ''">{{ option.label }}</option>
+          }
+        </select>
+        <span class="processing-applied">{{ appliedSampleRate() }}</span>
+      </label>
+
+      <label class="processing-field" for="processing-channels">
+        <span>Channels</span>
+        <select
+          id="processing-channels"
+          class="processing-select"
+          [value]="processing().channelCount ?? ''"
+          (change)="onChannelCountChange($event)"
+        >
+          @for (option of channelOptions; track option.value) {
+            <option [value]="option.value ?? ''">{{ option.label }}</option>
+          }
+        </select>
+        <span class="processing-applied">{{ appliedChannels() }}</span>
+      </label>
+
+      @if (!applied()) {
+        <p class="processing-note">Applied values show once the microphone is open.</p>
+      }
+    </fieldset>
+  `,
+  styles: `
+    .processing-settings {
+      border: 2px solid #e5e7eb;
+      border-radius: 8px;
+      padding: 0.75rem 1rem 1rem;
+      margin: 0.75rem 0 0;
+      display: grid;
+      gap: 0.5rem;
+      text-align: left;
+    }
+
+    .processing-legend {
+      font-weight: 600;
+      color: #333;
+      padding: 0 0.25rem;
+    }
+
+    .processing-toggle,
+    .processing-field {
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+      font-size: 0.95rem;
+      color: #4b5563;
+    }
+
+    .processing-field > span:first-child {
+      min-width: 6.5rem;
+    }
+
+    .processing-select {
+      padding: 0.25rem;
+      font-size: 0.9rem;
+      border: 2px solid #e5e7eb;
+      border-radius: 6px;
+      background: white;
+      color: #333;
+    }
+
+    .processing-select:focus {
+      outline: 3px solid #667eea;
+      outline-offset: 2px;
+      border-color: #667eea;
+    }
+
+    .processing-applied {
+      margin-left: auto;
+      font-size: 0.85rem;
+      color: #6b7280;
+    }
+
+    .processing-note {
+      margin: 0;
+      font-size: 0.85rem;
+      color: #4b5563;
+    }
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class MicrophoneProcessingSettingsComponent {
+  private readonly mediaDevices = inject(MediaDevicesService);
+
+  readonly processing = this.mediaDevices.selectedMicrophoneProcessing;
+  readonly applied = this.mediaDevices.appliedMicrophoneSettings;
+
+  readonly toggles: { value: ProcessingToggle; label: string }[] = [
+    { value: 'noiseSuppression', label: 'Noise suppression' },
+    { value: 'echoCancellation', label: 'Echo cancellation' },
+    { value: 'autoGainControl', label: 'Auto gain' },
+  ];
+
+  readonly sampleRateOptions: { value: number | null; label: string }[] = [
+    { value: null, label: 'Device default' },
+    { value: 16000, label: '16 kHz' },
+    { value: 44100, label: '44.1 kHz' },
+    { value: 48000, label: '48 kHz' },
+  ];
+
+  readonly channelOptions: { value: number | null; label: string }[] = [
+    { value: null, label: 'Device default' },
+    { value: 1, label: 'Mono' },
+    { value: 2, label: 'Stereo' },
+  ];
+
+  readonly appliedSampleRate = computed(() => {
+    const applied = this.applied();
+    if (!applied) {
+      return '';
+    }
+    return applied.sampleRate ? `Using ${applied.sampleRate / 1000} kHz` : 'Not reported';
+  });
+
+  readonly appliedChannels = computed(() => {
+    const applied = this.applied();
+    if (!applied) {
+      return '';
+    }
+
+    switch (applied.channelCount) {
+      case undefined:
+        return 'Not reported';
+      case 1:
+        return 'Using mono';
+      case 2:
+        return 'Using stereo';
+      default:
+        return `Using ${applied.channelCount} channels`;
+    }
+  });
+
+  appliedToggle(setting: ProcessingToggle): string {
+    const applied = this.applied();
+    if (!applied) {
+      return '';
+    }
+
+    const value = applied[setting];
+    return value === undefined ? 'Not reported' : value ? 'Applied: on' : 'Applied: off';
+  }
+
+  async onToggleChange(setting: ProcessingToggle, event: Event): Promise<void> {
+    const target = event.target as HTMLInputElement;
+    const changes: Partial<MicrophoneProcessingSettings> = { [setting]: target.checked };
+    await this.mediaDevices.setMicrophoneProcessing(changes);
+  }
+
+  async onSampleRateChange(event: Event): Promise<void> {
+    await this.mediaDevices.setMicrophoneProcessing({ sampleRate: this.parseOption(event) });
+  }
+
+  async onChannelCountChange(event: Event): Promise<void> {
+    await this.mediaDevices.setMicrophoneProcessing({ channelCount: this.parseOption(event) });
+  }
+
+  /**
+   * The empty option stands for the device default
+   */
+  private parseOption(event: Event): number | null {
+    const value = (event.target as HTMLSelectElement).value;
+    return value === '' ? null : Number(value);
+  }
+}
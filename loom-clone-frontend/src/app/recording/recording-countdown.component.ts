@@ -0,0 +1,112 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  ElementRef,
+  afterNextRender,
+  inject,
+  viewChild,
+} from '@angular/core';
+import { RecordingSessionService } from '../services/recording/recording-session.service';
+
+/**
+ * Full-screen countdown shown between source selection and the recorder starting
+ * Escape or the cancel button abort the recording and release the captured sources
+ */
+@Component({
+  selector: 'app-recording-countdown',
+  template: `
+    <div
+      class="countdown-panel"
+      role="alertdialog"
+      aria-modal="true"
+      aria-labelledby="countdown-title"
+      aria-describedby="countdown-hint"
+    >
+      <p id="countdown-title" class="countdown-title">Recording starts in</p>
+      <p class="countdown-number" aria-live="assertive" aria-atomic="true">
+        {{ remaining() }}
+      </p>
+      <p id="countdown-hint" class="countdown-hint">
+        Switch to the window you want to record. Press Esc to cancel.
+      </p>
+      <button #cancelButton type="button" class="countdown-cancel" (click)="onCancel()">
+        Cancel
+      </button>
+    </div>
+  `,
+  styles: `
+    :host {
+      position: fixed;
+      inset: 0;
+      z-index: 1000;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      background: rgba(17, 24, 39, 0.72);
+    }
+
+    .countdown-panel {
+      min-width: 16rem;
+      padding: 2rem 2.5rem;
+      border-radius: 16px;
+      background: white;
+      text-align: center;
+      box-shadow: 0 20px 50px rgba(0, 0, 0, 0.3);
+    }
+
+    .countdown-title {
+      margin: 0;
+      font-weight: 600;
+      color: #333;
+    }
+
+    .countdown-number {
+      margin: 0.25rem 0;
+      font-size: 5rem;
+      font-weight: 700;
+      line-height: 1.1;
+      color: #667eea;
+      font-variant-numeric: tabular-nums;
+    }
+
+    .countdown-hint {
+      margin: 0 0 1.25rem;
+      font-size: 0.9rem;
+      color: #4b5563;
+    }
+
+    .countdown-cancel {
+      padding: 0.625rem 1.5rem;
+      font-size: 1rem;
+      font-weight: 600;
+      border: 2px solid #e5e7eb;
+      border-radius: 8px;
+      background: white;
+      color: #333;
+      cursor: pointer;
+    }
+
+    .countdown-cancel:focus-visible {
+      outline: 3px solid #667eea;
+      outline-offset: 2px;
+    }
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  host: {
+    '(document:keydown.escape)': 'onCancel()',
+  },
+})
+export class RecordingCountdownComponent {
+  private readonly recordingSession = inject(RecordingSessionService);
+  private readonly cancelButton = viewChild.required<ElementRef<HTMLButtonElement>>('cancelButton');
+
+  readonly remaining = this.recordingSession.countdownRemaining;
+
+  constructor() {
+    afterNextRender(() => this.cancelButton().nativeElement.focus());
+  }
+
+  onCancel(): void {
+    this.recordingSession.cancelCountdown();
+  }
+}
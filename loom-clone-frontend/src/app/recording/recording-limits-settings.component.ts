@@ -0,0 +1,130 @@
+import { ChangeDetectionStrategy, Component, computed, inject } from '@angular/core';
+import { RecordingSessionService } from '../services/recording/recording-session.service';
+
+const BYTES_PER_MEGABYTE = 1024 * 1024;
+const MS_PER_MINUTE = 60_000;
+
+/**
+ * Optional maximum duration and size; the recording stops by itself when either is reached
+ */
+@Component({
+  selector: 'app-recording-limits-settings',
+  template: `
+    <fieldset class="limits-settings">
+      <legend class="limits-legend">Auto-stop</legend>
+
+      <label class="limits-field" for="limit-duration-input">
+        <span>Max minutes</span>
+        <input
+          id="limit-duration-input"
+          class="limits-input"
+          type="number"
+          min="1"
+          step="1"
+          placeholder="No limit"
+          [value]="maxMinutes()"
+          (change)="onDurationChange($event)"
+        />
+      </label>
+
+      <label class="limits-field" for="limit-size-input">
+        <span>Max MB</span>
+        <input
+          id="limit-size-input"
+          class="limits-input"
+          type="number"
+          min="1"
+          step="1"
+          placeholder="No limit"
+          [value]="maxMegabytes()"
+          (change)="onSizeChange($event)"
+        />
+      </label>
+
+      <p class="limits-note">Leave empty for no limit. Limits also apply while recording.</p>
+    </fieldset>
+  `,
+  styles: `
+    .limits-settings {
+      border: 2px solid #e5e7eb;
+      border-radius: 8px;
+      padding: 0.75rem 1rem 1rem;
+      margin: 1rem 0 0;
+      display: grid;
+      grid-template-columns: repeat(2, 1fr);
+      gap: 0.75rem;
+      text-align: left;
+    }
+
+    .limits-legend {
+      font-weight: 600;
+      color: #333;
+      padding: 0 0.25rem;
+    }
+
+    .limits-field {
+      display: flex;
+      flex-direction: column;
+      gap: 0.25rem;
+      font-size: 0.95rem;
+      color: #4b5563;
+    }
+
+    .limits-input {
+      padding: 0.5rem;
+      font-size: 0.95rem;
+      border: 2px solid #e5e7eb;
+      border-radius: 8px;
+      color: #333;
+    }
+
+    .limits-input:focus {
+      outline: 3px solid #667eea;
+      outline-offset: 2px;
+      border-color: #667eea;
+    }
+
+    .limits-note {
+      grid-column: 1 / -1;
+      margin: 0;
+      font-size: 0.9rem;
+      color: #4b5563;
+    }
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class RecordingLimitsSettingsComponent {
+  private readonly recordingSession = inject(RecordingSessionService);
+
+  readonly maxMinutes = computed(() => {
+    const maxDurationMs = this.recordingSession.limitSettings().maxDurationMs;
+    return maxDurationMs === null ? '' : String(Math.round(maxDurationMs / MS_PER_MINUTE));
+  });
+
+  readonly maxMegabytes = computed(() => {
+    const maxBytes = this.recordingSession.limitSettings().maxBytes;
+    return maxBytes === null ? '' : String(Math.round(maxBytes / BYTES_PER_MEGABYTE));
+  });
+
+  async onDurationChange(event: Event): Promise<void> {
+    const minutes = this.parseLimit(event);
+    await this.recordingSession.setLimits({
+      maxDurationMs: minutes === null ? null : minutes * MS_PER_MINUTE,
+    });
+  }
+
+  async onSizeChange(event: Event): Promise<void> {
+    const megabytes = this.parseLimit(event);
+    await this.recordingSession.setLimits({
+      maxBytes: megabytes === null ? null : megabytes * BYTES_PER_MEGABYTE,
+    });
+  }
+
+  /**
+   * Empty, zero or invalid input clears the limit
+   */
+  private parseLimit(event: Event): number | null {
+    const value = Math.round(Number((event.target as HTMLInputElement).value));
+    return value > 0 ? value : null;
+  }
+}
@@ -0,0 +1,350 @@
+import { ChangeDetectionStrategy, Component, computed, inject, input } from '@angular/core';
+import { RecordingOutputService } from '../services/recording/recording-output.service';
+import { FolderStorageService } from '../services/storage/folder-storage.service';
+import {
+  RecordingOutputFormat,
+  RecordingQualityPreset,
+  RecordingQualityProfile,
+} from '../models/media.models';
+
+interface QualityPresetOption {
+  value: RecordingQualityPreset;
+  label: string;
+}
+
+/**
+ * Output format, quality and save location pickers for new recordings
+ */
+@Component({
+  selector: 'app-recording-output-settings',
+  template: `
+    <label class="output-field" for="output-format-select">
+      <span class="output-label">File format</span>
+      <select
+        id="output-format-select"
+        class="output-select"
+        [value]="outputFormat()"
+        [disabled]="disabled()"
+        (change)="onFormatChange($event)"
+        aria-describedby="output-format-note"
+      >
+        <option value="webm">WebM (VP9/VP8 + Opus)</option>
+        <option value="mp4" [disabled]="!mp4Available()">MP4 (H.264 + AAC)</option>
+      </select>
+    </label>
+    <p id="output-format-note" class="output-note">{{ note() }}</p>
+
+    <label class="output-field" for="output-quality-select">
+      <span class="output-label">Quality</span>
+      <select
+        id="output-quality-select"
+        class="output-select"
+        [value]="quality()"
+        [disabled]="disabled()"
+        (change)="onQualityChange($event)"
+        aria-describedby="output-quality-estimate"
+      >
+        @for (option of qualityOptions; track option.value) {
+          <option [value]="option.value">{{ option.label }}</option>
+        }
+      </select>
+    </label>
+
+    @if (quality() === 'custom') {
+      <div class="custom-quality" role="group" aria-label="Custom quality">
+        <label class="output-field">
+          <span>Resolution</span>
+          <select
+            class="output-select"
+            [value]="profile().height"
+            [disabled]="disabled()"
+            (change)="onCustomChange('height', $event)"
+          >
+            @for (height of customHeights; track height) {
+              <option [value]="height">{{ height }}p</option>
+            }
+          </select>
+        </label>
+        <label class="output-field">
+          <span>Frame rate</span>
+          <select
+            class="output-select"
+            [value]="profile().frameRate"
+            [disabled]="disabled()"
+            (change)="onCustomChange('frameRate', $event)"
+          >
+            @for (frameRate of customFrameRates; track frameRate) {
+              <option [value]="frameRate">{{ frameRate }} fps</option>
+            }
+          </select>
+        </label>
+        <label class="output-field">
+          <span>Video Mbps</span>
+          <input
+            class="output-select"
+            type="number"
+            min="0.25"
+            max="50"
+            step="0.25"
+            [value]="profile().videoBitsPerSecond / 1_000_000"
+            [disabled]="disabled()"
+            (change)="onCustomChange('videoBitsPerSecond', $event)"
+          />
+        </label>
+        <label class="output-field">
+          <span>Audio kbps</span>
+          <select
+            class="output-select"
+            [value]="profile().audioBitsPerSecond / 1000"
+            [disabled]="disabled()"
+            (change)="onCustomChange('audioBitsPerSecond', $event)"
+          >
+            @for (kbps of customAudioKbps; track kbps) {
+              <option [value]="kbps">{{ kbps }}</option>
+            }
+          </select>
+        </label>
+      </div>
+    }
+
+    <p id="output-quality-estimate" class="output-note" aria-live="polite">
+      About {{ estimatedSizePerMinute() }} per minute
+    </p>
+
+    <label class="output-toggle" for="output-file-by-date-toggle">
+      <input
+        id="output-file-by-date-toggle"
+        type="checkbox"
+        [checked]="fileByDate()"
+        [disabled]="disabled()"
+        (change)="onFileByDateChange($event)"
+      />
+      <span>File new recordings into year/month folders ({{ exampleFolder }})</span>
+    </label>
+
+    @if (workspaces().length > 1) {
+      <label class="output-field output-workspace" for="output-workspace-select">
+        <span class="output-label">Save new recordings to</span>
+        <select
+          id="output-workspace-select"
+          class="output-select"
+          [value]="saveWorkspaceId() ?? ''"
+          [disabled]="disabled()"
+          (change)="onSaveWorkspaceChange($event)"
+        >
+          <option value="">Active workspace ({{ activeWorkspaceName() }})</option>
+          @for (workspace of workspaces(); track workspace.id) {
+            <option [value]="workspace.id">{{ workspace.name }}</option>
+          }
+        </select>
+      </label>
+
+      @if (saveWorkspaceNeedsAccess()) {
+        <p class="output-note">
+          Access to this workspace's folder has to be granted before recording.
+          <button
+            type="button"
+            class="output-button"
+            [disabled]="disabled()"
+            (click)="onGrantSaveWorkspace()"
+          >
+            Grant access
+          </button>
+        </p>
+      }
+    }
+  `,
+  styles: `
+    :host {
+      display: block;
+      margin-top: 1rem;
+      text-align: left;
+    }
+
+    .output-field + .output-note + .output-field {
+      margin-top: 0.75rem;
+    }
+
+    .custom-quality {
+      display: grid;
+      grid-template-columns: repeat(auto-fit, minmax(8rem, 1fr));
+      gap: 0.5rem;
+      margin-top: 0.5rem;
+      font-size: 0.9rem;
+    }
+
+    .output-field {
+      display: flex;
+      flex-direction: column;
+      gap: 0.25rem;
+    }
+
+    .output-label {
+      font-weight: 600;
+      color: #333;
+    }
+
+    .output-select {
+      padding: 0.5rem;
+      font-size: 0.95rem;
+      border: 2px solid #e5e7eb;
+      border-radius: 8px;
+      background: white;
+      color: #333;
+    }
+
+    .output-select:focus {
+      outline: 3px solid #667eea;
+      outline-offset: 2px;
+      border-color: #667eea;
+    }
+
+    .output-note {
+      margin: 0.375rem 0 0;
+      font-size: 0.9rem;
+      color: #4b5563;
+    }
+
+    .output-toggle {
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+      margin-top: 0.75rem;
+      color: #333;
+    }
+
+    .output-workspace {
+      margin-top: 0.75rem;
+    }
+
+    .output-button {
+      margin-left: 0.25rem;
+      padding: 0.25rem 0.625rem;
+      border: 2px solid #e5e7eb;
+      border-radius: 6px;
+      background: white;
+      color: #333;
+      font-size: 0.85rem;
+      cursor: pointer;
+    }
+
+    .output-button:focus-visible,
+    .output-toggle input:focus-visible {
+      outline: 3px solid #667eea;
+      outline-offset: 2px;
+    }
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class RecordingOutputSettingsComponent {
+  private readonly recordingOutput = inject(RecordingOutputService);
+  private readonly folderStorage = inject(FolderStorageService);
+
+  readonly outputFormat = this.recordingOutput.outputFormat;
+  readonly profile = this.recordingOutput.qualityProfile;
+  readonly quality = computed(() => this.recordingOutput.settings().quality);
+  readonly mp4Available = computed(() => this.recordingOutput.mp4Support() !== 'unsupported');
+  readonly fileByDate = computed(() => this.recordingOutput.settings().fileByDate);
+  readonly exampleFolder = this.recordingOutput.dateFolder(new Date());
+  readonly workspaces = this.folderStorage.workspaces;
+  readonly activeWorkspaceName = computed(() => this.folderStorage.activeWorkspace()?.name ?? '');
+
+  /**
+   * Chosen save workspace, or null for the active one; a removed workspace counts as null
+   */
+  readonly saveWorkspaceId = computed(() => {
+    const id = this.recordingOutput.settings().saveWorkspaceId;
+    return this.workspaces().some((workspace) => workspace.id === id) ? id : null;
+  });
+
+  readonly saveWorkspaceNeedsAccess = computed(() => {
+    const id = this.saveWorkspaceId();
+    const workspace = this.workspaces().find((candidate) => candidate.id === id);
+    return workspace !== undefined && workspace.permissionState !== 'granted';
+  });
+
+  /**
+   * The format cannot change once a recording has started
+   */
+  readonly disabled = input(false);
+
+  readonly qualityOptions: QualityPresetOption[] = [
+    { value: '720p30', label: '720p · 30 fps (small file)' },
+    { value: '1080p30', label: '1080p · 30 fps' },
+    { value: '1440p60', label: '1440p · 60 fps (crisp text)' },
+    { value: 'custom', label: 'Custom' },
+  ];
+  readonly customHeights = [480, 720, 1080, 1440, 2160];
+  readonly customFrameRates = [15, 24, 30, 60];
+  readonly customAudioKbps = [64, 96, 128, 160, 192, 256];
+
+  readonly estimatedSizePerMinute = computed(() => {
+    const megabytes = this.recordingOutput.estimatedBytesPerMinute() / (1024 * 1024);
+    return megabytes >= 1024
+      ? `${(megabytes / 1024).toFixed(1)} GB`
+      : `${megabytes.toFixed(megabytes < 10 ? 1 : 0)} MB`;
+  });
+
+  readonly note = computed(() => {
+    if (this.outputFormat() === 'webm') {
+      return this.mp4Available()
+        ? 'Plays in Chrome, Firefox and Edge. Choose MP4 for Apple devices and video editors.'
+        : 'MP4 recording is not available in this browser.';
+    }
+
+    return this.recordingOutput.mp4Support() === 'native'
+      ? 'Recorded directly as MP4 by the browser.'
+      : 'Encoded with WebCodecs and packaged as fragmented MP4.';
+  });
+
+  async onFormatChange(event: Event): Promise<void> {
+    const target = event.target as HTMLSelectElement;
+    await this.recordingOutput.setOutputFormat(target.value as RecordingOutputFormat);
+  }
+
+  async onFileByDateChange(event: Event): Promise<void> {
+    const target = event.target as HTMLInputElement;
+    await this.recordingOutput.setFileByDate(target.checked);
+  }
+
+  async onSaveWorkspaceChange(event: Event): Promise<void> {
+    const target = event.target as HTMLSelectElement;
+    await this.recordingOutput.setSaveWorkspace(target.value || null);
+  }
+
+  async onGrantSaveWorkspace(): Promise<void> {
+    const id = this.saveWorkspaceId();
+    if (id) {
+      await this.folderStorage.requestWorkspacePermission(id);
+    }
+  }
+
+  async onQualityChange(event: Event): Promise<void> {
+    const target = event.target as HTMLSelectElement;
+    await this.recordingOutput.setQualityPreset(target.value as RecordingQualityPreset);
+  }
+
+  /**
+   * Bitrate fields are shown in Mbps/kbps; resolutions are 16:9 by height
+   */
+  async onCustomChange(field: keyof RecordingQualityProfile, event: Event): Promise<void> {
+    const value = Number((event.target as HTMLInputElement | HTMLSelectElement).value);
+
+    switch (field) {
+      case 'height':
+        await this.recordingOutput.setCustomQuality({
+          width: Math.round((value * 16) / 9),
+          height: value,
+        });
+        break;
+      case 'videoBitsPerSecond':
+        await this.recordingOutput.setCustomQuality({ videoBitsPerSecond: value * 1_000_000 });
+        break;
+      case 'audioBitsPerSecond':
+        await this.recordingOutput.setCustomQuality({ audioBitsPerSecond: value * 1000 });
+        break;
+      default:
+        await this.recordingOutput.setCustomQuality({ [field]: value });
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import { ChangeDetectionStrategy, Component, computed, inject } from '@angular/core';
+import { RecordingSessionService } from '../services/recording/recording-session.service';
+
+/**
+ * Live elapsed time and captured size for the recording in progress
+ */
+@Component({
+  selector: 'app-recording-progress',
+  template: `
+    <p class="progress-readout" role="timer" aria-label="Recording progress">
+      <span class="progress-value">{{ elapsed() }}</span>
+      @if (durationLimit()) {
+        <span class="progress-limit">/ {{ durationLimit() }}</span>
+      }
+      <span class="progress-separator" aria-hidden="true">·</span>
+      <span class="progress-value">{{ size() }}</span>
+      @if (sizeLimit()) {
+        <span class="progress-limit">/ {{ sizeLimit() }}</span>
+      }
+    </p>
+  `,
+  styles: `
+    .progress-readout {
+      margin: 0 0 0.75rem;
+      font-size: 1.25rem;
+      color: #333;
+      font-variant-numeric: tabular-nums;
+    }
+
+    .progress-value {
+      font-weight: 700;
+    }
+
+    .progress-limit {
+      margin-left: 0.25rem;
+      font-size: 0.95rem;
+      color: #4b5563;
+    }
+
+    .progress-separator {
+      margin: 0 0.5rem;
+      color: #9ca3af;
+    }
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class RecordingProgressComponent {
+  private readonly recordingSession = inject(RecordingSessionService);
+
+  readonly elapsed = computed(() => formatClock(this.recordingSession.elapsedMs()));
+  readonly size = computed(() => formatMegabytes(this.recordingSession.bytesRecorded()));
+
+  readonly durationLimit = computed(() => {
+    const maxDurationMs = this.recordingSession.limitSettings().maxDurationMs;
+    return maxDurationMs === null ? null : formatClock(maxDurationMs);
+  });
+
+  readonly sizeLimit = computed(() => {
+    const maxBytes = this.recordingSession.limitSettings().maxBytes;
+    return maxBytes === null ? null : formatMegabytes(maxBytes);
+  });
+}
+
+function formatClock(durationMs: number): string {
+  const totalSeconds = Math.floor(durationMs / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,230 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  effect,
+  inject,
+  input,
+  output,
+  signal,
+} from '@angular/core';
+import { FormControl, ReactiveFormsModule } from '@angular/forms';
+import { FolderStorageService } from '../services/storage/folder-storage.service';
+import { RecordingFileSummary } from '../models/media.models';
+
+/**
+ * Rename and move-to-trash actions for a recording file
+ * Emits the new name after a rename and once the file is in the trash
+ */
+@Component({
+  selector: 'app-recording-file-actions',
+  imports: [ReactiveFormsModule],
+  template: `
+    @if (isRenaming()) {
+      <form class="file-rename" (ngSubmit)="onRename()">
+        <label class="file-field" for="recording-filename-input">
+          <span>File name</span>
+          <input
+            id="recording-filename-input"
+            type="text"
+            [formControl]="filename"
+            [attr.aria-invalid]="!!validationError()"
+            aria-describedby="recording-filename-error"
+            (input)="onFilenameInput()"
+          />
+        </label>
+        <div class="file-buttons">
+          <button
+            type="submit"
+            class="file-button is-primary"
+            [disabled]="isBusy() || !!validationError()"
+          >
+            {{ isBusy() ? 'Renaming...' : 'Rename' }}
+          </button>
+          <button type="button" class="file-button" (click)="onCancelRename()">Cancel</button>
+        </div>
+      </form>
+    } @else {
+      <div class="file-buttons">
+        <button type="button" class="file-button" [disabled]="isBusy()" (click)="onStartRename()">
+          ✏️ Rename file
+        </button>
+        <button
+          type="button"
+          class="file-button is-danger"
+          [disabled]="isBusy()"
+          (click)="onDelete()"
+        >
+          🗑️ Move to trash
+        </button>
+      </div>
+    }
+
+    <p id="recording-filename-error" class="file-error" role="alert">
+      {{ validationError() ?? errorMessage() ?? '' }}
+    </p>
+  `,
+  styles: `
+    :host {
+      display: block;
+      margin-top: 1rem;
+    }
+
+    .file-rename {
+      display: flex;
+      flex-direction: column;
+      gap: 0.5rem;
+    }
+
+    .file-field {
+      display: flex;
+      flex-direction: column;
+      gap: 0.25rem;
+      font-weight: 600;
+      color: #333;
+    }
+
+    .file-field input {
+      padding: 0.625rem;
+      font: inherit;
+      font-weight: 400;
+      border: 2px solid #e5e7eb;
+      border-radius: 8px;
+    }
+
+    .file-field input[aria-invalid='true'] {
+      border-color: #ef4444;
+    }
+
+    .file-buttons {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 0.5rem;
+    }
+
+    .file-button {
+      padding: 0.5rem 1rem;
+      border: 2px solid #e5e7eb;
+      border-radius: 8px;
+      background: white;
+      color: #333;
+      font-size: 0.95rem;
+      cursor: pointer;
+    }
+
+    .file-button.is-primary {
+      border-color: #667eea;
+      background: #667eea;
+      color: white;
+    }
+
+    .file-button.is-danger {
+      border-color: #fecaca;
+      color: #991b1b;
+    }
+
+    .file-button:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+
+    .file-field input:focus,
+    .file-button:focus-visible {
+      outline: 3px solid #667eea;
+      outline-offset: 2px;
+    }
+
+    .file-error {
+      margin: 0.5rem 0 0;
+      font-size: 0.95rem;
+      color: #991b1b;
+    }
+
+    .file-error:empty {
+      display: none;
+    }
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class RecordingFileActionsComponent {
+  private readonly folderStorage = inject(FolderStorageService);
+
+  readonly recording = input.required<RecordingFileSummary>();
+  readonly renamed = output<string>();
+  readonly deleted = output<void>();
+
+  private readonly _isRenaming = signal(false);
+  private readonly _isBusy = signal(false);
+  private readonly _errorMessage = signal<string | null>(null);
+  private readonly _validationError = signal<string | null>(null);
+
+  readonly isRenaming = this._isRenaming.asReadonly();
+  readonly isBusy = this._isBusy.asReadonly();
+  readonly errorMessage = this._errorMessage.asReadonly();
+  readonly validationError = this._validationError.asReadonly();
+
+  readonly filename = new FormControl('', { nonNullable: true });
+
+  constructor() {
+    effect(() => {
+      this.recording();
+      this._isRenaming.set(false);
+      this._errorMessage.set(null);
+      this._validationError.set(null);
+    });
+  }
+
+  onStartRename(): void {
+    this.filename.setValue(this.recording().name);
+    this._isRenaming.set(true);
+  }
+
+  onFilenameInput(): void {
+    this._errorMessage.set(null);
+    this._validationError.set(
+      this.folderStorage.validateRecordingName(this.recording().name, this.filename.value),
+    );
+  }
+
+  onCancelRename(): void {
+    this._isRenaming.set(false);
+    this._validationError.set(null);
+  }
+
+  async onRename(): Promise<void> {
+    this._isBusy.set(true);
+    this._errorMessage.set(null);
+
+    try {
+      const renamed = await this.folderStorage.renameRecording(
+        this.recording().path,
+        this.filename.value,
+      );
+      this._isRenaming.set(false);
+      this.renamed.emit(renamed.path);
+    } catch (error) {
+      this._errorMessage.set(error instanceof Error ? error.message : 'Unable to rename recording');
+    } finally {
+      this._isBusy.set(false);
+    }
+  }
+
+  async onDelete(): Promise<void> {
+    if (!confirm(`Move "${this.recording().name}" to the trash?`)) {
+      return;
+    }
+
+    this._isBusy.set(true);
+    this._errorMessage.set(null);
+
+    try {
+      await this.folderStorage.deleteRecording(this.recording().path);
+      this.deleted.emit();
+    } catch (error) {
+      this._errorMessage.set(
+        error instanceof Error ? error.message : 'Unable to move recording to the trash',
+      );
+    } finally {
+      this._isBusy.set(false);
+    }
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Display formatting shared by the recording list, library and player
+ */
+
+export function formatFileSize(sizeInBytes: number): string {
+  if (sizeInBytes < 1024) {
+    return `${sizeInBytes} B`;
+  }
+
+  const sizeInKilobytes = sizeInBytes / 1024;
+  if (sizeInKilobytes < 1024) {
+    return `${sizeInKilobytes.toFixed(1)} KB`;
+  }
+
+  const sizeInMegabytes = sizeInKilobytes / 1024;
+  if (sizeInMegabytes < 1024) {
+    return `${sizeInMegabytes.toFixed(1)} MB`;
+  }
+
+  return `${(sizeInMegabytes / 1024).toFixed(2)} GB`;
+}
+
+export function formatTimestamp(timestamp: number): string {
+  return new Date(timestamp).toLocaleString();
+}
+
+export function formatDuration(durationMs: number): string {
+  const totalSeconds = Math.floor(durationMs / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
@@ -0,0 +1,184 @@
+import { ChangeDetectionStrategy, Component, effect, inject, input, signal } from '@angular/core';
+import { FormControl, FormGroup, ReactiveFormsModule } from '@angular/forms';
+import { FolderStorageService } from '../services/storage/folder-storage.service';
+import { RecordingFileSummary } from '../models/media.models';
+
+/**
+ * Form for editing a recording's title, description and tags
+ * Saved to the manifest file in the recordings folder
+ */
+@Component({
+  selector: 'app-recording-metadata-form',
+  imports: [ReactiveFormsModule],
+  template: `
+    <form class="metadata-form" [formGroup]="form" (ngSubmit)="onSave()">
+      <label class="metadata-field" for="recording-title-input">
+        <span>Title</span>
+        <input id="recording-title-input" type="text" formControlName="title" />
+      </label>
+
+      <label class="metadata-field" for="recording-description-input">
+        <span>Description</span>
+        <textarea
+          id="recording-description-input"
+          rows="3"
+          formControlName="description"
+        ></textarea>
+      </label>
+
+      <label class="metadata-field" for="recording-tags-input">
+        <span>Tags</span>
+        <input
+          id="recording-tags-input"
+          type="text"
+          formControlName="tags"
+          placeholder="demo, onboarding, bug report"
+          aria-describedby="recording-tags-hint"
+        />
+        <span id="recording-tags-hint" class="metadata-hint">Separate tags with commas</span>
+      </label>
+
+      @if (errorMessage()) {
+        <p class="metadata-error" role="alert">{{ errorMessage() }}</p>
+      }
+
+      @if (savedMessage()) {
+        <p class="metadata-saved" role="status">{{ savedMessage() }}</p>
+      }
+
+      <button type="submit" class="metadata-save" [disabled]="isSaving() || form.pristine">
+        {{ isSaving() ? 'Saving...' : 'Save Details' }}
+      </button>
+    </form>
+  `,
+  styles: `
+    .metadata-form {
+      display: flex;
+      flex-direction: column;
+      gap: 0.75rem;
+      margin-top: 1rem;
+    }
+
+    .metadata-field {
+      display: flex;
+      flex-direction: column;
+      gap: 0.25rem;
+      font-weight: 600;
+      color: #333;
+    }
+
+    .metadata-field input,
+    .metadata-field textarea {
+      padding: 0.625rem;
+      font: inherit;
+      font-weight: 400;
+      border: 2px solid #e5e7eb;
+      border-radius: 8px;
+    }
+
+    .metadata-field input:focus,
+    .metadata-field textarea:focus {
+      outline: 3px solid #667eea;
+      outline-offset: 2px;
+      border-color: #667eea;
+    }
+
+    .metadata-hint {
+      font-size: 0.85rem;
+      font-weight: 400;
+      color: #4b5563;
+    }
+
+    .metadata-error,
+    .metadata-saved {
+      margin: 0;
+      font-size: 0.95rem;
+    }
+
+    .metadata-error {
+      color: #991b1b;
+    }
+
+    .metadata-saved {
+      color: #065f46;
+    }
+
+    .metadata-save {
+      align-self: flex-start;
+      padding: 0.625rem 1.5rem;
+      border: none;
+      border-radius: 8px;
+      background: #667eea;
+      color: white;
+      font-weight: 600;
+      cursor: pointer;
+    }
+
+    .metadata-save:disabled {
+      background: #9ca3af;
+      cursor: not-allowed;
+    }
+
+    .metadata-save:focus {
+      outline: 3px solid #667eea;
+      outline-offset: 2px;
+    }
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class RecordingMetadataFormComponent {
+  private readonly folderStorage = inject(FolderStorageService);
+
+  readonly recording = input.required<RecordingFileSummary>();
+
+  private readonly _isSaving = signal(false);
+  private readonly _errorMessage = signal<string | null>(null);
+  private readonly _savedMessage = signal<string | null>(null);
+
+  readonly isSaving = this._isSaving.asReadonly();
+  readonly errorMessage = this._errorMessage.asReadonly();
+  readonly savedMessage = this._savedMessage.asReadonly();
+
+  readonly form = new FormGroup({
+    title: new FormControl('', { nonNullable: true }),
+    description: new FormControl('', { nonNullable: true }),
+    tags: new FormControl('', { nonNullable: true }),
+  });
+
+  constructor() {
+    // Reset the form whenever a different recording is shown
+    effect(() => {
+      const recording = this.recording();
+      this.form.reset({
+        title: recording.metadata?.title ?? recording.name,
+        description: recording.metadata?.description ?? '',
+        tags: recording.metadata?.tags.join(', ') ?? '',
+      });
+      this._errorMessage.set(null);
+      this._savedMessage.set(null);
+    });
+  }
+
+  async onSave(): Promise<void> {
+    const recording = this.recording();
+    const { title, description, tags } = this.form.getRawValue();
+
+    this._isSaving.set(true);
+    this._errorMessage.set(null);
+    this._savedMessage.set(null);
+
+    try {
+      await this.folderStorage.updateRecordingMetadata(recording.path, {
+        title: title.trim() || recording.name,
+        description: description.trim(),
+        tags: tags.split(','),
+      });
+      this.form.markAsPristine();
+      this._savedMessage.set('Details saved');
+    } catch (error) {
+      this._errorMessage.set(error instanceof Error ? error.message : 'Unable to save details');
+    } finally {
+      this._isSaving.set(false);
+    }
+  }
+}
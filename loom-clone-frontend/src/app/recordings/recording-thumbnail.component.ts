@@ -0,0 +1,131 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  DestroyRef,
+  ElementRef,
+  computed,
+  effect,
+  inject,
+  input,
+  signal,
+  untracked,
+} from '@angular/core';
+import { ThumbnailService } from '../services/recording/thumbnail.service';
+import { RecordingFileSummary } from '../models/media.models';
+
+/**
+ * Preview image for a recording in the list
+ * Requested only once the element scrolls into view; hovering a video thumbnail
+ * scrubs through its sprite strip
+ */
+@Component({
+  selector: 'app-recording-thumbnail',
+  template: `
+    @if (thumbnail(); as view) {
+      @if (view.spriteUrl && scrubFrame() !== null) {
+        <span
+          class="thumbnail-sprite"
+          aria-hidden="true"
+          [style.background-image]="'url(' + view.spriteUrl + ')'"
+          [style.background-size]="view.spriteFrameCount * 100 + '% 100%'"
+          [style.background-position-x]="spritePosition()"
+        ></span>
+      } @else {
+        <img
+          class="thumbnail-image"
+          [src]="view.posterUrl"
+          [alt]="(view.kind === 'audio' ? 'Waveform of ' : 'Preview of ') + recording().name"
+        />
+      }
+    } @else {
+      <span class="thumbnail-placeholder" aria-hidden="true"></span>
+    }
+  `,
+  styles: `
+    :host {
+      display: block;
+      flex-shrink: 0;
+      width: 128px;
+      aspect-ratio: 16 / 9;
+      border-radius: 6px;
+      overflow: hidden;
+      background: #1f2937;
+    }
+
+    .thumbnail-image,
+    .thumbnail-sprite,
+    .thumbnail-placeholder {
+      display: block;
+      width: 100%;
+      height: 100%;
+    }
+
+    .thumbnail-image {
+      object-fit: cover;
+    }
+
+    .thumbnail-sprite {
+      background-repeat: no-repeat;
+    }
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  host: {
+    '(mousemove)': 'onScrub($event)',
+    '(mouseleave)': 'onScrubEnd()',
+  },
+})
+export class RecordingThumbnailComponent {
+  private readonly thumbnails = inject(ThumbnailService);
+  private readonly elementRef = inject<ElementRef<HTMLElement>>(ElementRef);
+
+  readonly recording = input.required<RecordingFileSummary>();
+
+  private readonly isVisible = signal(false);
+  private readonly _scrubFrame = signal<number | null>(null);
+  readonly scrubFrame = this._scrubFrame.asReadonly();
+
+  readonly thumbnail = computed(
+    () => this.thumbnails.thumbnails()[this.thumbnails.thumbnailKey(this.recording())] ?? null,
+  );
+
+  readonly spritePosition = computed(() => {
+    const frameCount = this.thumbnail()?.spriteFrameCount ?? 0;
+    const frame = this.scrubFrame() ?? 0;
+    return frameCount > 1 ? `${(frame / (frameCount - 1)) * 100}%` : '0%';
+  });
+
+  constructor() {
+    const observer = new IntersectionObserver(
+      (entries) => {
+        this.isVisible.set(entries.some((entry) => entry.isIntersecting));
+      },
+      { rootMargin: '200px' },
+    );
+
+    observer.observe(this.elementRef.nativeElement);
+    inject(DestroyRef).onDestroy(() => observer.disconnect());
+
+    // Re-request when a visible recording's file changes on disk
+    effect(() => {
+      const recording = this.recording();
+      if (this.isVisible()) {
+        untracked(() => this.thumbnails.request(recording));
+      }
+    });
+  }
+
+  onScrub(event: MouseEvent): void {
+    const frameCount = this.thumbnail()?.spriteFrameCount ?? 0;
+    if (frameCount === 0) {
+      return;
+    }
+
+    const bounds = this.elementRef.nativeElement.getBoundingClientRect();
+    const ratio = Math.min(Math.max((event.clientX - bounds.left) / bounds.width, 0), 0.999);
+    this._scrubFrame.set(Math.floor(ratio * frameCount));
+  }
+
+  onScrubEnd(): void {
+    this._scrubFrame.set(null);
+  }
+}
@@ -0,0 +1,287 @@
+import { ChangeDetectionStrategy, Component, OnInit, inject, signal } from '@angular/core';
+import { FolderStorageService } from '../services/storage/folder-storage.service';
+import { RecordingTrashService } from '../services/storage/recording-trash.service';
+import { TrashedRecording } from '../models/storage.models';
+import { formatFileSize, formatTimestamp } from './recording-format';
+
+/**
+ * Trash listing with restore, empty trash and the retention period setting
+ */
+@Component({
+  selector: 'app-recording-trash',
+  template: `
+    <details class="trash" (toggle)="onToggle($event)">
+      <summary class="trash-summary">🗑️ Trash ({{ trashedRecordings().length }})</summary>
+
+      <div class="trash-body">
+        <label class="trash-field" for="trash-retention-select">
+          <span>Delete permanently after</span>
+          <select
+            id="trash-retention-select"
+            class="trash-select"
+            [value]="settings().retentionDays"
+            (change)="onRetentionChange($event)"
+          >
+            @for (option of retentionOptions; track option.value) {
+              <option [value]="option.value">{{ option.label }}</option>
+            }
+          </select>
+        </label>
+
+        @if (trashedRecordings().length > 0) {
+          <ul class="trash-list" aria-label="Recordings in the trash">
+            @for (item of trashedRecordings(); track item.trashName) {
+              <li class="trash-item">
+                <span class="trash-details">
+                  <span class="trash-name">{{ item.metadata?.title ?? item.originalName }}</span>
+                  <span class="trash-meta">
+                    Deleted {{ formatTimestamp(item.deletedAt) }} ·
+                    {{ formatFileSize(item.size) }}
+                    @if (expiresAt(item); as expiresAt) {
+                      · Removed {{ formatTimestamp(expiresAt) }}
+                    }
+                  </span>
+                </span>
+                <button
+                  type="button"
+                  class="trash-button"
+                  [disabled]="isBusy()"
+                  [attr.aria-label]="'Restore ' + item.originalName"
+                  (click)="onRestore(item)"
+                >
+                  Restore
+                </button>
+              </li>
+            }
+          </ul>
+
+          <button
+            type="button"
+            class="trash-button is-danger"
+            [disabled]="isBusy()"
+            (click)="onEmpty()"
+          >
+            Empty trash
+          </button>
+        } @else {
+          <p class="trash-empty">The trash is empty.</p>
+        }
+
+        @if (noticeMessage()) {
+          <p class="trash-notice" role="status">{{ noticeMessage() }}</p>
+        }
+
+        @if (errorMessage()) {
+          <p class="trash-error" role="alert">{{ errorMessage() }}</p>
+        }
+      </div>
+    </details>
+  `,
+  styles: `
+    :host {
+      display: block;
+      margin-top: 1.5rem;
+    }
+
+    .trash {
+      padding: 1rem 1.5rem;
+      border-radius: 12px;
+      background: white;
+      box-shadow: 0 10px 40px rgba(0, 0, 0, 0.1);
+    }
+
+    .trash-summary {
+      font-weight: 600;
+      color: #333;
+      cursor: pointer;
+    }
+
+    .trash-body {
+      display: flex;
+      flex-direction: column;
+      align-items: flex-start;
+      gap: 0.75rem;
+      margin-top: 1rem;
+    }
+
+    .trash-field {
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+      font-size: 0.95rem;
+      color: #4b5563;
+    }
+
+    .trash-select {
+      padding: 0.375rem;
+      font-size: 0.95rem;
+      border: 2px solid #e5e7eb;
+      border-radius: 6px;
+      background: white;
+      color: #333;
+    }
+
+    .trash-list {
+      list-style: none;
+      width: 100%;
+      margin: 0;
+      padding: 0;
+    }
+
+    .trash-item {
+      display: flex;
+      align-items: center;
+      gap: 0.75rem;
+      padding: 0.5rem 0;
+      border-bottom: 1px solid #f3f4f6;
+    }
+
+    .trash-details {
+      flex: 1;
+      display: flex;
+      flex-direction: column;
+      min-width: 0;
+    }
+
+    .trash-name {
+      font-weight: 600;
+      color: #333;
+      overflow-wrap: anywhere;
+    }
+
+    .trash-meta {
+      font-size: 0.85rem;
+      color: #6b7280;
+    }
+
+    .trash-button {
+      padding: 0.375rem 0.875rem;
+      border: 2px solid #e5e7eb;
+      border-radius: 6px;
+      background: white;
+      color: #333;
+      font-size: 0.9rem;
+      cursor: pointer;
+    }
+
+    .trash-button.is-danger {
+      border-color: #fecaca;
+      color: #991b1b;
+    }
+
+    .trash-button:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+
+    .trash-summary:focus-visible,
+    .trash-select:focus,
+    .trash-button:focus-visible {
+      outline: 3px solid #667eea;
+      outline-offset: 2px;
+    }
+
+    .trash-empty {
+      margin: 0;
+      color: #6b7280;
+    }
+
+    .trash-notice,
+    .trash-error {
+      margin: 0;
+    }
+
+    .trash-notice {
+      color: #065f46;
+    }
+
+    .trash-error {
+      color: #991b1b;
+    }
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class RecordingTrashComponent implements OnInit {
+  private readonly folderStorage = inject(FolderStorageService);
+  private readonly trash = inject(RecordingTrashService);
+
+  private readonly _isBusy = signal(false);
+  private readonly _errorMessage = signal<string | null>(null);
+  private readonly _noticeMessage = signal<string | null>(null);
+
+  readonly isBusy = this._isBusy.asReadonly();
+  readonly errorMessage = this._errorMessage.asReadonly();
+  readonly noticeMessage = this._noticeMessage.asReadonly();
+  readonly trashedRecordings = this.folderStorage.trashedRecordings;
+  readonly settings = this.trash.settings;
+
+  readonly retentionOptions: { value: number; label: string }[] = [
+    { value: 7, label: '7 days' },
+    { value: 30, label: '30 days' },
+    { value: 90, label: '90 days' },
+    { value: 0, label: 'Never (keep until emptied)' },
+  ];
+
+  async ngOnInit(): Promise<void> {
+    await this.folderStorage.refreshTrash();
+  }
+
+  async onToggle(event: Event): Promise<void> {
+    if ((event.target as HTMLDetailsElement).open) {
+      await this.folderStorage.refreshTrash();
+    }
+  }
+
+  async onRetentionChange(event: Event): Promise<void> {
+    const target = event.target as HTMLSelectElement;
+    await this.trash.setRetentionDays(Number(target.value));
+    // A shorter period may already have expired some recordings
+    await this.folderStorage.refreshTrash();
+  }
+
+  async onRestore(item: TrashedRecording): Promise<void> {
+    await this.run(async () => {
+      const restored = await this.folderStorage.restoreRecording(item.trashName);
+      if (restored.path !== item.originalName) {
+        this._noticeMessage.set(
+          `"${item.originalName}" is taken, so the recording was restored as "${restored.name}".`,
+        );
+      }
+    });
+  }
+
+  async onEmpty(): Promise<void> {
+    const count = this.trashedRecordings().length;
+    if (!confirm(`Permanently delete ${count} recording${count === 1 ? '' : 's'} in the trash?`)) {
+      return;
+    }
+
+    await this.run(() => this.folderStorage.emptyTrash());
+  }
+
+  expiresAt(item: TrashedRecording): number | null {
+    return this.trash.expiresAt(item);
+  }
+
+  formatFileSize(sizeInBytes: number): string {
+    return formatFileSize(sizeInBytes);
+  }
+
+  formatTimestamp(timestamp: number): string {
+    return formatTimestamp(timestamp);
+  }
+
+  private async run(action: () => Promise<void>): Promise<void> {
+    this._isBusy.set(true);
+    this._errorMessage.set(null);
+    this._noticeMessage.set(null);
+
+    try {
+      await action();
+    } catch (error) {
+      this._errorMessage.set(error instanceof Error ? error.message : 'Trash action failed');
+    } finally {
+      this._isBusy.set(false);
+    }
+  }
+}
@@ -0,0 +1,212 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  computed,
+  effect,
+  inject,
+  output,
+  signal,
+  untracked,
+} from '@angular/core';
+import { FolderStorageService } from '../services/storage/folder-storage.service';
+import { BrowserCompatService } from '../services/storage/browser-compat.service';
+import { STORAGE_BACKEND_LIMITS } from '../services/storage/storage-backend-limits';
+import { StorageBackendKind, StorageUsage } from '../models/storage.models';
+import { formatFileSize } from './recording-format';
+
+type SelectableStorageKind = Exclude<StorageBackendKind, 'memory'>;
+
+const SELECTABLE_STORAGE_KINDS: SelectableStorageKind[] = ['folder', 'opfs', 'download'];
+
+/**
+ * Choice between saving to a folder, browser storage or downloads, with the limits of each
+ * Options this browser cannot offer are listed as unavailable
+ */
+@Component({
+  selector: 'app-storage-backend-picker',
+  template: `
+    <ul class="storage-list" aria-label="Where recordings are saved">
+      @for (option of options(); track option.kind) {
+        <li class="storage-option" [class.is-current]="option.kind === storageKind()">
+          <span class="storage-details">
+            <span class="storage-label">
+              {{ option.limits.label }}
+              @if (option.kind === storageKind()) {
+                <span class="storage-badge">In use</span>
+              }
+            </span>
+            <span class="storage-description">{{ option.limits.description }}</span>
+            <ul class="storage-notes">
+              @for (note of option.limits.notes; track note) {
+                <li>{{ note }}</li>
+              }
+            </ul>
+            @if (option.kind === storageKind() && usage(); as usage) {
+              <span class="storage-usage">
+                {{ formatFileSize(usage.usage) }} used of {{ formatFileSize(usage.quota) }}
+              </span>
+            }
+          </span>
+
+          @if (!option.available) {
+            <span class="storage-unavailable">Not available in {{ browserName() }}</span>
+          } @else if (option.kind !== storageKind()) {
+            <button
+              type="button"
+              class="storage-button"
+              [disabled]="isBusy()"
+              [attr.aria-label]="'Save recordings with ' + option.limits.label"
+              (click)="onUse(option.kind)"
+            >
+              {{ option.kind === 'folder' && !hasWorkspaces() ? 'Choose folder…' : 'Use' }}
+            </button>
+          }
+        </li>
+      }
+    </ul>
+  `,
+  styles: `
+    :host {
+      display: block;
+      text-align: left;
+    }
+
+    .storage-list {
+      list-style: none;
+      margin: 0;
+      padding: 0;
+    }
+
+    .storage-option {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: flex-start;
+      gap: 0.5rem;
+      padding: 0.75rem 0;
+      border-bottom: 1px solid #f3f4f6;
+    }
+
+    .storage-details {
+      flex: 1 1 14rem;
+      display: flex;
+      flex-direction: column;
+      gap: 0.25rem;
+      min-width: 0;
+    }
+
+    .storage-label {
+      font-weight: 600;
+      color: #333;
+    }
+
+    .storage-badge {
+      margin-left: 0.25rem;
+      padding: 0.125rem 0.5rem;
+      border-radius: 999px;
+      background: #e0e7ff;
+      color: #3730a3;
+      font-size: 0.75rem;
+    }
+
+    .storage-description,
+    .storage-usage {
+      font-size: 0.9rem;
+      color: #4b5563;
+    }
+
+    .storage-notes {
+      margin: 0;
+      padding-left: 1.25rem;
+      font-size: 0.85rem;
+      color: #6b7280;
+    }
+
+    .storage-unavailable {
+      font-size: 0.85rem;
+      color: #6b7280;
+    }
+
+    .storage-button {
+      padding: 0.375rem 0.875rem;
+      border: 2px solid #e5e7eb;
+      border-radius: 6px;
+      background: white;
+      color: #333;
+      font-size: 0.9rem;
+      cursor: pointer;
+    }
+
+    .storage-button:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+
+    .storage-button:focus-visible {
+      outline: 3px solid #667eea;
+      outline-offset: 2px;
+    }
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class StorageBackendPickerComponent {
+  private readonly folderStorage = inject(FolderStorageService);
+  private readonly browserCompat = inject(BrowserCompatService);
+
+  private readonly _isBusy = signal(false);
+  private readonly _usage = signal<StorageUsage | null>(null);
+
+  readonly isBusy = this._isBusy.asReadonly();
+  readonly usage = this._usage.asReadonly();
+  readonly storageKind = this.folderStorage.storageKind;
+  readonly browserName = this.browserCompat.browserName;
+  readonly hasWorkspaces = computed(() => this.folderStorage.workspaces().length > 0);
+
+  readonly options = computed(() => {
+    const available = this.browserCompat.availableStorageBackends();
+    return SELECTABLE_STORAGE_KINDS.map((kind) => ({
+      kind,
+      limits: STORAGE_BACKEND_LIMITS[kind],
+      available: available.includes(kind),
+    }));
+  });
+
+  /**
+   * Emitted when recordings are saved somewhere else, so the page can reload what it lists
+   */
+  readonly changed = output<void>();
+
+  constructor() {
+    effect(() => {
+      this.storageKind();
+      untracked(() => void this.loadUsage());
+    });
+  }
+
+  async onUse(kind: SelectableStorageKind): Promise<void> {
+    this._isBusy.set(true);
+
+    try {
+      const workspace = this.folderStorage.workspaces()[0];
+      if (kind !== 'folder') {
+        await this.folderStorage.useStorageBackend(kind);
+      } else if (workspace) {
+        // The most recently used workspace; others are picked in the workspace switcher
+        await this.folderStorage.switchWorkspace(workspace.id);
+      } else {
+        await this.folderStorage.selectNewFolder();
+      }
+
+      this.changed.emit();
+    } finally {
+      this._isBusy.set(false);
+    }
+  }
+
+  formatFileSize(sizeInBytes: number): string {
+    return formatFileSize(sizeInBytes);
+  }
+
+  private async loadUsage(): Promise<void> {
+    this._usage.set(await this.folderStorage.estimateStorageUsage());
+  }
+}
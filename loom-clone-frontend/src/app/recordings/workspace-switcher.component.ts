@@ -0,0 +1,402 @@
+import { ChangeDetectionStrategy, Component, inject, output, signal } from '@angular/core';
+import { FolderStorageService } from '../services/storage/folder-storage.service';
+import { PermissionState, RecordingWorkspaceView } from '../models/storage.models';
+import { formatTimestamp } from './recording-format';
+
+/**
+ * Quick switcher between stored workspaces, with a panel to add, rename and remove them
+ * and to grant folder access per workspace
+ */
+@Component({
+  selector: 'app-workspace-switcher',
+  template: `
+    @if (workspaces().length > 0) {
+      @if (workspaces().length > 1) {
+        <label class="workspace-field workspace-quick" for="workspace-select">
+          <span>Workspace</span>
+          <select
+            id="workspace-select"
+            class="workspace-select"
+            [value]="activeWorkspaceId() ?? ''"
+            [disabled]="isBusy()"
+            (change)="onSwitchChange($event)"
+          >
+            @if (!activeWorkspaceId()) {
+              <option value="">Choose a workspace</option>
+            }
+            @for (workspace of workspaces(); track workspace.id) {
+              <option [value]="workspace.id">{{ workspace.name }}</option>
+            }
+          </select>
+        </label>
+      }
+
+      <details class="workspace-panel">
+        <summary class="workspace-summary">Manage workspaces ({{ workspaces().length }})</summary>
+
+        <div class="workspace-body">
+          <ul class="workspace-list" aria-label="Workspaces">
+            @for (workspace of workspaces(); track workspace.id) {
+              <li class="workspace-item">
+                @if (renamingId() === workspace.id) {
+                  <form
+                    class="workspace-form"
+                    (submit)="onRename($event, workspace, renameInput.value)"
+                  >
+                    <label class="workspace-field" [for]="'workspace-name-' + workspace.id">
+                      <span>Name</span>
+                      <input
+                        #renameInput
+                        [id]="'workspace-name-' + workspace.id"
+                        type="text"
+                        class="workspace-select"
+                        autocomplete="off"
+                        [value]="workspace.name"
+                        required
+                      />
+                    </label>
+                    <button type="submit" class="workspace-button" [disabled]="isBusy()">
+                      Save
+                    </button>
+                    <button type="button" class="workspace-button" (click)="onCancelRename()">
+                      Cancel
+                    </button>
+                  </form>
+                } @else {
+                  <span class="workspace-details">
+                    <span class="workspace-name">
+                      {{ workspace.name }}
+                      @if (workspace.id === activeWorkspaceId()) {
+                        <span class="workspace-badge">Active</span>
+                      }
+                    </span>
+                    <span class="workspace-meta">
+                      📁 {{ workspace.folderName }} ·
+                      {{ permissionLabel(workspace.permissionState) }} · Last used
+                      {{ formatTimestamp(workspace.lastUsed) }}
+                    </span>
+                  </span>
+
+                  @if (workspace.id !== activeWorkspaceId()) {
+                    <button
+                      type="button"
+                      class="workspace-button"
+                      [disabled]="isBusy()"
+                      [attr.aria-label]="'Switch to ' + workspace.name"
+                      (click)="onSwitch(workspace)"
+                    >
+                      Open
+                    </button>
+                  }
+                  @if (workspace.permissionState !== 'granted') {
+                    <button
+                      type="button"
+                      class="workspace-button"
+                      [disabled]="isBusy()"
+                      [attr.aria-label]="'Grant access to ' + workspace.name"
+                      (click)="onGrant(workspace)"
+                    >
+                      Grant access
+                    </button>
+                  }
+                  <button
+                    type="button"
+                    class="workspace-button"
+                    [disabled]="isBusy()"
+                    [attr.aria-label]="'Rename ' + workspace.name"
+                    (click)="onStartRename(workspace)"
+                  >
+                    Rename
+                  </button>
+                  <button
+                    type="button"
+                    class="workspace-button is-danger"
+                    [disabled]="isBusy()"
+                    [attr.aria-label]="'Remove ' + workspace.name"
+                    (click)="onRemove(workspace)"
+                  >
+                    Remove
+                  </button>
+                }
+              </li>
+            }
+          </ul>
+
+          <form class="workspace-form" (submit)="onAdd($event, addInput)">
+            <label class="workspace-field" for="workspace-add-name">
+              <span>New workspace</span>
+              <input
+                #addInput
+                id="workspace-add-name"
+                type="text"
+                class="workspace-select"
+                autocomplete="off"
+                placeholder="Name (defaults to the folder name)"
+              />
+            </label>
+            <button type="submit" class="workspace-button" [disabled]="isBusy()">
+              Choose folder…
+            </button>
+          </form>
+
+          @if (errorMessage()) {
+            <p class="workspace-error" role="alert">{{ errorMessage() }}</p>
+          }
+        </div>
+      </details>
+    }
+  `,
+  styles: `
+    :host {
+      display: block;
+      margin: 1rem 0;
+      text-align: left;
+    }
+
+    .workspace-field {
+      display: flex;
+      flex-direction: column;
+      gap: 0.25rem;
+      font-size: 0.85rem;
+      font-weight: 600;
+      color: #4b5563;
+    }
+
+    .workspace-quick {
+      padding: 0.75rem 1.5rem;
+      border-radius: 12px;
+      background: white;
+      box-shadow: 0 10px 40px rgba(0, 0, 0, 0.1);
+    }
+
+    .workspace-select {
+      padding: 0.5rem;
+      font-size: 0.95rem;
+      border: 2px solid #e5e7eb;
+      border-radius: 6px;
+      background: white;
+      color: #333;
+    }
+
+    .workspace-panel {
+      margin-top: 0.75rem;
+      padding: 1rem 1.5rem;
+      border-radius: 12px;
+      background: white;
+      box-shadow: 0 10px 40px rgba(0, 0, 0, 0.1);
+    }
+
+    .workspace-summary {
+      font-weight: 600;
+      color: #333;
+      cursor: pointer;
+    }
+
+    .workspace-body {
+      display: flex;
+      flex-direction: column;
+      gap: 0.75rem;
+      margin-top: 1rem;
+    }
+
+    .workspace-list {
+      list-style: none;
+      margin: 0;
+      padding: 0;
+    }
+
+    .workspace-item {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 0.5rem;
+      padding: 0.5rem 0;
+      border-bottom: 1px solid #f3f4f6;
+    }
+
+    .workspace-details {
+      flex: 1 1 12rem;
+      display: flex;
+      flex-direction: column;
+      min-width: 0;
+    }
+
+    .workspace-name {
+      font-weight: 600;
+      color: #333;
+      overflow-wrap: anywhere;
+    }
+
+    .workspace-badge {
+      margin-left: 0.25rem;
+      padding: 0.125rem 0.5rem;
+      border-radius: 999px;
+      background: #e0e7ff;
+      color: #3730a3;
+      font-size: 0.75rem;
+    }
+
+    .workspace-meta {
+      font-size: 0.85rem;
+      color: #6b7280;
+    }
+
+    .workspace-form {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: flex-end;
+      gap: 0.5rem;
+    }
+
+    .workspace-button {
+      padding: 0.375rem 0.875rem;
+      border: 2px solid #e5e7eb;
+      border-radius: 6px;
+      background: white;
+      color: #333;
+      font-size: 0.9rem;
+      cursor: pointer;
+    }
+
+    .workspace-button.is-danger {
+      border-color: #fecaca;
+      color: #991b1b;
+    }
+
+    .workspace-button:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+
+    .workspace-summary:focus-visible,
+    .workspace-select:focus,
+    .workspace-button:focus-visible {
+      outline: 3px solid #667eea;
+      outline-offset: 2px;
+    }
+
+    .workspace-error {
+      margin: 0;
+      color: #991b1b;
+    }
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class WorkspaceSwitcherComponent {
+  private readonly folderStorage = inject(FolderStorageService);
+
+  private readonly _isBusy = signal(false);
+  private readonly _errorMessage = signal<string | null>(null);
+  private readonly _renamingId = signal<string | null>(null);
+
+  readonly isBusy = this._isBusy.asReadonly();
+  readonly errorMessage = this._errorMessage.asReadonly();
+  readonly renamingId = this._renamingId.asReadonly();
+  readonly workspaces = this.folderStorage.workspaces;
+  readonly activeWorkspaceId = this.folderStorage.activeWorkspaceId;
+
+  /**
+   * Emitted when the active workspace or its folder access changed,
+   * so the page can reload what it lists
+   */
+  readonly changed = output<void>();
+
+  async onSwitchChange(event: Event): Promise<void> {
+    const id = (event.target as HTMLSelectElement).value;
+    const workspace = this.workspaces().find((candidate) => candidate.id === id);
+    if (workspace) {
+      await this.onSwitch(workspace);
+    }
+  }
+
+  async onSwitch(workspace: RecordingWorkspaceView): Promise<void> {
+    await this.run(async () => {
+      if (await this.folderStorage.switchWorkspace(workspace.id)) {
+        this.changed.emit();
+      }
+    });
+  }
+
+  async onGrant(workspace: RecordingWorkspaceView): Promise<void> {
+    await this.run(async () => {
+      const granted = await this.folderStorage.requestWorkspacePermission(workspace.id);
+      if (granted && workspace.id === this.activeWorkspaceId()) {
+        this.changed.emit();
+      }
+    });
+  }
+
+  onStartRename(workspace: RecordingWorkspaceView): void {
+    this._errorMessage.set(null);
+    this._renamingId.set(workspace.id);
+  }
+
+  onCancelRename(): void {
+    this._errorMessage.set(null);
+    this._renamingId.set(null);
+  }
+
+  async onRename(event: Event, workspace: RecordingWorkspaceView, name: string): Promise<void> {
+    event.preventDefault();
+    await this.run(async () => {
+      await this.folderStorage.renameWorkspace(workspace.id, name);
+      this._renamingId.set(null);
+    });
+  }
+
+  async onRemove(workspace: RecordingWorkspaceView): Promise<void> {
+    if (
+      !confirm(
+        `Remove the "${workspace.name}" workspace? The folder and its recordings are kept on disk.`,
+      )
+    ) {
+      return;
+    }
+
+    const wasActive = workspace.id === this.activeWorkspaceId();
+    await this.run(async () => {
+      await this.folderStorage.removeWorkspace(workspace.id);
+      if (wasActive) {
+        this.changed.emit();
+      }
+    });
+  }
+
+  async onAdd(event: Event, nameInput: HTMLInputElement): Promise<void> {
+    event.preventDefault();
+    await this.run(async () => {
+      if (await this.folderStorage.addWorkspace(nameInput.value)) {
+        nameInput.value = '';
+        this.changed.emit();
+      }
+    });
+  }
+
+  permissionLabel(permission: PermissionState): string {
+    switch (permission) {
+      case 'granted':
+        return 'Access granted';
+      case 'denied':
+        return 'Access denied';
+      default:
+        return 'Access needed';
+    }
+  }
+
+  formatTimestamp(timestamp: number): string {
+    return formatTimestamp(timestamp);
+  }
+
+  private async run(action: () => Promise<void>): Promise<void> {
+    this._isBusy.set(true);
+    this._errorMessage.set(null);
+
+    try {
+      await action();
+    } catch (error) {
+      this._errorMessage.set(error instanceof Error ? error.message : 'Workspace action failed');
+    } finally {
+      this._isBusy.set(false);
+    }
+  }
+}
@@ -0,0 +1,252 @@
+import { Injectable, inject, signal } from '@angular/core';
+import {
+  AnnotationPoint,
+  AnnotationSettings,
+  AnnotationStroke,
+  AnnotationTool,
+} from '../../models/media.models';
+import { IndexedDbService } from '../storage/indexeddb.service';
+
+const DEFAULT_ANNOTATION_SETTINGS: AnnotationSettings = {
+  tool: 'pen',
+  color: '#ef4444',
+  fadeSeconds: 3,
+  lastUpdated: 0,
+};
+
+/**
+ * Service that holds the annotations drawn over the recording and renders them
+ * The compositor calls draw() on every frame, so strokes end up in the recorded video
+ * Strokes stay fully visible for fadeSeconds after the pointer lifts, then fade out
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class AnnotationService {
+  private readonly indexedDb = inject(IndexedDbService);
+  private readonly ANNOTATION_SETTINGS_KEY = 'annotation-settings';
+  private readonly FADE_OUT_MS = 600;
+  private readonly MIN_POINT_DISTANCE = 0.002;
+  private hasInitialized = false;
+
+  private readonly _settings = signal<AnnotationSettings>(DEFAULT_ANNOTATION_SETTINGS);
+  private readonly _isActive = signal(false);
+
+  readonly settings = this._settings.asReadonly();
+
+  /**
+   * Annotation mode: the drawing surface is shown and takes pointer input
+   */
+  readonly isActive = this._isActive.asReadonly();
+
+  // Read at frame rate by the compositor, so kept out of signals
+  private strokes: AnnotationStroke[] = [];
+  private currentStroke: AnnotationStroke | null = null;
+
+  async init(): Promise<void> {
+    if (this.hasInitialized) {
+      return;
+    }
+
+    this.hasInitialized = true;
+    await this.loadSettings();
+  }
+
+  setActive(active: boolean): void {
+    if (!active) {
+      this.endStroke();
+    }
+    this._isActive.set(active);
+  }
+
+  toggleActive(): void {
+    this.setActive(!this._isActive());
+  }
+
+  async setTool(tool: AnnotationTool): Promise<void> {
+    await this.updateSettings({ tool });
+  }
+
+  async setColor(color: string): Promise<void> {
+    await this.updateSettings({ color });
+  }
+
+  async setFadeSeconds(fadeSeconds: number): Promise<void> {
+    await this.updateSettings({ fadeSeconds: Math.max(0, fadeSeconds) });
+  }
+
+  beginStroke(point: AnnotationPoint): void {
+    this.endStroke();
+
+    const { tool, color } = this._settings();
+    this.currentStroke = { tool, color, points: [point], finishedAt: null };
+    this.strokes.push(this.currentStroke);
+  }
+
+  extendStroke(point: AnnotationPoint): void {
+    const stroke = this.currentStroke;
+    if (!stroke) {
+      return;
+    }
+
+    // Arrows and rectangles only need where the drag started and where it is now
+    if (stroke.tool === 'arrow' || stroke.tool === 'rectangle') {
+      stroke.points[1] = point;
+      return;
+    }
+
+    const last = stroke.points[stroke.points.length - 1];
+    if (Math.hypot(point.x - last.x, point.y - last.y) >= this.MIN_POINT_DISTANCE) {
+      stroke.points.push(point);
+    }
+  }
+
+  endStroke(): void {
+    if (this.currentStroke) {
+      this.currentStroke.finishedAt = performance.now();
+      this.currentStroke = null;
+    }
+  }
+
+  /**
+   * Remove every annotation at once, including one still being drawn
+   */
+  clear(): void {
+    this.currentStroke = null;
+    this.strokes = [];
+  }
+
+  /**
+   * Leave annotation mode and drop all strokes, e.g. when the recording ends
+   */
+  reset(): void {
+    this.clear();
+    this._isActive.set(false);
+  }
+
+  /**
+   * Draw the visible annotations over a frame of the given size and forget faded ones
+   */
+  draw(context: CanvasRenderingContext2D, width: number, height: number): void {
+    if (this.strokes.length === 0) {
+      return;
+    }
+
+    const now = performance.now();
+    const holdMs = this._settings().fadeSeconds * 1000;
+    const lineWidth = Math.max(2, Math.min(width, height) * 0.006);
+
+    this.strokes = this.strokes.filter((stroke) => {
+      const opacity = this.strokeOpacity(stroke, now, holdMs);
+      if (opacity > 0) {
+        this.drawStroke(context, stroke, width, height, lineWidth, opacity);
+      }
+      return opacity > 0;
+    });
+  }
+
+  private strokeOpacity(stroke: AnnotationStroke, now: number, holdMs: number): number {
+    if (stroke.finishedAt === null || holdMs === 0) {
+      return 1;
+    }
+
+    const fadingFor = now - stroke.finishedAt - holdMs;
+    return fadingFor <= 0 ? 1 : Math.max(0, 1 - fadingFor / this.FADE_OUT_MS);
+  }
+
+  private drawStroke(
+    context: CanvasRenderingContext2D,
+    stroke: AnnotationStroke,
+    width: number,
+    height: number,
+    lineWidth: number,
+    opacity: number,
+  ): void {
+    const points = stroke.points.map((point) => ({ x: point.x * width, y: point.y * height }));
+    const start = points[0];
+    const end = points[points.length - 1];
+
+    context.save();
+    context.strokeStyle = stroke.color;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.lineWidth = lineWidth;
+    context.globalAlpha = opacity;
+    context.beginPath();
+
+    switch (stroke.tool) {
+      case 'highlighter':
+        context.lineWidth = lineWidth * 4;
+        context.globalAlpha = opacity * 0.35;
+        context.lineCap = 'butt';
+        this.tracePath(context, points);
+        break;
+      case 'arrow': {
+        const angle = Math.atan2(end.y - start.y, end.x - start.x);
+        const headLength = lineWidth * 5;
+        context.moveTo(start.x, start.y);
+        context.lineTo(end.x, end.y);
+        context.moveTo(
+          end.x - headLength * Math.cos(angle - Math.PI / 6),
+          end.y - headLength * Math.sin(angle - Math.PI / 6),
+        );
+        context.lineTo(end.x, end.y);
+        context.lineTo(
+          end.x - headLength * Math.cos(angle + Math.PI / 6),
+          end.y - headLength * Math.sin(angle + Math.PI / 6),
+        );
+        break;
+      }
+      case 'rectangle':
+        context.rect(start.x, start.y, end.x - start.x, end.y - start.y);
+        break;
+      default:
+        this.tracePath(context, points);
+    }
+
+    context.stroke();
+    context.restore();
+  }
+
+  /**
+   * A single point still shows up as a dot thanks to the round line cap
+   */
+  private tracePath(context: CanvasRenderingContext2D, points: AnnotationPoint[]): void {
+    context.moveTo(points[0].x, points[0].y);
+    if (points.length === 1) {
+      context.lineTo(points[0].x + 0.01, points[0].y);
+    }
+    for (const point of points.slice(1)) {
+      context.lineTo(point.x, point.y);
+    }
+  }
+
+  private async updateSettings(changes: Partial<AnnotationSettings>): Promise<void> {
+    this._settings.update((settings) => ({
+      ...settings,
+      ...changes,
+      lastUpdated: Date.now(),
+    }));
+
+    try {
+      await this.indexedDb.set('preferences', this.ANNOTATION_SETTINGS_KEY, this._settings());
+    } catch (error) {
+      console.error('[AnnotationService] Failed to save annotation settings:', error);
+    }
+  }
+
+  private async loadSettings(): Promise<void> {
+    try {
+      const settings = await this.indexedDb.get<AnnotationSettings>(
+        'preferences',
+        this.ANNOTATION_SETTINGS_KEY,
+      );
+
+      if (settings) {
+        this._settings.set({ ...DEFAULT_ANNOTATION_SETTINGS, ...settings });
+      }
+    } catch (error) {
+      console.error('[AnnotationService] Failed to load annotation settings:', error);
+    }
+  }
+}
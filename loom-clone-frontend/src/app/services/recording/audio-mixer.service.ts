@@ -0,0 +1,201 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { AudioMixLevels, AudioMixerSources } from '../../models/media.models';
+import { IndexedDbService } from '../storage/indexeddb.service';
+
+const DEFAULT_MIX_LEVELS: AudioMixLevels = {
+  microphoneGain: 1,
+  systemAudioGain: 1,
+  lastUpdated: 0,
+};
+
+/**
+ * Service that mixes the microphone and system/tab audio into a single recording track
+ * Each source runs through its own gain node so levels and the microphone mute can change
+ * live without touching the other source
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class AudioMixerService {
+  private readonly indexedDb = inject(IndexedDbService);
+  private readonly MIX_LEVELS_KEY = 'audio-mix-levels';
+  private readonly GAIN_RAMP_SECONDS = 0.05;
+  private hasInitialized = false;
+
+  private readonly _mixLevels = signal<AudioMixLevels>(DEFAULT_MIX_LEVELS);
+  private readonly _isMixing = signal(false);
+
+  readonly mixLevels = this._mixLevels.asReadonly();
+  readonly isMixing = this._isMixing.asReadonly();
+
+  private context: AudioContext | null = null;
+  private destination: MediaStreamAudioDestinationNode | null = null;
+  private microphoneSource: MediaStreamAudioSourceNode | null = null;
+  private microphoneGain: GainNode | null = null;
+  private systemAudioSource: MediaStreamAudioSourceNode | null = null;
+  private systemAudioGain: GainNode | null = null;
+  private microphoneMuted = false;
+
+  async init(): Promise<void> {
+    if (this.hasInitialized) {
+      return;
+    }
+
+    this.hasInitialized = true;
+    await this.loadMixLevels();
+  }
+
+  /**
+   * Build the mixing graph for the given sources and return the mixed output track
+   * Throws when no audio source is provided
+   */
+  async start(sources: AudioMixerSources): Promise<MediaStreamTrack> {
+    if (!sources.microphoneTrack && !sources.systemAudioTrack) {
+      throw new Error('Audio track is unavailable for recording');
+    }
+
+    this.stop();
+
+    const context = new AudioContext();
+    this.context = context;
+    this.destination = context.createMediaStreamDestination();
+
+    if (sources.microphoneTrack) {
+      this.microphoneSource = context.createMediaStreamSource(
+        new MediaStream([sources.microphoneTrack]),
+      );
+      this.microphoneGain = context.createGain();
+      this.microphoneSource.connect(this.microphoneGain).connect(this.destination);
+    }
+
+    if (sources.systemAudioTrack) {
+      this.systemAudioSource = context.createMediaStreamSource(
+        new MediaStream([sources.systemAudioTrack]),
+      );
+      this.systemAudioGain = context.createGain();
+      this.systemAudioSource.connect(this.systemAudioGain).connect(this.destination);
+    }
+
+    this.applyGains();
+    await context.resume();
+
+    const outputTrack = this.destination.stream.getAudioTracks()[0];
+    if (!outputTrack) {
+      this.stop();
+      throw new Error('Unable to create mixed audio track');
+    }
+
+    this._isMixing.set(true);
+    return outputTrack;
+  }
+
+  /**
+   * Tear down the mixing graph; source tracks are owned by the caller and are not stopped here
+   */
+  stop(): void {
+    this.microphoneSource?.disconnect();
+    this.systemAudioSource?.disconnect();
+    this.destination?.stream.getTracks().forEach((track) => track.stop());
+    void this.context?.close();
+
+    this.context = null;
+    this.destination = null;
+    this.microphoneSource = null;
+    this.microphoneGain = null;
+    this.systemAudioSource = null;
+    this.systemAudioGain = null;
+    this._isMixing.set(false);
+  }
+
+  /**
+   * Swap the microphone feeding the mix without interrupting the output track
+   * Passing null leaves only system audio in the mix
+   */
+  replaceMicrophoneTrack(track: MediaStreamTrack | null): void {
+    const context = this.context;
+    const destination = this.destination;
+    if (!context || !destination) {
+      return;
+    }
+
+    this.microphoneSource?.disconnect();
+    this.microphoneSource = null;
+
+    if (!track) {
+      return;
+    }
+
+    if (!this.microphoneGain) {
+      this.microphoneGain = context.createGain();
+      this.microphoneGain.connect(destination);
+      this.applyGains();
+    }
+
+    this.microphoneSource = context.createMediaStreamSource(new MediaStream([track]));
+    this.microphoneSource.connect(this.microphoneGain);
+  }
+
+  /**
+   * Silence only the microphone branch of the mix; system audio keeps playing
+   */
+  setMicrophoneMuted(muted: boolean): void {
+    this.microphoneMuted = muted;
+    this.applyGains();
+  }
+
+  async setMicrophoneGain(gain: number): Promise<void> {
+    await this.updateMixLevels({ microphoneGain: gain });
+  }
+
+  async setSystemAudioGain(gain: number): Promise<void> {
+    await this.updateMixLevels({ systemAudioGain: gain });
+  }
+
+  private applyGains(): void {
+    const context = this.context;
+    if (!context) {
+      return;
+    }
+
+    const levels = this._mixLevels();
+    const microphoneGain = this.microphoneMuted ? 0 : levels.microphoneGain;
+
+    this.microphoneGain?.gain.setTargetAtTime(
+      microphoneGain,
+      context.currentTime,
+      this.GAIN_RAMP_SECONDS,
+    );
+    this.systemAudioGain?.gain.setTargetAtTime(
+      levels.systemAudioGain,
+      context.currentTime,
+      this.GAIN_RAMP_SECONDS,
+    );
+  }
+
+  private async updateMixLevels(changes: Partial<AudioMixLevels>): Promise<void> {
+    this._mixLevels.update((levels) => ({
+      ...levels,
+      ...changes,
+      lastUpdated: Date.now(),
+    }));
+    this.applyGains();
+
+    try {
+      await this.indexedDb.set('preferences', this.MIX_LEVELS_KEY, this._mixLevels());
+    } catch (error) {
+      console.error('[AudioMixerService] Failed to save mix levels:', error);
+    }
+  }
+
+  private async loadMixLevels(): Promise<void> {
+    try {
+      const levels = await this.indexedDb.get<AudioMixLevels>('preferences', this.MIX_LEVELS_KEY);
+
+      if (levels) {
+        this._mixLevels.set({ ...DEFAULT_MIX_LEVELS, ...levels });
+      }
+    } catch (error) {
+      console.error('[AudioMixerService] Failed to load mix levels:', error);
+    }
+  }
+}
@@ -0,0 +1,187 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import {
+  CameraMirrorMode,
+  CameraPreviewSettings,
+  CameraStreamUser,
+} from '../../models/media.models';
+import { IndexedDbService } from '../storage/indexeddb.service';
+import { RecordingOutputService } from './recording-output.service';
+
+const DEFAULT_PREVIEW_SETTINGS: CameraPreviewSettings = {
+  mirror: 'preview',
+  showGuides: false,
+  lastUpdated: 0,
+};
+
+/**
+ * Service that owns the single camera stream shared by the preview and the recording session
+ * The camera is opened once and stays open while either holds it, so starting a recording
+ * after previewing does not reopen the device or flicker its light
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class CameraPreviewService {
+  private readonly indexedDb = inject(IndexedDbService);
+  private readonly recordingOutput = inject(RecordingOutputService);
+  private readonly PREVIEW_SETTINGS_KEY = 'camera-preview-settings';
+  private hasInitialized = false;
+
+  private readonly _settings = signal<CameraPreviewSettings>(DEFAULT_PREVIEW_SETTINGS);
+  private readonly _stream = signal<MediaStream | null>(null);
+
+  readonly settings = this._settings.asReadonly();
+  readonly stream = this._stream.asReadonly();
+
+  readonly mirrorPreview = computed(() => this._settings().mirror !== 'off');
+  readonly mirrorOutput = computed(() => this._settings().mirror === 'preview-and-output');
+
+  private readonly users = new Set<CameraStreamUser>();
+  private streamDeviceId: string | null = null;
+  private pendingOpen: Promise<MediaStreamTrack> | null = null;
+  private pendingDeviceId: string | null = null;
+
+  async init(): Promise<void> {
+    if (this.hasInitialized) {
+      return;
+    }
+
+    this.hasInitialized = true;
+    await this.loadSettings();
+  }
+
+  async setMirror(mirror: CameraMirrorMode): Promise<void> {
+    await this.updateSettings({ mirror });
+  }
+
+  async setShowGuides(showGuides: boolean): Promise<void> {
+    await this.updateSettings({ showGuides });
+  }
+
+  /**
+   * Get the camera track for a device, opening it only when a different device is open
+   * An empty deviceId means the system default camera
+   */
+  async acquire(user: CameraStreamUser, deviceId: string): Promise<MediaStreamTrack> {
+    this.users.add(user);
+
+    const current = this._stream()?.getVideoTracks()[0];
+    if (current && current.readyState === 'live' && this.streamDeviceId === deviceId) {
+      await this.applyQualityConstraints(current);
+      return current;
+    }
+
+    // Preview and recording often ask for the same camera at once
+    if (this.pendingOpen && this.pendingDeviceId === deviceId) {
+      return this.pendingOpen;
+    }
+
+    this.pendingDeviceId = deviceId;
+    this.pendingOpen = this.open(deviceId);
+
+    try {
+      return await this.pendingOpen;
+    } catch (error) {
+      this.users.delete(user);
+      throw error;
+    } finally {
+      if (this.pendingDeviceId === deviceId) {
+        this.pendingOpen = null;
+        this.pendingDeviceId = null;
+      }
+    }
+  }
+
+  /**
+   * Give up a hold on the camera; it is closed once nobody holds it
+   */
+  release(user: CameraStreamUser): void {
+    this.users.delete(user);
+
+    if (this.users.size === 0) {
+      this.closeStream();
+    } else {
+      // The recording's camera toggle may have left the shared track disabled
+      this._stream()
+        ?.getVideoTracks()
+        .forEach((track) => (track.enabled = true));
+    }
+  }
+
+  private async open(deviceId: string): Promise<MediaStreamTrack> {
+    const stream = await navigator.mediaDevices.getUserMedia({
+      video: {
+        ...this.recordingOutput.cameraVideoConstraints(),
+        ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+      },
+    });
+
+    const track = stream.getVideoTracks()[0];
+    if (!track) {
+      stream.getTracks().forEach((streamTrack) => streamTrack.stop());
+      throw new Error('Camera stream has no video track');
+    }
+
+    // Everyone let go while the camera was opening
+    if (this.users.size === 0) {
+      track.stop();
+      throw new DOMException('Camera was released while opening', 'AbortError');
+    }
+
+    this.closeStream();
+    this.streamDeviceId = deviceId;
+    this._stream.set(stream);
+    return track;
+  }
+
+  private closeStream(): void {
+    this._stream()
+      ?.getTracks()
+      .forEach((track) => track.stop());
+    this._stream.set(null);
+    this.streamDeviceId = null;
+  }
+
+  /**
+   * Bring an already open camera in line with the current quality preset
+   */
+  private async applyQualityConstraints(track: MediaStreamTrack): Promise<void> {
+    try {
+      await track.applyConstraints({
+        ...track.getConstraints(),
+        ...this.recordingOutput.cameraVideoConstraints(),
+      });
+    } catch (error) {
+      console.error('[CameraPreviewService] Failed to apply camera constraints:', error);
+    }
+  }
+
+  private async updateSettings(changes: Partial<CameraPreviewSettings>): Promise<void> {
+    this._settings.update((settings) => ({
+      ...settings,
+      ...changes,
+      lastUpdated: Date.now(),
+    }));
+
+    try {
+      await this.indexedDb.set('preferences', this.PREVIEW_SETTINGS_KEY, this._settings());
+    } catch (error) {
+      console.error('[CameraPreviewService] Failed to save preview settings:', error);
+    }
+  }
+
+  private async loadSettings(): Promise<void> {
+    try {
+      const settings = await this.indexedDb.get<CameraPreviewSettings>(
+        'preferences',
+        this.PREVIEW_SETTINGS_KEY,
+      );
+
+      if (settings) {
+        this._settings.set({ ...DEFAULT_PREVIEW_SETTINGS, ...settings });
+      }
+    } catch (error) {
+      console.error('[CameraPreviewService] Failed to load preview settings:', error);
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import {
+  EBML_ID,
+  EbmlBlobReader,
+  concatBytes,
+  encodeElement,
+  encodeFloat64,
+  encodeId,
+  encodeSize,
+  encodeUint,
+  readBlockHeader,
+  readChildren,
+  readElementHeader,
+  readFloat,
+  readUint,
+} from './ebml';
+
+describe('ebml', () => {
+  it('round-trips element headers of every size width', () => {
+    for (const size of [0, 126, 127, 16382, 16383, 2 ** 28, 2 ** 40]) {
+      const bytes = concatBytes([encodeId(EBML_ID.Cluster), encodeSize(size)]);
+      const header = readElementHeader(bytes, 0);
+
+      expect(header?.id).toBe(EBML_ID.Cluster);
+      expect(header?.size).toBe(size);
+      expect(header?.dataOffset).toBe(bytes.length);
+    }
+  });
+
+  it('reads an all-ones size as unknown', () => {
+    const bytes = Uint8Array.from([
+      0x1f, 0x43, 0xb6, 0x75, 0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff,
+    ]);
+
+    expect(readElementHeader(bytes, 0)).toEqual({
+      id: EBML_ID.Cluster,
+      offset: 0,
+      dataOffset: 12,
+      size: null,
+    });
+  });
+
+  it('returns null for a header cut off by the end of the buffer', () => {
+    const bytes = concatBytes([encodeId(EBML_ID.Segment), encodeSize(1000, 8)]);
+
+    expect(readElementHeader(bytes.subarray(0, 6), 0)).toBeNull();
+    expect(readElementHeader(new Uint8Array([0x00]), 0)).toBeNull();
+  });
+
+  it('encodes fixed-width sizes and integers', () => {
+    expect(Array.from(encodeSize(5, 8))).toEqual([0x01, 0, 0, 0, 0, 0, 0, 5]);
+    expect(Array.from(encodeUint(300))).toEqual([0x01, 0x2c]);
+    expect(Array.from(encodeUint(1, 8))).toEqual([0, 0, 0, 0, 0, 0, 0, 1]);
+    expect(readUint(encodeUint(2 ** 40 + 7, 8))).toBe(2 ** 40 + 7);
+  });
+
+  it('round-trips floats', () => {
+    expect(readFloat(encodeFloat64(1234.5))).toBe(1234.5);
+  });
+
+  it('lists the children of an element', () => {
+    const info = concatBytes([
+      encodeElement(EBML_ID.TimecodeScale, encodeUint(1_000_000)),
+      encodeElement(EBML_ID.Duration, encodeFloat64(10)),
+    ]);
+
+    const children = readChildren(info);
+
+    expect(children.map((child) => child.id)).toEqual([EBML_ID.TimecodeScale, EBML_ID.Duration]);
+    expect(readUint(info.subarray(children[0].dataOffset, children[1].offset))).toBe(1_000_000);
+  });
+
+  it('reads block headers', () => {
+    const block = Uint8Array.from([0x82, 0xff, 0xfe, 0x80, 0xaa]);
+
+    expect(readBlockHeader(block)).toEqual({
+      trackNumber: 2,
+      relativeTimecode: -2,
+      keyframe: true,
+    });
+  });
+
+  it('reads a blob across window boundaries', async () => {
+    const bytes = Uint8Array.from({ length: 100 }, (_, i) => i);
+    const reader = new EbmlBlobReader(new Blob([bytes]), 16);
+
+    expect(Array.from(await reader.read(10, 4))).toEqual([10, 11, 12, 13]);
+    expect(Array.from(await reader.read(14, 20))).toEqual(Array.from(bytes.subarray(14, 34)));
+    expect(Array.from(await reader.read(2, 3))).toEqual([2, 3, 4]);
+    expect((await reader.read(98, 10)).length).toBe(2);
+  });
+});
@@ -0,0 +1,293 @@
+/**
+ * Minimal EBML (Matroska/WebM) reading and writing primitives
+ * Only what is needed to rewrite MediaRecorder output; no codec knowledge
+ */
+
+/**
+ * Element IDs used when rewriting WebM files, including their length marker bits
+ */
+export const EBML_ID = {
+  EBML: 0x1a45dfa3,
+  Segment: 0x18538067,
+  SeekHead: 0x114d9b74,
+  Seek: 0x4dbb,
+  SeekID: 0x53ab,
+  SeekPosition: 0x53ac,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackType: 0x83,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+  BlockGroup: 0xa0,
+  Block: 0xa1,
+  BlockDuration: 0x9b,
+  ReferenceBlock: 0xfb,
+  Cues: 0x1c53bb6b,
+  CuePoint: 0xbb,
+  CueTime: 0xb3,
+  CueTrackPositions: 0xb7,
+  CueTrack: 0xf7,
+  CueClusterPosition: 0xf1,
+  Void: 0xec,
+  CRC32: 0xbf,
+} as const;
+
+/**
+ * Location of an element within a file or buffer
+ * size is null for elements written with an unknown size (live streams)
+ */
+export interface EbmlElementHeader {
+  id: number;
+  offset: number;
+  dataOffset: number;
+  size: number | null;
+}
+
+/**
+ * Header of a SimpleBlock or Block, read from the start of its data
+ */
+export interface EbmlBlockHeader {
+  trackNumber: number;
+  relativeTimecode: number;
+  keyframe: boolean;
+}
+
+const MAX_HEADER_BYTES = 12;
+
+/**
+ * Read an element header from a buffer
+ * Returns null when the buffer ends before the header does or the bytes are not EBML
+ */
+export function readElementHeader(
+  bytes: Uint8Array,
+  position: number,
+  baseOffset = 0,
+): EbmlElementHeader | null {
+  const idLength = vintLength(bytes[position]);
+  if (idLength === 0 || idLength > 4 || position + idLength > bytes.length) {
+    return null;
+  }
+
+  let id = 0;
+  for (let i = 0; i < idLength; i++) {
+    id = id * 256 + bytes[position + i];
+  }
+
+  const sizePosition = position + idLength;
+  const sizeLength = vintLength(bytes[sizePosition]);
+  if (sizeLength === 0 || sizePosition + sizeLength > bytes.length) {
+    return null;
+  }
+
+  let size = bytes[sizePosition] & (0xff >> sizeLength);
+  let allOnes = size === 0xff >> sizeLength;
+  for (let i = 1; i < sizeLength; i++) {
+    const byte = bytes[sizePosition + i];
+    allOnes = allOnes && byte === 0xff;
+    size = size * 256 + byte;
+  }
+
+  return {
+    id,
+    offset: baseOffset + position,
+    dataOffset: baseOffset + sizePosition + sizeLength,
+    size: allOnes ? null : size,
+  };
+}
+
+/**
+ * Read the direct children of an element whose data is fully in memory
+ */
+export function readChildren(
+  bytes: Uint8Array,
+  start = 0,
+  end = bytes.length,
+): EbmlElementHeader[] {
+  const children: EbmlElementHeader[] = [];
+  let position = start;
+
+  while (position < end) {
+    const header = readElementHeader(bytes.subarray(0, end), position);
+    if (!header || header.size === null || header.dataOffset + header.size > end) {
+      break;
+    }
+
+    children.push(header);
+    position = header.dataOffset + header.size;
+  }
+
+  return children;
+}
+
+export function readBlockHeader(bytes: Uint8Array): EbmlBlockHeader | null {
+  const trackLength = vintLength(bytes[0]);
+  if (trackLength === 0 || bytes.length < trackLength + 3) {
+    return null;
+  }
+
+  let trackNumber = bytes[0] & (0xff >> trackLength);
+  for (let i = 1; i < trackLength; i++) {
+    trackNumber = trackNumber * 256 + bytes[i];
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  return {
+    trackNumber,
+    relativeTimecode: view.getInt16(trackLength),
+    keyframe: (bytes[trackLength + 2] & 0x80) !== 0,
+  };
+}
+
+export function readUint(bytes: Uint8Array): number {
+  let value = 0;
+  for (const byte of bytes) {
+    value = value * 256 + byte;
+  }
+  return value;
+}
+
+export function readFloat(bytes: Uint8Array): number {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length === 4) {
+    return view.getFloat32(0);
+  }
+  return bytes.length === 8 ? view.getFloat64(0) : 0;
+}
+
+export function encodeId(id: number): Uint8Array {
+  const bytes: number[] = [];
+  let remaining = id;
+  do {
+    bytes.unshift(remaining & 0xff);
+    remaining = Math.floor(remaining / 256);
+  } while (remaining > 0);
+  return Uint8Array.from(bytes);
+}
+
+/**
+ * Encode an element data size; pass a length to get a fixed-width encoding
+ */
+export function encodeSize(size: number, length = sizeLength(size)): Uint8Array {
+  const bytes = new Uint8Array(length);
+  let remaining = size;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = remaining & 0xff;
+    remaining = Math.floor(remaining / 256);
+  }
+  bytes[0] |= 0x80 >> (length - 1);
+  return bytes;
+}
+
+/**
+ * Encode an unsigned integer; pass a length to get a fixed-width encoding
+ */
+export function encodeUint(value: number, length = uintLength(value)): Uint8Array {
+  const bytes = new Uint8Array(length);
+  let remaining = value;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = remaining & 0xff;
+    remaining = Math.floor(remaining / 256);
+  }
+  return bytes;
+}
+
+export function encodeFloat64(value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return bytes;
+}
+
+export function encodeElement(id: number, ...data: Uint8Array[]): Uint8Array {
+  const payload = concatBytes(data);
+  return concatBytes([encodeId(id), encodeSize(payload.length), payload]);
+}
+
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Random-access reader over a Blob that loads it in windows,
+ * so large recordings can be scanned without reading them into memory
+ */
+export class EbmlBlobReader {
+  private window = new Uint8Array(0);
+  private windowOffset = 0;
+
+  constructor(
+    private readonly blob: Blob,
+    private readonly windowSize = 1024 * 1024,
+  ) {}
+
+  get size(): number {
+    return this.blob.size;
+  }
+
+  /**
+   * Read up to length bytes; the result is shorter when the blob ends first
+   */
+  async read(offset: number, length: number): Promise<Uint8Array> {
+    const end = Math.min(offset + length, this.blob.size);
+    const windowEnd = this.windowOffset + this.window.length;
+
+    if (offset < this.windowOffset || end > windowEnd) {
+      const loadEnd = Math.min(Math.max(end, offset + this.windowSize), this.blob.size);
+      this.window = new Uint8Array(await this.blob.slice(offset, loadEnd).arrayBuffer());
+      this.windowOffset = offset;
+    }
+
+    return this.window.subarray(offset - this.windowOffset, end - this.windowOffset);
+  }
+
+  async readElementHeader(offset: number): Promise<EbmlElementHeader | null> {
+    const bytes = await this.read(offset, MAX_HEADER_BYTES);
+    return readElementHeader(bytes, 0, offset);
+  }
+
+  async readElementData(header: EbmlElementHeader): Promise<Uint8Array> {
+    return (await this.read(header.dataOffset, header.size ?? 0)).slice();
+  }
+}
+
+function vintLength(firstByte: number | undefined): number {
+  if (!firstByte) {
+    return 0;
+  }
+
+  let length = 1;
+  let mask = 0x80;
+  while (!(firstByte & mask)) {
+    mask >>= 1;
+    length++;
+  }
+  return length;
+}
+
+function sizeLength(size: number): number {
+  let length = 1;
+  // All-ones is reserved for unknown sizes, so each width holds one value fewer
+  while (size >= 2 ** (7 * length) - 1) {
+    length++;
+  }
+  return length;
+}
+
+function uintLength(value: number): number {
+  let length = 1;
+  while (value >= 2 ** (8 * length)) {
+    length++;
+  }
+  return length;
+}
@@ -0,0 +1,269 @@
+import {
+  FragmentedMp4Muxer,
+  Mp4Sample,
+  Mp4TrackConfig,
+  createAacAudioSpecificConfig,
+} from './fragmented-mp4-muxer';
+
+interface Mp4Box {
+  type: string;
+  start: number;
+  end: number;
+}
+
+const CONTAINER_BOXES = new Set(['moov', 'trak', 'mdia', 'minf', 'stbl', 'mvex', 'moof', 'traf']);
+
+const AVCC = Uint8Array.from([0x01, 0x64, 0x00, 0x28, 0xff, 0xe1, 0x00, 0x00]);
+const AAC_CONFIG = createAacAudioSpecificConfig(48000, 2);
+
+const VIDEO: Mp4TrackConfig = {
+  id: 1,
+  kind: 'video',
+  timescale: 90000,
+  description: AVCC,
+  width: 1280,
+  height: 720,
+};
+
+const AUDIO: Mp4TrackConfig = {
+  id: 2,
+  kind: 'audio',
+  timescale: 48000,
+  description: AAC_CONFIG,
+  sampleRate: 48000,
+  channelCount: 2,
+};
+
+function u16(bytes: Uint8Array, offset: number): number {
+  return new DataView(bytes.buffer, bytes.byteOffset).getUint16(offset);
+}
+
+function u32(bytes: Uint8Array, offset: number): number {
+  return new DataView(bytes.buffer, bytes.byteOffset).getUint32(offset);
+}
+
+function u64(bytes: Uint8Array, offset: number): number {
+  return Number(new DataView(bytes.buffer, bytes.byteOffset).getBigUint64(offset));
+}
+
+function readBoxes(bytes: Uint8Array, start = 0, end = bytes.length): Mp4Box[] {
+  const boxes: Mp4Box[] = [];
+  for (let offset = start; offset < end; ) {
+    const size = u32(bytes, offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    boxes.push({ type, start: offset, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+/**
+ * Every box of the given type, searching into container boxes
+ */
+function findBoxes(bytes: Uint8Array, type: string, start = 0, end = bytes.length): Mp4Box[] {
+  return readBoxes(bytes, start, end).flatMap((box) => [
+    ...(box.type === type ? [box] : []),
+    ...(CONTAINER_BOXES.has(box.type) ? findBoxes(bytes, type, box.start + 8, box.end) : []),
+  ]);
+}
+
+function findBox(bytes: Uint8Array, type: string, within?: Mp4Box): Mp4Box {
+  const [box] = findBoxes(bytes, type, within ? within.start + 8 : 0, within?.end);
+  expect(box).withContext(`${type} box`).toBeDefined();
+  return box;
+}
+
+interface TrackRun {
+  trackId: number;
+  baseDecodeTime: number;
+  dataOffset: number;
+  samples: { duration: number; size: number; flags: number }[];
+}
+
+function readTrackRuns(fragment: Uint8Array): TrackRun[] {
+  return findBoxes(fragment, 'traf').map((traf) => {
+    const tfhd = findBox(fragment, 'tfhd', traf);
+    const tfdt = findBox(fragment, 'tfdt', traf);
+    const trun = findBox(fragment, 'trun', traf);
+    const sampleCount = u32(fragment, trun.start + 12);
+
+    return {
+      trackId: u32(fragment, tfhd.start + 12),
+      baseDecodeTime: u64(fragment, tfdt.start + 12),
+      dataOffset: u32(fragment, trun.start + 16),
+      samples: Array.from({ length: sampleCount }, (_, index) => {
+        const entry = trun.start + 20 + index * 12;
+        return {
+          duration: u32(fragment, entry),
+          size: u32(fragment, entry + 4),
+          flags: u32(fragment, entry + 8),
+        };
+      }),
+    };
+  });
+}
+
+function sample(decodeTime: number, duration: number, keyframe: boolean, ...data: number[]) {
+  return { data: Uint8Array.from(data), decodeTime, duration, keyframe } satisfies Mp4Sample;
+}
+
+describe('FragmentedMp4Muxer', () => {
+  describe('init segment', () => {
+    const init = new FragmentedMp4Muxer([VIDEO, AUDIO]).initSegment();
+
+    it('starts with ftyp followed by moov', () => {
+      const [ftyp, moov] = readBoxes(init);
+
+      expect(ftyp.type).toBe('ftyp');
+      expect(String.fromCharCode(...init.subarray(ftyp.start + 8, ftyp.start + 12))).toBe('isom');
+      expect(moov.type).toBe('moov');
+      expect(moov.end).toBe(init.length);
+    });
+
+    it('gives every track its id and timescale', () => {
+      const tkhdIds = findBoxes(init, 'tkhd').map((tkhd) => u32(init, tkhd.start + 20));
+      const timescales = findBoxes(init, 'mdhd').map((mdhd) => u32(init, mdhd.start + 20));
+      const trexIds = findBoxes(init, 'trex').map((trex) => u32(init, trex.start + 12));
+      const mvhd = findBox(init, 'mvhd');
+
+      expect(tkhdIds).toEqual([1, 2]);
+      expect(timescales).toEqual([90000, 48000]);
+      expect(trexIds).toEqual([1, 2]);
+      // next_track_ID follows the highest track id
+      expect(u32(init, mvhd.end - 4)).toBe(3);
+    });
+
+    it('stores the avcC record and frame size of the video track', () => {
+      const [videoTrak] = findBoxes(init, 'trak');
+      const stsd = findBox(init, 'stsd', videoTrak);
+      // Sample entries follow the full box header and the entry count
+      const [avc1] = readBoxes(init, stsd.start + 16, stsd.end);
+      const [avcC] = readBoxes(init, avc1.start + 86, avc1.end);
+
+      expect(avc1.type).toBe('avc1');
+      expect(u16(init, avc1.start + 32)).toBe(1280);
+      expect(u16(init, avc1.start + 34)).toBe(720);
+      expect(avcC.type).toBe('avcC');
+      expect(init.slice(avcC.start + 8, avcC.end)).toEqual(AVCC);
+    });
+
+    it('wraps the AudioSpecificConfig in an esds descriptor', () => {
+      const [, audioTrak] = findBoxes(init, 'trak');
+      const stsd = findBox(init, 'stsd', audioTrak);
+      const [mp4a] = readBoxes(init, stsd.start + 16, stsd.end);
+      const [esds] = readBoxes(init, mp4a.start + 36, mp4a.end);
+      const payload = init.slice(esds.start + 12, esds.end);
+      // DecoderSpecificInfo follows the ES_Descriptor header and ES_ID (8 bytes) and the
+      // DecoderConfigDescriptor header and fields (18 bytes)
+      const infoStart = 26;
+
+      expect(mp4a.type).toBe('mp4a');
+      expect(u16(init, mp4a.start + 24)).toBe(2);
+      expect(u32(init, mp4a.start + 32)).toBe(48000 * 0x10000);
+      expect(esds.type).toBe('esds');
+      expect(payload[0]).toBe(0x03);
+      expect(u16(payload, 5)).toBe(2);
+      expect(payload[8]).toBe(0x04);
+      expect(payload[13]).toBe(0x40);
+      expect(payload[infoStart]).toBe(0x05);
+      expect(payload.slice(infoStart + 1, infoStart + 5)).toEqual(
+        Uint8Array.from([0x80, 0x80, 0x80, AAC_CONFIG.length]),
+      );
+      expect(payload.slice(infoStart + 5, infoStart + 5 + AAC_CONFIG.length)).toEqual(AAC_CONFIG);
+    });
+
+    it('builds an AAC-LC AudioSpecificConfig', () => {
+      // Object type 2, frequency index 3 (48 kHz), 2 channels
+      expect(createAacAudioSpecificConfig(48000, 2)).toEqual(Uint8Array.from([0x11, 0x90]));
+      // Frequency index 4 (44.1 kHz), 1 channel
+      expect(createAacAudioSpecificConfig(44100, 1)).toEqual(Uint8Array.from([0x12, 0x08]));
+    });
+  });
+
+  describe('fragments', () => {
+    let muxer: FragmentedMp4Muxer;
+
+    beforeEach(() => {
+      muxer = new FragmentedMp4Muxer([VIDEO, AUDIO]);
+    });
+
+    it('writes nothing when no track has samples', () => {
+      expect(muxer.fragment(new Map())).toBeNull();
+      expect(muxer.fragment(new Map([[1, []]]))).toBeNull();
+    });
+
+    it('points each track run at its samples in mdat', () => {
+      const fragment = muxer.fragment(
+        new Map([
+          [1, [sample(0, 3000, true, 1, 2, 3), sample(3000, 3000, false, 4, 5)]],
+          [2, [sample(0, 1024, true, 6, 7, 8, 9)]],
+        ]),
+      )!;
+      const [moof, mdat] = readBoxes(fragment);
+      const [video, audio] = readTrackRuns(fragment);
+
+      expect(moof.type).toBe('moof');
+      expect(mdat.type).toBe('mdat');
+      expect(video.dataOffset).toBe(mdat.start + 8 - moof.start);
+      expect(fragment.slice(video.dataOffset, video.dataOffset + 5)).toEqual(
+        Uint8Array.from([1, 2, 3, 4, 5]),
+      );
+      expect(fragment.slice(audio.dataOffset, audio.dataOffset + 4)).toEqual(
+        Uint8Array.from([6, 7, 8, 9]),
+      );
+    });
+
+    it('records sample sizes, durations and sync flags', () => {
+      const fragment = muxer.fragment(
+        new Map([
+          [1, [sample(0, 3000, true, 1, 2, 3), sample(3000, 2999, false, 4, 5)]],
+          [2, [sample(0, 1024, true, 6)]],
+        ]),
+      )!;
+      const [video, audio] = readTrackRuns(fragment);
+
+      expect(video.trackId).toBe(1);
+      expect(video.samples).toEqual([
+        { duration: 3000, size: 3, flags: 0x02000000 },
+        { duration: 2999, size: 2, flags: 0x01010000 },
+      ]);
+      expect(audio.trackId).toBe(2);
+      expect(audio.samples).toEqual([{ duration: 1024, size: 1, flags: 0x02000000 }]);
+    });
+
+    it('leaves out tracks without samples', () => {
+      const fragment = muxer.fragment(new Map([[2, [sample(1024, 1024, true, 1)]]]))!;
+
+      expect(readTrackRuns(fragment).map((run) => run.trackId)).toEqual([2]);
+    });
+
+    it('numbers fragments and carries base decode times across them', () => {
+      const first = muxer.fragment(
+        new Map([
+          [1, [sample(0, 3000, true, 1), sample(3000, 3000, false, 2)]],
+          [2, [sample(0, 1024, true, 3)]],
+        ]),
+      )!;
+      const second = muxer.fragment(
+        new Map([
+          [1, [sample(6000, 3000, false, 4)]],
+          [2, [sample(1024, 1024, true, 5), sample(2048, 1024, true, 6)]],
+        ]),
+      )!;
+      const sequenceNumber = (fragment: Uint8Array) =>
+        u32(fragment, findBox(fragment, 'mfhd').start + 12);
+
+      expect(sequenceNumber(first)).toBe(1);
+      expect(sequenceNumber(second)).toBe(2);
+      expect(readTrackRuns(first).map((run) => run.baseDecodeTime)).toEqual([0, 0]);
+      expect(readTrackRuns(second).map((run) => run.baseDecodeTime)).toEqual([6000, 1024]);
+    });
+
+    it('writes decode times beyond 32 bits', () => {
+      const decodeTime = 2 ** 33 + 5;
+      const fragment = muxer.fragment(new Map([[1, [sample(decodeTime, 3000, true, 1)]]]))!;
+
+      expect(readTrackRuns(fragment)[0].baseDecodeTime).toBe(decodeTime);
+    });
+  });
+});
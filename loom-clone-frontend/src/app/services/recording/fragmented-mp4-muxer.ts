@@ -0,0 +1,350 @@
+/**
+ * Track description needed to write an MP4 init segment
+ * description is the avcC record for H.264 or the AudioSpecificConfig for AAC,
+ * as reported by the WebCodecs encoder's decoderConfig
+ */
+export interface Mp4TrackConfig {
+  id: number;
+  kind: 'video' | 'audio';
+  timescale: number;
+  description: Uint8Array;
+  width?: number;
+  height?: number;
+  sampleRate?: number;
+  channelCount?: number;
+}
+
+/**
+ * One encoded frame; times are in the track's timescale
+ */
+export interface Mp4Sample {
+  data: Uint8Array;
+  decodeTime: number;
+  duration: number;
+  keyframe: boolean;
+}
+
+const SAMPLE_FLAGS_SYNC = 0x02000000;
+const SAMPLE_FLAGS_NON_SYNC = 0x01010000;
+const TFHD_DEFAULT_BASE_IS_MOOF = 0x020000;
+const TRUN_DATA_OFFSET_SIZE_DURATION_FLAGS = 0x000701;
+
+/**
+ * Writer for fragmented MP4 (ISO BMFF) files
+ * The init segment holds track setup only; each fragment is a moof/mdat pair,
+ * so a file can be appended to while recording and still plays if cut short
+ */
+export class FragmentedMp4Muxer {
+  private sequenceNumber = 0;
+
+  constructor(private readonly tracks: Mp4TrackConfig[]) {}
+
+  /**
+   * ftyp and moov boxes that start the file
+   */
+  initSegment(): Uint8Array {
+    const ftyp = box(
+      'ftyp',
+      ascii('isom'),
+      u32(0x200),
+      ascii('isom'),
+      ascii('iso6'),
+      ascii('iso2'),
+      ascii('avc1'),
+      ascii('mp41'),
+    );
+
+    const moov = box(
+      'moov',
+      this.mvhd(),
+      ...this.tracks.map((track) => this.trak(track)),
+      box('mvex', ...this.tracks.map((track) => this.trex(track))),
+    );
+
+    return concat([ftyp, moov]);
+  }
+
+  /**
+   * moof and mdat boxes for the given samples; tracks without samples are left out
+   * Returns null when there is nothing to write
+   */
+  fragment(samplesByTrack: Map<number, Mp4Sample[]>): Uint8Array | null {
+    const trackSamples = this.tracks
+      .map((track) => ({ track, samples: samplesByTrack.get(track.id) ?? [] }))
+      .filter(({ samples }) => samples.length > 0);
+
+    if (trackSamples.length === 0) {
+      return null;
+    }
+
+    this.sequenceNumber++;
+
+    // Data offsets point from the start of moof into mdat, so moof is built twice:
+    // once to measure it, then with the real offsets (its size does not change)
+    const buildMoof = (dataOffsets: number[]) =>
+      box(
+        'moof',
+        fullBox('mfhd', 0, 0, u32(this.sequenceNumber)),
+        ...trackSamples.map(({ track, samples }, index) =>
+          this.traf(track, samples, dataOffsets[index]),
+        ),
+      );
+
+    const moofSize = buildMoof(trackSamples.map(() => 0)).length;
+    const dataOffsets: number[] = [];
+    let offset = moofSize + 8;
+    for (const { samples } of trackSamples) {
+      dataOffsets.push(offset);
+      offset += samples.reduce((total, sample) => total + sample.data.length, 0);
+    }
+
+    const mdat = box(
+      'mdat',
+      ...trackSamples.flatMap(({ samples }) => samples.map((sample) => sample.data)),
+    );
+
+    return concat([buildMoof(dataOffsets), mdat]);
+  }
+
+  private mvhd(): Uint8Array {
+    return fullBox(
+      'mvhd',
+      0,
+      0,
+      u32(0), // creation time
+      u32(0), // modification time
+      u32(1000), // timescale
+      u32(0), // duration; unknown for fragmented files
+      u32(0x00010000), // rate 1.0
+      u16(0x0100), // volume 1.0
+      new Uint8Array(10),
+      matrix(),
+      new Uint8Array(24),
+      u32(Math.max(...this.tracks.map((track) => track.id)) + 1),
+    );
+  }
+
+  private trak(track: Mp4TrackConfig): Uint8Array {
+    const isVideo = track.kind === 'video';
+
+    const tkhd = fullBox(
+      'tkhd',
+      0,
+      0x000003, // enabled, in movie
+      u32(0),
+      u32(0),
+      u32(track.id),
+      u32(0),
+      u32(0), // duration
+      new Uint8Array(8),
+      u16(0), // layer
+      u16(0), // alternate group
+      u16(isVideo ? 0 : 0x0100), // volume
+      u16(0),
+      matrix(),
+      u32((track.width ?? 0) * 0x10000),
+      u32((track.height ?? 0) * 0x10000),
+    );
+
+    const mdhd = fullBox(
+      'mdhd',
+      0,
+      0,
+      u32(0),
+      u32(0),
+      u32(track.timescale),
+      u32(0),
+      u16(0x55c4), // language "und"
+      u16(0),
+    );
+
+    const hdlr = fullBox(
+      'hdlr',
+      0,
+      0,
+      u32(0),
+      ascii(isVideo ? 'vide' : 'soun'),
+      new Uint8Array(12),
+      ascii(isVideo ? 'VideoHandler\0' : 'SoundHandler\0'),
+    );
+
+    const mediaHeader = isVideo
+      ? fullBox('vmhd', 0, 1, new Uint8Array(8))
+      : fullBox('smhd', 0, 0, new Uint8Array(4));
+
+    const dinf = box('dinf', fullBox('dref', 0, 0, u32(1), fullBox('url ', 0, 1)));
+
+    const stbl = box(
+      'stbl',
+      fullBox('stsd', 0, 0, u32(1), isVideo ? this.avc1(track) : this.mp4a(track)),
+      fullBox('stts', 0, 0, u32(0)),
+      fullBox('stsc', 0, 0, u32(0)),
+      fullBox('stsz', 0, 0, u32(0), u32(0)),
+      fullBox('stco', 0, 0, u32(0)),
+    );
+
+    return box('trak', tkhd, box('mdia', mdhd, hdlr, box('minf', mediaHeader, dinf, stbl)));
+  }
+
+  private avc1(track: Mp4TrackConfig): Uint8Array {
+    return box(
+      'avc1',
+      new Uint8Array(6),
+      u16(1), // data reference index
+      new Uint8Array(16),
+      u16(track.width ?? 0),
+      u16(track.height ?? 0),
+      u32(0x00480000), // 72 dpi
+      u32(0x00480000),
+      u32(0),
+      u16(1), // frame count
+      new Uint8Array(32), // compressor name
+      u16(0x0018), // depth
+      u16(0xffff),
+      box('avcC', track.description),
+    );
+  }
+
+  private mp4a(track: Mp4TrackConfig): Uint8Array {
+    const sampleRate = track.sampleRate ?? 48000;
+
+    return box(
+      'mp4a',
+      new Uint8Array(6),
+      u16(1), // data reference index
+      new Uint8Array(8),
+      u16(track.channelCount ?? 2),
+      u16(16), // sample size
+      u32(0),
+      u32(sampleRate * 0x10000),
+      this.esds(track),
+    );
+  }
+
+  /**
+   * Elementary stream descriptor wrapping the AAC AudioSpecificConfig
+   */
+  private esds(track: Mp4TrackConfig): Uint8Array {
+    const decoderSpecificInfo = descriptor(0x05, track.description);
+    const decoderConfig = descriptor(
+      0x04,
+      u8(0x40), // MPEG-4 audio
+      u8(0x15), // audio stream
+      new Uint8Array(3), // buffer size
+      u32(0), // max bitrate
+      u32(0), // average bitrate
+      decoderSpecificInfo,
+    );
+    const esDescriptor = descriptor(
+      0x03,
+      u16(track.id),
+      u8(0),
+      decoderConfig,
+      descriptor(0x06, u8(0x02)),
+    );
+
+    return fullBox('esds', 0, 0, esDescriptor);
+  }
+
+  private trex(track: Mp4TrackConfig): Uint8Array {
+    return fullBox('trex', 0, 0, u32(track.id), u32(1), u32(0), u32(0), u32(0));
+  }
+
+  private traf(track: Mp4TrackConfig, samples: Mp4Sample[], dataOffset: number): Uint8Array {
+    const entries = samples.map((sample) =>
+      concat([
+        u32(sample.duration),
+        u32(sample.data.length),
+        u32(sample.keyframe ? SAMPLE_FLAGS_SYNC : SAMPLE_FLAGS_NON_SYNC),
+      ]),
+    );
+
+    return box(
+      'traf',
+      fullBox('tfhd', 0, TFHD_DEFAULT_BASE_IS_MOOF, u32(track.id)),
+      fullBox('tfdt', 1, 0, u64(samples[0].decodeTime)),
+      fullBox(
+        'trun',
+        0,
+        TRUN_DATA_OFFSET_SIZE_DURATION_FLAGS,
+        u32(samples.length),
+        u32(dataOffset),
+        ...entries,
+      ),
+    );
+  }
+}
+
+/**
+ * AudioSpecificConfig for AAC-LC, for encoders that do not report one
+ */
+export function createAacAudioSpecificConfig(sampleRate: number, channelCount: number): Uint8Array {
+  const frequencies = [
+    96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350,
+  ];
+  const frequencyIndex = Math.max(frequencies.indexOf(sampleRate), 0);
+  const config = (2 << 11) | (frequencyIndex << 7) | (channelCount << 3);
+  return u16(config);
+}
+
+function box(type: string, ...payload: Uint8Array[]): Uint8Array {
+  const body = concat(payload);
+  return concat([u32(body.length + 8), ascii(type), body]);
+}
+
+function fullBox(
+  type: string,
+  version: number,
+  flags: number,
+  ...payload: Uint8Array[]
+): Uint8Array {
+  return box(type, u32((version << 24) | flags), ...payload);
+}
+
+function descriptor(tag: number, ...payload: Uint8Array[]): Uint8Array {
+  const body = concat(payload);
+  // Four-byte length form, accepted by every parser regardless of size
+  const length = [0x80, 0x80, 0x80, 0].map((marker, index) => {
+    const shift = 7 * (3 - index);
+    return marker | ((body.length >> shift) & 0x7f);
+  });
+  return concat([u8(tag), Uint8Array.from(length), body]);
+}
+
+function matrix(): Uint8Array {
+  return concat([0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000].map(u32));
+}
+
+function ascii(text: string): Uint8Array {
+  return Uint8Array.from(text, (char) => char.charCodeAt(0));
+}
+
+function u8(value: number): Uint8Array {
+  return Uint8Array.of(value & 0xff);
+}
+
+function u16(value: number): Uint8Array {
+  return Uint8Array.of((value >> 8) & 0xff, value & 0xff);
+}
+
+function u32(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value >>> 0);
+  return bytes;
+}
+
+function u64(value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setBigUint64(0, BigInt(Math.max(0, Math.floor(value))));
+  return bytes;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
@@ -6,8 +6,21 @@ import {
   MediaDeviceKind,
   MediaTogglePreferences,
   ActiveRecordingTracks,
+  MicrophoneProcessingSettings,
+  AppliedMicrophoneSettings,
+  legacyEmptyDeviceSelectionKey,
 } from '../../models/media.models';
 import { IndexedDbService } from '../storage/indexeddb.service';
+import { AudioMixerService } from './audio-mixer.service';
+
+const DEFAULT_MICROPHONE_PROCESSING: MicrophoneProcessingSettings = {
+  noiseSuppression: true,
+  echoCancellation: true,
+  autoGainControl: true,
+  sampleRate: null,
+  channelCount: null,
+  lastUpdated: 0,
+};
 
 /**
  * Service for managing camera and microphone device enumeration and selection
@@ -24,9 +37,27 @@ import { IndexedDbService } from '../storage/indexeddb.service';
 })
 export class MediaDevicesService {
   private readonly indexedDB = inject(IndexedDbService);
+  private readonly audioMixer = inject(AudioMixerService);
   private readonly TOGGLE_PREFERENCES_KEY = 'recording-toggle-defaults';
+  private readonly MICROPHONE_PROCESSING_KEY = 'microphone-processing-settings';
   private readonly EMPTY_DEVICE_ID_SENTINEL = '__EMPTY_DEVICE_ID__';
+  private readonly DEVICE_CHANGE_DEBOUNCE_MS = 250;
   private hasInitialized = false;
+  private deviceChangeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * devicechange fires once per added or removed device, often several times in a row
+   */
+  private readonly deviceChangeHandler = (): void => {
+    if (this.deviceChangeTimer !== null) {
+      clearTimeout(this.deviceChangeTimer);
+    }
+
+    this.deviceChangeTimer = setTimeout(() => {
+      this.deviceChangeTimer = null;
+      void this.enumerateDevices({ background: true });
+    }, this.DEVICE_CHANGE_DEBOUNCE_MS);
+  };
 
   // ============ Private State Signals ============
 
@@ -37,11 +68,16 @@ export class MediaDevicesService {
   private readonly _isEnumerating = signal(false);
   private readonly _permissionState = signal<MediaPermissionState>('unknown');
   private readonly _errorMessage = signal<string | null>(null);
+  private readonly _deviceNotice = signal<string | null>(null);
   private readonly _microphoneEnabled = signal(true);
   private readonly _cameraEnabled = signal(false);
   private readonly _screenSharingEnabled = signal(true);
+  private readonly _systemAudioEnabled = signal(false);
   private readonly _activeMicrophoneTrack = signal<MediaStreamTrack | null>(null);
   private readonly _activeCameraTrack = signal<MediaStreamTrack | null>(null);
+  private readonly _previewMicrophoneTrack = signal<MediaStreamTrack | null>(null);
+  private readonly _microphoneProcessing = signal<Record<string, MicrophoneProcessingSettings>>({});
+  private readonly _appliedMicrophoneSettings = signal<AppliedMicrophoneSettings | null>(null);
 
   // ============ Public Readonly Signals ============
 
@@ -52,9 +88,20 @@ export class MediaDevicesService {
   readonly isEnumerating = this._isEnumerating.asReadonly();
   readonly permissionState = this._permissionState.asReadonly();
   readonly errorMessage = this._errorMessage.asReadonly();
+
+  /**
+   * Explains why a selected device was cleared after it was unplugged
+   */
+  readonly deviceNotice = this._deviceNotice.asReadonly();
   readonly microphoneEnabled = this._microphoneEnabled.asReadonly();
   readonly cameraEnabled = this._cameraEnabled.asReadonly();
   readonly screenSharingEnabled = this._screenSharingEnabled.asReadonly();
+  readonly systemAudioEnabled = this._systemAudioEnabled.asReadonly();
+
+  /**
+   * Processing on the live microphone track as reported by the browser, null when none is open
+   */
+  readonly appliedMicrophoneSettings = this._appliedMicrophoneSettings.asReadonly();
 
   // ============ Computed Signals ============
 
@@ -68,6 +115,15 @@ export class MediaDevicesService {
     return this._availableMicrophones().find((mic) => mic.selectionKey === microphoneKey) || null;
   });
 
+  /**
+   * Processing requested for the selected microphone
+   */
+  readonly selectedMicrophoneProcessing = computed(() => {
+    const microphoneKey = this._selectedMicrophoneKey();
+    const settings = microphoneKey ? this._microphoneProcessing()[microphoneKey] : undefined;
+    return settings ?? DEFAULT_MICROPHONE_PROCESSING;
+  });
+
   readonly hasDevicePermission = computed(() => this._permissionState() === 'granted');
 
   readonly hasAnySelectedDevice = computed(
@@ -120,7 +176,10 @@ export class MediaDevicesService {
         this.enumerateDevices(),
         this.loadDeviceSelection(),
         this.loadTogglePreferences(),
+        this.loadMicrophoneProcessing(),
       ]);
+
+      navigator.mediaDevices.addEventListener('devicechange', this.deviceChangeHandler);
     } catch (error) {
       console.error('[MediaDevicesService] Initialization failed:', error);
       const message = error instanceof Error ? error.message : 'Failed to initialize media devices';
@@ -131,15 +190,19 @@ export class MediaDevicesService {
   /**
    * Enumerate available cameras and microphones
    * Populates availableCameras and availableMicrophones signals
+   * Background runs (after devicechange) keep the device form on screen instead of
+   * showing the loading state
    */
-  async enumerateDevices(): Promise<void> {
+  async enumerateDevices(options: { background?: boolean } = {}): Promise<void> {
     if (!this.isSupported()) {
       this._errorMessage.set('Media Devices API not available');
       return;
     }
 
     try {
-      this._isEnumerating.set(true);
+      if (!options.background) {
+        this._isEnumerating.set(true);
+      }
       this._errorMessage.set(null);
 
       const devices = await navigator.mediaDevices.enumerateDevices();
@@ -164,11 +227,15 @@ export class MediaDevicesService {
           groupId: device.groupId,
         }));
 
+      const previousCamera = this.selectedCamera();
+      const previousMicrophone = this.selectedMicrophone();
+
       this._availableCameras.set(cameras);
       this._availableMicrophones.set(microphones);
+      this.resolveLegacySelections();
 
       // Verify existing selections are still valid
-      this.validateSelectedDevices();
+      this.validateSelectedDevices(previousCamera, previousMicrophone);
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to enumerate devices';
       console.error('[MediaDevicesService] Enumeration failed:', error);
@@ -188,6 +255,7 @@ export class MediaDevicesService {
     }
     this._selectedCameraKey.set(selectionKey);
     this._errorMessage.set(null);
+    this._deviceNotice.set(null);
     this.ensurePermissionPromptState();
   }
 
@@ -201,6 +269,7 @@ export class MediaDevicesService {
     }
     this._selectedMicrophoneKey.set(selectionKey);
     this._errorMessage.set(null);
+    this._deviceNotice.set(null);
     this.ensurePermissionPromptState();
   }
 
@@ -208,7 +277,7 @@ export class MediaDevicesService {
    * Toggle microphone enablement before and during recording
    */
   async setMicrophoneEnabled(enabled: boolean): Promise<void> {
-    if (enabled && this._selectedMicrophoneKey() === null) {
+    if (enabled && this._selectedMicrophoneKey() === null && !this._activeMicrophoneTrack()) {
       this._errorMessage.set('Select a microphone first, then enable it');
       return;
     }
@@ -224,7 +293,7 @@ export class MediaDevicesService {
    * Toggle camera enablement before and during recording
    */
   async setCameraEnabled(enabled: boolean): Promise<void> {
-    if (enabled && this._selectedCameraKey() === null) {
+    if (enabled && this._selectedCameraKey() === null && !this._activeCameraTrack()) {
       this._errorMessage.set('Select a camera first, then enable it');
       return;
     }
@@ -245,12 +314,27 @@ export class MediaDevicesService {
     await this.saveTogglePreferences();
   }
 
+  /**
+   * Toggle capturing system/tab audio alongside the shared screen
+   */
+  async setSystemAudioEnabled(enabled: boolean): Promise<void> {
+    this._systemAudioEnabled.set(enabled);
+    this._errorMessage.set(null);
+    await this.saveTogglePreferences();
+  }
+
   /**
    * Attach active microphone/camera tracks for live toggle control
+   * Tracks left out are kept, so a device switched mid-recording can be attached on its own
    */
-  attachActiveTracks(tracks: ActiveRecordingTracks): void {
-    this._activeMicrophoneTrack.set(tracks.microphoneTrack);
-    this._activeCameraTrack.set(tracks.cameraTrack);
+  attachActiveTracks(tracks: Partial<ActiveRecordingTracks>): void {
+    if (tracks.microphoneTrack !== undefined) {
+      this._activeMicrophoneTrack.set(tracks.microphoneTrack);
+      this.refreshAppliedMicrophoneSettings();
+    }
+    if (tracks.cameraTrack !== undefined) {
+      this._activeCameraTrack.set(tracks.cameraTrack);
+    }
     this.applyDesiredStateToActiveTracks();
   }
 
@@ -260,15 +344,139 @@ export class MediaDevicesService {
   clearActiveTracks(): void {
     this._activeMicrophoneTrack.set(null);
     this._activeCameraTrack.set(null);
+    this.refreshAppliedMicrophoneSettings();
+  }
+
+  /**
+   * Register the microphone preview track (or null once it closes), so processing changes
+   * made before recording are applied and reported too
+   */
+  attachPreviewMicrophoneTrack(track: MediaStreamTrack | null): void {
+    this._previewMicrophoneTrack.set(track);
+    this.refreshAppliedMicrophoneSettings();
+  }
+
+  /**
+   * Audio constraints for opening a microphone with the selected microphone's processing
+   * An empty deviceId means the system default microphone
+   */
+  microphoneConstraints(deviceId: string): MediaTrackConstraints {
+    const processing = this.selectedMicrophoneProcessing();
+    const supported = navigator.mediaDevices.getSupportedConstraints();
+    const constraints: MediaTrackConstraints = deviceId ? { deviceId: { exact: deviceId } } : {};
+
+    if (supported.noiseSuppression) {
+      constraints.noiseSuppression = processing.noiseSuppression;
+    }
+    if (supported.echoCancellation) {
+      constraints.echoCancellation = processing.echoCancellation;
+    }
+    if (supported.autoGainControl) {
+      constraints.autoGainControl = processing.autoGainControl;
+    }
+    if (supported.sampleRate && processing.sampleRate !== null) {
+      constraints.sampleRate = { ideal: processing.sampleRate };
+    }
+    if (supported.channelCount && processing.channelCount !== null) {
+      constraints.channelCount = { ideal: processing.channelCount };
+    }
+
+    return constraints;
+  }
+
+  /**
+   * Change processing for the selected microphone and apply it to the open track
+   * Browsers that cannot change a setting on a live track keep their current value,
+   * which shows up in appliedMicrophoneSettings
+   */
+  async setMicrophoneProcessing(
+    changes: Partial<Omit<MicrophoneProcessingSettings, 'lastUpdated'>>,
+  ): Promise<void> {
+    const microphoneKey = this._selectedMicrophoneKey();
+    if (microphoneKey === null) {
+      return;
+    }
+
+    this._microphoneProcessing.update((processing) => ({
+      ...processing,
+      [microphoneKey]: {
+        ...this.selectedMicrophoneProcessing(),
+        ...changes,
+        lastUpdated: Date.now(),
+      },
+    }));
+
+    const track = this.processedMicrophoneTrack();
+    if (track) {
+      // Keep the track's deviceId; a device default drops the earlier preference
+      const constraints = { ...track.getConstraints(), ...this.microphoneConstraints('') };
+      const processing = this.selectedMicrophoneProcessing();
+      if (processing.sampleRate === null) {
+        delete constraints.sampleRate;
+      }
+      if (processing.channelCount === null) {
+        delete constraints.channelCount;
+      }
+
+      try {
+        await track.applyConstraints(constraints);
+      } catch (error) {
+        console.error('[MediaDevicesService] Failed to apply microphone processing:', error);
+      }
+      this.refreshAppliedMicrophoneSettings();
+    }
+
+    try {
+      await this.indexedDB.set(
+        'preferences',
+        this.MICROPHONE_PROCESSING_KEY,
+        this._microphoneProcessing(),
+      );
+    } catch (error) {
+      console.error('[MediaDevicesService] Failed to save microphone processing:', error);
+    }
+  }
+
+  /**
+   * The recording microphone while recording, otherwise the preview microphone
+   */
+  private processedMicrophoneTrack(): MediaStreamTrack | null {
+    const track = this._activeMicrophoneTrack() ?? this._previewMicrophoneTrack();
+    return track && track.readyState === 'live' ? track : null;
+  }
+
+  private refreshAppliedMicrophoneSettings(): void {
+    const track = this.processedMicrophoneTrack();
+    if (!track) {
+      this._appliedMicrophoneSettings.set(null);
+      return;
+    }
+
+    const { noiseSuppression, echoCancellation, autoGainControl, sampleRate, channelCount } =
+      track.getSettings();
+    this._appliedMicrophoneSettings.set({
+      noiseSuppression,
+      echoCancellation,
+      autoGainControl,
+      sampleRate,
+      channelCount,
+    });
   }
 
   /**
    * Apply desired toggle state to active tracks
+   * While the audio mixer is running the microphone is muted through its gain branch,
+   * so system audio in the same mix is unaffected
    */
   applyDesiredStateToActiveTracks(): void {
     const microphoneTrack = this._activeMicrophoneTrack();
     if (microphoneTrack && microphoneTrack.readyState === 'live') {
-      microphoneTrack.enabled = this._microphoneEnabled();
+      if (this.audioMixer.isMixing()) {
+        microphoneTrack.enabled = true;
+        this.audioMixer.setMicrophoneMuted(!this._microphoneEnabled());
+      } else {
+        microphoneTrack.enabled = this._microphoneEnabled();
+      }
     }
 
     const cameraTrack = this._activeCameraTrack();
@@ -308,7 +516,7 @@ export class MediaDevicesService {
       const selectedCamera = this.selectedCamera();
       const selectedMicrophone = this.selectedMicrophone();
       const cameraDeviceId = selectedCamera?.deviceId.trim() || null;
-      const microphoneDeviceId = selectedMicrophone?.deviceId.trim() || null;
+      const microphoneDeviceId = selectedMicrophone?.deviceId.trim() ?? '';
 
       const constraints: MediaStreamConstraints = {
         video:
@@ -319,9 +527,7 @@ export class MediaDevicesService {
             : false,
         audio:
           this._microphoneEnabled() && selectedMicrophone !== null
-            ? microphoneDeviceId
-              ? { deviceId: { exact: microphoneDeviceId } }
-              : true
+            ? this.microphoneConstraints(microphoneDeviceId)
             : false,
       };
 
@@ -354,6 +560,7 @@ export class MediaDevicesService {
         microphoneEnabled: this._microphoneEnabled(),
         cameraEnabled: this._cameraEnabled(),
         screenSharingEnabled: this._screenSharingEnabled(),
+        systemAudioEnabled: this._systemAudioEnabled(),
         lastUpdated: Date.now(),
       };
 
@@ -393,21 +600,11 @@ export class MediaDevicesService {
         'current',
       );
 
+      // Legacy deviceId selections are converted by the IndexedDB migrations
       if (selection) {
-        const legacySelection = selection as SelectedMediaDevices & {
-          cameraDeviceId?: string | null;
-          microphoneDeviceId?: string | null;
-        };
-
-        const cameraKey =
-          selection.cameraSelectionKey ??
-          this.resolveLegacySelectionKey(legacySelection.cameraDeviceId, 'videoinput');
-        const microphoneKey =
-          selection.microphoneSelectionKey ??
-          this.resolveLegacySelectionKey(legacySelection.microphoneDeviceId, 'audioinput');
-
-        this._selectedCameraKey.set(cameraKey);
-        this._selectedMicrophoneKey.set(microphoneKey);
+        this._selectedCameraKey.set(selection.cameraSelectionKey);
+        this._selectedMicrophoneKey.set(selection.microphoneSelectionKey);
+        this.resolveLegacySelections();
       }
     } catch (error) {
       console.error('[MediaDevicesService] Failed to load device selection:', error);
@@ -428,16 +625,43 @@ export class MediaDevicesService {
       if (preferences) {
         const preferencesWithDefaults = preferences as MediaTogglePreferences & {
           screenSharingEnabled?: boolean;
+          systemAudioEnabled?: boolean;
         };
         this._microphoneEnabled.set(preferences.microphoneEnabled);
         this._cameraEnabled.set(preferences.cameraEnabled);
         this._screenSharingEnabled.set(preferencesWithDefaults.screenSharingEnabled ?? true);
+        this._systemAudioEnabled.set(preferencesWithDefaults.systemAudioEnabled ?? false);
       }
     } catch (error) {
       console.error('[MediaDevicesService] Failed to load toggle preferences:', error);
     }
   }
 
+  /**
+   * Load per-microphone processing settings from IndexedDB
+   */
+  private async loadMicrophoneProcessing(): Promise<void> {
+    try {
+      const processing = await this.indexedDB.get<Record<string, MicrophoneProcessingSettings>>(
+        'preferences',
+        this.MICROPHONE_PROCESSING_KEY,
+      );
+
+      if (processing) {
+        this._microphoneProcessing.set(
+          Object.fromEntries(
+            Object.entries(processing).map(([microphoneKey, settings]) => [
+              microphoneKey,
+              { ...DEFAULT_MICROPHONE_PROCESSING, ...settings },
+            ]),
+          ),
+        );
+      }
+    } catch (error) {
+      console.error('[MediaDevicesService] Failed to load microphone processing:', error);
+    }
+  }
+
   /**
    * Check if a device is still available
    */
@@ -448,25 +672,74 @@ export class MediaDevicesService {
 
   /**
    * Validate that selected devices still exist
-   * Clear selection if device was disconnected/deleted
+   * Clear selection if device was disconnected/deleted and say which one went away
    */
-  private validateSelectedDevices(): void {
+  private validateSelectedDevices(
+    previousCamera: MediaInputDevice | null,
+    previousMicrophone: MediaInputDevice | null,
+  ): void {
     const cameraKey = this._selectedCameraKey();
     const microphoneKey = this._selectedMicrophoneKey();
+    const removed: string[] = [];
 
+    // A live recording keeps its toggles; the session replaces the lost track itself
     if (cameraKey !== null && !this.isSelectionAvailable(cameraKey, 'videoinput')) {
       this._selectedCameraKey.set(null);
-      this._cameraEnabled.set(false);
+      if (this._activeCameraTrack() === null) {
+        this._cameraEnabled.set(false);
+      }
+      removed.push(previousCamera ? `Camera "${previousCamera.label}"` : 'The selected camera');
     }
 
     if (microphoneKey !== null && !this.isSelectionAvailable(microphoneKey, 'audioinput')) {
       this._selectedMicrophoneKey.set(null);
-      this._microphoneEnabled.set(false);
+      if (this._activeMicrophoneTrack() === null) {
+        this._microphoneEnabled.set(false);
+      }
+      removed.push(
+        previousMicrophone ? `Microphone "${previousMicrophone.label}"` : 'The selected microphone',
+      );
+    }
+
+    if (removed.length > 0) {
+      this._deviceNotice.set(
+        `${removed.join(' and ')} ${removed.length > 1 ? 'are' : 'is'} no longer connected. Choose another device.`,
+      );
     }
 
     this.ensurePermissionPromptState();
   }
 
+  /**
+   * Select the device a live track is actually using, e.g. after falling back to the default
+   * Leaves the selection alone when the device is not in the enumerated list
+   */
+  selectDeviceForTrack(track: MediaStreamTrack): void {
+    const deviceId = track.getSettings().deviceId;
+    const kind: MediaDeviceKind = track.kind === 'video' ? 'videoinput' : 'audioinput';
+    const devices = kind === 'videoinput' ? this._availableCameras() : this._availableMicrophones();
+    const device = devices.find((candidate) => candidate.deviceId === deviceId);
+
+    if (!device) {
+      return;
+    }
+
+    if (kind === 'videoinput') {
+      this._selectedCameraKey.set(device.selectionKey);
+    } else {
+      this._selectedMicrophoneKey.set(device.selectionKey);
+    }
+    this._deviceNotice.set(null);
+    void this.saveDeviceSelection();
+  }
+
+  /**
+   * Report a device problem found outside enumeration, such as a track dying mid-recording
+   */
+  setDeviceNotice(notice: string | null): void {
+    this._deviceNotice.set(notice);
+  }
+
   /**
    * Keep permission state aligned with current selections and toggles
    */
@@ -506,20 +779,22 @@ export class MediaDevicesService {
     return `${kind}:default:${normalizedGroupId}:${normalizedLabel}:${index}`;
   }
 
-  private resolveLegacySelectionKey(
-    legacyDeviceId: string | null | undefined,
-    kind: MediaDeviceKind,
-  ): string | null {
-    if (legacyDeviceId === null || legacyDeviceId === undefined) {
-      return null;
-    }
+  /**
+   * Match selections migrated from an empty legacy deviceId to the enumerated device without one
+   * Loading and enumeration run in parallel, so both call this; the placeholder key is kept
+   * until devices have been enumerated
+   */
+  private resolveLegacySelections(): void {
+    this._selectedCameraKey.update((key) => this.resolveLegacySelectionKey(key, 'videoinput'));
+    this._selectedMicrophoneKey.update((key) => this.resolveLegacySelectionKey(key, 'audioinput'));
+  }
 
-    const normalizedDeviceId = legacyDeviceId.trim();
-    if (normalizedDeviceId.length > 0) {
-      return `${kind}:id:${normalizedDeviceId}`;
+  private resolveLegacySelectionKey(key: string | null, kind: MediaDeviceKind): string | null {
+    const devices = kind === 'videoinput' ? this._availableCameras() : this._availableMicrophones();
+    if (key !== legacyEmptyDeviceSelectionKey(kind) || devices.length === 0) {
+      return key;
     }
 
-    const devices = kind === 'videoinput' ? this._availableCameras() : this._availableMicrophones();
     return devices.find((device) => device.deviceId.trim().length === 0)?.selectionKey ?? null;
   }
 
@@ -532,8 +807,10 @@ export class MediaDevicesService {
     this._microphoneEnabled.set(true);
     this._cameraEnabled.set(false);
     this._screenSharingEnabled.set(true);
+    this._systemAudioEnabled.set(false);
     this.clearActiveTracks();
     this._permissionState.set('unknown');
     this._errorMessage.set(null);
+    this._deviceNotice.set(null);
   }
 }
@@ -0,0 +1,262 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { MicrophoneLevelWarning, MicrophoneMonitorSettings } from '../../models/media.models';
+import { IndexedDbService } from '../storage/indexeddb.service';
+import { MediaDevicesService } from './media-devices.service';
+
+const DEFAULT_MONITOR_SETTINGS: MicrophoneMonitorSettings = {
+  silenceWarningSeconds: 10,
+  lastUpdated: 0,
+};
+
+/**
+ * Service that measures the microphone level with an AnalyserNode
+ * Monitors either its own preview stream for the selected microphone during setup,
+ * or the microphone track of the recording in progress
+ *
+ * The analyser reads the raw track, before the mixer's mute and gain, so it can tell
+ * when someone is talking into a microphone that is toggled off
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class MicrophoneLevelService {
+  private readonly indexedDb = inject(IndexedDbService);
+  private readonly mediaDevices = inject(MediaDevicesService);
+  private readonly MONITOR_SETTINGS_KEY = 'microphone-monitor-settings';
+  private readonly SAMPLE_INTERVAL_MS = 100;
+  private readonly SILENCE_DB = -55;
+  private readonly SPEECH_DB = -35;
+  private readonly SPEECH_HOLD_MS = 600;
+  private readonly FLOOR_DB = -60;
+  private hasInitialized = false;
+
+  private readonly _settings = signal<MicrophoneMonitorSettings>(DEFAULT_MONITOR_SETTINGS);
+  private readonly _level = signal(0);
+  private readonly _warning = signal<MicrophoneLevelWarning | null>(null);
+  private readonly _isMonitoring = signal(false);
+
+  readonly settings = this._settings.asReadonly();
+
+  /**
+   * Smoothed input level from 0 (silence, -60 dBFS or lower) to 1 (full scale)
+   */
+  readonly level = this._level.asReadonly();
+  readonly warning = this._warning.asReadonly();
+  readonly isMonitoring = this._isMonitoring.asReadonly();
+
+  private context: AudioContext | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private analyser: AnalyserNode | null = null;
+  private samples: Float32Array<ArrayBuffer> | null = null;
+  private sampleTimer: ReturnType<typeof setInterval> | null = null;
+  private monitoredTrack: MediaStreamTrack | null = null;
+  private previewStream: MediaStream | null = null;
+  private previewDeviceId: string | null = null;
+  private silentSince: number | null = null;
+  private speakingSince: number | null = null;
+
+  async init(): Promise<void> {
+    if (this.hasInitialized) {
+      return;
+    }
+
+    this.hasInitialized = true;
+    await this.loadSettings();
+  }
+
+  async setSilenceWarningSeconds(seconds: number): Promise<void> {
+    this._settings.set({
+      silenceWarningSeconds: Math.max(0, Math.round(seconds)),
+      lastUpdated: Date.now(),
+    });
+
+    try {
+      await this.indexedDb.set('preferences', this.MONITOR_SETTINGS_KEY, this._settings());
+    } catch (error) {
+      console.error('[MicrophoneLevelService] Failed to save monitor settings:', error);
+    }
+  }
+
+  /**
+   * Open a stream for the given microphone and meter it
+   * Only runs when microphone access was already granted, so it never prompts on its own
+   */
+  async startPreview(deviceId: string): Promise<void> {
+    if (this.previewStream && this.previewDeviceId === deviceId) {
+      return;
+    }
+
+    if (!(await this.hasMicrophoneAccess())) {
+      return;
+    }
+
+    this.previewDeviceId = deviceId;
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: this.mediaDevices.microphoneConstraints(deviceId),
+      });
+
+      // Another preview or a recording took over while the stream was opening
+      if (this.previewDeviceId !== deviceId) {
+        stream.getTracks().forEach((track) => track.stop());
+        return;
+      }
+
+      const track = stream.getAudioTracks()[0];
+      if (!track) {
+        stream.getTracks().forEach((track) => track.stop());
+        return;
+      }
+
+      this.monitorTrack(track);
+      this.previewStream = stream;
+      this.previewDeviceId = deviceId;
+      this.mediaDevices.attachPreviewMicrophoneTrack(track);
+    } catch (error) {
+      this.previewDeviceId = null;
+      console.error('[MicrophoneLevelService] Failed to open microphone preview:', error);
+    }
+  }
+
+  stopPreview(): void {
+    if (this.previewDeviceId !== null) {
+      this.stop();
+    }
+  }
+
+  /**
+   * Meter a track owned by someone else, such as the recording microphone track
+   * Replaces any preview stream
+   */
+  monitorTrack(track: MediaStreamTrack): void {
+    this.stop();
+
+    const context = new AudioContext();
+    this.context = context;
+    this.source = context.createMediaStreamSource(new MediaStream([track]));
+    this.analyser = context.createAnalyser();
+    this.analyser.fftSize = 2048;
+    this.analyser.smoothingTimeConstant = 0.6;
+    this.samples = new Float32Array(this.analyser.fftSize);
+    this.source.connect(this.analyser);
+    this.monitoredTrack = track;
+    void context.resume();
+
+    this.sampleTimer = setInterval(() => this.sample(), this.SAMPLE_INTERVAL_MS);
+    this._isMonitoring.set(true);
+  }
+
+  /**
+   * Stop metering and release the preview stream; tracks passed to monitorTrack are not stopped
+   */
+  stop(): void {
+    if (this.sampleTimer !== null) {
+      clearInterval(this.sampleTimer);
+      this.sampleTimer = null;
+    }
+
+    this.source?.disconnect();
+    void this.context?.close();
+    this.context = null;
+    this.source = null;
+    this.analyser = null;
+    this.samples = null;
+    this.monitoredTrack = null;
+
+    if (this.previewStream) {
+      this.previewStream.getTracks().forEach((track) => track.stop());
+      this.mediaDevices.attachPreviewMicrophoneTrack(null);
+    }
+    this.previewStream = null;
+    this.previewDeviceId = null;
+
+    this.silentSince = null;
+    this.speakingSince = null;
+    this._level.set(0);
+    this._warning.set(null);
+    this._isMonitoring.set(false);
+  }
+
+  private sample(): void {
+    const analyser = this.analyser;
+    const samples = this.samples;
+    const track = this.monitoredTrack;
+    if (!analyser || !samples || !track) {
+      return;
+    }
+
+    analyser.getFloatTimeDomainData(samples);
+    let sumOfSquares = 0;
+    for (const value of samples) {
+      sumOfSquares += value * value;
+    }
+
+    const rms = Math.sqrt(sumOfSquares / samples.length);
+    // A hardware-muted track delivers silence; treat it as such even if noise leaks through
+    const decibels = track.muted ? -Infinity : 20 * Math.log10(rms || 1e-8);
+    this._level.set(Math.min(1, Math.max(0, (decibels - this.FLOOR_DB) / -this.FLOOR_DB)));
+
+    this.updateWarning(decibels, performance.now());
+  }
+
+  private updateWarning(decibels: number, now: number): void {
+    if (!this.mediaDevices.microphoneEnabled()) {
+      this.silentSince = null;
+      this.speakingSince = decibels > this.SPEECH_DB ? (this.speakingSince ?? now) : null;
+
+      if (this.speakingSince !== null && now - this.speakingSince >= this.SPEECH_HOLD_MS) {
+        this._warning.set('speaking-while-muted');
+      } else if (this._warning() === 'silent') {
+        this._warning.set(null);
+      }
+      return;
+    }
+
+    this.speakingSince = null;
+    if (this._warning() === 'speaking-while-muted') {
+      this._warning.set(null);
+    }
+
+    const thresholdMs = this._settings().silenceWarningSeconds * 1000;
+    if (decibels > this.SILENCE_DB || thresholdMs === 0) {
+      this.silentSince = null;
+      this._warning.set(null);
+      return;
+    }
+
+    this.silentSince ??= now;
+    if (now - this.silentSince >= thresholdMs) {
+      this._warning.set('silent');
+    }
+  }
+
+  private async hasMicrophoneAccess(): Promise<boolean> {
+    if (this.mediaDevices.hasDevicePermission()) {
+      return true;
+    }
+
+    try {
+      const status = await navigator.permissions.query({ name: 'microphone' as PermissionName });
+      return status.state === 'granted';
+    } catch {
+      // Browsers without the microphone permission name only meter after an explicit grant
+      return false;
+    }
+  }
+
+  private async loadSettings(): Promise<void> {
+    try {
+      const settings = await this.indexedDb.get<MicrophoneMonitorSettings>(
+        'preferences',
+        this.MONITOR_SETTINGS_KEY,
+      );
+
+      if (settings) {
+        this._settings.set({ ...DEFAULT_MONITOR_SETTINGS, ...settings });
+      }
+    } catch (error) {
+      console.error('[MicrophoneLevelService] Failed to load monitor settings:', error);
+    }
+  }
+}
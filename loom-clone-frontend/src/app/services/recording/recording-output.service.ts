@@ -0,0 +1,298 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import {
+  Mp4RecordingSupport,
+  RecordingEncoder,
+  RecordingOutputFormat,
+  RecordingOutputSettings,
+  RecordingQualityPreset,
+  RecordingQualityProfile,
+} from '../../models/media.models';
+import { IndexedDbService } from '../storage/indexeddb.service';
+import { MediaDevicesService } from './media-devices.service';
+import { WebCodecsMp4Recorder } from './webcodecs-mp4-recorder';
+
+/**
+ * Built-in quality presets; bitrates are tuned for screen content, which compresses well
+ */
+const RECORDING_QUALITY_PRESETS: Record<
+  Exclude<RecordingQualityPreset, 'custom'>,
+  RecordingQualityProfile
+> = {
+  '720p30': {
+    width: 1280,
+    height: 720,
+    frameRate: 30,
+    videoBitsPerSecond: 2_500_000,
+    audioBitsPerSecond: 96_000,
+  },
+  '1080p30': {
+    width: 1920,
+    height: 1080,
+    frameRate: 30,
+    videoBitsPerSecond: 5_000_000,
+    audioBitsPerSecond: 128_000,
+  },
+  '1440p60': {
+    width: 2560,
+    height: 1440,
+    frameRate: 60,
+    videoBitsPerSecond: 12_000_000,
+    audioBitsPerSecond: 160_000,
+  },
+};
+
+/**
+ * Bounds for custom profile values
+ */
+const CUSTOM_QUALITY_LIMITS: Record<keyof RecordingQualityProfile, [number, number]> = {
+  width: [320, 3840],
+  height: [240, 2160],
+  frameRate: [5, 60],
+  videoBitsPerSecond: [250_000, 50_000_000],
+  audioBitsPerSecond: [32_000, 320_000],
+};
+
+const DEFAULT_OUTPUT_SETTINGS: RecordingOutputSettings = {
+  format: 'webm',
+  quality: '1080p30',
+  customQuality: RECORDING_QUALITY_PRESETS['1080p30'],
+  fileByDate: false,
+  saveWorkspaceId: null,
+  lastUpdated: 0,
+};
+
+const WEBM_MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+const MP4_VIDEO_MIME_TYPES = [
+  'video/mp4;codecs="avc1.640028,mp4a.40.2"',
+  'video/mp4;codecs="avc1.42E01F,mp4a.40.2"',
+  'video/mp4;codecs=avc1',
+  'video/mp4',
+];
+
+const MP4_AUDIO_MIME_TYPES = ['audio/mp4;codecs=mp4a.40.2', 'audio/mp4'];
+
+/**
+ * Service that owns the output format and quality of new recordings
+ * Creates the recorder for a stream and decides the file extension to match
+ *
+ * MP4 uses the native MediaRecorder when the browser can write video/mp4,
+ * otherwise WebCodecs with the in-app fragmented MP4 muxer
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class RecordingOutputService {
+  private readonly indexedDb = inject(IndexedDbService);
+  private readonly mediaDevices = inject(MediaDevicesService);
+  private readonly OUTPUT_SETTINGS_KEY = 'recording-output-settings';
+  private hasInitialized = false;
+
+  private readonly _settings = signal<RecordingOutputSettings>(DEFAULT_OUTPUT_SETTINGS);
+  private readonly _mp4Support = signal<Mp4RecordingSupport>('unsupported');
+
+  readonly settings = this._settings.asReadonly();
+  readonly mp4Support = this._mp4Support.asReadonly();
+
+  /**
+   * Format used for the next recording; falls back to WebM when MP4 is unavailable
+   */
+  readonly outputFormat = computed<RecordingOutputFormat>(() =>
+    this._settings().format === 'mp4' && this._mp4Support() === 'unsupported'
+      ? 'webm'
+      : this._settings().format,
+  );
+
+  /**
+   * Capture limits and bitrates for the next recording
+   */
+  readonly qualityProfile = computed<RecordingQualityProfile>(() => {
+    const { quality, customQuality } = this._settings();
+    return quality === 'custom' ? customQuality : RECORDING_QUALITY_PRESETS[quality];
+  });
+
+  /**
+   * Approximate file size of one minute of recording with the enabled sources
+   * Encoders treat bitrates as targets, so real files vary with screen activity
+   */
+  readonly estimatedBytesPerMinute = computed(() => {
+    const profile = this.qualityProfile();
+    const hasVideo = this.mediaDevices.screenSharingEnabled() || this.mediaDevices.cameraEnabled();
+    // System audio is captured with the shared screen, so it needs screen sharing too
+    const hasAudio =
+      this.mediaDevices.microphoneEnabled() ||
+      (this.mediaDevices.screenSharingEnabled() && this.mediaDevices.systemAudioEnabled());
+    const bitsPerSecond =
+      (hasAudio ? profile.audioBitsPerSecond : 0) + (hasVideo ? profile.videoBitsPerSecond : 0);
+    return Math.round((bitsPerSecond * 60) / 8);
+  });
+
+  async init(): Promise<void> {
+    if (this.hasInitialized) {
+      return;
+    }
+
+    this.hasInitialized = true;
+    this._mp4Support.set(await this.detectMp4Support());
+    await this.loadSettings();
+  }
+
+  async setOutputFormat(format: RecordingOutputFormat): Promise<void> {
+    await this.updateSettings({ format });
+  }
+
+  async setQualityPreset(quality: RecordingQualityPreset): Promise<void> {
+    await this.updateSettings({ quality });
+  }
+
+  async setFileByDate(fileByDate: boolean): Promise<void> {
+    await this.updateSettings({ fileByDate });
+  }
+
+  /**
+   * Save new recordings into the given workspace, or into the active one with null
+   */
+  async setSaveWorkspace(saveWorkspaceId: string | null): Promise<void> {
+    await this.updateSettings({ saveWorkspaceId });
+  }
+
+  /**
+   * Path for a new recording, inside a year/month subfolder when filing by date is on
+   */
+  recordingPath(filename: string, date: Date): string {
+    return this._settings().fileByDate ? `${this.dateFolder(date)}${filename}` : filename;
+  }
+
+  /**
+   * Year/month subfolder for recordings made on the given date, e.g. "2026/10/"
+   */
+  dateFolder(date: Date): string {
+    return `${date.getFullYear()}/${String(date.getMonth() + 1).padStart(2, '0')}/`;
+  }
+
+  /**
+   * Change the custom profile and select it; values are clamped to sensible bounds
+   */
+  async setCustomQuality(changes: Partial<RecordingQualityProfile>): Promise<void> {
+    const customQuality = { ...this._settings().customQuality };
+
+    for (const key of Object.keys(changes) as (keyof RecordingQualityProfile)[]) {
+      const value = changes[key];
+      if (value === undefined || !Number.isFinite(value)) {
+        continue;
+      }
+
+      const [min, max] = CUSTOM_QUALITY_LIMITS[key];
+      customQuality[key] = Math.round(Math.min(max, Math.max(min, value)));
+    }
+
+    await this.updateSettings({ quality: 'custom', customQuality });
+  }
+
+  /**
+   * Constraints for getDisplayMedia; the browser scales the shared surface down to fit
+   */
+  displayVideoConstraints(): MediaTrackConstraints {
+    const { width, height, frameRate } = this.qualityProfile();
+    return {
+      width: { max: width },
+      height: { max: height },
+      frameRate: { ideal: frameRate, max: frameRate },
+    };
+  }
+
+  /**
+   * Size and frame rate hints for the camera, added to its deviceId constraint
+   */
+  cameraVideoConstraints(): MediaTrackConstraints {
+    const { width, height, frameRate } = this.qualityProfile();
+    return {
+      width: { ideal: width },
+      height: { ideal: height },
+      frameRate: { ideal: frameRate },
+    };
+  }
+
+  /**
+   * Create a recorder for the stream in the selected output format
+   */
+  createRecorder(stream: MediaStream): RecordingEncoder {
+    const { frameRate, videoBitsPerSecond, audioBitsPerSecond } = this.qualityProfile();
+    const bitrates = { videoBitsPerSecond, audioBitsPerSecond };
+
+    if (this.outputFormat() === 'mp4') {
+      const hasVideo = stream.getVideoTracks().length > 0;
+      const mimeType = this.findSupportedMimeType(
+        hasVideo ? MP4_VIDEO_MIME_TYPES : [...MP4_AUDIO_MIME_TYPES, ...MP4_VIDEO_MIME_TYPES],
+      );
+
+      if (mimeType) {
+        return new MediaRecorder(stream, { mimeType, ...bitrates });
+      }
+
+      if (this._mp4Support() === 'webcodecs') {
+        return new WebCodecsMp4Recorder(stream, { frameRate, ...bitrates });
+      }
+    }
+
+    const mimeType = this.findSupportedMimeType(WEBM_MIME_TYPES);
+    return new MediaRecorder(stream, mimeType ? { mimeType, ...bitrates } : bitrates);
+  }
+
+  /**
+   * File extension for a recording made with the given recorder
+   * Audio-only MP4 recordings use .m4a so players and the file list treat them as audio
+   */
+  fileExtension(recorder: RecordingEncoder, hasVideo: boolean): string {
+    if (!recorder.mimeType.includes('mp4')) {
+      return 'webm';
+    }
+
+    return hasVideo ? 'mp4' : 'm4a';
+  }
+
+  private async detectMp4Support(): Promise<Mp4RecordingSupport> {
+    if (typeof MediaRecorder !== 'undefined' && this.findSupportedMimeType(MP4_VIDEO_MIME_TYPES)) {
+      return 'native';
+    }
+
+    return (await WebCodecsMp4Recorder.isConfigSupported()) ? 'webcodecs' : 'unsupported';
+  }
+
+  private findSupportedMimeType(candidates: string[]): string | null {
+    return candidates.find((candidate) => MediaRecorder.isTypeSupported(candidate)) ?? null;
+  }
+
+  private async updateSettings(changes: Partial<RecordingOutputSettings>): Promise<void> {
+    this._settings.update((settings) => ({
+      ...settings,
+      ...changes,
+      lastUpdated: Date.now(),
+    }));
+
+    try {
+      await this.indexedDb.set('preferences', this.OUTPUT_SETTINGS_KEY, this._settings());
+    } catch (error) {
+      console.error('[RecordingOutputService] Failed to save output settings:', error);
+    }
+  }
+
+  private async loadSettings(): Promise<void> {
+    try {
+      const settings = await this.indexedDb.get<RecordingOutputSettings>(
+        'preferences',
+        this.OUTPUT_SETTINGS_KEY,
+      );
+
+      if (settings) {
+        this._settings.set({
+          ...DEFAULT_OUTPUT_SETTINGS,
+          ...settings,
+          customQuality: { ...DEFAULT_OUTPUT_SETTINGS.customQuality, ...settings.customQuality },
+        });
+      }
+    } catch (error) {
+      console.error('[RecordingOutputService] Failed to load output settings:', error);
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import { Injectable, inject } from '@angular/core';
+import { FolderStorageService } from '../storage/folder-storage.service';
+import { makeWebmSeekable } from './webm-seekable';
+
+/**
+ * Service that finishes a recording file once it has been fully written
+ * MediaRecorder WebM output has no Duration or Cues, so players show an unknown
+ * length and seek slowly; the file is rewritten in place with both added
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class RecordingPostProcessorService {
+  private readonly folderStorage = inject(FolderStorageService);
+
+  /**
+   * Rewrite a saved WebM recording so it is seekable
+   * Returns the duration found in the file, or null if the file was left unchanged;
+   * a failure keeps the original file, which still plays
+   * The active workspace is used unless another one is given
+   */
+  async makeSeekable(filename: string, workspaceId?: string): Promise<number | null> {
+    if (!filename.toLowerCase().endsWith('.webm')) {
+      return null;
+    }
+
+    try {
+      const file = await this.folderStorage.readRecordingFile(filename, workspaceId);
+      const result = await makeWebmSeekable(file);
+      await this.folderStorage.saveRecording(result.blob, filename, workspaceId);
+      return result.durationMs;
+    } catch (error) {
+      console.error('[RecordingPostProcessorService] Failed to make recording seekable:', error);
+      return null;
+    }
+  }
+}
@@ -1,30 +1,158 @@
 import { Injectable, computed, inject, signal } from '@angular/core';
-import { RecordingStatus } from '../../models/media.models';
+import {
+  MediaDeviceKind,
+  RecordingCountdownSettings,
+  RecordingEncoder,
+  RecordingLimitSettings,
+  RecordingMarker,
+  RecordingSourceInfo,
+  RecordingStatus,
+} from '../../models/media.models';
+import { RecordingFileWriter } from '../../models/storage.models';
 import { FolderStorageService } from '../storage/folder-storage.service';
+import { IndexedDbService } from '../storage/indexeddb.service';
 import { MediaDevicesService } from './media-devices.service';
+import { VideoCompositorService } from './video-compositor.service';
+import { AudioMixerService } from './audio-mixer.service';
+import { MicrophoneLevelService } from './microphone-level.service';
+import { CameraPreviewService } from './camera-preview.service';
+import { RecordingPostProcessorService } from './recording-post-processor.service';
+import { RecordingOutputService } from './recording-output.service';
 
 @Injectable({
   providedIn: 'root',
 })
 export class RecordingSessionService {
+  private readonly indexedDb = inject(IndexedDbService);
   private readonly folderStorage = inject(FolderStorageService);
   private readonly mediaDevices = inject(MediaDevicesService);
+  private readonly videoCompositor = inject(VideoCompositorService);
+  private readonly audioMixer = inject(AudioMixerService);
+  private readonly microphoneLevel = inject(MicrophoneLevelService);
+  private readonly cameraPreview = inject(CameraPreviewService);
+  private readonly postProcessor = inject(RecordingPostProcessorService);
+  private readonly recordingOutput = inject(RecordingOutputService);
+  private readonly COUNTDOWN_SETTINGS_KEY = 'recording-countdown-settings';
+  private readonly DEFAULT_COUNTDOWN_SECONDS = 3;
+  private readonly LIMIT_SETTINGS_KEY = 'recording-limit-settings';
+  private readonly PROGRESS_INTERVAL_MS = 250;
+  private readonly TRACK_MUTE_GRACE_MS = 3000;
+  private hasInitialized = false;
 
   private readonly _recordingStatus = signal<RecordingStatus>('idle');
   private readonly _errorMessage = signal<string | null>(null);
   private readonly _statusMessage = signal<string | null>(null);
+  private readonly _elapsedMs = signal(0);
+  private readonly _countdownSeconds = signal(this.DEFAULT_COUNTDOWN_SECONDS);
+  private readonly _countdownRemaining = signal(0);
+  private readonly _bytesRecorded = signal(0);
+  private readonly _markers = signal<RecordingMarker[]>([]);
+  private readonly _limitSettings = signal<RecordingLimitSettings>({
+    maxDurationMs: null,
+    maxBytes: null,
+    lastUpdated: 0,
+  });
 
   readonly recordingStatus = this._recordingStatus.asReadonly();
   readonly errorMessage = this._errorMessage.asReadonly();
   readonly statusMessage = this._statusMessage.asReadonly();
 
+  /**
+   * Configured countdown before the recorder starts; 0 disables it
+   */
+  readonly countdownSeconds = this._countdownSeconds.asReadonly();
+
+  /**
+   * Whole seconds left while the status is countdown
+   */
+  readonly countdownRemaining = this._countdownRemaining.asReadonly();
+
+  /**
+   * Recorded time excluding paused intervals, updated live while recording
+   */
+  readonly elapsedMs = this._elapsedMs.asReadonly();
+
+  /**
+   * Size of the encoded data delivered so far in the current recording
+   */
+  readonly bytesRecorded = this._bytesRecorded.asReadonly();
+  readonly limitSettings = this._limitSettings.asReadonly();
+
+  /**
+   * Markers dropped in the current recording, saved with its metadata
+   */
+  readonly markers = this._markers.asReadonly();
+
   readonly isRecording = computed(() => this._recordingStatus() === 'recording');
+  readonly isPaused = computed(() => this._recordingStatus() === 'paused');
+  readonly hasActiveSession = computed(() => this.isRecording() || this.isPaused());
+  readonly isCountingDown = computed(() => this._recordingStatus() === 'countdown');
 
   private screenStream: MediaStream | null = null;
   private deviceStream: MediaStream | null = null;
   private recordingStream: MediaStream | null = null;
-  private mediaRecorder: MediaRecorder | null = null;
-  private chunks: BlobPart[] = [];
+  private mediaRecorder: RecordingEncoder | null = null;
+  private writer: RecordingFileWriter | null = null;
+  private accumulatedMs = 0;
+  private activeSegmentStartedAt: number | null = null;
+  private sessionStartedAt = 0;
+  private sessionSources: RecordingSourceInfo | null = null;
+  private countdownTimer: ReturnType<typeof setInterval> | null = null;
+  private resolveCountdown: ((completed: boolean) => void) | null = null;
+  private progressTimer: ReturnType<typeof setInterval> | null = null;
+  private readonly trackWatchers = new Map<MediaStreamTrack, () => void>();
+
+  /**
+   * Warn before the tab is closed or reloaded while a recording is in progress
+   */
+  private readonly beforeUnloadHandler = (event: BeforeUnloadEvent): void => {
+    if (this.hasActiveSession()) {
+      event.preventDefault();
+      event.returnValue = '';
+    }
+  };
+
+  async init(): Promise<void> {
+    if (this.hasInitialized) {
+      return;
+    }
+
+    this.hasInitialized = true;
+    await Promise.all([this.loadCountdownSettings(), this.loadLimitSettings()]);
+  }
+
+  async setCountdownSeconds(seconds: number): Promise<void> {
+    this._countdownSeconds.set(Math.max(0, Math.round(seconds)));
+
+    try {
+      await this.indexedDb.set<RecordingCountdownSettings>(
+        'preferences',
+        this.COUNTDOWN_SETTINGS_KEY,
+        { seconds: this._countdownSeconds(), lastUpdated: Date.now() },
+      );
+    } catch (error) {
+      console.error('[RecordingSessionService] Failed to save countdown settings:', error);
+    }
+  }
+
+  /**
+   * Change the auto-stop limits; they also apply to a recording already in progress
+   */
+  async setLimits(changes: Partial<Omit<RecordingLimitSettings, 'lastUpdated'>>): Promise<void> {
+    this._limitSettings.update((settings) => ({
+      ...settings,
+      ...changes,
+      lastUpdated: Date.now(),
+    }));
+
+    try {
+      await this.indexedDb.set('preferences', this.LIMIT_SETTINGS_KEY, this._limitSettings());
+    } catch (error) {
+      console.error('[RecordingSessionService] Failed to save limit settings:', error);
+    }
+
+    this.checkLimits();
+  }
 
   async startRecording(): Promise<void> {
     if (this._recordingStatus() !== 'idle') {
@@ -37,13 +165,14 @@ export class RecordingSessionService {
 
     try {
       const screenSharingEnabled = this.mediaDevices.screenSharingEnabled();
+      const systemAudioEnabled = this.mediaDevices.systemAudioEnabled();
       const cameraEnabled = this.mediaDevices.cameraEnabled();
       const microphoneEnabled = this.mediaDevices.microphoneEnabled();
       const selectedCamera = this.mediaDevices.selectedCamera();
       const selectedMicrophone = this.mediaDevices.selectedMicrophone();
 
       const captureScreen = screenSharingEnabled;
-      const captureCamera = !screenSharingEnabled && cameraEnabled && selectedCamera !== null;
+      const captureCamera = cameraEnabled && selectedCamera !== null;
       const captureMicrophone = microphoneEnabled && selectedMicrophone !== null;
 
       if (!captureScreen && !captureCamera && !captureMicrophone) {
@@ -53,8 +182,8 @@ export class RecordingSessionService {
       if (captureScreen) {
         try {
           this.screenStream = await navigator.mediaDevices.getDisplayMedia({
-            video: true,
-            audio: false,
+            video: this.recordingOutput.displayVideoConstraints(),
+            audio: systemAudioEnabled,
           });
         } catch (error) {
           if (this.isScreenSelectionCanceled(error)) {
@@ -71,35 +200,59 @@ export class RecordingSessionService {
       const screenVideoTrack = this.screenStream?.getVideoTracks()[0] ?? null;
 
       if (screenVideoTrack) {
-        this.recordingStream.addTrack(screenVideoTrack);
         screenVideoTrack.onended = () => {
-          if (this._recordingStatus() === 'recording') {
+          if (this.hasActiveSession()) {
             void this.stopRecording();
+          } else {
+            this.cancelCountdown();
           }
         };
       }
 
-      const mediaConstraints = this.buildDeviceConstraints({
-        includeCamera: captureCamera,
-        includeMicrophone: captureMicrophone,
-      });
-      if (mediaConstraints.video !== false || mediaConstraints.audio !== false) {
-        this.deviceStream = await navigator.mediaDevices.getUserMedia(mediaConstraints);
+      if (captureMicrophone) {
+        this.deviceStream = await navigator.mediaDevices.getUserMedia({
+          audio: this.mediaDevices.microphoneConstraints(
+            this.mediaDevices.selectedMicrophone()?.deviceId.trim() ?? '',
+          ),
+        });
       }
 
+      // The camera stream is shared with the preview, so an open preview is reused as is
+      const cameraTrack = captureCamera
+        ? await this.cameraPreview.acquire('recording', selectedCamera?.deviceId.trim() ?? '')
+        : null;
       const microphoneTrack = this.deviceStream?.getAudioTracks()[0] ?? null;
-      const cameraTrack = this.deviceStream?.getVideoTracks()[0] ?? null;
-
-      if (!screenVideoTrack && cameraTrack) {
-        this.recordingStream.addTrack(cameraTrack);
+      this.deviceStream?.getTracks().forEach((track) => this.watchDeviceTrack(track));
+      if (cameraTrack) {
+        this.watchDeviceTrack(cameraTrack);
       }
 
-      if (!screenVideoTrack && !cameraTrack && (captureScreen || captureCamera)) {
+      if (screenVideoTrack || cameraTrack) {
+        const outputVideoTrack = await this.videoCompositor.start(
+          {
+            screenTrack: screenVideoTrack,
+            cameraTrack,
+          },
+          this.recordingOutput.qualityProfile(),
+        );
+        this.recordingStream.addTrack(outputVideoTrack);
+      } else if (captureScreen || captureCamera) {
         throw new Error('Video track is unavailable for recording');
       }
 
-      if (microphoneTrack) {
-        this.recordingStream.addTrack(microphoneTrack);
+      const systemAudioTrack = this.screenStream?.getAudioTracks()[0] ?? null;
+      if (systemAudioEnabled && captureScreen && !systemAudioTrack) {
+        this._statusMessage.set(
+          'No system or tab audio was shared. Tick "Share audio" in the picker to include it.',
+        );
+      }
+
+      if (microphoneTrack || systemAudioTrack) {
+        const outputAudioTrack = await this.audioMixer.start({
+          microphoneTrack,
+          systemAudioTrack,
+        });
+        this.recordingStream.addTrack(outputAudioTrack);
       }
 
       this.mediaDevices.attachActiveTracks({
@@ -107,26 +260,80 @@ export class RecordingSessionService {
         cameraTrack,
       });
 
-      const mimeType = this.resolveSupportedMimeType();
-      this.chunks = [];
-      this.mediaRecorder = mimeType
-        ? new MediaRecorder(this.recordingStream, { mimeType })
-        : new MediaRecorder(this.recordingStream);
+      if (microphoneTrack) {
+        this.microphoneLevel.monitorTrack(microphoneTrack);
+      } else {
+        this.microphoneLevel.stop();
+      }
+
+      // Sources are live during the countdown so the recording starts on the first frame
+      if (!(await this.runCountdown())) {
+        this.cleanupSession();
+        this._recordingStatus.set('idle');
+        this._statusMessage.set('Recording canceled before it started');
+        return;
+      }
+
+      this._recordingStatus.set('starting');
+      this.mediaRecorder = this.recordingOutput.createRecorder(this.recordingStream);
+      const extension = this.recordingOutput.fileExtension(
+        this.mediaRecorder,
+        this.recordingStream.getVideoTracks().length > 0,
+      );
+
+      const writer = await this.folderStorage.openRecordingWriter(
+        this.createFilename(extension),
+        this.recordingOutput.settings().saveWorkspaceId ?? undefined,
+      );
+      this.writer = writer;
+      this.sessionSources = {
+        screen: screenVideoTrack !== null,
+        systemAudio: systemAudioTrack !== null,
+        cameraLabel: cameraTrack ? (selectedCamera?.label ?? null) : null,
+        microphoneLabel: microphoneTrack ? (selectedMicrophone?.label ?? null) : null,
+        mimeType: this.mediaRecorder.mimeType || 'video/webm',
+      };
 
+      let writeFailed = false;
       this.mediaRecorder.ondataavailable = (event: BlobEvent) => {
-        if (event.data.size > 0) {
-          this.chunks.push(event.data);
+        if (event.data.size > 0 && !writeFailed) {
+          this._bytesRecorded.update((bytes) => bytes + event.data.size);
+          writer.append(event.data).catch((error) => {
+            if (writeFailed) {
+              return;
+            }
+
+            // E.g. the disk is full or access to the folder was revoked; what was written is kept
+            writeFailed = true;
+            console.error('[RecordingSessionService] Failed to write recording:', error);
+            void this.stopRecording().finally(() => {
+              this._recordingStatus.set('error');
+              this._errorMessage.set('Recording stopped: could not write to storage');
+            });
+          });
+          this.checkLimits();
         }
       };
 
       this.mediaRecorder.onerror = () => {
         this._recordingStatus.set('error');
         this._errorMessage.set('Recording failed unexpectedly');
+        this.closeActiveSegment();
+        void this.finalizeWriter().finally(() => this.cleanupSession());
       };
 
       this.mediaRecorder.start(1000);
+      this.sessionStartedAt = Date.now();
+      this.accumulatedMs = 0;
+      this._elapsedMs.set(0);
+      this._bytesRecorded.set(0);
+      this._markers.set([]);
+      this.activeSegmentStartedAt = performance.now();
       this._recordingStatus.set('recording');
+      this.progressTimer = setInterval(() => this.updateProgress(), this.PROGRESS_INTERVAL_MS);
+      window.addEventListener('beforeunload', this.beforeUnloadHandler);
     } catch (error) {
+      await this.writer?.abort().catch(() => undefined);
       this.cleanupSession();
       this._recordingStatus.set('error');
       this._errorMessage.set(error instanceof Error ? error.message : 'Unable to start recording');
@@ -134,20 +341,22 @@ export class RecordingSessionService {
   }
 
   async stopRecording(): Promise<void> {
-    if (this._recordingStatus() !== 'recording' || !this.mediaRecorder) {
+    if (!this.hasActiveSession() || !this.mediaRecorder) {
       return;
     }
 
+    this.closeActiveSegment();
     this._recordingStatus.set('stopping');
 
     try {
-      const finalBlob = await this.stopRecorderAndCollectBlob();
-
-      if (finalBlob.size > 0) {
-        const filename = this.createFilename();
-        await this.folderStorage.saveRecording(finalBlob, filename);
-        await this.folderStorage.refreshRecordings();
-      }
+      const writer = this.writer;
+      await this.stopRecorder();
+      await this.finalizeWriter();
+      // Show the folder the recording went into, e.g. this month's when filing by date,
+      // unless it was saved into a workspace other than the one being browsed
+      await (writer && writer.workspaceId === this.folderStorage.activeWorkspaceId()
+        ? this.folderStorage.openFolderOf(writer.filename)
+        : this.folderStorage.refreshRecordings());
 
       this._recordingStatus.set('idle');
       this._errorMessage.set(null);
@@ -159,6 +368,117 @@ export class RecordingSessionService {
     }
   }
 
+  /**
+   * Pause the recorder; paused time is excluded from the recording and elapsed time
+   */
+  pauseRecording(): void {
+    if (this._recordingStatus() !== 'recording' || !this.mediaRecorder) {
+      return;
+    }
+
+    this.mediaRecorder.pause();
+    this.closeActiveSegment();
+    this._recordingStatus.set('paused');
+  }
+
+  resumeRecording(): void {
+    if (this._recordingStatus() !== 'paused' || !this.mediaRecorder) {
+      return;
+    }
+
+    this.mediaRecorder.resume();
+    this.activeSegmentStartedAt = performance.now();
+    this._recordingStatus.set('recording');
+  }
+
+  /**
+   * Mark the current point of the recording; paused time does not count
+   */
+  addMarker(): void {
+    if (!this.hasActiveSession()) {
+      return;
+    }
+
+    const segmentMs =
+      this.activeSegmentStartedAt === null ? 0 : performance.now() - this.activeSegmentStartedAt;
+    const timeMs = Math.round(this.accumulatedMs + segmentMs);
+    const label = `Marker ${this._markers().length + 1}`;
+    this._markers.update((markers) => [...markers, { timeMs, label }]);
+    this._statusMessage.set(`${label} added`);
+  }
+
+  /**
+   * Splice the selected microphone or camera into the running session
+   * Only sources the recording already carries can be switched: a camera needs video
+   * in the recording and a microphone needs audio
+   */
+  async switchDevice(kind: MediaDeviceKind): Promise<void> {
+    const recordingStream = this.recordingStream;
+    if (!recordingStream || !(this.hasActiveSession() || this.isCountingDown())) {
+      return;
+    }
+
+    const isCamera = kind === 'videoinput';
+    const device = isCamera
+      ? this.mediaDevices.selectedCamera()
+      : this.mediaDevices.selectedMicrophone();
+    if (!device) {
+      return;
+    }
+
+    const activeTracks = this.mediaDevices.activeTracks();
+    const current = isCamera ? activeTracks.cameraTrack : activeTracks.microphoneTrack;
+    const deviceId = device.deviceId.trim();
+    if (current && deviceId && current.getSettings().deviceId === deviceId) {
+      return;
+    }
+
+    if (isCamera ? !this.videoCompositor.isCompositing() : !this.audioMixer.isMixing()) {
+      this._statusMessage.set(
+        isCamera
+          ? 'A camera cannot be added to a recording that started without video.'
+          : 'A microphone cannot be added to a recording that started without audio.',
+      );
+      return;
+    }
+
+    try {
+      const track = isCamera
+        ? await this.cameraPreview.acquire('recording', deviceId)
+        : (
+            await navigator.mediaDevices.getUserMedia({
+              audio: this.mediaDevices.microphoneConstraints(deviceId),
+            })
+          ).getTracks()[0];
+      if (!track) {
+        throw new Error('The selected device returned no track');
+      }
+
+      // The session may have ended while the device was opening
+      if (this.recordingStream !== recordingStream) {
+        if (!isCamera) {
+          track.stop();
+        }
+        return;
+      }
+
+      await this.spliceDeviceTrack(track.kind, current, track);
+      this._statusMessage.set(`Switched to ${device.label}.`);
+    } catch (error) {
+      console.error('[RecordingSessionService] Device switch failed:', error);
+      this._statusMessage.set(
+        `Could not switch to ${device.label}. The recording continues with the previous device.`,
+      );
+    }
+  }
+
+  /**
+   * Abort a pending start during the countdown; streams are released by startRecording
+   */
+  cancelCountdown(): void {
+    this.finishCountdown(false);
+  }
+
   clearError(): void {
     if (this._recordingStatus() === 'error') {
       this._recordingStatus.set('idle');
@@ -167,53 +487,251 @@ export class RecordingSessionService {
     this._statusMessage.set(null);
   }
 
-  private buildDeviceConstraints(options: {
-    includeCamera: boolean;
-    includeMicrophone: boolean;
-  }): MediaStreamConstraints {
-    const selectedCamera = this.mediaDevices.selectedCamera();
-    const selectedMicrophone = this.mediaDevices.selectedMicrophone();
-    const selectedCameraId = selectedCamera?.deviceId.trim() || null;
-    const selectedMicrophoneId = selectedMicrophone?.deviceId.trim() || null;
-
-    let videoConstraints: MediaTrackConstraints | boolean = false;
-    if (options.includeCamera && selectedCamera !== null) {
-      if (selectedCameraId) {
-        videoConstraints = { deviceId: { exact: selectedCameraId } };
-      } else {
-        videoConstraints = true;
+  /**
+   * Replace a microphone or camera track that ends, or stays muted, during the session
+   * Devices mute briefly when the OS switches audio routes, so mute gets a grace period
+   */
+  private watchDeviceTrack(track: MediaStreamTrack): void {
+    let muteTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const onEnded = () => void this.replaceLostTrack(track);
+    const onMute = () => {
+      muteTimer ??= setTimeout(() => void this.replaceLostTrack(track), this.TRACK_MUTE_GRACE_MS);
+    };
+    const onUnmute = () => {
+      if (muteTimer !== null) {
+        clearTimeout(muteTimer);
+        muteTimer = null;
       }
+    };
+
+    track.addEventListener('ended', onEnded);
+    track.addEventListener('mute', onMute);
+    track.addEventListener('unmute', onUnmute);
+
+    this.trackWatchers.set(track, () => {
+      onUnmute();
+      track.removeEventListener('ended', onEnded);
+      track.removeEventListener('mute', onMute);
+      track.removeEventListener('unmute', onUnmute);
+    });
+  }
+
+  private unwatchDeviceTrack(track: MediaStreamTrack): void {
+    this.trackWatchers.get(track)?.();
+    this.trackWatchers.delete(track);
+  }
+
+  private unwatchDeviceTracks(): void {
+    this.trackWatchers.forEach((unwatch) => unwatch());
+    this.trackWatchers.clear();
+  }
+
+  /**
+   * Swap a dead device track for the system default device, or carry on without it
+   */
+  private async replaceLostTrack(lostTrack: MediaStreamTrack): Promise<void> {
+    const recordingStream = this.recordingStream;
+    const isActiveTrack =
+      this.deviceStream?.getTracks().includes(lostTrack) ||
+      this.mediaDevices.activeTracks().cameraTrack === lostTrack;
+    if (!recordingStream || !isActiveTrack) {
+      return;
     }
 
-    let audioConstraints: MediaTrackConstraints | boolean = false;
-    if (options.includeMicrophone && selectedMicrophone !== null) {
-      if (selectedMicrophoneId) {
-        audioConstraints = { deviceId: { exact: selectedMicrophoneId } };
-      } else {
-        audioConstraints = true;
+    const isCamera = lostTrack.kind === 'video';
+    const deviceName = `${isCamera ? 'Camera' : 'Microphone'} "${lostTrack.label || 'unknown'}"`;
+    this.unwatchDeviceTrack(lostTrack);
+
+    let replacement: MediaStreamTrack | null = null;
+    try {
+      replacement = isCamera
+        ? await this.cameraPreview.acquire('recording', '')
+        : ((
+            await navigator.mediaDevices.getUserMedia({
+              audio: this.mediaDevices.microphoneConstraints(''),
+            })
+          ).getTracks()[0] ?? null);
+    } catch (error) {
+      console.error('[RecordingSessionService] Default device fallback failed:', error);
+    }
+
+    // The session may have ended while the fallback device was opening
+    if (this.recordingStream !== recordingStream) {
+      if (!isCamera) {
+        replacement?.stop();
       }
+      return;
     }
 
-    return {
-      video: videoConstraints,
-      audio: audioConstraints,
-    };
+    await this.spliceDeviceTrack(lostTrack.kind, lostTrack, replacement);
+
+    if (replacement) {
+      await this.mediaDevices.enumerateDevices({ background: true });
+      this.mediaDevices.selectDeviceForTrack(replacement);
+      this._statusMessage.set(
+        `${deviceName} stopped working. Switched to ${replacement.label || 'the default device'}.`,
+      );
+    } else {
+      this._statusMessage.set(`${deviceName} stopped working. Recording continues without it.`);
+    }
   }
 
-  private resolveSupportedMimeType(): string | null {
-    const candidates = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+  /**
+   * Feed a new device track into the compositor or mixer and retire the previous one
+   * Their output tracks stay the same, so the recorder keeps writing the same file
+   * Camera tracks belong to CameraPreviewService, which closes the old camera itself
+   */
+  private async spliceDeviceTrack(
+    kind: string,
+    previous: MediaStreamTrack | null,
+    replacement: MediaStreamTrack | null,
+  ): Promise<void> {
+    if (previous) {
+      this.unwatchDeviceTrack(previous);
+    }
+    if (replacement) {
+      this.watchDeviceTrack(replacement);
+    }
+
+    if (kind === 'video') {
+      await this.videoCompositor.replaceCameraTrack(replacement);
+      this.mediaDevices.attachActiveTracks({ cameraTrack: replacement });
+      return;
+    }
+
+    const deviceStream = (this.deviceStream ??= new MediaStream());
+    if (replacement) {
+      deviceStream.addTrack(replacement);
+    }
+
+    this.audioMixer.replaceMicrophoneTrack(replacement);
+    this.mediaDevices.attachActiveTracks({ microphoneTrack: replacement });
+    if (replacement) {
+      this.microphoneLevel.monitorTrack(replacement);
+    } else {
+      this.microphoneLevel.stop();
+    }
+
+    if (previous) {
+      deviceStream.removeTrack(previous);
+      previous.stop();
+    }
+  }
+
+  /**
+   * Count down the configured seconds; resolves false when canceled
+   */
+  private runCountdown(): Promise<boolean> {
+    const seconds = this._countdownSeconds();
+    if (seconds <= 0) {
+      return Promise.resolve(true);
+    }
+
+    this._countdownRemaining.set(seconds);
+    this._recordingStatus.set('countdown');
+
+    return new Promise<boolean>((resolve) => {
+      this.resolveCountdown = resolve;
+      this.countdownTimer = setInterval(() => {
+        this._countdownRemaining.update((remaining) => remaining - 1);
+        if (this._countdownRemaining() <= 0) {
+          this.finishCountdown(true);
+        }
+      }, 1000);
+    });
+  }
+
+  private finishCountdown(completed: boolean): void {
+    if (this.countdownTimer !== null) {
+      clearInterval(this.countdownTimer);
+      this.countdownTimer = null;
+    }
+
+    this._countdownRemaining.set(0);
+    this.resolveCountdown?.(completed);
+    this.resolveCountdown = null;
+  }
+
+  /**
+   * Refresh the live elapsed time from the running segment
+   */
+  private updateProgress(): void {
+    if (this.activeSegmentStartedAt === null) {
+      return;
+    }
+
+    this._elapsedMs.set(
+      Math.round(this.accumulatedMs + performance.now() - this.activeSegmentStartedAt),
+    );
+    this.checkLimits();
+  }
 
-    for (const candidate of candidates) {
-      if (MediaRecorder.isTypeSupported(candidate)) {
-        return candidate;
+  /**
+   * Stop gracefully once a configured duration or size limit is reached
+   */
+  private checkLimits(): void {
+    if (!this.hasActiveSession()) {
+      return;
+    }
+
+    const { maxDurationMs, maxBytes } = this._limitSettings();
+    let reason: string | null = null;
+
+    if (maxDurationMs !== null && this._elapsedMs() >= maxDurationMs) {
+      reason = `Recording stopped at the ${Math.round(maxDurationMs / 60_000)}-minute time limit.`;
+    } else if (maxBytes !== null && this._bytesRecorded() >= maxBytes) {
+      reason = `Recording stopped at the ${Math.round(maxBytes / (1024 * 1024))} MB size limit.`;
+    }
+
+    if (reason) {
+      this._statusMessage.set(reason);
+      void this.stopRecording();
+    }
+  }
+
+  private stopProgressTimer(): void {
+    if (this.progressTimer !== null) {
+      clearInterval(this.progressTimer);
+      this.progressTimer = null;
+    }
+  }
+
+  private async loadCountdownSettings(): Promise<void> {
+    try {
+      const settings = await this.indexedDb.get<RecordingCountdownSettings>(
+        'preferences',
+        this.COUNTDOWN_SETTINGS_KEY,
+      );
+
+      if (settings) {
+        this._countdownSeconds.set(settings.seconds);
       }
+    } catch (error) {
+      console.error('[RecordingSessionService] Failed to load countdown settings:', error);
     }
+  }
 
-    return null;
+  private async loadLimitSettings(): Promise<void> {
+    try {
+      const settings = await this.indexedDb.get<RecordingLimitSettings>(
+        'preferences',
+        this.LIMIT_SETTINGS_KEY,
+      );
+
+      if (settings) {
+        this._limitSettings.set({ ...this._limitSettings(), ...settings });
+      }
+    } catch (error) {
+      console.error('[RecordingSessionService] Failed to load limit settings:', error);
+    }
   }
 
-  private stopRecorderAndCollectBlob(): Promise<Blob> {
-    return new Promise<Blob>((resolve, reject) => {
+  /**
+   * Stop the recorder and wait for its final dataavailable event to be dispatched
+   */
+  private stopRecorder(): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
       if (!this.mediaRecorder) {
         reject(new Error('No active recorder found'));
         return;
@@ -222,8 +740,7 @@ export class RecordingSessionService {
       const recorder = this.mediaRecorder;
 
       recorder.onstop = () => {
-        const mimeType = recorder.mimeType || 'video/webm';
-        resolve(new Blob(this.chunks, { type: mimeType }));
+        resolve();
       };
 
       recorder.onerror = () => {
@@ -234,10 +751,80 @@ export class RecordingSessionService {
     });
   }
 
-  private createFilename(): string {
+  /**
+   * Fold the running segment into the accumulated elapsed time
+   */
+  private closeActiveSegment(): void {
+    if (this.activeSegmentStartedAt !== null) {
+      this.accumulatedMs += performance.now() - this.activeSegmentStartedAt;
+      this.activeSegmentStartedAt = null;
+    }
+
+    this._elapsedMs.set(Math.round(this.accumulatedMs));
+  }
+
+  /**
+   * Flush pending writes and finalize the file; empty recordings are removed
+   */
+  private async finalizeWriter(): Promise<void> {
+    const writer = this.writer;
+    if (!writer) {
+      return;
+    }
+
+    this.writer = null;
+    await writer.close();
+
+    if (writer.bytesWritten === 0) {
+      await writer.abort();
+      return;
+    }
+
+    // A downloaded recording has left the page, so it cannot be rewritten or described
+    if (!writer.storageLimits.listable) {
+      return;
+    }
+
+    const fileDurationMs = await this.postProcessor.makeSeekable(
+      writer.filename,
+      writer.workspaceId ?? undefined,
+    );
+    await this.saveSessionMetadata(writer, fileDurationMs);
+  }
+
+  /**
+   * Record duration and capture sources in the folder manifest
+   * A failure here should not fail an otherwise saved recording
+   */
+  private async saveSessionMetadata(
+    writer: RecordingFileWriter,
+    fileDurationMs: number | null,
+  ): Promise<void> {
+    try {
+      await this.folderStorage.updateRecordingMetadata(
+        writer.filename,
+        {
+          // Prefer the duration read back from the file over the wall-clock estimate
+          durationMs: fileDurationMs || Math.round(this.accumulatedMs),
+          createdAt: this.sessionStartedAt,
+          // The WebCodecs recorder only knows its codecs once encoding has started
+          sources: this.sessionSources && {
+            ...this.sessionSources,
+            mimeType: this.mediaRecorder?.mimeType || this.sessionSources.mimeType,
+          },
+          markers: this._markers(),
+        },
+        writer.workspaceId ?? undefined,
+      );
+    } catch (error) {
+      console.error('Failed to save recording metadata:', error);
+    }
+  }
+
+  private createFilename(extension: string): string {
     const now = new Date();
     const iso = now.toISOString().replace(/[:.]/g, '-');
-    return `recording-${iso}.webm`;
+    return this.recordingOutput.recordingPath(`recording-${iso}.${extension}`, now);
   }
 
   private isScreenSelectionCanceled(error: unknown): boolean {
@@ -248,14 +835,25 @@ export class RecordingSessionService {
   }
 
   private cleanupSession(): void {
+    window.removeEventListener('beforeunload', this.beforeUnloadHandler);
+    this.finishCountdown(false);
+    this.stopProgressTimer();
+    this.unwatchDeviceTracks();
     this.mediaRecorder = null;
-    this.chunks = [];
+    this.writer = null;
+    this.activeSegmentStartedAt = null;
+    this.sessionSources = null;
+
+    this.videoCompositor.stop();
+    this.audioMixer.stop();
+    this.microphoneLevel.stop();
 
     this.recordingStream?.getTracks().forEach((track) => track.stop());
     this.recordingStream = null;
 
     this.deviceStream?.getTracks().forEach((track) => track.stop());
     this.deviceStream = null;
+    this.cameraPreview.release('recording');
 
     this.screenStream?.getTracks().forEach((track) => track.stop());
     this.screenStream = null;
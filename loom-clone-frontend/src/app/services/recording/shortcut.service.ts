@@ -0,0 +1,353 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { RecordingStatus, ShortcutAction, ShortcutSettings } from '../../models/media.models';
+import { IndexedDbService } from '../storage/indexeddb.service';
+
+const SHORTCUT_ACTIONS: { value: ShortcutAction; label: string }[] = [
+  { value: 'toggle-recording', label: 'Start or stop recording' },
+  { value: 'toggle-pause', label: 'Pause or resume' },
+  { value: 'toggle-microphone', label: 'Turn microphone on or off' },
+  { value: 'toggle-camera', label: 'Turn camera on or off' },
+  { value: 'add-marker', label: 'Add a marker' },
+  { value: 'toggle-annotations', label: 'Annotate on or off' },
+  { value: 'clear-annotations', label: 'Clear annotations' },
+];
+
+const DEFAULT_SHORTCUT_SETTINGS: ShortcutSettings = {
+  bindings: {
+    'toggle-recording': 'Alt+Shift+KeyR',
+    'toggle-pause': 'Alt+Shift+KeyP',
+    'toggle-microphone': 'Alt+Shift+KeyM',
+    'toggle-camera': 'Alt+Shift+KeyV',
+    'add-marker': 'Alt+Shift+KeyK',
+    'toggle-annotations': 'Alt+Shift+KeyA',
+    'clear-annotations': 'Alt+Shift+KeyC',
+  },
+  lastUpdated: 0,
+};
+
+/**
+ * Combinations the browser or OS handles before the page sees them, or that open the help
+ */
+const RESERVED_BINDINGS = new Set([
+  'Ctrl+KeyW',
+  'Ctrl+KeyT',
+  'Ctrl+KeyN',
+  'Ctrl+KeyQ',
+  'Ctrl+KeyR',
+  'Ctrl+KeyL',
+  'Ctrl+Tab',
+  'Meta+KeyW',
+  'Meta+KeyT',
+  'Meta+KeyN',
+  'Meta+KeyQ',
+  'Meta+KeyR',
+  'Meta+KeyL',
+  'Alt+F4',
+  'F5',
+  'F11',
+  'Shift+Slash',
+]);
+
+const MODIFIER_CODES = new Set([
+  'ShiftLeft',
+  'ShiftRight',
+  'ControlLeft',
+  'ControlRight',
+  'AltLeft',
+  'AltRight',
+  'MetaLeft',
+  'MetaRight',
+]);
+
+/**
+ * Media Session actions not yet in the DOM typings
+ */
+type MediaSessionCallAction = 'togglemicrophone' | 'togglecamera' | 'hangup';
+
+type MediaSessionWithCallState = MediaSession & {
+  setMicrophoneActive?(active: boolean): Promise<void>;
+  setCameraActive?(active: boolean): Promise<void>;
+};
+
+/**
+ * Service for configurable keyboard shortcuts and media key handling
+ * Bindings use KeyboardEvent.code so they stay put across keyboard layouts and Alt combinations
+ *
+ * Shortcuts only reach the page while it has focus; media keys and the browser's call controls
+ * go through the Media Session API, which the browser routes to this tab while it is capturing
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ShortcutService {
+  private readonly indexedDb = inject(IndexedDbService);
+  private readonly SHORTCUT_SETTINGS_KEY = 'keyboard-shortcut-settings';
+  private hasInitialized = false;
+
+  private readonly _settings = signal<ShortcutSettings>(DEFAULT_SHORTCUT_SETTINGS);
+  private readonly _bindingError = signal<string | null>(null);
+  private readonly _isCapturing = signal(false);
+
+  readonly settings = this._settings.asReadonly();
+  readonly actions = SHORTCUT_ACTIONS;
+
+  /**
+   * Why the last binding change was rejected, e.g. a conflict with another action
+   */
+  readonly bindingError = this._bindingError.asReadonly();
+
+  /**
+   * True while a binding is being recorded; shortcuts do not fire meanwhile
+   */
+  readonly isCapturing = this._isCapturing.asReadonly();
+
+  readonly bindings = computed(() => this._settings().bindings);
+
+  private handlers: Partial<Record<ShortcutAction, () => void>> = {};
+  private mediaSessionStatus: RecordingStatus = 'idle';
+
+  private readonly keydownHandler = (event: KeyboardEvent): void => {
+    // A binding being recorded has already handled the key
+    if (this._isCapturing() || event.defaultPrevented || event.repeat) {
+      return;
+    }
+
+    const binding = this.bindingFromEvent(event);
+    if (!binding) {
+      return;
+    }
+
+    // Plain and shifted keys still type into fields
+    if (this.isEditableTarget(event.target) && !this.hasCommandModifier(binding)) {
+      return;
+    }
+
+    const action = SHORTCUT_ACTIONS.find(({ value }) => this.bindings()[value] === binding);
+    const handler = action && this.handlers[action.value];
+    if (handler) {
+      event.preventDefault();
+      handler();
+    }
+  };
+
+  async init(): Promise<void> {
+    if (this.hasInitialized) {
+      return;
+    }
+
+    this.hasInitialized = true;
+    await this.loadSettings();
+  }
+
+  /**
+   * Route shortcuts and media keys to the given handlers until the returned function is called
+   */
+  registerHandlers(handlers: Partial<Record<ShortcutAction, () => void>>): () => void {
+    this.handlers = handlers;
+    document.addEventListener('keydown', this.keydownHandler);
+    this.setMediaSessionHandlers(true);
+
+    return () => {
+      if (this.handlers === handlers) {
+        this.handlers = {};
+        document.removeEventListener('keydown', this.keydownHandler);
+        this.setMediaSessionHandlers(false);
+      }
+    };
+  }
+
+  /**
+   * Keep the browser's media controls in line with the recording and device state
+   */
+  updateMediaSession(state: {
+    status: RecordingStatus;
+    microphoneActive: boolean;
+    cameraActive: boolean;
+  }): void {
+    this.mediaSessionStatus = state.status;
+    if (!('mediaSession' in navigator)) {
+      return;
+    }
+
+    const mediaSession = navigator.mediaSession as MediaSessionWithCallState;
+    mediaSession.playbackState =
+      state.status === 'recording' ? 'playing' : state.status === 'paused' ? 'paused' : 'none';
+    mediaSession.setMicrophoneActive?.(state.microphoneActive).catch(() => undefined);
+    mediaSession.setCameraActive?.(state.cameraActive).catch(() => undefined);
+  }
+
+  setCapturing(capturing: boolean): void {
+    this._isCapturing.set(capturing);
+    if (capturing) {
+      this._bindingError.set(null);
+    }
+  }
+
+  /**
+   * Bind an action, or unbind it with null
+   * Rejects combinations used by another action or reserved by the browser
+   */
+  async setBinding(action: ShortcutAction, binding: string | null): Promise<boolean> {
+    const conflict = binding ? this.findConflict(action, binding) : null;
+    if (conflict) {
+      this._bindingError.set(conflict);
+      return false;
+    }
+
+    this._bindingError.set(null);
+    await this.updateSettings({ bindings: { ...this.bindings(), [action]: binding } });
+    return true;
+  }
+
+  async resetBindings(): Promise<void> {
+    this._bindingError.set(null);
+    await this.updateSettings({ bindings: DEFAULT_SHORTCUT_SETTINGS.bindings });
+  }
+
+  /**
+   * Normalized binding for a key press, or null while only modifiers are held
+   */
+  bindingFromEvent(event: KeyboardEvent): string | null {
+    if (MODIFIER_CODES.has(event.code) || !event.code) {
+      return null;
+    }
+
+    const modifiers = [
+      event.ctrlKey ? 'Ctrl' : null,
+      event.altKey ? 'Alt' : null,
+      event.shiftKey ? 'Shift' : null,
+      event.metaKey ? 'Meta' : null,
+    ].filter((modifier) => modifier !== null);
+
+    return [...modifiers, event.code].join('+');
+  }
+
+  /**
+   * Readable form of a binding, e.g. "Alt+Shift+R"
+   */
+  formatBinding(binding: string | null): string {
+    if (!binding) {
+      return 'Not set';
+    }
+
+    return binding
+      .split('+')
+      .map((part) =>
+        part
+          .replace(/^Key/, '')
+          .replace(/^Digit/, '')
+          .replace(/^Numpad/, 'Num '),
+      )
+      .join('+');
+  }
+
+  private findConflict(action: ShortcutAction, binding: string): string | null {
+    if (RESERVED_BINDINGS.has(binding)) {
+      return `${this.formatBinding(binding)} is used by the browser or opens this help.`;
+    }
+
+    if (!this.hasCommandModifier(binding) && !/^F\d+$/.test(binding)) {
+      return 'Use Ctrl, Alt or Cmd with the key, or a function key, so typing does not trigger it.';
+    }
+
+    const other = SHORTCUT_ACTIONS.find(
+      ({ value }) => value !== action && this.bindings()[value] === binding,
+    );
+    return other ? `${this.formatBinding(binding)} is already used for "${other.label}".` : null;
+  }
+
+  private hasCommandModifier(binding: string): boolean {
+    return /(^|\+)(Ctrl|Alt|Meta)\+/.test(binding);
+  }
+
+  private isEditableTarget(target: EventTarget | null): boolean {
+    return (
+      target instanceof HTMLElement &&
+      (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+    );
+  }
+
+  /**
+   * Map media keys and call controls onto the shortcut actions
+   * Unsupported actions throw in some browsers and are skipped
+   */
+  private setMediaSessionHandlers(enabled: boolean): void {
+    if (!('mediaSession' in navigator)) {
+      return;
+    }
+
+    const isActive = (): boolean =>
+      this.mediaSessionStatus === 'recording' || this.mediaSessionStatus === 'paused';
+    const mediaActions: [
+      MediaSessionAction | MediaSessionCallAction,
+      () => ShortcutAction | null,
+    ][] = [
+      [
+        'play',
+        () =>
+          this.mediaSessionStatus === 'paused'
+            ? 'toggle-pause'
+            : this.mediaSessionStatus === 'idle'
+              ? 'toggle-recording'
+              : null,
+      ],
+      ['pause', () => (this.mediaSessionStatus === 'recording' ? 'toggle-pause' : null)],
+      ['stop', () => (isActive() ? 'toggle-recording' : null)],
+      ['hangup', () => (isActive() ? 'toggle-recording' : null)],
+      ['nexttrack', () => (isActive() ? 'add-marker' : null)],
+      ['togglemicrophone', () => 'toggle-microphone'],
+      ['togglecamera', () => 'toggle-camera'],
+    ];
+
+    for (const [mediaAction, resolveAction] of mediaActions) {
+      try {
+        navigator.mediaSession.setActionHandler(
+          mediaAction as MediaSessionAction,
+          enabled
+            ? () => {
+                const action = resolveAction();
+                if (action) {
+                  this.handlers[action]?.();
+                }
+              }
+            : null,
+        );
+      } catch {
+        // This browser does not know the action
+      }
+    }
+  }
+
+  private async updateSettings(changes: Partial<ShortcutSettings>): Promise<void> {
+    this._settings.update((settings) => ({
+      ...settings,
+      ...changes,
+      lastUpdated: Date.now(),
+    }));
+
+    try {
+      await this.indexedDb.set('preferences', this.SHORTCUT_SETTINGS_KEY, this._settings());
+    } catch (error) {
+      console.error('[ShortcutService] Failed to save shortcut settings:', error);
+    }
+  }
+
+  private async loadSettings(): Promise<void> {
+    try {
+      const settings = await this.indexedDb.get<ShortcutSettings>(
+        'preferences',
+        this.SHORTCUT_SETTINGS_KEY,
+      );
+
+      if (settings) {
+        // Actions added since the settings were saved get their default binding
+        this._settings.set({
+          ...settings,
+          bindings: { ...DEFAULT_SHORTCUT_SETTINGS.bindings, ...settings.bindings },
+        });
+      }
+    } catch (error) {
+      console.error('[ShortcutService] Failed to load shortcut settings:', error);
+    }
+  }
+}
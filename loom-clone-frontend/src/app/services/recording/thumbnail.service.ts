@@ -0,0 +1,393 @@
+import { Injectable, effect, inject, signal, untracked } from '@angular/core';
+import {
+  RecordingFileSummary,
+  RecordingThumbnail,
+  RecordingThumbnailView,
+} from '../../models/media.models';
+import { FolderStorageService } from '../storage/folder-storage.service';
+import { IndexedDbService } from '../storage/indexeddb.service';
+
+/**
+ * Service that generates and caches preview images for the recordings list
+ * - Video files get a poster frame and, when the duration is known, a sprite strip
+ *   of evenly spaced frames for hover scrubbing
+ * - Audio-only files get a rendered waveform
+ *
+ * Thumbnails are generated one at a time in the background when first requested
+ * and cached in IndexedDB, so each file is only decoded once
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ThumbnailService {
+  private readonly folderStorage = inject(FolderStorageService);
+  private readonly indexedDb = inject(IndexedDbService);
+  private readonly STORE_NAME = 'thumbnails';
+  private readonly POSTER_WIDTH = 320;
+  private readonly SPRITE_FRAME_WIDTH = 160;
+  private readonly SPRITE_FRAME_COUNT = 10;
+  private readonly WAVEFORM_HEIGHT = 180;
+  private readonly MAX_WAVEFORM_BYTES = 25 * 1024 * 1024;
+  private readonly SEEK_TIMEOUT_MS = 5000;
+
+  private readonly _thumbnails = signal<Record<string, RecordingThumbnailView>>({});
+
+  /**
+   * Thumbnails loaded so far, keyed by thumbnailKey()
+   */
+  readonly thumbnails = this._thumbnails.asReadonly();
+
+  private readonly queue: RecordingFileSummary[] = [];
+  private readonly queuedKeys = new Set<string>();
+  private readonly failedKeys = new Set<string>();
+  private isProcessing = false;
+
+  constructor() {
+    // Drop thumbnails for files that disappeared once a refresh has settled
+    effect(() => {
+      const recordings = this.folderStorage.recordings();
+      if (this.folderStorage.recordingsLoading() || recordings.length === 0) {
+        return;
+      }
+
+      untracked(() => void this.prune(recordings, this.folderStorage.currentPath()));
+    });
+  }
+
+  /**
+   * Cache key for a recording; changes whenever the file is replaced or edited
+   */
+  thumbnailKey(recording: RecordingFileSummary): string {
+    return `${recording.path}|${recording.lastModified}|${recording.size}`;
+  }
+
+  /**
+   * Queue a recording for thumbnail loading or generation
+   * Safe to call repeatedly; each file is processed at most once per session
+   */
+  request(recording: RecordingFileSummary): void {
+    const key = this.thumbnailKey(recording);
+    if (this._thumbnails()[key] || this.queuedKeys.has(key) || this.failedKeys.has(key)) {
+      return;
+    }
+
+    this.queuedKeys.add(key);
+    this.queue.push(recording);
+    void this.processQueue();
+  }
+
+  /**
+   * Drop cached thumbnails and object URLs for files no longer in the folder
+   * Only cache entries for the listed subfolder are checked, so browsing does not evict the rest
+   */
+  async prune(recordings: RecordingFileSummary[], folder: string[]): Promise<void> {
+    const folderPrefix = folder.map((segment) => `${segment}/`).join('');
+    const activeKeys = new Set(recordings.map((recording) => this.thumbnailKey(recording)));
+
+    this._thumbnails.update((thumbnails) => {
+      const kept: Record<string, RecordingThumbnailView> = {};
+      for (const [key, view] of Object.entries(thumbnails)) {
+        if (activeKeys.has(key)) {
+          kept[key] = view;
+        } else {
+          this.revokeView(view);
+        }
+      }
+      return kept;
+    });
+
+    try {
+      const staleKeys: string[] = [];
+      await this.indexedDb.iterate<RecordingThumbnail>(this.STORE_NAME, (thumbnail) => {
+        const parent = thumbnail.name.slice(0, thumbnail.name.lastIndexOf('/') + 1);
+        if (parent === folderPrefix && !activeKeys.has(thumbnail.key)) {
+          staleKeys.push(thumbnail.key);
+        }
+      });
+
+      await Promise.all(staleKeys.map((key) => this.indexedDb.delete(this.STORE_NAME, key)));
+    } catch (error) {
+      console.error('[ThumbnailService] Failed to prune thumbnail cache:', error);
+    }
+  }
+
+  private async processQueue(): Promise<void> {
+    if (this.isProcessing) {
+      return;
+    }
+
+    this.isProcessing = true;
+
+    try {
+      let recording = this.queue.shift();
+      while (recording) {
+        const key = this.thumbnailKey(recording);
+
+        try {
+          const thumbnail =
+            (await this.indexedDb.get<RecordingThumbnail>(this.STORE_NAME, key)) ??
+            (await this.generate(recording, key));
+
+          this._thumbnails.update((thumbnails) => ({
+            ...thumbnails,
+            [key]: this.createView(thumbnail),
+          }));
+        } catch (error) {
+          console.error(
+            `[ThumbnailService] Failed to create thumbnail for ${recording.path}:`,
+            error,
+          );
+          this.failedKeys.add(key);
+        } finally {
+          this.queuedKeys.delete(key);
+        }
+
+        // Yield between files so generation stays in the background
+        await this.waitForIdle();
+        recording = this.queue.shift();
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async generate(
+    recording: RecordingFileSummary,
+    key: string,
+  ): Promise<RecordingThumbnail> {
+    const file = await this.folderStorage.readRecordingFile(recording.path);
+    const isAudio = this.folderStorage.isAudioRecording(recording);
+
+    const thumbnail: RecordingThumbnail = isAudio
+      ? {
+          key,
+          name: recording.path,
+          kind: 'audio',
+          poster: await this.renderWaveform(file),
+          spriteStrip: null,
+          spriteFrameCount: 0,
+          createdAt: Date.now(),
+        }
+      : { key, name: recording.path, createdAt: Date.now(), ...(await this.renderVideo(file)) };
+
+    try {
+      await this.indexedDb.put(this.STORE_NAME, thumbnail);
+    } catch (error) {
+      console.error('[ThumbnailService] Failed to cache thumbnail:', error);
+    }
+
+    return thumbnail;
+  }
+
+  private async renderVideo(
+    file: File,
+  ): Promise<Pick<RecordingThumbnail, 'kind' | 'poster' | 'spriteStrip' | 'spriteFrameCount'>> {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'auto';
+    video.src = url;
+
+    try {
+      await this.waitForEvent(video, 'loadeddata');
+      const duration = await this.resolveDuration(video);
+
+      const posterTime = Number.isFinite(duration) ? Math.min(1, duration * 0.1) : 0;
+      await this.seek(video, posterTime);
+      const poster = await this.captureFrames(video, [posterTime], this.POSTER_WIDTH);
+
+      let spriteStrip: Blob | null = null;
+      if (Number.isFinite(duration) && duration > 0) {
+        const step = duration / this.SPRITE_FRAME_COUNT;
+        const times = Array.from({ length: this.SPRITE_FRAME_COUNT }, (_, i) => step * (i + 0.5));
+        spriteStrip = await this.captureFrames(video, times, this.SPRITE_FRAME_WIDTH);
+      }
+
+      return {
+        kind: 'video',
+        poster,
+        spriteStrip,
+        spriteFrameCount: spriteStrip ? this.SPRITE_FRAME_COUNT : 0,
+      };
+    } finally {
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  /**
+   * MediaRecorder files can report an infinite duration until the end has been read;
+   * seeking far past the end makes the browser scan the file and settle the real value
+   */
+  private async resolveDuration(video: HTMLVideoElement): Promise<number> {
+    if (Number.isFinite(video.duration)) {
+      return video.duration;
+    }
+
+    try {
+      await this.seek(video, Number.MAX_SAFE_INTEGER);
+    } catch {
+      return Infinity;
+    }
+
+    return video.duration;
+  }
+
+  /**
+   * Draw the frames at the given times side by side into one image
+   */
+  private async captureFrames(
+    video: HTMLVideoElement,
+    times: number[],
+    frameWidth: number,
+  ): Promise<Blob> {
+    const aspectRatio = video.videoWidth > 0 ? video.videoHeight / video.videoWidth : 9 / 16;
+    const frameHeight = Math.round(frameWidth * aspectRatio);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = frameWidth * times.length;
+    canvas.height = frameHeight;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas is not supported in this browser');
+    }
+
+    for (const [index, time] of times.entries()) {
+      if (Math.abs(video.currentTime - time) > 0.01) {
+        await this.seek(video, time);
+      }
+      context.drawImage(video, index * frameWidth, 0, frameWidth, frameHeight);
+    }
+
+    return this.canvasToBlob(canvas, 'image/jpeg');
+  }
+
+  private async renderWaveform(file: File): Promise<Blob> {
+    const canvas = document.createElement('canvas');
+    canvas.width = this.POSTER_WIDTH;
+    canvas.height = this.WAVEFORM_HEIGHT;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas is not supported in this browser');
+    }
+
+    const peaks = await this.computePeaks(file, canvas.width / 2);
+
+    context.fillStyle = '#1f2937';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.fillStyle = '#818cf8';
+
+    const middle = canvas.height / 2;
+    peaks.forEach((peak, index) => {
+      const barHeight = Math.max(2, peak * (canvas.height - 16));
+      context.fillRect(index * 2, middle - barHeight / 2, 1, barHeight);
+    });
+
+    return this.canvasToBlob(canvas, 'image/png');
+  }
+
+  /**
+   * Peak amplitude per column, normalized to 0..1
+   * Very large files are decoded from their beginning only to keep memory bounded;
+   * undecodable audio yields a flat line
+   */
+  private async computePeaks(file: File, columnCount: number): Promise<number[]> {
+    const context = new AudioContext();
+
+    try {
+      const bytes = await file.slice(0, this.MAX_WAVEFORM_BYTES).arrayBuffer();
+      const buffer = await context.decodeAudioData(bytes);
+      const samples = buffer.getChannelData(0);
+      const samplesPerColumn = Math.max(1, Math.floor(samples.length / columnCount));
+
+      const peaks: number[] = [];
+      let maxPeak = 0;
+      for (let column = 0; column < columnCount; column++) {
+        let peak = 0;
+        const start = column * samplesPerColumn;
+        const end = Math.min(samples.length, start + samplesPerColumn);
+        for (let i = start; i < end; i++) {
+          peak = Math.max(peak, Math.abs(samples[i]));
+        }
+        peaks.push(peak);
+        maxPeak = Math.max(maxPeak, peak);
+      }
+
+      return maxPeak > 0 ? peaks.map((peak) => peak / maxPeak) : peaks;
+    } catch (error) {
+      console.warn('[ThumbnailService] Unable to decode audio for waveform:', error);
+      return new Array<number>(columnCount).fill(0);
+    } finally {
+      void context.close();
+    }
+  }
+
+  private seek(video: HTMLVideoElement, time: number): Promise<void> {
+    const seeked = this.waitForEvent(video, 'seeked');
+    video.currentTime = time;
+    return seeked;
+  }
+
+  private waitForEvent(video: HTMLVideoElement, eventName: 'loadeddata' | 'seeked'): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const timeoutId = setTimeout(() => {
+        cleanup();
+        reject(new Error(`Timed out waiting for ${eventName}`));
+      }, this.SEEK_TIMEOUT_MS);
+
+      const onEvent = () => {
+        cleanup();
+        resolve();
+      };
+      const onError = () => {
+        cleanup();
+        reject(new Error('Video could not be decoded'));
+      };
+      const cleanup = () => {
+        clearTimeout(timeoutId);
+        video.removeEventListener(eventName, onEvent);
+        video.removeEventListener('error', onError);
+      };
+
+      video.addEventListener(eventName, onEvent);
+      video.addEventListener('error', onError);
+    });
+  }
+
+  private canvasToBlob(canvas: HTMLCanvasElement, type: string): Promise<Blob> {
+    return new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error('Unable to encode thumbnail'))),
+        type,
+        0.8,
+      );
+    });
+  }
+
+  private waitForIdle(): Promise<void> {
+    return new Promise<void>((resolve) => {
+      if ('requestIdleCallback' in window) {
+        requestIdleCallback(() => resolve());
+      } else {
+        setTimeout(resolve, 0);
+      }
+    });
+  }
+
+  private createView(thumbnail: RecordingThumbnail): RecordingThumbnailView {
+    return {
+      kind: thumbnail.kind,
+      posterUrl: URL.createObjectURL(thumbnail.poster),
+      spriteUrl: thumbnail.spriteStrip ? URL.createObjectURL(thumbnail.spriteStrip) : null,
+      spriteFrameCount: thumbnail.spriteFrameCount,
+    };
+  }
+
+  private revokeView(view: RecordingThumbnailView): void {
+    URL.revokeObjectURL(view.posterUrl);
+    if (view.spriteUrl) {
+      URL.revokeObjectURL(view.spriteUrl);
+    }
+  }
+}
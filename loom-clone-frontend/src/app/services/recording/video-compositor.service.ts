@@ -0,0 +1,396 @@
+import { Injectable, inject, signal } from '@angular/core';
+import {
+  CameraBubbleCorner,
+  CameraBubbleSettings,
+  CameraBubbleShape,
+  CameraBubbleSize,
+  CompositorSources,
+  RecordingQualityProfile,
+} from '../../models/media.models';
+import { IndexedDbService } from '../storage/indexeddb.service';
+import { CameraPreviewService } from './camera-preview.service';
+import { AnnotationService } from './annotation.service';
+
+const DEFAULT_BUBBLE_SETTINGS: CameraBubbleSettings = {
+  corner: 'bottom-left',
+  size: 'medium',
+  shape: 'circle',
+  lastUpdated: 0,
+};
+
+/**
+ * Bubble diameter as a fraction of the shorter output edge
+ */
+const BUBBLE_SIZE_RATIOS: Record<CameraBubbleSize, number> = {
+  small: 0.2,
+  medium: 0.28,
+  large: 0.36,
+};
+
+/**
+ * Timer worker source; worker timers keep firing while the tab is in the background,
+ * unlike requestAnimationFrame which pauses and would freeze the recorded video
+ */
+const TICKER_WORKER_SOURCE = `
+let timerId = null;
+onmessage = (event) => {
+  clearInterval(timerId);
+  timerId = event.data > 0 ? setInterval(() => postMessage(null), event.data) : null;
+};
+`;
+
+/**
+ * Service that draws the screen capture and camera into a single canvas-backed video track
+ * The camera is rendered as a bubble over the screen, or full-frame when no screen is shared
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class VideoCompositorService {
+  private readonly indexedDb = inject(IndexedDbService);
+  private readonly cameraPreview = inject(CameraPreviewService);
+  private readonly annotations = inject(AnnotationService);
+  private readonly BUBBLE_SETTINGS_KEY = 'camera-bubble-settings';
+  private readonly DEFAULT_FRAME_RATE = 30;
+  private readonly FALLBACK_WIDTH = 1280;
+  private readonly FALLBACK_HEIGHT = 720;
+  private hasInitialized = false;
+
+  private readonly _bubbleSettings = signal<CameraBubbleSettings>(DEFAULT_BUBBLE_SETTINGS);
+  private readonly _isCompositing = signal(false);
+  private readonly _outputTrack = signal<MediaStreamTrack | null>(null);
+
+  readonly bubbleSettings = this._bubbleSettings.asReadonly();
+  readonly isCompositing = this._isCompositing.asReadonly();
+
+  /**
+   * The composited video being recorded, shown under the annotation surface
+   */
+  readonly outputTrack = this._outputTrack.asReadonly();
+
+  private canvas: HTMLCanvasElement | null = null;
+  private context: CanvasRenderingContext2D | null = null;
+  private screenVideo: HTMLVideoElement | null = null;
+  private cameraVideo: HTMLVideoElement | null = null;
+  private cameraTrack: MediaStreamTrack | null = null;
+  private maxLongEdge = Infinity;
+  private maxShortEdge = Infinity;
+  private ticker: Worker | null = null;
+  private tickerUrl: string | null = null;
+
+  async init(): Promise<void> {
+    if (this.hasInitialized) {
+      return;
+    }
+
+    this.hasInitialized = true;
+    await this.loadBubbleSettings();
+  }
+
+  /**
+   * Start compositing the given sources and return the combined output video track
+   * The output is scaled down to fit the quality profile when one is given
+   * Throws when neither a screen nor a camera track is provided
+   */
+  async start(
+    sources: CompositorSources,
+    quality?: Pick<RecordingQualityProfile, 'width' | 'height' | 'frameRate'>,
+  ): Promise<MediaStreamTrack> {
+    if (!sources.screenTrack && !sources.cameraTrack) {
+      throw new Error('Video track is unavailable for recording');
+    }
+
+    this.stop();
+
+    this.canvas = document.createElement('canvas');
+    this.context = this.canvas.getContext('2d');
+    if (!this.context) {
+      this.canvas = null;
+      throw new Error('Canvas compositing is not supported in this browser');
+    }
+
+    this.screenVideo = sources.screenTrack
+      ? await this.createSourceVideo(sources.screenTrack)
+      : null;
+    this.cameraVideo = sources.cameraTrack
+      ? await this.createSourceVideo(sources.cameraTrack)
+      : null;
+    this.cameraTrack = sources.cameraTrack;
+
+    // Bounds apply by edge length so portrait cameras are limited like landscape screens
+    this.maxLongEdge = quality ? Math.max(quality.width, quality.height) : Infinity;
+    this.maxShortEdge = quality ? Math.min(quality.width, quality.height) : Infinity;
+    const frameRate = quality?.frameRate ?? this.DEFAULT_FRAME_RATE;
+
+    this.resizeCanvas();
+    this.drawFrame();
+
+    const outputTrack = this.canvas.captureStream(frameRate).getVideoTracks()[0];
+    if (!outputTrack) {
+      this.stop();
+      throw new Error('Unable to capture composited video');
+    }
+
+    this.startTicker(Math.round(1000 / frameRate));
+    this._outputTrack.set(outputTrack);
+    this._isCompositing.set(true);
+    return outputTrack;
+  }
+
+  /**
+   * Stop compositing and release the canvas, source videos and output track
+   * Source tracks are owned by the caller and are not stopped here
+   */
+  stop(): void {
+    this.stopTicker();
+
+    this._outputTrack()?.stop();
+    this._outputTrack.set(null);
+    this.annotations.reset();
+
+    this.releaseSourceVideo(this.screenVideo);
+    this.releaseSourceVideo(this.cameraVideo);
+    this.screenVideo = null;
+    this.cameraVideo = null;
+    this.cameraTrack = null;
+    this.maxLongEdge = Infinity;
+    this.maxShortEdge = Infinity;
+
+    this.canvas = null;
+    this.context = null;
+    this._isCompositing.set(false);
+  }
+
+  /**
+   * Swap the camera drawn into the output without interrupting the output track
+   * Passing null stops drawing the camera; the replaced track is not stopped here
+   */
+  async replaceCameraTrack(track: MediaStreamTrack | null): Promise<void> {
+    if (!this.canvas) {
+      return;
+    }
+
+    const video = track ? await this.createSourceVideo(track) : null;
+    // Compositing may have stopped while the new video was starting
+    if (!this.canvas) {
+      this.releaseSourceVideo(video);
+      return;
+    }
+
+    this.releaseSourceVideo(this.cameraVideo);
+    this.cameraVideo = video;
+    this.cameraTrack = track;
+  }
+
+  async setBubbleCorner(corner: CameraBubbleCorner): Promise<void> {
+    await this.updateBubbleSettings({ corner });
+  }
+
+  async setBubbleSize(size: CameraBubbleSize): Promise<void> {
+    await this.updateBubbleSettings({ size });
+  }
+
+  async setBubbleShape(shape: CameraBubbleShape): Promise<void> {
+    await this.updateBubbleSettings({ shape });
+  }
+
+  private async updateBubbleSettings(changes: Partial<CameraBubbleSettings>): Promise<void> {
+    this._bubbleSettings.update((settings) => ({
+      ...settings,
+      ...changes,
+      lastUpdated: Date.now(),
+    }));
+
+    try {
+      await this.indexedDb.set('preferences', this.BUBBLE_SETTINGS_KEY, this._bubbleSettings());
+    } catch (error) {
+      console.error('[VideoCompositorService] Failed to save bubble settings:', error);
+    }
+  }
+
+  private async loadBubbleSettings(): Promise<void> {
+    try {
+      const settings = await this.indexedDb.get<CameraBubbleSettings>(
+        'preferences',
+        this.BUBBLE_SETTINGS_KEY,
+      );
+
+      if (settings) {
+        this._bubbleSettings.set({ ...DEFAULT_BUBBLE_SETTINGS, ...settings });
+      }
+    } catch (error) {
+      console.error('[VideoCompositorService] Failed to load bubble settings:', error);
+    }
+  }
+
+  private async createSourceVideo(track: MediaStreamTrack): Promise<HTMLVideoElement> {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = new MediaStream([track]);
+    await video.play();
+    return video;
+  }
+
+  private releaseSourceVideo(video: HTMLVideoElement | null): void {
+    if (!video) {
+      return;
+    }
+
+    video.pause();
+    video.srcObject = null;
+  }
+
+  private startTicker(intervalMs: number): void {
+    this.tickerUrl = URL.createObjectURL(
+      new Blob([TICKER_WORKER_SOURCE], { type: 'text/javascript' }),
+    );
+    this.ticker = new Worker(this.tickerUrl);
+    this.ticker.onmessage = () => this.drawFrame();
+    this.ticker.postMessage(intervalMs);
+  }
+
+  private stopTicker(): void {
+    this.ticker?.terminate();
+    this.ticker = null;
+
+    if (this.tickerUrl) {
+      URL.revokeObjectURL(this.tickerUrl);
+      this.tickerUrl = null;
+    }
+  }
+
+  /**
+   * Match the canvas to the primary source, scaled down to the quality bounds
+   * Dimensions are kept even since H.264 encoders reject odd sizes
+   */
+  private resizeCanvas(): void {
+    if (!this.canvas) {
+      return;
+    }
+
+    const primary = this.screenVideo ?? this.cameraVideo;
+    const sourceWidth = primary?.videoWidth || this.FALLBACK_WIDTH;
+    const sourceHeight = primary?.videoHeight || this.FALLBACK_HEIGHT;
+    const scale = Math.min(
+      1,
+      this.maxLongEdge / Math.max(sourceWidth, sourceHeight),
+      this.maxShortEdge / Math.min(sourceWidth, sourceHeight),
+    );
+    const width = Math.max(2, Math.round(sourceWidth * scale) & ~1);
+    const height = Math.max(2, Math.round(sourceHeight * scale) & ~1);
+
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+    }
+  }
+
+  private drawFrame(): void {
+    const context = this.context;
+    if (!this.canvas || !context) {
+      return;
+    }
+
+    this.resizeCanvas();
+    const { width, height } = this.canvas;
+
+    context.fillStyle = '#000';
+    context.fillRect(0, 0, width, height);
+
+    if (this.screenVideo) {
+      context.drawImage(this.screenVideo, 0, 0, width, height);
+
+      if (this.cameraVideo && this.isCameraVisible()) {
+        this.drawBubble(context, this.cameraVideo, width, height);
+      }
+    } else if (this.cameraVideo && this.isCameraVisible()) {
+      this.drawCover(
+        context,
+        this.cameraVideo,
+        0,
+        0,
+        width,
+        height,
+        this.cameraPreview.mirrorOutput(),
+      );
+    }
+
+    this.annotations.draw(context, width, height);
+  }
+
+  /**
+   * The camera live toggle disables the track; hide the bubble instead of drawing black frames
+   */
+  private isCameraVisible(): boolean {
+    const track = this.cameraTrack;
+    return track !== null && track.enabled && track.readyState === 'live';
+  }
+
+  private drawBubble(
+    context: CanvasRenderingContext2D,
+    video: HTMLVideoElement,
+    width: number,
+    height: number,
+  ): void {
+    const settings = this._bubbleSettings();
+    const shortEdge = Math.min(width, height);
+    const diameter = Math.round(shortEdge * BUBBLE_SIZE_RATIOS[settings.size]);
+    const margin = Math.round(shortEdge * 0.03);
+
+    const x = settings.corner.endsWith('left') ? margin : width - diameter - margin;
+    const y = settings.corner.startsWith('top') ? margin : height - diameter - margin;
+
+    context.save();
+    context.beginPath();
+    if (settings.shape === 'circle') {
+      context.arc(x + diameter / 2, y + diameter / 2, diameter / 2, 0, Math.PI * 2);
+    } else {
+      context.roundRect(x, y, diameter, diameter, diameter * 0.15);
+    }
+    context.clip();
+    this.drawCover(context, video, x, y, diameter, diameter, this.cameraPreview.mirrorOutput());
+    context.restore();
+
+    context.lineWidth = Math.max(2, Math.round(diameter * 0.02));
+    context.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+    context.stroke();
+  }
+
+  /**
+   * Draw a video into the target rectangle, cropping it to fill like object-fit: cover
+   * Mirrored drawing flips the image horizontally within the same rectangle
+   */
+  private drawCover(
+    context: CanvasRenderingContext2D,
+    video: HTMLVideoElement,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    mirrored = false,
+  ): void {
+    const sourceWidth = video.videoWidth;
+    const sourceHeight = video.videoHeight;
+    if (sourceWidth === 0 || sourceHeight === 0) {
+      return;
+    }
+
+    const scale = Math.max(width / sourceWidth, height / sourceHeight);
+    const cropWidth = width / scale;
+    const cropHeight = height / scale;
+    const cropX = (sourceWidth - cropWidth) / 2;
+    const cropY = (sourceHeight - cropHeight) / 2;
+
+    if (!mirrored) {
+      context.drawImage(video, cropX, cropY, cropWidth, cropHeight, x, y, width, height);
+      return;
+    }
+
+    context.save();
+    context.translate(x + width, y);
+    context.scale(-1, 1);
+    context.drawImage(video, cropX, cropY, cropWidth, cropHeight, 0, 0, width, height);
+    context.restore();
+  }
+}
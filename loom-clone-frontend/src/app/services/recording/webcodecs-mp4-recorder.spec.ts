@@ -0,0 +1,217 @@
+import { WebCodecsMp4Recorder } from './webcodecs-mp4-recorder';
+
+const AVCC = Uint8Array.from([0x01, 0x64, 0x00, 0x28]);
+const FAKE_GLOBALS = ['MediaStreamTrackProcessor', 'VideoEncoder', 'VideoFrame'];
+
+interface FakeTrack {
+  controller?: ReadableStreamDefaultController<FakeVideoFrame>;
+}
+
+interface TrackRun {
+  baseDecodeTime: number;
+  samples: { duration: number; sync: boolean }[];
+}
+
+class FakeVideoFrame {
+  readonly timestamp: number;
+  readonly displayWidth = 1280;
+  readonly displayHeight = 720;
+
+  constructor(source: { timestamp: number }, init?: { timestamp: number }) {
+    this.timestamp = init?.timestamp ?? source.timestamp;
+  }
+
+  close(): void {
+    // Nothing to release
+  }
+}
+
+class FakeTrackProcessor {
+  readonly readable: ReadableStream<FakeVideoFrame>;
+
+  constructor({ track }: { track: FakeTrack }) {
+    this.readable = new ReadableStream({ start: (controller) => (track.controller = controller) });
+  }
+}
+
+/**
+ * Encodes every frame straight away into a one-byte chunk
+ */
+class FakeVideoEncoder {
+  state = 'unconfigured';
+  readonly encodeQueueSize = 0;
+  private readonly output: (chunk: unknown, metadata?: unknown) => void;
+
+  static async isConfigSupported(): Promise<{ supported: boolean }> {
+    return { supported: true };
+  }
+
+  constructor(init: { output: (chunk: unknown, metadata?: unknown) => void }) {
+    this.output = init.output;
+  }
+
+  configure(): void {
+    this.state = 'configured';
+  }
+
+  encode(frame: FakeVideoFrame, options: { keyFrame: boolean }): void {
+    this.output(
+      {
+        type: options.keyFrame ? 'key' : 'delta',
+        timestamp: frame.timestamp,
+        duration: null,
+        byteLength: 1,
+        copyTo: (destination: Uint8Array) => destination.set([0xab]),
+      },
+      this.state === 'configured' ? { decoderConfig: { description: AVCC } } : undefined,
+    );
+    this.state = 'encoding';
+  }
+
+  async flush(): Promise<void> {
+    // Every frame is output as soon as it is encoded
+  }
+
+  close(): void {
+    this.state = 'closed';
+  }
+}
+
+function u32(bytes: Uint8Array, offset: number): number {
+  return new DataView(bytes.buffer, bytes.byteOffset).getUint32(offset);
+}
+
+/**
+ * The track run of a single-track fragment, found by box type
+ */
+function readTrackRun(fragment: Uint8Array): TrackRun {
+  const find = (type: string) => {
+    for (let offset = 0; offset + 8 <= fragment.length; offset++) {
+      if (String.fromCharCode(...fragment.subarray(offset + 4, offset + 8)) === type) {
+        return offset;
+      }
+    }
+    throw new Error(`${type} box not found`);
+  };
+
+  const tfdt = find('tfdt');
+  const trun = find('trun');
+  const sampleCount = u32(fragment, trun + 12);
+  return {
+    baseDecodeTime: Number(new DataView(fragment.buffer).getBigUint64(tfdt + 12)),
+    samples: Array.from({ length: sampleCount }, (_, index) => ({
+      duration: u32(fragment, trun + 20 + index * 12),
+      sync: u32(fragment, trun + 28 + index * 12) === 0x02000000,
+    })),
+  };
+}
+
+function settle(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve));
+}
+
+describe('WebCodecsMp4Recorder', () => {
+  const originals = new Map<string, unknown>();
+  const globals = globalThis as unknown as Record<string, unknown>;
+  let track: FakeTrack;
+  let recorder: WebCodecsMp4Recorder;
+  let output: Promise<Uint8Array>[];
+  let flushFragment: () => void;
+  let now: number;
+
+  beforeEach(() => {
+    for (const name of FAKE_GLOBALS) {
+      originals.set(name, globals[name]);
+    }
+    globals['MediaStreamTrackProcessor'] = FakeTrackProcessor;
+    globals['VideoEncoder'] = FakeVideoEncoder;
+    globals['VideoFrame'] = FakeVideoFrame;
+
+    now = 0;
+    spyOn(performance, 'now').and.callFake(() => now);
+    // Fragments are written when the test says so rather than every timeslice
+    spyOn(window, 'setInterval').and.callFake(((callback: () => void) => {
+      flushFragment = callback;
+      return 0;
+    }) as typeof setInterval);
+    spyOn(window, 'clearInterval');
+
+    track = {};
+    const stream = { getVideoTracks: () => [track], getAudioTracks: () => [] };
+    recorder = new WebCodecsMp4Recorder(stream as unknown as MediaStream);
+    output = [];
+    recorder.ondataavailable = (event) =>
+      output.push(event.data.arrayBuffer().then((buffer) => new Uint8Array(buffer)));
+  });
+
+  afterEach(() => {
+    for (const [name, value] of originals) {
+      globals[name] = value;
+    }
+  });
+
+  async function frame(timestampUs: number): Promise<void> {
+    now = timestampUs / 1000;
+    track.controller!.enqueue(new FakeVideoFrame({ timestamp: timestampUs }));
+    await settle();
+  }
+
+  async function stop(): Promise<Uint8Array[]> {
+    const stopped = new Promise((resolve) => (recorder.onstop = resolve));
+    recorder.stop();
+    await stopped;
+    return Promise.all(output);
+  }
+
+  it('carries decode times and durations on from one fragment to the next', async () => {
+    recorder.start();
+    await frame(0);
+    await frame(33_333);
+    await frame(66_667);
+    flushFragment();
+    await frame(100_000);
+
+    const [init, first, second] = await stop();
+
+    expect(String.fromCharCode(...init.subarray(4, 8))).toBe('ftyp');
+    // The newest frame waits for the next one to know its duration
+    expect(readTrackRun(first)).toEqual({
+      baseDecodeTime: 0,
+      samples: [
+        { duration: 3000, sync: true },
+        { duration: 3000, sync: false },
+      ],
+    });
+    expect(readTrackRun(second)).toEqual({
+      baseDecodeTime: 6000,
+      samples: [
+        { duration: 3000, sync: false },
+        { duration: 3000, sync: false },
+      ],
+    });
+  });
+
+  it('leaves no gap for the time spent paused and starts again with a keyframe', async () => {
+    recorder.start();
+    await frame(0);
+    await frame(33_333);
+    now = 50;
+    recorder.pause();
+    await frame(2_000_000);
+    now = 5050;
+    recorder.resume();
+    await frame(5_066_667);
+
+    const [, fragment] = await stop();
+
+    expect(readTrackRun(fragment)).toEqual({
+      baseDecodeTime: 0,
+      samples: [
+        { duration: 3000, sync: true },
+        { duration: 3000, sync: false },
+        { duration: 3000, sync: true },
+      ],
+    });
+    expect(recorder.mimeType).toBe('video/mp4;codecs="avc1.640028"');
+  });
+});
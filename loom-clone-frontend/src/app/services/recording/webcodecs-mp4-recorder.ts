@@ -0,0 +1,505 @@
+import { RecordingEncoder } from '../../models/media.models';
+import {
+  FragmentedMp4Muxer,
+  Mp4Sample,
+  Mp4TrackConfig,
+  createAacAudioSpecificConfig,
+} from './fragmented-mp4-muxer';
+
+export interface WebCodecsMp4RecorderOptions {
+  frameRate?: number;
+  videoBitsPerSecond?: number;
+  audioBitsPerSecond?: number;
+}
+
+/**
+ * Encoded chunk waiting to be written, with its timestamp in microseconds
+ */
+interface PendingChunk {
+  data: Uint8Array;
+  timestamp: number;
+  duration: number | null;
+  keyframe: boolean;
+}
+
+interface TrackState {
+  config: Mp4TrackConfig | null;
+  pending: PendingChunk[];
+  lastDuration: number;
+}
+
+const VIDEO_TRACK_ID = 1;
+const AUDIO_TRACK_ID = 2;
+const VIDEO_TIMESCALE = 90000;
+const KEYFRAME_INTERVAL_US = 2_000_000;
+const MAX_VIDEO_ENCODE_QUEUE = 30;
+const DEFAULT_FRAME_RATE = 30;
+const DEFAULT_VIDEO_BITRATE = 5_000_000;
+const DEFAULT_AUDIO_BITRATE = 128_000;
+
+/**
+ * H.264/AAC recorder built on WebCodecs and an in-app fragmented MP4 muxer
+ * Used for MP4 output where MediaRecorder cannot write video/mp4 itself.
+ * Mirrors the MediaRecorder calls used by RecordingSessionService: data is delivered
+ * through ondataavailable every timeslice, starting with the init segment.
+ */
+export class WebCodecsMp4Recorder implements RecordingEncoder {
+  ondataavailable: ((event: BlobEvent) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  onstop: ((event: Event) => void) | null = null;
+
+  private _mimeType: string;
+  private state: 'inactive' | 'recording' | 'paused' | 'stopping' = 'inactive';
+  private readonly videoTrack: MediaStreamTrack | null;
+  private readonly audioTrack: MediaStreamTrack | null;
+  private videoEncoder: VideoEncoder | null = null;
+  private audioEncoder: AudioEncoder | null = null;
+  private readonly readers: ReadableStreamDefaultReader<VideoFrame | AudioData>[] = [];
+  private readonly pumps: Promise<void>[] = [];
+  private readonly tracks = new Map<number, TrackState>();
+  private muxer: FragmentedMp4Muxer | null = null;
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+  private startedAt = 0;
+  private pausedAt: number | null = null;
+  private pausedUs = 0;
+  private lastKeyframeUs = -Infinity;
+  private forceKeyframe = true;
+  private failed = false;
+
+  /**
+   * Whether this browser exposes the WebCodecs and track-processor APIs the recorder needs
+   */
+  static isSupported(): boolean {
+    return (
+      typeof VideoEncoder !== 'undefined' &&
+      typeof AudioEncoder !== 'undefined' &&
+      typeof MediaStreamTrackProcessor !== 'undefined'
+    );
+  }
+
+  /**
+   * Whether H.264 and AAC encoders are available at the given size
+   */
+  static async isConfigSupported(width = 1920, height = 1080): Promise<boolean> {
+    if (!WebCodecsMp4Recorder.isSupported()) {
+      return false;
+    }
+
+    try {
+      const [video, audio] = await Promise.all([
+        WebCodecsMp4Recorder.resolveVideoConfig(
+          width,
+          height,
+          DEFAULT_FRAME_RATE,
+          DEFAULT_VIDEO_BITRATE,
+        ),
+        AudioEncoder.isConfigSupported({
+          codec: 'mp4a.40.2',
+          sampleRate: 48000,
+          numberOfChannels: 2,
+          bitrate: DEFAULT_AUDIO_BITRATE,
+        }),
+      ]);
+      return video !== null && audio.supported === true;
+    } catch {
+      return false;
+    }
+  }
+
+  constructor(
+    stream: MediaStream,
+    private readonly options: WebCodecsMp4RecorderOptions = {},
+  ) {
+    this.videoTrack = stream.getVideoTracks()[0] ?? null;
+    this.audioTrack = stream.getAudioTracks()[0] ?? null;
+    this._mimeType = this.videoTrack ? 'video/mp4' : 'audio/mp4';
+
+    if (this.videoTrack) {
+      this.tracks.set(VIDEO_TRACK_ID, { config: null, pending: [], lastDuration: 0 });
+    }
+    if (this.audioTrack) {
+      this.tracks.set(AUDIO_TRACK_ID, { config: null, pending: [], lastDuration: 0 });
+    }
+  }
+
+  get mimeType(): string {
+    return this._mimeType;
+  }
+
+  start(timeslice = 1000): void {
+    if (this.state !== 'inactive') {
+      throw new DOMException('Recorder is already running', 'InvalidStateError');
+    }
+
+    this.state = 'recording';
+    this.startedAt = performance.now();
+
+    if (this.videoTrack) {
+      this.pumps.push(this.pump<VideoFrame>(this.videoTrack, (frame) => this.encodeVideo(frame)));
+    }
+    if (this.audioTrack) {
+      this.pumps.push(this.pump<AudioData>(this.audioTrack, (data) => this.encodeAudio(data)));
+    }
+
+    this.flushTimer = setInterval(() => this.emitFragment(false), timeslice);
+  }
+
+  pause(): void {
+    if (this.state === 'recording') {
+      this.state = 'paused';
+      this.pausedAt = performance.now();
+    }
+  }
+
+  resume(): void {
+    if (this.state === 'paused' && this.pausedAt !== null) {
+      this.pausedUs += (performance.now() - this.pausedAt) * 1000;
+      this.pausedAt = null;
+      this.forceKeyframe = true;
+      this.state = 'recording';
+    }
+  }
+
+  stop(): void {
+    if (this.state === 'inactive' || this.state === 'stopping') {
+      return;
+    }
+
+    this.state = 'stopping';
+    void this.finish();
+  }
+
+  private async finish(): Promise<void> {
+    if (this.flushTimer !== null) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    await Promise.all(this.readers.map((reader) => reader.cancel().catch(() => undefined)));
+    await Promise.all(this.pumps);
+
+    try {
+      await Promise.all([this.videoEncoder?.flush(), this.audioEncoder?.flush()]);
+    } catch (error) {
+      this.fail(error);
+    }
+
+    this.emitFragment(true);
+    this.closeEncoders();
+    this.state = 'inactive';
+    this.onstop?.(new Event('stop'));
+  }
+
+  /**
+   * Read raw frames from a track until it ends or the recorder stops
+   */
+  private async pump<T extends VideoFrame | AudioData>(
+    track: MediaStreamTrack,
+    encode: (frame: T) => Promise<void>,
+  ): Promise<void> {
+    const processor = new MediaStreamTrackProcessor<T>({ track });
+    const reader = processor.readable.getReader();
+    this.readers.push(reader as ReadableStreamDefaultReader<VideoFrame | AudioData>);
+
+    let trackOffsetUs: number | null = null;
+
+    try {
+      for (;;) {
+        const { value: frame, done } = await reader.read();
+        if (done || !frame) {
+          return;
+        }
+
+        if (this.state !== 'recording' || this.failed) {
+          frame.close();
+          continue;
+        }
+
+        // Align each track's clock to the recorder start, minus time spent paused
+        trackOffsetUs ??= (performance.now() - this.startedAt) * 1000 - frame.timestamp;
+        const timestamp = Math.max(0, frame.timestamp + trackOffsetUs - this.pausedUs);
+
+        await encode(this.retime(frame, timestamp) as T);
+      }
+    } catch (error) {
+      this.fail(error);
+    }
+  }
+
+  private async encodeVideo(frame: VideoFrame): Promise<void> {
+    try {
+      const encoder = this.videoEncoder ?? (await this.createVideoEncoder(frame));
+      if (encoder.encodeQueueSize > MAX_VIDEO_ENCODE_QUEUE) {
+        return;
+      }
+
+      const keyFrame =
+        this.forceKeyframe || frame.timestamp - this.lastKeyframeUs >= KEYFRAME_INTERVAL_US;
+      if (keyFrame) {
+        this.forceKeyframe = false;
+        this.lastKeyframeUs = frame.timestamp;
+      }
+
+      encoder.encode(frame, { keyFrame });
+    } finally {
+      frame.close();
+    }
+  }
+
+  private async encodeAudio(data: AudioData): Promise<void> {
+    try {
+      const encoder = this.audioEncoder ?? (await this.createAudioEncoder(data));
+      encoder.encode(data);
+    } finally {
+      data.close();
+    }
+  }
+
+  private async createVideoEncoder(frame: VideoFrame): Promise<VideoEncoder> {
+    // H.264 needs even dimensions
+    const width = frame.displayWidth & ~1;
+    const height = frame.displayHeight & ~1;
+    const frameRate = this.options.frameRate ?? DEFAULT_FRAME_RATE;
+    const bitrate = this.options.videoBitsPerSecond ?? DEFAULT_VIDEO_BITRATE;
+    const config = await WebCodecsMp4Recorder.resolveVideoConfig(width, height, frameRate, bitrate);
+    if (!config) {
+      throw new Error(`H.264 encoding is not supported at ${width}x${height}`);
+    }
+
+    const encoder = new VideoEncoder({
+      output: (chunk, metadata) => {
+        const description = metadata?.decoderConfig?.description;
+        if (description) {
+          this.setTrackConfig(VIDEO_TRACK_ID, {
+            id: VIDEO_TRACK_ID,
+            kind: 'video',
+            timescale: VIDEO_TIMESCALE,
+            description: toBytes(description),
+            width,
+            height,
+          });
+          this.updateMimeType(config.codec);
+        }
+        this.queueChunk(VIDEO_TRACK_ID, chunk);
+      },
+      error: (error) => this.fail(error),
+    });
+    encoder.configure(config);
+    this.videoEncoder = encoder;
+    return encoder;
+  }
+
+  private async createAudioEncoder(data: AudioData): Promise<AudioEncoder> {
+    const config: AudioEncoderConfig = {
+      codec: 'mp4a.40.2',
+      sampleRate: data.sampleRate,
+      numberOfChannels: data.numberOfChannels,
+      bitrate: this.options.audioBitsPerSecond ?? DEFAULT_AUDIO_BITRATE,
+    };
+
+    const support = await AudioEncoder.isConfigSupported(config);
+    if (!support.supported) {
+      throw new Error('AAC encoding is not supported in this browser');
+    }
+
+    const encoder = new AudioEncoder({
+      output: (chunk, metadata) => {
+        if (!this.tracks.get(AUDIO_TRACK_ID)?.config) {
+          const description = metadata?.decoderConfig?.description;
+          this.setTrackConfig(AUDIO_TRACK_ID, {
+            id: AUDIO_TRACK_ID,
+            kind: 'audio',
+            timescale: data.sampleRate,
+            description: description
+              ? toBytes(description)
+              : createAacAudioSpecificConfig(data.sampleRate, data.numberOfChannels),
+            sampleRate: data.sampleRate,
+            channelCount: data.numberOfChannels,
+          });
+          this.updateMimeType('mp4a.40.2');
+        }
+        this.queueChunk(AUDIO_TRACK_ID, chunk);
+      },
+      error: (error) => this.fail(error),
+    });
+    encoder.configure(config);
+    this.audioEncoder = encoder;
+    return encoder;
+  }
+
+  /**
+   * Pick the first H.264 profile the encoder accepts, at a level that fits the macroblock rate
+   */
+  private static async resolveVideoConfig(
+    width: number,
+    height: number,
+    frameRate: number,
+    bitrate: number,
+  ): Promise<VideoEncoderConfig | null> {
+    const macroblocksPerSecond = Math.ceil(width / 16) * Math.ceil(height / 16) * frameRate;
+    // Levels 4.0, 4.2 and 5.1
+    const level =
+      macroblocksPerSecond <= 245_760 ? '28' : macroblocksPerSecond <= 522_240 ? '2a' : '33';
+
+    for (const profile of ['6400', '4d00', '4200']) {
+      const config: VideoEncoderConfig = {
+        codec: `avc1.${profile}${level}`,
+        width,
+        height,
+        bitrate,
+        framerate: frameRate,
+        avc: { format: 'avc' },
+      };
+
+      const support = await VideoEncoder.isConfigSupported(config);
+      if (support.supported) {
+        return config;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Give a frame the recorder's timeline; the original is closed
+   */
+  private retime(frame: VideoFrame | AudioData, timestamp: number): VideoFrame | AudioData {
+    if (frame instanceof VideoFrame) {
+      const retimed = new VideoFrame(frame, { timestamp });
+      frame.close();
+      return retimed;
+    }
+
+    const format: AudioSampleFormat = 'f32-planar';
+    const samples = new Float32Array(frame.numberOfFrames * frame.numberOfChannels);
+    for (let channel = 0; channel < frame.numberOfChannels; channel++) {
+      frame.copyTo(
+        samples.subarray(channel * frame.numberOfFrames, (channel + 1) * frame.numberOfFrames),
+        { planeIndex: channel, format },
+      );
+    }
+
+    const retimed = new AudioData({
+      format,
+      sampleRate: frame.sampleRate,
+      numberOfFrames: frame.numberOfFrames,
+      numberOfChannels: frame.numberOfChannels,
+      timestamp,
+      data: samples,
+    });
+    frame.close();
+    return retimed;
+  }
+
+  private setTrackConfig(trackId: number, config: Mp4TrackConfig): void {
+    const track = this.tracks.get(trackId);
+    if (track && !track.config) {
+      track.config = config;
+    }
+  }
+
+  private queueChunk(trackId: number, chunk: EncodedVideoChunk | EncodedAudioChunk): void {
+    const data = new Uint8Array(chunk.byteLength);
+    chunk.copyTo(data);
+
+    this.tracks.get(trackId)?.pending.push({
+      data,
+      timestamp: chunk.timestamp,
+      duration: chunk.duration,
+      keyframe: chunk.type === 'key',
+    });
+  }
+
+  /**
+   * Write buffered chunks as one fragment
+   * The newest chunk of each track is held back until the next one arrives, since
+   * MP4 sample durations come from the gap to the following sample
+   */
+  private emitFragment(final: boolean): void {
+    const trackStates = [...this.tracks.values()];
+    if (!this.muxer) {
+      if (trackStates.some((track) => !track.config)) {
+        return;
+      }
+
+      this.muxer = new FragmentedMp4Muxer(trackStates.map((track) => track.config!));
+      this.dispatchData(this.muxer.initSegment());
+    }
+
+    const samplesByTrack = new Map<number, Mp4Sample[]>();
+    for (const [trackId, track] of this.tracks) {
+      samplesByTrack.set(trackId, this.takeSamples(track, final));
+    }
+
+    const fragment = this.muxer.fragment(samplesByTrack);
+    if (fragment) {
+      this.dispatchData(fragment);
+    }
+  }
+
+  private takeSamples(track: TrackState, final: boolean): Mp4Sample[] {
+    const timescale = track.config!.timescale;
+    const toTicks = (timestampUs: number) => Math.round((timestampUs * timescale) / 1_000_000);
+    const count = final ? track.pending.length : track.pending.length - 1;
+    if (count <= 0) {
+      return [];
+    }
+
+    const chunks = track.pending.splice(0, count);
+    return chunks.map((chunk, index) => {
+      const next = chunks[index + 1] ?? track.pending[0];
+      const decodeTime = toTicks(chunk.timestamp);
+      const duration = next
+        ? toTicks(next.timestamp) - decodeTime
+        : chunk.duration
+          ? toTicks(chunk.duration)
+          : track.lastDuration;
+
+      track.lastDuration = Math.max(duration, 1);
+      return {
+        data: chunk.data,
+        decodeTime,
+        duration: track.lastDuration,
+        keyframe: chunk.keyframe,
+      };
+    });
+  }
+
+  private dispatchData(bytes: Uint8Array): void {
+    const data = new Blob([bytes], { type: this._mimeType });
+    this.ondataavailable?.(new BlobEvent('dataavailable', { data }));
+  }
+
+  private updateMimeType(codec: string): void {
+    const codecs = [...(this._mimeType.match(/codecs="([^"]*)"/)?.[1].split(',') ?? []), codec];
+    const container = this.videoTrack ? 'video/mp4' : 'audio/mp4';
+    this._mimeType = `${container};codecs="${[...new Set(codecs)].join(',')}"`;
+  }
+
+  private fail(error: unknown): void {
+    if (this.failed) {
+      return;
+    }
+
+    this.failed = true;
+    console.error('[WebCodecsMp4Recorder] Encoding failed:', error);
+    this.onerror?.(new ErrorEvent('error', { error }));
+  }
+
+  private closeEncoders(): void {
+    for (const encoder of [this.videoEncoder, this.audioEncoder]) {
+      if (encoder && encoder.state !== 'closed') {
+        encoder.close();
+      }
+    }
+    this.videoEncoder = null;
+    this.audioEncoder = null;
+  }
+}
+
+function toBytes(source: AllowSharedBufferSource): Uint8Array {
+  if (ArrayBuffer.isView(source)) {
+    return new Uint8Array(source.buffer, source.byteOffset, source.byteLength).slice();
+  }
+  return new Uint8Array(source).slice();
+}
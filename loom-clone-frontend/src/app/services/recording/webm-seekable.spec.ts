@@ -0,0 +1,340 @@
+import {
+  EBML_ID,
+  EbmlElementHeader,
+  concatBytes,
+  encodeElement,
+  encodeFloat64,
+  encodeId,
+  encodeUint,
+  readChildren,
+  readElementHeader,
+  readFloat,
+  readUint,
+} from './ebml';
+import { makeWebmSeekable } from './webm-seekable';
+
+interface SampleBlock {
+  track: number;
+  time: number;
+  keyframe: boolean;
+}
+
+interface SampleOptions {
+  clusters: { timecode: number; blocks: SampleBlock[] }[];
+  audioOnly?: boolean;
+  duration?: number;
+  cues?: boolean;
+}
+
+const UNKNOWN_SIZE = Uint8Array.from([0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]);
+
+/**
+ * Build a WebM file shaped like MediaRecorder output:
+ * unknown-sized Segment and Clusters, no Duration and no Cues
+ */
+function buildSample(options: SampleOptions): Uint8Array {
+  const ebml = encodeElement(EBML_ID.EBML, encodeElement(0x4282, new TextEncoder().encode('webm')));
+
+  const infoChildren = [
+    encodeElement(EBML_ID.TimecodeScale, encodeUint(1_000_000)),
+    encodeElement(0x4d80, new TextEncoder().encode('test-muxer')),
+  ];
+  if (options.duration !== undefined) {
+    infoChildren.push(encodeElement(EBML_ID.Duration, encodeFloat64(options.duration)));
+  }
+
+  const trackEntries = options.audioOnly
+    ? [trackEntry(1, 2)]
+    : [trackEntry(1, 1), trackEntry(2, 2)];
+
+  const clusters = options.clusters.map((cluster) =>
+    concatBytes([
+      encodeId(EBML_ID.Cluster),
+      UNKNOWN_SIZE,
+      encodeElement(EBML_ID.Timecode, encodeUint(cluster.timecode)),
+      ...cluster.blocks.map((block) => simpleBlock(block, cluster.timecode)),
+    ]),
+  );
+
+  const cues = options.cues
+    ? [
+        encodeElement(
+          EBML_ID.Cues,
+          encodeElement(
+            EBML_ID.CuePoint,
+            encodeElement(EBML_ID.CueTime, encodeUint(0)),
+            encodeElement(
+              EBML_ID.CueTrackPositions,
+              encodeElement(EBML_ID.CueTrack, encodeUint(1)),
+              encodeElement(EBML_ID.CueClusterPosition, encodeUint(0)),
+            ),
+          ),
+        ),
+      ]
+    : [];
+
+  return concatBytes([
+    ebml,
+    encodeId(EBML_ID.Segment),
+    UNKNOWN_SIZE,
+    encodeElement(EBML_ID.Info, ...infoChildren),
+    encodeElement(EBML_ID.Tracks, ...trackEntries),
+    ...cues,
+    ...clusters,
+  ]);
+}
+
+function trackEntry(trackNumber: number, trackType: number): Uint8Array {
+  return encodeElement(
+    EBML_ID.TrackEntry,
+    encodeElement(EBML_ID.TrackNumber, encodeUint(trackNumber)),
+    encodeElement(EBML_ID.TrackType, encodeUint(trackType)),
+  );
+}
+
+function simpleBlock(block: SampleBlock, clusterTimecode: number): Uint8Array {
+  const header = new Uint8Array(4);
+  header[0] = 0x80 | block.track;
+  new DataView(header.buffer).setInt16(1, block.time - clusterTimecode);
+  header[3] = block.keyframe ? 0x80 : 0;
+  const payload = Uint8Array.from({ length: 24 }, (_, i) => (block.time + i) & 0xff);
+  return encodeElement(EBML_ID.SimpleBlock, header, payload);
+}
+
+/**
+ * A second of 30fps video in two clusters with audio interleaved
+ */
+function videoClusters(): SampleOptions['clusters'] {
+  return [0, 1000].map((timecode) => ({
+    timecode,
+    blocks: Array.from({ length: 30 }, (_, i) => [
+      { track: 1, time: timecode + Math.round(i * 33.3), keyframe: i === 0 },
+      { track: 2, time: timecode + i * 33 + 5, keyframe: true },
+    ]).flat(),
+  }));
+}
+
+async function toBytes(blob: Blob): Promise<Uint8Array> {
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+function find(bytes: Uint8Array, parent: EbmlElementHeader, id: number): EbmlElementHeader[] {
+  return readChildren(bytes, parent.dataOffset, parent.dataOffset + parent.size!).filter(
+    (child) => child.id === id,
+  );
+}
+
+function data(bytes: Uint8Array, header: EbmlElementHeader): Uint8Array {
+  return bytes.subarray(header.dataOffset, header.dataOffset + header.size!);
+}
+
+function parseSegment(bytes: Uint8Array): EbmlElementHeader {
+  const [, segment] = readChildren(bytes);
+  expect(segment.id).toBe(EBML_ID.Segment);
+  return segment;
+}
+
+describe('makeWebmSeekable', () => {
+  it('writes the time of the last block as the duration', async () => {
+    const result = await makeWebmSeekable(new Blob([buildSample({ clusters: videoClusters() })]));
+    const bytes = await toBytes(result.blob);
+    const segment = parseSegment(bytes);
+    const [info] = find(bytes, segment, EBML_ID.Info);
+    const [duration] = find(bytes, info, EBML_ID.Duration);
+
+    expect(result.durationMs).toBe(1966);
+    expect(readFloat(data(bytes, duration))).toBe(1966);
+  });
+
+  it('gives the segment and every cluster a known size', async () => {
+    const result = await makeWebmSeekable(new Blob([buildSample({ clusters: videoClusters() })]));
+    const bytes = await toBytes(result.blob);
+    const segment = parseSegment(bytes);
+    const clusters = find(bytes, segment, EBML_ID.Cluster);
+
+    expect(segment.dataOffset + segment.size!).toBe(bytes.length);
+    expect(clusters.length).toBe(2);
+    for (const cluster of clusters) {
+      expect(find(bytes, cluster, EBML_ID.SimpleBlock).length).toBe(60);
+    }
+  });
+
+  it('indexes the first video keyframe of each cluster', async () => {
+    const result = await makeWebmSeekable(new Blob([buildSample({ clusters: videoClusters() })]));
+    const bytes = await toBytes(result.blob);
+    const segment = parseSegment(bytes);
+    const [cues] = find(bytes, segment, EBML_ID.Cues);
+    const points = find(bytes, cues, EBML_ID.CuePoint);
+
+    expect(result.cueCount).toBe(2);
+    expect(
+      points.map((point) => readUint(data(bytes, find(bytes, point, EBML_ID.CueTime)[0]))),
+    ).toEqual([0, 1000]);
+
+    for (const point of points) {
+      const [positions] = find(bytes, point, EBML_ID.CueTrackPositions);
+      const [track] = find(bytes, positions, EBML_ID.CueTrack);
+      const [position] = find(bytes, positions, EBML_ID.CueClusterPosition);
+      const target = readElementHeader(bytes, segment.dataOffset + readUint(data(bytes, position)));
+
+      expect(readUint(data(bytes, track))).toBe(1);
+      expect(target?.id).toBe(EBML_ID.Cluster);
+    }
+  });
+
+  it('points the seek head at Info, Tracks and Cues', async () => {
+    const result = await makeWebmSeekable(new Blob([buildSample({ clusters: videoClusters() })]));
+    const bytes = await toBytes(result.blob);
+    const segment = parseSegment(bytes);
+    const [seekHead] = find(bytes, segment, EBML_ID.SeekHead);
+
+    const targets = find(bytes, seekHead, EBML_ID.Seek).map((seek) => {
+      const id = readUint(data(bytes, find(bytes, seek, EBML_ID.SeekID)[0]));
+      const position = readUint(data(bytes, find(bytes, seek, EBML_ID.SeekPosition)[0]));
+      return { id, found: readElementHeader(bytes, segment.dataOffset + position)?.id };
+    });
+
+    expect(targets).toEqual([
+      { id: EBML_ID.Info, found: EBML_ID.Info },
+      { id: EBML_ID.Tracks, found: EBML_ID.Tracks },
+      { id: EBML_ID.Cues, found: EBML_ID.Cues },
+    ]);
+  });
+
+  it('copies block data unchanged', async () => {
+    const sample = buildSample({ clusters: videoClusters() });
+    const result = await makeWebmSeekable(new Blob([sample]));
+    const bytes = await toBytes(result.blob);
+    const segment = parseSegment(bytes);
+
+    const outputBlocks = find(bytes, segment, EBML_ID.Cluster).flatMap((cluster) =>
+      find(bytes, cluster, EBML_ID.SimpleBlock).map((block) => data(bytes, block)),
+    );
+
+    expect(outputBlocks.length).toBe(120);
+    for (const block of outputBlocks) {
+      expect(containsBytes(sample, block)).toBeTrue();
+    }
+  });
+
+  it('cues on the audio track of an audio-only file', async () => {
+    const sample = buildSample({
+      audioOnly: true,
+      clusters: [0, 5000].map((timecode) => ({
+        timecode,
+        blocks: [0, 20, 40].map((offset) => ({
+          track: 1,
+          time: timecode + offset,
+          keyframe: true,
+        })),
+      })),
+    });
+
+    const result = await makeWebmSeekable(new Blob([sample], { type: 'audio/webm' }));
+
+    expect(result.cueCount).toBe(2);
+    expect(result.durationMs).toBe(5040);
+    expect(result.blob.type).toBe('audio/webm');
+  });
+
+  it('drops a block cut off by an interrupted write', async () => {
+    const sample = buildSample({ clusters: videoClusters() });
+    const result = await makeWebmSeekable(new Blob([sample.subarray(0, sample.length - 10)]));
+    const bytes = await toBytes(result.blob);
+    const segment = parseSegment(bytes);
+    const clusters = find(bytes, segment, EBML_ID.Cluster);
+
+    expect(segment.dataOffset + segment.size!).toBe(bytes.length);
+    expect(find(bytes, clusters[1], EBML_ID.SimpleBlock).length).toBe(59);
+    expect(result.durationMs).toBe(1966);
+  });
+
+  it('replaces an existing duration and cue index', async () => {
+    const stale = buildSample({ clusters: videoClusters(), duration: 1, cues: true });
+    const fresh = buildSample({ clusters: videoClusters() });
+
+    const fromStale = await toBytes((await makeWebmSeekable(new Blob([stale]))).blob);
+    const fromFresh = await toBytes((await makeWebmSeekable(new Blob([fresh]))).blob);
+    const twice = await toBytes(
+      (await makeWebmSeekable((await makeWebmSeekable(new Blob([fresh]))).blob)).blob,
+    );
+
+    expect(fromStale).toEqual(fromFresh);
+    expect(twice).toEqual(fromFresh);
+  });
+
+  it('rejects files that are not WebM', async () => {
+    await expectAsync(
+      makeWebmSeekable(new Blob([new TextEncoder().encode('not a video file')])),
+    ).toBeRejectedWithError('Not a WebM file');
+  });
+
+  it('makes a MediaRecorder recording report a finite duration', async () => {
+    if (!MediaRecorder.isTypeSupported('video/webm')) {
+      pending('MediaRecorder cannot record WebM in this browser');
+      return;
+    }
+
+    const recording = await recordCanvas(600);
+    const result = await makeWebmSeekable(recording);
+
+    expect(result.cueCount).toBeGreaterThan(0);
+    expect(result.durationMs).toBeGreaterThan(300);
+    expect(await readPlayerDuration(result.blob)).toBeCloseTo(result.durationMs / 1000, 1);
+  });
+});
+
+function containsBytes(haystack: Uint8Array, needle: Uint8Array): boolean {
+  outer: for (let i = 0; i <= haystack.length - needle.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) {
+        continue outer;
+      }
+    }
+    return true;
+  }
+  return false;
+}
+
+async function recordCanvas(durationMs: number): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = 64;
+  canvas.height = 48;
+  const context = canvas.getContext('2d')!;
+  const stream = canvas.captureStream(30);
+  const recorder = new MediaRecorder(stream, { mimeType: 'video/webm' });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => chunks.push(event.data);
+
+  const stopped = new Promise<void>((resolve) => (recorder.onstop = () => resolve()));
+  const frameTimer = setInterval(() => {
+    context.fillStyle = `hsl(${Date.now() % 360}, 80%, 50%)`;
+    context.fillRect(0, 0, canvas.width, canvas.height);
+  }, 30);
+
+  recorder.start(100);
+  await new Promise((resolve) => setTimeout(resolve, durationMs));
+  recorder.stop();
+  await stopped;
+  clearInterval(frameTimer);
+  stream.getTracks().forEach((track) => track.stop());
+
+  return new Blob(chunks, { type: 'video/webm' });
+}
+
+async function readPlayerDuration(blob: Blob): Promise<number> {
+  const url = URL.createObjectURL(blob);
+  const video = document.createElement('video');
+  video.muted = true;
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      video.onloadedmetadata = () => resolve();
+      video.onerror = () => reject(new Error('Rewritten file could not be loaded'));
+      video.src = url;
+    });
+    return video.duration;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
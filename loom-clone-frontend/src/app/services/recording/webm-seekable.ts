@@ -0,0 +1,355 @@
+import {
+  EBML_ID,
+  EbmlBlobReader,
+  EbmlBlockHeader,
+  EbmlElementHeader,
+  concatBytes,
+  encodeElement,
+  encodeFloat64,
+  encodeId,
+  encodeSize,
+  encodeUint,
+  readBlockHeader,
+  readChildren,
+  readUint,
+} from './ebml';
+
+/**
+ * Outcome of rewriting a WebM file
+ */
+export interface WebmSeekableResult {
+  blob: Blob;
+  durationMs: number;
+  cueCount: number;
+}
+
+/**
+ * A cluster found while scanning, with the times needed for Duration and Cues
+ */
+interface ScannedCluster {
+  dataOffset: number;
+  dataEnd: number;
+  cueTime: number | null;
+  endTime: number;
+  truncated: boolean;
+}
+
+interface ScannedBlock extends EbmlBlockHeader {
+  duration: number;
+}
+
+const DEFAULT_TIMECODE_SCALE = 1_000_000;
+const TRACK_TYPE_VIDEO = 1;
+
+/**
+ * Elements that may appear inside a Cluster; anything else ends an unknown-sized cluster
+ */
+const CLUSTER_CHILD_IDS = new Set<number>([
+  EBML_ID.Timecode,
+  EBML_ID.SimpleBlock,
+  EBML_ID.BlockGroup,
+  EBML_ID.Void,
+  EBML_ID.CRC32,
+  0xa7, // Position
+  0xab, // PrevSize
+  0xaf, // EncryptedBlock
+  0x5854, // SilentTracks
+]);
+
+/**
+ * Level-1 elements that are regenerated rather than copied
+ */
+const REBUILT_IDS = new Set<number>([EBML_ID.SeekHead, EBML_ID.Cues, EBML_ID.Void]);
+
+/**
+ * Rewrite a WebM file produced by MediaRecorder so players can seek in it
+ * - The Segment and every Cluster get a known size
+ * - Info gets a Duration taken from the last block
+ * - A SeekHead and a Cues index (one cue per cluster with a keyframe) are written
+ *   ahead of the clusters
+ *
+ * Cluster payloads are copied as Blob slices, so the file is never fully loaded.
+ * A block cut off by a crash ends the file at the last complete element.
+ */
+export async function makeWebmSeekable(input: Blob): Promise<WebmSeekableResult> {
+  const reader = new EbmlBlobReader(input);
+
+  const ebmlHeader = await reader.readElementHeader(0);
+  if (!ebmlHeader || ebmlHeader.id !== EBML_ID.EBML || ebmlHeader.size === null) {
+    throw new Error('Not a WebM file');
+  }
+
+  const ebmlEnd = ebmlHeader.dataOffset + ebmlHeader.size;
+  const segment = await reader.readElementHeader(ebmlEnd);
+  if (!segment || segment.id !== EBML_ID.Segment) {
+    throw new Error('WebM file has no segment');
+  }
+
+  const segmentEnd =
+    segment.size === null ? reader.size : Math.min(segment.dataOffset + segment.size, reader.size);
+
+  let info: Uint8Array | null = null;
+  let tracks: Uint8Array | null = null;
+  let cueTrack: number | null = null;
+  const extras: Blob[] = [];
+  const clusters: ScannedCluster[] = [];
+
+  let position = segment.dataOffset;
+  while (position < segmentEnd) {
+    const header = await reader.readElementHeader(position);
+    if (!header) {
+      break;
+    }
+
+    if (header.id === EBML_ID.Cluster) {
+      const cluster = await scanCluster(reader, header, segmentEnd, cueTrack);
+      if (cluster.dataEnd > cluster.dataOffset) {
+        clusters.push(cluster);
+      }
+      if (cluster.truncated) {
+        break;
+      }
+      position = cluster.dataEnd;
+      continue;
+    }
+
+    if (header.size === null || header.dataOffset + header.size > segmentEnd) {
+      break;
+    }
+
+    const end = header.dataOffset + header.size;
+    if (header.id === EBML_ID.Info) {
+      info = await reader.readElementData(header);
+    } else if (header.id === EBML_ID.Tracks) {
+      tracks = await reader.readElementData(header);
+      cueTrack = findCueTrack(tracks);
+    } else if (!REBUILT_IDS.has(header.id)) {
+      extras.push(input.slice(position, end));
+    }
+
+    position = end;
+  }
+
+  if (!info || !tracks) {
+    throw new Error('WebM file is missing track information');
+  }
+
+  const timecodeScale = readTimecodeScale(info);
+  const duration = clusters.reduce((max, cluster) => Math.max(max, cluster.endTime), 0);
+  const infoElement = encodeElement(EBML_ID.Info, rebuildInfo(info, duration));
+  const tracksElement = encodeElement(EBML_ID.Tracks, tracks);
+  const cuedClusters = clusters.filter((cluster) => cluster.cueTime !== null);
+
+  // Sizes of the SeekHead and Cues do not depend on the positions they hold,
+  // because positions are always written with a fixed width
+  const seekTargets = [EBML_ID.Info, EBML_ID.Tracks, EBML_ID.Cues];
+  const seekHeadSize = buildSeekHead(
+    seekTargets.map(() => 0),
+    seekTargets,
+  ).length;
+  const cuesSize = buildCues(cuedClusters, cueTrack ?? 1, () => 0).length;
+
+  const infoPosition = seekHeadSize;
+  const tracksPosition = infoPosition + infoElement.length;
+  const extrasSize = extras.reduce((total, extra) => total + extra.size, 0);
+  const cuesPosition = tracksPosition + tracksElement.length + extrasSize;
+
+  const clusterParts: BlobPart[] = [];
+  const clusterPositions = new Map<ScannedCluster, number>();
+  let clusterPosition = cuesPosition + cuesSize;
+  for (const cluster of clusters) {
+    const dataSize = cluster.dataEnd - cluster.dataOffset;
+    const clusterHeader = concatBytes([encodeId(EBML_ID.Cluster), encodeSize(dataSize)]);
+    clusterPositions.set(cluster, clusterPosition);
+    clusterParts.push(clusterHeader, input.slice(cluster.dataOffset, cluster.dataEnd));
+    clusterPosition += clusterHeader.length + dataSize;
+  }
+
+  const seekHead = buildSeekHead([infoPosition, tracksPosition, cuesPosition], seekTargets);
+  const cues = buildCues(cuedClusters, cueTrack ?? 1, (cluster) => clusterPositions.get(cluster)!);
+  const segmentHeader = concatBytes([encodeId(EBML_ID.Segment), encodeSize(clusterPosition, 8)]);
+
+  const blob = new Blob(
+    [
+      input.slice(0, ebmlEnd),
+      segmentHeader,
+      seekHead,
+      infoElement,
+      tracksElement,
+      ...extras,
+      cues,
+      ...clusterParts,
+    ],
+    { type: input.type || 'video/webm' },
+  );
+
+  return {
+    blob,
+    durationMs: Math.round((duration * timecodeScale) / 1_000_000),
+    cueCount: cuedClusters.length,
+  };
+}
+
+/**
+ * Walk a cluster's children to find where it ends and when its blocks play
+ */
+async function scanCluster(
+  reader: EbmlBlobReader,
+  cluster: EbmlElementHeader,
+  segmentEnd: number,
+  cueTrack: number | null,
+): Promise<ScannedCluster> {
+  const limit =
+    cluster.size === null ? segmentEnd : Math.min(cluster.dataOffset + cluster.size, segmentEnd);
+
+  let timecode = 0;
+  let cueTime: number | null = null;
+  let endTime = 0;
+  let truncated = false;
+  let position = cluster.dataOffset;
+
+  while (position < limit) {
+    const child = await reader.readElementHeader(position);
+    if (child && cluster.size === null && !CLUSTER_CHILD_IDS.has(child.id)) {
+      break;
+    }
+
+    if (!child || child.size === null || child.dataOffset + child.size > limit) {
+      truncated = true;
+      break;
+    }
+
+    const childEnd = child.dataOffset + child.size;
+
+    if (child.id === EBML_ID.Timecode) {
+      timecode = readUint(await reader.readElementData(child));
+    } else if (child.id === EBML_ID.SimpleBlock || child.id === EBML_ID.BlockGroup) {
+      const block =
+        child.id === EBML_ID.SimpleBlock
+          ? await readSimpleBlock(reader, child)
+          : readBlockGroup(await reader.readElementData(child));
+
+      if (block) {
+        const time = timecode + block.relativeTimecode;
+        endTime = Math.max(endTime, time + block.duration);
+        if (block.keyframe && cueTime === null && block.trackNumber === (cueTrack ?? 1)) {
+          cueTime = time;
+        }
+      }
+    }
+
+    position = childEnd;
+  }
+
+  return { dataOffset: cluster.dataOffset, dataEnd: position, cueTime, endTime, truncated };
+}
+
+async function readSimpleBlock(
+  reader: EbmlBlobReader,
+  header: EbmlElementHeader,
+): Promise<ScannedBlock | null> {
+  const bytes = await reader.read(header.dataOffset, Math.min(header.size ?? 0, 12));
+  const block = readBlockHeader(bytes);
+  return block ? { ...block, duration: 0 } : null;
+}
+
+/**
+ * A BlockGroup's Block is a keyframe unless the group references another block
+ */
+function readBlockGroup(bytes: Uint8Array): ScannedBlock | null {
+  const children = readChildren(bytes);
+  const blockHeader = children.find((child) => child.id === EBML_ID.Block);
+  if (!blockHeader) {
+    return null;
+  }
+
+  const block = readBlockHeader(bytes.subarray(blockHeader.dataOffset));
+  if (!block) {
+    return null;
+  }
+
+  const durationHeader = children.find((child) => child.id === EBML_ID.BlockDuration);
+  return {
+    ...block,
+    keyframe: !children.some((child) => child.id === EBML_ID.ReferenceBlock),
+    duration: durationHeader ? readUint(elementData(bytes, durationHeader)) : 0,
+  };
+}
+
+/**
+ * Cue on the first video track, or the first track for audio-only files
+ */
+function findCueTrack(tracks: Uint8Array): number | null {
+  let firstTrack: number | null = null;
+
+  for (const entry of readChildren(tracks)) {
+    if (entry.id !== EBML_ID.TrackEntry || entry.size === null) {
+      continue;
+    }
+
+    const fields = readChildren(tracks, entry.dataOffset, entry.dataOffset + entry.size);
+    const numberHeader = fields.find((field) => field.id === EBML_ID.TrackNumber);
+    const typeHeader = fields.find((field) => field.id === EBML_ID.TrackType);
+    if (!numberHeader) {
+      continue;
+    }
+
+    const trackNumber = readUint(elementData(tracks, numberHeader));
+    if (typeHeader && readUint(elementData(tracks, typeHeader)) === TRACK_TYPE_VIDEO) {
+      return trackNumber;
+    }
+    firstTrack ??= trackNumber;
+  }
+
+  return firstTrack;
+}
+
+function readTimecodeScale(info: Uint8Array): number {
+  const scaleHeader = readChildren(info).find((child) => child.id === EBML_ID.TimecodeScale);
+  return scaleHeader ? readUint(elementData(info, scaleHeader)) : DEFAULT_TIMECODE_SCALE;
+}
+
+/**
+ * Copy Info children, replacing any Duration; CRC-32 is dropped as it would no longer match
+ */
+function rebuildInfo(info: Uint8Array, duration: number): Uint8Array {
+  const kept = readChildren(info)
+    .filter((child) => child.id !== EBML_ID.Duration && child.id !== EBML_ID.CRC32)
+    .map((child) => info.subarray(child.offset, child.dataOffset + (child.size ?? 0)));
+
+  return concatBytes([...kept, encodeElement(EBML_ID.Duration, encodeFloat64(duration))]);
+}
+
+function buildSeekHead(positions: number[], ids: number[]): Uint8Array {
+  const seeks = ids.map((id, index) =>
+    encodeElement(
+      EBML_ID.Seek,
+      encodeElement(EBML_ID.SeekID, encodeId(id)),
+      encodeElement(EBML_ID.SeekPosition, encodeUint(positions[index], 8)),
+    ),
+  );
+  return encodeElement(EBML_ID.SeekHead, ...seeks);
+}
+
+function buildCues(
+  clusters: ScannedCluster[],
+  track: number,
+  positionOf: (cluster: ScannedCluster) => number,
+): Uint8Array {
+  const points = clusters.map((cluster) =>
+    encodeElement(
+      EBML_ID.CuePoint,
+      encodeElement(EBML_ID.CueTime, encodeUint(cluster.cueTime!)),
+      encodeElement(
+        EBML_ID.CueTrackPositions,
+        encodeElement(EBML_ID.CueTrack, encodeUint(track)),
+        encodeElement(EBML_ID.CueClusterPosition, encodeUint(positionOf(cluster), 8)),
+      ),
+    ),
+  );
+  return encodeElement(EBML_ID.Cues, ...points);
+}
+
+function elementData(bytes: Uint8Array, header: EbmlElementHeader): Uint8Array {
+  return bytes.subarray(header.dataOffset, header.dataOffset + (header.size ?? 0));
+}
@@ -0,0 +1,119 @@
+import { TestBed } from '@angular/core/testing';
+import { BrowserCompatService } from './browser-compat.service';
+
+interface BrowserFeatures {
+  folderPicker: boolean;
+  browserStorage: boolean;
+  userAgent?: string;
+}
+
+const CHROME_USER_AGENT =
+  'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/130.0.0.0 Safari/537.36';
+
+describe('BrowserCompatService', () => {
+  const originals = new Map<string, PropertyDescriptor | undefined>();
+
+  /**
+   * Replace a property for one test, shadowing any the browser has
+   */
+  function override(target: object, key: string, value: unknown): void {
+    const id = `${target === navigator ? 'navigator' : 'window'}.${key}`;
+    if (!originals.has(id)) {
+      originals.set(id, Object.getOwnPropertyDescriptor(target, key));
+    }
+    Object.defineProperty(target, key, { configurable: true, writable: true, value });
+  }
+
+  function remove(target: object, key: string): void {
+    override(target, key, undefined);
+    delete (target as Record<string, unknown>)[key];
+  }
+
+  function createService({
+    folderPicker,
+    browserStorage,
+    userAgent = CHROME_USER_AGENT,
+  }: BrowserFeatures): BrowserCompatService {
+    if (folderPicker) {
+      override(window, 'showDirectoryPicker', () => Promise.resolve());
+    } else {
+      remove(window, 'showDirectoryPicker');
+    }
+
+    class FakeFileSystemFileHandle {}
+    if (browserStorage) {
+      Object.assign(FakeFileSystemFileHandle.prototype, { createWritable: () => undefined });
+    }
+    override(window, 'FileSystemFileHandle', FakeFileSystemFileHandle);
+    override(navigator, 'storage', { getDirectory: () => Promise.resolve() });
+    override(navigator, 'userAgent', userAgent);
+
+    TestBed.configureTestingModule({});
+    return TestBed.inject(BrowserCompatService);
+  }
+
+  afterEach(() => {
+    for (const [id, descriptor] of originals) {
+      const [name, key] = id.split('.');
+      const target = name === 'navigator' ? navigator : window;
+      delete (target as unknown as Record<string, unknown>)[key];
+      if (descriptor) {
+        Object.defineProperty(target, key, descriptor);
+      }
+    }
+    originals.clear();
+  });
+
+  it('offers every storage backend where folders can be picked', () => {
+    const service = createService({ folderPicker: true, browserStorage: true });
+
+    expect(service.folderPickerSupported()).toBeTrue();
+    expect(service.availableStorageBackends()).toEqual(['folder', 'opfs', 'download']);
+    expect(service.supportMessage()).toBe('Google Chrome supports all features');
+  });
+
+  it('falls back to browser storage and downloads without the folder picker', () => {
+    const service = createService({
+      folderPicker: false,
+      browserStorage: true,
+      userAgent: 'Mozilla/5.0 (X11; Linux x86_64; rv:131.0) Gecko/20100101 Firefox/131.0',
+    });
+
+    expect(service.folderPickerSupported()).toBeFalse();
+    expect(service.availableStorageBackends()).toEqual(['opfs', 'download']);
+    expect(service.isSupported()).toBeTrue();
+    expect(service.supportMessage()).toContain('Firefox cannot save recordings to a folder');
+  });
+
+  it('leaves out browser storage where files there cannot be written from the page', () => {
+    const service = createService({
+      folderPicker: false,
+      browserStorage: false,
+      userAgent:
+        'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_6) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.6 Safari/605.1.15',
+    });
+
+    expect(service.browserStorageSupported()).toBeFalse();
+    expect(service.availableStorageBackends()).toEqual(['download']);
+    expect(service.browserName()).toBe('Safari');
+  });
+
+  it('tells Chromium-based browsers apart', () => {
+    expect(
+      createService({
+        folderPicker: true,
+        browserStorage: true,
+        userAgent: `${CHROME_USER_AGENT} Edg/130.0.0.0`,
+      }).browserName(),
+    ).toBe('Microsoft Edge');
+
+    TestBed.resetTestingModule();
+    expect(
+      createService({
+        folderPicker: true,
+        browserStorage: true,
+        userAgent: `${CHROME_USER_AGENT} OPR/114.0.0.0`,
+      }).browserName(),
+    ).toBe('Opera');
+  });
+});
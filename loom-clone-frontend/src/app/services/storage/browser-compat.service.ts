@@ -1,21 +1,52 @@
 import { Injectable, computed, signal } from '@angular/core';
+import { StorageBackendKind } from '../../models/storage.models';
 
 /**
  * Service to detect browser compatibility for File System Access API
  * and Media Devices API. Identifies unsupported browsers and feature availability.
+ * Browsers without folder access can still keep recordings in browser storage or download them.
  */
 @Injectable({
   providedIn: 'root',
 })
 export class BrowserCompatService {
-  private readonly _isSupported = signal<boolean>(this.checkSupport());
+  private readonly _folderPickerSupported = signal<boolean>(this.checkFolderPickerSupport());
+  private readonly _browserStorageSupported = signal<boolean>(this.checkBrowserStorageSupport());
+  private readonly _downloadSupported = signal<boolean>(this.checkDownloadSupport());
   private readonly _mediaDevicesSupported = signal<boolean>(this.checkMediaDevicesSupport());
   private readonly _browserName = signal<string>(this.detectBrowser());
 
   /**
-   * Signal indicating if the File System Access API is supported
+   * Signal indicating if folders can be picked with the File System Access API
    */
-  readonly isSupported = this._isSupported.asReadonly();
+  readonly folderPickerSupported = this._folderPickerSupported.asReadonly();
+
+  /**
+   * Signal indicating if recordings can be streamed into the Origin Private File System
+   */
+  readonly browserStorageSupported = this._browserStorageSupported.asReadonly();
+
+  /**
+   * Storage backends recordings can be saved with in this browser
+   */
+  readonly availableStorageBackends = computed(() => {
+    const kinds: StorageBackendKind[] = [];
+    if (this._folderPickerSupported()) {
+      kinds.push('folder');
+    }
+    if (this._browserStorageSupported()) {
+      kinds.push('opfs');
+    }
+    if (this._downloadSupported()) {
+      kinds.push('download');
+    }
+    return kinds;
+  });
+
+  /**
+   * Signal indicating if recordings can be saved in some way
+   */
+  readonly isSupported = computed(() => this.availableStorageBackends().length > 0);
 
   /**
    * Signal indicating if the Media Devices API is supported
@@ -31,19 +62,41 @@ export class BrowserCompatService {
    * Computed signal for a user-friendly support message
    */
   readonly supportMessage = computed(() => {
-    if (this.isSupported()) {
+    if (this.folderPickerSupported()) {
       return `${this.browserName()} supports all features`;
     }
-    return `${this.browserName()} does not support the File System Access API. Please use Chrome, Edge, or Opera.`;
+    if (this.isSupported()) {
+      return `${this.browserName()} cannot save recordings to a folder you pick, so they are kept in browser storage or downloaded instead.`;
+    }
+    return `${this.browserName()} cannot save recordings. Please use Chrome, Edge, or Opera.`;
   });
 
   /**
    * Check if the File System Access API is supported in the current browser
    */
-  private checkSupport(): boolean {
+  private checkFolderPickerSupport(): boolean {
     return 'showDirectoryPicker' in window;
   }
 
+  /**
+   * Check if the Origin Private File System can be written to incrementally
+   * Some browsers only allow writing to it from workers
+   */
+  private checkBrowserStorageSupport(): boolean {
+    return (
+      typeof navigator.storage?.getDirectory === 'function' &&
+      typeof FileSystemFileHandle !== 'undefined' &&
+      'createWritable' in FileSystemFileHandle.prototype
+    );
+  }
+
+  /**
+   * Check if files can be handed to the browser as downloads
+   */
+  private checkDownloadSupport(): boolean {
+    return 'download' in HTMLAnchorElement.prototype && typeof URL.createObjectURL === 'function';
+  }
+
   /**
    * Check if the Media Devices API is supported in the current browser
    */
@@ -0,0 +1,188 @@
+import { DirectoryStorageBackend } from './directory-storage-backend';
+import { STORAGE_BACKEND_LIMITS } from './storage-backend-limits';
+
+/**
+ * A file whose writables, like Chromium's, only change it when they are closed
+ */
+class FakeFileHandle {
+  readonly kind = 'file';
+  contents = new Uint8Array();
+  openWritables = 0;
+  writablesCreated = 0;
+
+  constructor(readonly name: string) {}
+
+  async getFile(): Promise<File> {
+    return new File([this.contents], this.name);
+  }
+
+  async createWritable(options?: { keepExistingData?: boolean }) {
+    let buffer = options?.keepExistingData ? this.contents.slice() : new Uint8Array();
+    let position = 0;
+    this.openWritables++;
+    this.writablesCreated++;
+
+    return {
+      write: async (data: Blob) => {
+        const bytes = new Uint8Array(await data.arrayBuffer());
+        const next = new Uint8Array(Math.max(buffer.length, position + bytes.length));
+        next.set(buffer);
+        next.set(bytes, position);
+        buffer = next;
+        position += bytes.length;
+      },
+      seek: async (offset: number) => {
+        position = offset;
+      },
+      close: async () => {
+        this.contents = buffer;
+        this.openWritables--;
+      },
+      abort: async () => {
+        this.openWritables--;
+      },
+    };
+  }
+}
+
+class FakeDirectoryHandle {
+  readonly kind = 'directory';
+  readonly children = new Map<string, FakeFileHandle | FakeDirectoryHandle>();
+
+  async getDirectoryHandle(name: string, options?: { create?: boolean }) {
+    return this.getEntry(name, options, () => new FakeDirectoryHandle());
+  }
+
+  async getFileHandle(name: string, options?: { create?: boolean }) {
+    return this.getEntry(name, options, () => new FakeFileHandle(name));
+  }
+
+  async *entries(): AsyncIterable<[string, FakeFileHandle | FakeDirectoryHandle]> {
+    yield* this.children;
+  }
+
+  async removeEntry(name: string): Promise<void> {
+    if (!this.children.delete(name)) {
+      throw new DOMException(`${name} not found`, 'NotFoundError');
+    }
+  }
+
+  private getEntry<T extends FakeFileHandle | FakeDirectoryHandle>(
+    name: string,
+    options: { create?: boolean } | undefined,
+    create: () => T,
+  ): T {
+    const entry = this.children.get(name);
+    if (entry) {
+      return entry as T;
+    }
+    if (!options?.create) {
+      throw new DOMException(`${name} not found`, 'NotFoundError');
+    }
+
+    const created = create();
+    this.children.set(name, created);
+    return created;
+  }
+}
+
+describe('DirectoryStorageBackend', () => {
+  let root: FakeDirectoryHandle;
+  let backend: DirectoryStorageBackend;
+  let now: number;
+
+  beforeEach(() => {
+    root = new FakeDirectoryHandle();
+    backend = new DirectoryStorageBackend('folder', root as unknown as FileSystemDirectoryHandle);
+    now = 0;
+    spyOn(Date, 'now').and.callFake(() => now);
+  });
+
+  async function fileHandle(...path: string[]): Promise<FakeFileHandle> {
+    let directory = root;
+    for (const segment of path.slice(0, -1)) {
+      directory = await directory.getDirectoryHandle(segment);
+    }
+    return directory.getFileHandle(path[path.length - 1]);
+  }
+
+  async function text(handle: FakeFileHandle): Promise<string> {
+    return (await handle.getFile()).text();
+  }
+
+  it('reports the limits of its kind', () => {
+    const opfs = new DirectoryStorageBackend('opfs', root as unknown as FileSystemDirectoryHandle);
+
+    expect(backend.limits).toBe(STORAGE_BACKEND_LIMITS.folder);
+    expect(opfs.limits).toBe(STORAGE_BACKEND_LIMITS.opfs);
+    expect(backend.directory).toBe(root as unknown as FileSystemDirectoryHandle);
+  });
+
+  it('does not estimate free space in a picked folder', async () => {
+    expect(await backend.estimateUsage()).toBeNull();
+  });
+
+  it('streams a recording through one writable, committing the first chunk straight away', async () => {
+    const stream = await backend.stream('2026/10/take.webm');
+    const handle = await fileHandle('2026', '10', 'take.webm');
+    await stream.append(new Blob(['ab']));
+
+    expect(await text(handle)).toBe('ab');
+
+    now = 5_000;
+    await stream.append(new Blob(['cd']));
+
+    expect(handle.openWritables).toBe(1);
+    expect(await text(handle)).toBe('ab');
+
+    now = 10_000;
+    await stream.append(new Blob(['ef']));
+    expect(await text(handle)).toBe('abcdef');
+
+    await stream.append(new Blob(['gh']));
+    await stream.close();
+
+    expect(await text(handle)).toBe('abcdefgh');
+    expect(handle.openWritables).toBe(0);
+    // The truncating writable, the first one and one reopened after each commit
+    expect(handle.writablesCreated).toBe(4);
+  });
+
+  it('starts a streamed recording from an empty file', async () => {
+    await backend.write('take.webm', new Blob(['previous take']));
+
+    const stream = await backend.stream('take.webm');
+    await stream.append(new Blob(['new']));
+    await stream.close();
+
+    expect(await (await backend.read('take.webm')).text()).toBe('new');
+  });
+
+  it('removes an aborted recording', async () => {
+    const stream = await backend.stream('take.webm');
+    await stream.append(new Blob(['ab']));
+    await stream.abort();
+
+    expect(root.children.has('take.webm')).toBeFalse();
+  });
+
+  it('creates folders and lists their contents', async () => {
+    await backend.createFolder(['2026', '10']);
+    await backend.write('2026/notes.webm', new Blob(['a']));
+
+    const listing = await backend.list(['2026']);
+
+    expect(listing.folders).toEqual(['10']);
+    expect(listing.files.map((file) => file.name)).toEqual(['notes.webm']);
+  });
+
+  it('moves a file into folders it creates', async () => {
+    await backend.write('take.webm', new Blob(['ab']));
+
+    const moved = await backend.move('take.webm', '.loom-trash/1-take.webm');
+
+    expect(moved.name).toBe('1-take.webm');
+    expect(await moved.text()).toBe('ab');
+    expect(root.children.has('take.webm')).toBeFalse();
+  });
+});
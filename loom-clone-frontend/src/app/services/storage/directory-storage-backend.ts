@@ -0,0 +1,153 @@
+import {
+  RecordingStorageBackend,
+  StorageBackendLimits,
+  StorageListing,
+  StorageUsage,
+  StorageWriteStream,
+} from '../../models/storage.models';
+import { STORAGE_BACKEND_LIMITS } from './storage-backend-limits';
+import { moveFile } from './file-move';
+
+// How often a streamed recording is committed to its file; each commit copies the file once
+const COMMIT_INTERVAL_MS = 10_000;
+
+/**
+ * Storage backend on a directory handle: a folder the user picked,
+ * or a folder in the Origin Private File System
+ */
+export class DirectoryStorageBackend implements RecordingStorageBackend {
+  readonly limits: StorageBackendLimits;
+
+  constructor(
+    readonly kind: 'folder' | 'opfs',
+    readonly directory: FileSystemDirectoryHandle,
+  ) {
+    this.limits = STORAGE_BACKEND_LIMITS[kind];
+  }
+
+  async list(folder: string[]): Promise<StorageListing> {
+    const directory = await this.resolveDirectory(folder);
+    const files: File[] = [];
+    const folders: string[] = [];
+
+    for await (const [name, entry] of directory.entries()) {
+      if (entry.kind === 'directory') {
+        folders.push(name);
+      } else {
+        files.push(await (entry as FileSystemFileHandle).getFile());
+      }
+    }
+
+    return { files, folders };
+  }
+
+  async read(path: string): Promise<File> {
+    const { directory, name } = await this.resolveParent(path);
+    const fileHandle = await directory.getFileHandle(name);
+    return fileHandle.getFile();
+  }
+
+  async write(path: string, data: Blob): Promise<void> {
+    const { directory, name } = await this.resolveParent(path, true);
+    const fileHandle = await directory.getFileHandle(name, { create: true });
+    const writable = await fileHandle.createWritable();
+    await writable.write(data);
+    await writable.close();
+  }
+
+  /**
+   * One writable stays open for the whole recording; reopening it for every chunk makes
+   * Chromium copy the file each time. The first chunk is committed straight away, so the
+   * file is never left empty, and later ones at least every COMMIT_INTERVAL_MS; a crash or
+   * reload loses what was appended since the last commit
+   */
+  async stream(path: string): Promise<StorageWriteStream> {
+    // Subfolders such as the year/month ones for filing by date are created as needed
+    const { directory, name } = await this.resolveParent(path, true);
+    const fileHandle = await directory.getFileHandle(name, { create: true });
+    // Start from an empty file in case the name already exists
+    const truncate = await fileHandle.createWritable();
+    await truncate.close();
+
+    let writable = await fileHandle.createWritable({ keepExistingData: true });
+    let bytesWritten = 0;
+    let lastCommitAt: number | null = null;
+    let queue: Promise<void> = Promise.resolve();
+
+    const commit = async (): Promise<void> => {
+      await writable.close();
+      writable = await fileHandle.createWritable({ keepExistingData: true });
+      await writable.seek(bytesWritten);
+      lastCommitAt = Date.now();
+    };
+
+    return {
+      append: (chunk) => {
+        queue = queue.then(async () => {
+          await writable.write(chunk);
+          bytesWritten += chunk.size;
+          if (lastCommitAt === null || Date.now() - lastCommitAt >= COMMIT_INTERVAL_MS) {
+            await commit();
+          }
+        });
+        return queue;
+      },
+      close: () => {
+        queue = queue.then(() => writable.close());
+        return queue;
+      },
+      abort: async () => {
+        await queue.catch(() => undefined);
+        await writable.abort().catch(() => undefined);
+        await directory.removeEntry(name);
+      },
+    };
+  }
+
+  async delete(path: string): Promise<void> {
+    const { directory, name } = await this.resolveParent(path);
+    await directory.removeEntry(name);
+  }
+
+  async move(path: string, newPath: string): Promise<File> {
+    const source = await this.resolveParent(path);
+    const target = await this.resolveParent(newPath, true);
+    return moveFile(source.directory, source.name, target.directory, target.name);
+  }
+
+  async createFolder(folder: string[]): Promise<void> {
+    await this.resolveDirectory(folder, true);
+  }
+
+  /**
+   * The site's quota for browser storage; free space in a picked folder is not exposed
+   */
+  async estimateUsage(): Promise<StorageUsage | null> {
+    if (this.kind !== 'opfs' || !navigator.storage?.estimate) {
+      return null;
+    }
+
+    const { usage, quota } = await navigator.storage.estimate();
+    return usage !== undefined && quota !== undefined ? { usage, quota } : null;
+  }
+
+  private async resolveDirectory(
+    segments: string[],
+    create = false,
+  ): Promise<FileSystemDirectoryHandle> {
+    let directory = this.directory;
+    for (const segment of segments) {
+      directory = await directory.getDirectoryHandle(segment, { create });
+    }
+    return directory;
+  }
+
+  private async resolveParent(
+    path: string,
+    create = false,
+  ): Promise<{ directory: FileSystemDirectoryHandle; name: string }> {
+    const segments = path.split('/').filter((segment) => segment.length > 0);
+    const name = segments.pop() ?? path;
+    return { directory: await this.resolveDirectory(segments, create), name };
+  }
+}
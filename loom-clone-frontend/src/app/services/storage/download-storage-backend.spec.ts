@@ -0,0 +1,66 @@
+import { DownloadStorageBackend } from './download-storage-backend';
+import { STORAGE_BACKEND_LIMITS } from './storage-backend-limits';
+
+describe('DownloadStorageBackend', () => {
+  let backend: DownloadStorageBackend;
+  let downloads: { name: string; url: string }[];
+
+  beforeEach(() => {
+    backend = new DownloadStorageBackend();
+    downloads = [];
+    spyOn(URL, 'createObjectURL').and.callFake(() => `blob:${downloads.length}`);
+    spyOn(HTMLAnchorElement.prototype, 'click').and.callFake(function (this: HTMLAnchorElement) {
+      downloads.push({ name: this.download, url: this.href });
+    });
+  });
+
+  it('reports the limits of downloads', () => {
+    expect(backend.kind).toBe('download');
+    expect(backend.limits).toBe(STORAGE_BACKEND_LIMITS.download);
+    expect(backend.limits.listable).toBeFalse();
+    expect(backend.limits.crashSafe).toBeFalse();
+    expect(backend.directory).toBeNull();
+  });
+
+  it('downloads a saved file under its filename only', async () => {
+    await backend.write('2026/10/take.webm', new Blob(['ab']));
+
+    expect(downloads).toEqual([{ name: 'take.webm', url: 'blob:0' }]);
+  });
+
+  it('holds a streamed recording until it is closed', async () => {
+    const stream = await backend.stream('take.webm');
+    await stream.append(new Blob(['ab'], { type: 'video/webm' }));
+    await stream.append(new Blob(['cd'], { type: 'video/webm' }));
+    expect(downloads).toEqual([]);
+
+    await stream.close();
+
+    const [blob] = (URL.createObjectURL as jasmine.Spy).calls.mostRecent().args as [Blob];
+    expect(downloads.map((download) => download.name)).toEqual(['take.webm']);
+    expect(await blob.text()).toBe('abcd');
+    expect(blob.type).toBe('video/webm');
+  });
+
+  it('never downloads an aborted or empty recording', async () => {
+    const aborted = await backend.stream('aborted.webm');
+    await aborted.append(new Blob(['ab']));
+    await aborted.abort();
+    await (await backend.stream('empty.webm')).close();
+
+    expect(downloads).toEqual([]);
+  });
+
+  it('cannot list, read back or move what was downloaded', async () => {
+    await backend.write('take.webm', new Blob(['ab']));
+
+    expect(await backend.list()).toEqual({ files: [], folders: [] });
+    await expectAsync(backend.read('take.webm')).toBeRejectedWith(
+      jasmine.objectContaining({ name: 'NotFoundError' }),
+    );
+    await expectAsync(backend.move('take.webm')).toBeRejectedWith(
+      jasmine.objectContaining({ name: 'NotFoundError' }),
+    );
+    expect(await backend.estimateUsage()).toBeNull();
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  RecordingStorageBackend,
+  StorageListing,
+  StorageUsage,
+  StorageWriteStream,
+} from '../../models/storage.models';
+import { STORAGE_BACKEND_LIMITS } from './storage-backend-limits';
+
+// Long enough for the browser to start reading the file after the click
+const OBJECT_URL_LIFETIME_MS = 60_000;
+
+/**
+ * Storage backend that hands every saved file to the browser as a download
+ * Works in any browser, but what was downloaded cannot be listed or read back,
+ * and a streamed recording is held in memory until it is closed
+ */
+export class DownloadStorageBackend implements RecordingStorageBackend {
+  readonly kind = 'download';
+  readonly limits = STORAGE_BACKEND_LIMITS.download;
+  readonly directory = null;
+
+  async list(): Promise<StorageListing> {
+    return { files: [], folders: [] };
+  }
+
+  async read(path: string): Promise<File> {
+    throw new DOMException(`"${path}" was downloaded and cannot be read back`, 'NotFoundError');
+  }
+
+  async write(path: string, data: Blob): Promise<void> {
+    this.download(path, data);
+  }
+
+  async stream(path: string): Promise<StorageWriteStream> {
+    let chunks: Blob[] = [];
+
+    return {
+      append: async (chunk) => {
+        chunks.push(chunk);
+      },
+      close: async () => {
+        // An empty recording is aborted by the caller and never offered for download
+        if (chunks.length > 0) {
+          this.download(path, new Blob(chunks, { type: chunks[0].type }));
+        }
+        chunks = [];
+      },
+      abort: async () => {
+        chunks = [];
+      },
+    };
+  }
+
+  async delete(): Promise<void> {
+    // Downloaded files are out of the page's reach
+  }
+
+  async move(path: string): Promise<File> {
+    throw new DOMException(`"${path}" was downloaded and cannot be moved`, 'NotFoundError');
+  }
+
+  async createFolder(): Promise<void> {
+    // Downloads are saved by filename only, so there are no folders to create
+  }
+
+  async estimateUsage(): Promise<StorageUsage | null> {
+    return null;
+  }
+
+  private download(path: string, data: Blob): void {
+    const url = URL.createObjectURL(data);
+    const link = document.createElement('a');
+    link.href = url;
+    // Subfolders cannot be chosen for a download, only the filename
+    link.download = path.split('/').pop() ?? path;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), OBJECT_URL_LIFETIME_MS);
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Move or rename a file between directory handles
+ * Uses FileSystemFileHandle.move() where the browser has it; otherwise the file is copied
+ * and the original removed, which gives the copy a new last-modified time
+ */
+export async function moveFile(
+  source: FileSystemDirectoryHandle,
+  name: string,
+  target: FileSystemDirectoryHandle,
+  newName: string,
+): Promise<File> {
+  const fileHandle = await source.getFileHandle(name);
+
+  if (fileHandle.move) {
+    await fileHandle.move(target, newName);
+    const movedHandle = await target.getFileHandle(newName);
+    return movedHandle.getFile();
+  }
+
+  const file = await fileHandle.getFile();
+  const targetHandle = await target.getFileHandle(newName, { create: true });
+  const writable = await targetHandle.createWritable();
+  try {
+    await writable.write(file);
+    await writable.close();
+  } catch (error) {
+    await writable.abort().catch(() => undefined);
+    await target.removeEntry(newName).catch(() => undefined);
+    throw error;
+  }
+
+  await source.removeEntry(name);
+  return targetHandle.getFile();
+}
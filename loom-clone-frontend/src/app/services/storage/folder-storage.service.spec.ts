@@ -0,0 +1,194 @@
+import { TestBed } from '@angular/core/testing';
+import { FolderStorageService, RECORDING_STORAGE_BACKEND } from './folder-storage.service';
+import { MemoryStorageBackend } from './memory-storage-backend';
+
+function video(content = 'video'): Blob {
+  return new Blob([content], { type: 'video/webm' });
+}
+
+describe('FolderStorageService', () => {
+  let backend: MemoryStorageBackend;
+  let service: FolderStorageService;
+
+  beforeEach(async () => {
+    backend = new MemoryStorageBackend();
+    TestBed.configureTestingModule({
+      providers: [{ provide: RECORDING_STORAGE_BACKEND, useValue: backend }],
+    });
+    service = TestBed.inject(FolderStorageService);
+    await service.initializeFolder();
+  });
+
+  async function names(folder: string[] = []): Promise<string[]> {
+    const listing = await backend.list(folder);
+    return listing.files.map((file) => file.name).filter((name) => !name.startsWith('.'));
+  }
+
+  it('opens a provided backend instead of a workspace', async () => {
+    await backend.write('demo.webm', video());
+    await backend.write('notes.txt', new Blob(['not a recording']));
+    await service.refreshRecordings();
+
+    expect(service.storageKind()).toBe('memory');
+    expect(service.permissionState()).toBe('granted');
+    expect(service.workspaces()).toEqual([]);
+    expect(service.recordings().map((recording) => recording.path)).toEqual(['demo.webm']);
+  });
+
+  it('leaves files from an interrupted rename out of the recordings', async () => {
+    await backend.write('demo.webm', video());
+    await backend.write('.rename-1700-take.webm', video());
+    await service.refreshRecordings();
+
+    expect(service.recordings().map((recording) => recording.path)).toEqual(['demo.webm']);
+  });
+
+  describe('createFolder', () => {
+    it('creates a folder inside the one being browsed', async () => {
+      await backend.createFolder(['2026']);
+      await service.openFolder(['2026']);
+
+      await service.createFolder(' Clients ');
+
+      expect(service.subfolders()).toEqual(['Clients']);
+      expect((await backend.list(['2026'])).folders).toEqual(['Clients']);
+    });
+
+    it('rejects names used by a file or folder, ignoring case', async () => {
+      await backend.write('demo.webm', video());
+      await service.createFolder('Clients');
+
+      await expectAsync(service.createFolder('clients')).toBeRejectedWithError(
+        '"clients" already exists in this folder',
+      );
+      await expectAsync(service.createFolder('DEMO.webm')).toBeRejectedWithError(
+        '"DEMO.webm" already exists in this folder',
+      );
+    });
+
+    it('rejects names a file system would not accept', async () => {
+      await expectAsync(service.createFolder('a/b')).toBeRejectedWithError(
+        'Folder names cannot contain \\ / : * ? " < > |',
+      );
+      await expectAsync(service.createFolder('.hidden')).toBeRejectedWithError(
+        'Folder names cannot start or end with a dot',
+      );
+      await expectAsync(service.createFolder('con')).toBeRejectedWithError(
+        '"con" is a reserved name on Windows',
+      );
+    });
+  });
+
+  describe('renameRecording', () => {
+    beforeEach(async () => {
+      await backend.write('clips/take.webm', video());
+      await backend.write('clips/other.webm', video());
+      await service.updateRecordingMetadata('clips/take.webm', { title: 'Kickoff' });
+    });
+
+    it('renames the file and carries its metadata over', async () => {
+      const renamed = await service.renameRecording('clips/take.webm', ' kickoff.webm ');
+
+      expect(renamed.path).toBe('clips/kickoff.webm');
+      expect(renamed.metadata?.title).toBe('Kickoff');
+      expect(await names(['clips'])).toEqual(['other.webm', 'kickoff.webm']);
+      expect((await service.readRecordingMetadata('clips/kickoff.webm'))?.title).toBe('Kickoff');
+    });
+
+    it('keeps the extension', async () => {
+      expect(service.validateRecordingName('take.webm', 'take.mp4')).toBe(
+        'The name has to end in .webm',
+      );
+      await expectAsync(service.renameRecording('clips/take.webm', 'take')).toBeRejectedWithError(
+        'The name has to end in .webm',
+      );
+    });
+
+    it('rejects the name of another file, ignoring case', async () => {
+      await expectAsync(
+        service.renameRecording('clips/take.webm', 'OTHER.webm'),
+      ).toBeRejectedWithError('A file named "OTHER.webm" already exists in this folder');
+      expect(await names(['clips'])).toEqual(['take.webm', 'other.webm']);
+    });
+
+    it('changes only the case of a name', async () => {
+      const renamed = await service.renameRecording('clips/take.webm', 'Take.webm');
+
+      expect(renamed.path).toBe('clips/Take.webm');
+      expect(await names(['clips'])).toEqual(['other.webm', 'Take.webm']);
+    });
+  });
+
+  describe('moveRecording', () => {
+    it('numbers the name when it is taken in the target folder', async () => {
+      await backend.write('clip.webm', video('moved'));
+      await backend.write('archive/clip.webm', video());
+      await backend.write('archive/clip (2).webm', video());
+      await service.updateRecordingMetadata('clip.webm', { title: 'Demo' });
+
+      const moved = await service.moveRecording('clip.webm', ['archive']);
+
+      expect(moved.path).toBe('archive/clip (3).webm');
+      expect(moved.metadata?.title).toBe('Demo');
+      expect(await (await backend.read('archive/clip (3).webm')).text()).toBe('moved');
+      expect(await names()).toEqual([]);
+    });
+  });
+
+  describe('trash', () => {
+    beforeEach(async () => {
+      await backend.write('2026/10/clip.webm', video('deleted'));
+      await service.updateRecordingMetadata('2026/10/clip.webm', { title: 'Standup' });
+    });
+
+    it('keeps a recording and its metadata when the trash index cannot be read', async () => {
+      await backend.write('.loom-trash/.trash-index.json', new Blob(['not json']));
+
+      await expectAsync(service.deleteRecording('2026/10/clip.webm')).toBeRejectedWithError(
+        'Recording could not be moved to the trash',
+      );
+
+      expect(await names(['2026', '10'])).toEqual(['clip.webm']);
+      expect((await service.readRecordingMetadata('2026/10/clip.webm'))?.title).toBe('Standup');
+    });
+
+    it('restores a recording into its folder after the folder was removed', async () => {
+      await service.deleteRecording('2026/10/clip.webm');
+      await backend.delete('2026/10/.loom-manifest.json');
+      await expectAsync(backend.list(['2026'])).toBeRejected();
+
+      const [item] = service.trashedRecordings();
+      const restored = await service.restoreRecording(item.trashName);
+
+      expect(restored.path).toBe('2026/10/clip.webm');
+      expect(restored.metadata?.title).toBe('Standup');
+      expect(await (await backend.read('2026/10/clip.webm')).text()).toBe('deleted');
+      expect(service.trashedRecordings()).toEqual([]);
+    });
+
+    it('numbers a restored recording whose name has been taken since', async () => {
+      await service.deleteRecording('2026/10/clip.webm');
+      await backend.write('2026/10/clip.webm', video('new'));
+
+      const restored = await service.restoreRecording(service.trashedRecordings()[0].trashName);
+
+      expect(restored.path).toBe('2026/10/clip (2).webm');
+      expect(await (await backend.read('2026/10/clip (2).webm')).text()).toBe('deleted');
+    });
+
+    it('keeps deleted recordings across reloads until the trash is emptied', async () => {
+      await service.deleteRecording('2026/10/clip.webm');
+      await service.refreshTrash();
+
+      expect(service.trashedRecordings().map((item) => item.originalName)).toEqual([
+        '2026/10/clip.webm',
+      ]);
+
+      await service.emptyTrash();
+      await service.refreshTrash();
+
+      expect(service.trashedRecordings()).toEqual([]);
+      await expectAsync(backend.list(['.loom-trash'])).toBeRejected();
+    });
+  });
+});
@@ -1,25 +1,83 @@
-import { Injectable, inject, signal } from '@angular/core';
+import { Injectable, InjectionToken, computed, inject, signal } from '@angular/core';
 import { IndexedDbService } from './indexeddb.service';
 import {
   StoredFolderData,
   FolderAccessError,
   FolderAccessErrorCode,
+  PendingRecordingData,
   PermissionState,
+  RecordingFileWriter,
+  RecordingStorageBackend,
+  RecordingWorkspace,
+  RecordingWorkspaceView,
+  StorageBackendKind,
+  StorageBackendSettings,
+  StorageListing,
+  StorageUsage,
+  StorageWriteStream,
+  TrashedRecording,
 } from '../../models/storage.models';
-import { RecordingFileSummary } from '../../models/media.models';
+import { RecordingFileSummary, RecordingMetadata } from '../../models/media.models';
+import { RecordingManifestService } from './recording-manifest.service';
+import { RecordingTrashService } from './recording-trash.service';
+import { DirectoryStorageBackend } from './directory-storage-backend';
+import { DownloadStorageBackend } from './download-storage-backend';
+import { STORAGE_BACKEND_LIMITS } from './storage-backend-limits';
+
+/**
+ * Characters rejected by at least one of the file systems a recordings folder may live on
+ */
+const INVALID_FILENAME_CHARACTERS = /[\\/:*?"<>|]/;
+const RESERVED_FILENAMES = /^(con|prn|aux|nul|com\d|lpt\d)(\.|$)/i;
+
+/**
+ * Split a "/"-separated path relative to the chosen folder into its segments
+ */
+function splitPath(path: string): string[] {
+  return path.split('/').filter((segment) => segment.length > 0);
+}
+
+function joinPath(segments: string[]): string {
+  return segments.join('/');
+}
+
+/**
+ * Storage to use instead of workspaces and the saved backend choice, e.g. in tests
+ */
+export const RECORDING_STORAGE_BACKEND = new InjectionToken<RecordingStorageBackend | null>(
+  'RECORDING_STORAGE_BACKEND',
+  { providedIn: 'root', factory: () => null },
+);
 
 /**
  * Service for managing folder selection and File System Access API operations
  * Handles folder persistence via IndexedDB and permission management
+ *
+ * Several folders can be stored as named workspaces; the active one is browsed and,
+ * unless another is chosen, receives new recordings
+ *
+ * Files are listed, read, written, moved and trashed through a storage backend, so recordings
+ * can also be kept in browser storage or downloaded where folders cannot be picked
  */
 @Injectable({
   providedIn: 'root',
 })
 export class FolderStorageService {
   private readonly indexedDb = inject(IndexedDbService);
-  private readonly STORAGE_KEY = 'recordings-folder';
+  private readonly manifest = inject(RecordingManifestService);
+  private readonly trash = inject(RecordingTrashService);
+  private readonly providedBackend = inject(RECORDING_STORAGE_BACKEND);
+  private readonly LEGACY_STORAGE_KEY = 'recordings-folder';
+  private readonly WORKSPACES_STORE = 'workspaces';
+  private readonly MAX_WORKSPACE_NAME_LENGTH = 80;
+  private readonly PENDING_RECORDINGS_KEY = 'pending-recordings';
+  private readonly STORAGE_BACKEND_KEY = 'storage-backend-settings';
+  private readonly BROWSER_STORAGE_FOLDER = 'recordings';
+  // Paths of recordings still being streamed to disk
+  private readonly activeWriterNames = new Set<string>();
 
   // State signals
+  private readonly _backend = signal<RecordingStorageBackend | null>(null);
   private readonly _folderHandle = signal<FileSystemDirectoryHandle | null>(null);
   private readonly _folderName = signal<string | null>(null);
   private readonly _permissionState = signal<PermissionState>('unknown');
@@ -28,6 +86,12 @@ export class FolderStorageService {
   private readonly _recordings = signal<RecordingFileSummary[]>([]);
   private readonly _recordingsLoading = signal<boolean>(false);
   private readonly _recordingsError = signal<string | null>(null);
+  private readonly _interruptedRecordings = signal<RecordingFileSummary[]>([]);
+  private readonly _trashedRecordings = signal<TrashedRecording[]>([]);
+  private readonly _currentPath = signal<string[]>([]);
+  private readonly _subfolders = signal<string[]>([]);
+  private readonly _workspaces = signal<RecordingWorkspaceView[]>([]);
+  private readonly _activeWorkspaceId = signal<string | null>(null);
 
   // Public readonly signals
   readonly folderHandle = this._folderHandle.asReadonly();
@@ -38,53 +102,74 @@ export class FolderStorageService {
   readonly recordings = this._recordings.asReadonly();
   readonly recordingsLoading = this._recordingsLoading.asReadonly();
   readonly recordingsError = this._recordingsError.asReadonly();
+  readonly interruptedRecordings = this._interruptedRecordings.asReadonly();
+  readonly trashedRecordings = this._trashedRecordings.asReadonly();
+
+  /**
+   * Subfolder being browsed, as path segments below the chosen folder ([] = top level)
+   */
+  readonly currentPath = this._currentPath.asReadonly();
+
+  /**
+   * Names of the folders inside the one being browsed
+   */
+  readonly subfolders = this._subfolders.asReadonly();
+
+  /**
+   * Stored workspaces, most recently used first
+   */
+  readonly workspaces = this._workspaces.asReadonly();
+  readonly activeWorkspaceId = this._activeWorkspaceId.asReadonly();
+  readonly activeWorkspace = computed(
+    () =>
+      this._workspaces().find((workspace) => workspace.id === this._activeWorkspaceId()) ?? null,
+  );
+
+  /**
+   * Where recordings are currently kept, and what that storage can do
+   */
+  readonly storageKind = computed(() => this._backend()?.kind ?? null);
+  readonly storageLimits = computed(() => this._backend()?.limits ?? null);
 
   /**
-   * Initialize folder from IndexedDB on app load
-   * Auto-verifies handle validity and permissions
+   * Initialize workspaces from IndexedDB on app load
+   * Opens the most recently used workspace and auto-verifies its handle and permissions,
+   * unless browser storage or downloads were chosen instead
+   * A backend provided with RECORDING_STORAGE_BACKEND is opened instead of any of them
    */
   async initializeFolder(): Promise<void> {
     this._isLoading.set(true);
     this._errorMessage.set(null);
 
     try {
-      const storedData = await this.indexedDb.get<StoredFolderData>('handles', this.STORAGE_KEY);
-
-      if (!storedData || !storedData.handle) {
-        this._isLoading.set(false);
-        return;
-      }
-
-      // Verify handle is still valid
-      const isValid = await this.verifyHandle(storedData.handle);
-      if (!isValid) {
-        // Clear invalid handle immediately
-        await this.clearStoredFolder();
-        this._errorMessage.set('Previously selected folder is no longer accessible');
-        this._isLoading.set(false);
+      if (this.providedBackend) {
+        await this.openBackend(this.providedBackend);
         return;
       }
 
-      // Check permission state
-      const permission = await this.checkPermission(storedData.handle);
-
-      this._folderHandle.set(storedData.handle);
-      this._folderName.set(storedData.folderName);
-      this._permissionState.set(permission);
+      await this.migrateLegacyFolder();
+      const workspaces = await this.loadWorkspaces();
+      const settings = await this.indexedDb.get<StorageBackendSettings>(
+        'preferences',
+        this.STORAGE_BACKEND_KEY,
+      );
 
-      // Update last accessed time
-      await this.saveFolderData(storedData.handle);
+      if (settings?.kind === 'opfs' || settings?.kind === 'download') {
+        await this.openStorageBackend(settings.kind);
+      } else if (workspaces.length > 0) {
+        await this.activateWorkspace(workspaces[0]);
+      }
     } catch (error) {
       console.error('Failed to initialize folder:', error);
       this._errorMessage.set('Failed to load saved folder');
-      await this.clearStoredFolder();
     } finally {
       this._isLoading.set(false);
     }
   }
 
   /**
-   * Prompt user to select a new folder
+   * Prompt user to select a new folder for the active workspace,
+   * or for a first workspace if there is none yet
    * Requires user gesture
    */
   async selectNewFolder(): Promise<void> {
@@ -92,25 +177,15 @@ export class FolderStorageService {
     this._errorMessage.set(null);
 
     try {
-      // Check if API is supported
-      if (!('showDirectoryPicker' in window)) {
-        throw new FolderAccessError(
-          FolderAccessErrorCode.BROWSER_NOT_SUPPORTED,
-          'File System Access API is not supported in this browser',
-        );
-      }
-
       // Show directory picker (requires user gesture)
-      const handle = await window.showDirectoryPicker({
-        mode: 'readwrite',
-      });
+      const handle = await this.pickFolder();
+      const active = this.activeWorkspace();
 
-      // Save to IndexedDB
-      await this.saveFolderData(handle);
-
-      this._folderHandle.set(handle);
-      this._folderName.set(handle.name);
-      this._permissionState.set('granted');
+      await this.openPickedWorkspace(
+        active
+          ? { ...active, handle, folderName: handle.name }
+          : this.createWorkspace(handle, handle.name),
+      );
     } catch (error: unknown) {
       if ((error as Error).name === 'AbortError') {
         // User cancelled the picker
@@ -124,29 +199,176 @@ export class FolderStorageService {
     }
   }
 
+  /**
+   * Keep recordings in browser storage or download them instead of saving to a folder
+   * Stored workspaces are kept; switching to one goes back to saving in its folder
+   */
+  async useStorageBackend(kind: 'opfs' | 'download'): Promise<void> {
+    this._isLoading.set(true);
+    this._errorMessage.set(null);
+
+    try {
+      await this.openStorageBackend(kind);
+      await this.saveStorageBackendKind(kind);
+    } catch (error) {
+      console.error('Failed to open storage:', error);
+      this._errorMessage.set(`${STORAGE_BACKEND_LIMITS[kind].label} could not be opened`);
+    } finally {
+      this._isLoading.set(false);
+    }
+  }
+
+  /**
+   * Space used and available in the current storage, or null if it cannot tell
+   */
+  async estimateStorageUsage(): Promise<StorageUsage | null> {
+    try {
+      return (await this._backend()?.estimateUsage()) ?? null;
+    } catch (error) {
+      console.error('Failed to estimate storage usage:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Add a workspace for another folder and switch to it
+   * An empty name uses the folder's name
+   * Requires user gesture; returns false if the picker was cancelled
+   */
+  async addWorkspace(name: string): Promise<boolean> {
+    let handle: FileSystemDirectoryHandle;
+    try {
+      handle = await this.pickFolder();
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') {
+        return false;
+      }
+
+      console.error('Failed to select folder:', error);
+      throw error instanceof FolderAccessError ? error : new Error('Failed to select folder');
+    }
+
+    for (const workspace of this._workspaces()) {
+      if (await workspace.handle.isSameEntry(handle).catch(() => false)) {
+        throw new Error(`This folder is already the "${workspace.name}" workspace`);
+      }
+    }
+
+    const workspaceName = name.trim() || handle.name;
+    const validationError = this.validateWorkspaceName(workspaceName, null);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    await this.openPickedWorkspace(this.createWorkspace(handle, workspaceName));
+    return true;
+  }
+
+  /**
+   * Make another stored workspace the active one
+   * Its folder may still need permission granted if the browser has not kept it
+   */
+  async switchWorkspace(id: string): Promise<boolean> {
+    const workspace = this.findWorkspace(id);
+    if (!workspace) {
+      return false;
+    }
+
+    this._isLoading.set(true);
+    this._errorMessage.set(null);
+
+    try {
+      return await this.activateWorkspace(workspace);
+    } catch (error) {
+      console.error('Failed to switch workspace:', error);
+      this._errorMessage.set(`Failed to open the "${workspace.name}" workspace`);
+      return false;
+    } finally {
+      this._isLoading.set(false);
+    }
+  }
+
+  async renameWorkspace(id: string, name: string): Promise<void> {
+    const workspace = this.findWorkspace(id);
+    if (!workspace) {
+      throw new Error('Workspace no longer exists');
+    }
+
+    const workspaceName = name.trim();
+    const validationError = this.validateWorkspaceName(workspaceName, id);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    try {
+      await this.saveWorkspace({ ...workspace, name: workspaceName }, workspace.permissionState);
+    } catch (error) {
+      console.error('Failed to rename workspace:', error);
+      throw new Error('Workspace could not be renamed');
+    }
+  }
+
+  /**
+   * Forget a workspace; its folder and recordings are left untouched
+   * Removing the active workspace switches to the next most recently used one
+   */
+  async removeWorkspace(id: string): Promise<void> {
+    try {
+      await this.indexedDb.delete(this.WORKSPACES_STORE, id);
+    } catch (error) {
+      console.error('Failed to remove workspace:', error);
+      throw new Error('Workspace could not be removed');
+    }
+
+    this._workspaces.update((workspaces) => workspaces.filter((workspace) => workspace.id !== id));
+
+    if (id === this._activeWorkspaceId()) {
+      this.resetActiveWorkspace();
+      const next = this._workspaces()[0];
+      if (next) {
+        await this.switchWorkspace(next.id);
+      }
+    }
+  }
+
   /**
    * Request permission for the current folder
    * Requires user gesture
    */
   async requestPermission(): Promise<boolean> {
-    const handle = this._folderHandle();
-    if (!handle) {
+    const id = this._activeWorkspaceId();
+    return id ? this.requestWorkspacePermission(id) : false;
+  }
+
+  /**
+   * Request permission for any stored workspace's folder, e.g. the one new recordings save into
+   * Requires user gesture
+   */
+  async requestWorkspacePermission(id: string): Promise<boolean> {
+    const workspace = this.findWorkspace(id);
+    if (!workspace) {
       return false;
     }
 
     try {
-      const permission = await handle.requestPermission({ mode: 'readwrite' });
-      this._permissionState.set(permission);
+      const permission = await workspace.handle.requestPermission({ mode: 'readwrite' });
+      this.setWorkspacePermission(id, permission);
+
+      const backend = this._backend();
+      if (permission === 'granted' && id === this._activeWorkspaceId() && backend) {
+        await this.detectInterruptedRecordings(backend);
+      }
+
       return permission === 'granted';
     } catch (error) {
       console.error('Failed to request permission:', error);
-      this._permissionState.set('denied');
+      this.setWorkspacePermission(id, 'denied');
       return false;
     }
   }
 
   /**
-   * Change folder location with confirmation
+   * Change the active workspace's folder with confirmation
    * Uses native confirm() dialog
    */
   async changeFolderLocation(): Promise<void> {
@@ -163,16 +385,15 @@ export class FolderStorageService {
   }
 
   /**
-   * Clear stored folder data
+   * Clear stored folder data of the active workspace
    */
   async clearStoredFolder(): Promise<void> {
+    const id = this._activeWorkspaceId();
+
     try {
-      await this.indexedDb.delete('handles', this.STORAGE_KEY);
-      this._folderHandle.set(null);
-      this._folderName.set(null);
-      this._permissionState.set('unknown');
-      this._errorMessage.set(null);
-      this.clearRecordingsState();
+      if (id) {
+        await this.removeWorkspace(id);
+      }
     } catch (error) {
       console.error('Failed to clear stored folder:', error);
     }
@@ -183,18 +404,36 @@ export class FolderStorageService {
    */
   clearRecordingsState(): void {
     this._recordings.set([]);
+    this._trashedRecordings.set([]);
+    this._subfolders.set([]);
     this._recordingsLoading.set(false);
     this._recordingsError.set(null);
   }
 
   /**
-   * Refresh recording file list from selected folder
+   * Browse a subfolder of the chosen folder and list its contents
+   */
+  async openFolder(path: string[]): Promise<void> {
+    this._currentPath.set(path);
+    await this.refreshRecordings();
+  }
+
+  /**
+   * Browse the folder that holds the given recording path
+   */
+  async openFolderOf(path: string): Promise<void> {
+    await this.openFolder(splitPath(path).slice(0, -1));
+  }
+
+  /**
+   * Refresh recording file and subfolder lists for the folder being browsed
+   * Falls back to the top level if that subfolder no longer exists
    */
   async refreshRecordings(): Promise<void> {
-    const handle = this._folderHandle();
+    const backend = this._backend();
     const permission = this._permissionState();
 
-    if (!handle || permission !== 'granted') {
+    if (!backend || permission !== 'granted') {
       this.clearRecordingsState();
       return;
     }
@@ -203,28 +442,35 @@ export class FolderStorageService {
     this._recordingsError.set(null);
 
     try {
-      const recordings: RecordingFileSummary[] = [];
-
-      for await (const [name, entry] of handle.entries()) {
-        if (entry.kind !== 'file' || !this.isRecordingFile(name)) {
-          continue;
-        }
-
-        const fileHandle = await handle.getFileHandle(name);
-        const file = await fileHandle.getFile();
-        recordings.push({
-          name,
-          mimeType: file.type,
-          size: file.size,
-          lastModified: file.lastModified,
-        });
+      let listing: StorageListing;
+      try {
+        listing = await backend.list(this._currentPath());
+      } catch {
+        this._currentPath.set([]);
+        listing = await backend.list([]);
       }
 
+      const path = this._currentPath();
+      const hiddenPaths = new Set([
+        ...this.activeWriterNames,
+        ...this._interruptedRecordings().map((recording) => recording.path),
+      ]);
+      const files = listing.files
+        .filter((file) => this.isRecordingFile(file.name))
+        .map((file) => this.toSummary(file, joinPath([...path, file.name])));
+      // Dot-folders hold app data such as the trash
+      const folders = listing.folders.filter((name) => !name.startsWith('.'));
+
+      const recordings = (await this.attachMetadata(backend, path, files)).filter(
+        (recording) => !hiddenPaths.has(recording.path),
+      );
       recordings.sort((a, b) => b.lastModified - a.lastModified);
       this._recordings.set(recordings);
+      this._subfolders.set(folders.sort((a, b) => a.localeCompare(b)));
     } catch (error) {
       console.error('Failed to load recordings:', error);
       this._recordings.set([]);
+      this._subfolders.set([]);
       this._recordingsError.set('Unable to load recordings from selected folder');
     } finally {
       this._recordingsLoading.set(false);
@@ -232,100 +478,1052 @@ export class FolderStorageService {
   }
 
   /**
-   * Read an existing recording file from selected folder
+   * Create a folder inside the one being browsed
    */
-  async readRecordingFile(filename: string): Promise<File> {
-    const handle = this._folderHandle();
-    if (!handle) {
-      throw new FolderAccessError(FolderAccessErrorCode.NOT_FOUND, 'No folder selected');
+  async createFolder(name: string): Promise<void> {
+    const folderName = name.trim();
+    const validationError = this.validateEntryName(folderName, 'Folder');
+    if (validationError) {
+      throw new Error(validationError);
     }
 
-    const permission = this._permissionState();
-    if (permission !== 'granted') {
-      throw new FolderAccessError(
-        FolderAccessErrorCode.PERMISSION_DENIED,
-        'Permission not granted',
+    const backend = this.getGrantedBackend();
+    const path = this._currentPath();
+    if (await this.isNameTaken(backend, path, folderName)) {
+      throw new Error(`"${folderName}" already exists in this folder`);
+    }
+
+    try {
+      await backend.createFolder([...path, folderName]);
+    } catch (error) {
+      console.error('Failed to create folder:', error);
+      throw new Error('Folder could not be created');
+    }
+
+    this._subfolders.update((folders) =>
+      [...folders, folderName].sort((a, b) => a.localeCompare(b)),
+    );
+  }
+
+  /**
+   * Move a recording into another folder, keeping its metadata
+   * If the name is taken there, a numbered name such as "clip (2).webm" is used
+   */
+  async moveRecording(path: string, targetFolder: string[]): Promise<RecordingFileSummary> {
+    const backend = this.getGrantedBackend();
+    this.assertNotBeingWritten(path);
+
+    const segments = splitPath(path);
+    const name = segments.pop()!;
+    if (joinPath(segments) === joinPath(targetFolder)) {
+      return this.findRecording(path) ?? this.toSummary(await this.readRecordingFile(path), path);
+    }
+
+    let moved: RecordingFileSummary;
+    try {
+      const targetName = await this.findAvailableName(backend, targetFolder, name);
+      const targetPath = joinPath([...targetFolder, targetName]);
+      moved = this.toSummary(await backend.move(path, targetPath), targetPath);
+    } catch (error) {
+      console.error('Failed to move recording:', error);
+      throw new Error('Recording could not be moved');
+    }
+
+    try {
+      const metadata = await this.manifest.removeEntry(backend, segments, name);
+      moved.metadata = await this.manifest.updateEntry(
+        backend,
+        targetFolder,
+        moved,
+        metadata ?? this.manifest.createDefaultMetadata(moved),
+      );
+    } catch (error) {
+      console.error('Failed to move recording metadata:', error);
+    }
+
+    this._recordings.update((recordings) =>
+      recordings.filter((recording) => recording.path !== path),
+    );
+    return moved;
+  }
+
+  /**
+   * Update title, description, tags or capture details of a recording
+   * Changes are written to the folder manifest and reflected in the recordings list
+   * The active workspace is used unless another one is given
+   */
+  async updateRecordingMetadata(
+    path: string,
+    changes: Partial<RecordingMetadata>,
+    workspaceId?: string,
+  ): Promise<RecordingMetadata> {
+    const file = await this.readRecordingFile(path, workspaceId);
+
+    try {
+      const metadata = await this.manifest.updateEntry(
+        this.getGrantedBackend(workspaceId),
+        splitPath(path).slice(0, -1),
+        this.toSummary(file, path),
+        changes,
       );
+
+      if (this.resolveWorkspaceId(workspaceId) === this._activeWorkspaceId()) {
+        this._recordings.update((recordings) =>
+          recordings.map((recording) =>
+            recording.path === path ? { ...recording, metadata } : recording,
+          ),
+        );
+      }
+
+      return metadata;
+    } catch (error) {
+      console.error('Failed to update recording metadata:', error);
+      throw new Error('Failed to save recording details to folder');
     }
+  }
+
+  /**
+   * Read an existing recording file from selected folder
+   * Throws FolderAccessError with NOT_FOUND when the file is gone and PERMISSION_DENIED
+   * when folder access has been withdrawn, so callers can explain what went wrong
+   * The active workspace is used unless another one is given
+   */
+  async readRecordingFile(path: string, workspaceId?: string): Promise<File> {
+    const backend = this.getGrantedBackend(workspaceId);
 
     try {
-      const fileHandle = await handle.getFileHandle(filename);
-      return await fileHandle.getFile();
+      return await backend.read(path);
     } catch (error) {
       console.error('Failed to read recording file:', error);
+
+      const errorName = (error as Error).name;
+      if (errorName === 'NotFoundError' || errorName === 'TypeError') {
+        throw new FolderAccessError(
+          FolderAccessErrorCode.NOT_FOUND,
+          `Recording "${path}" was not found in the folder`,
+        );
+      }
+
+      if (errorName === 'NotAllowedError' || errorName === 'SecurityError') {
+        const resolvedWorkspaceId = this.resolveWorkspaceId(workspaceId);
+        if (resolvedWorkspaceId && backend.directory) {
+          this.setWorkspacePermission(
+            resolvedWorkspaceId,
+            await this.checkPermission(backend.directory),
+          );
+        }
+        throw new FolderAccessError(
+          FolderAccessErrorCode.PERMISSION_DENIED,
+          'Access to the recordings folder was lost',
+        );
+      }
+
       throw new Error('Recording file could not be read');
     }
   }
 
   /**
-   * Save folder handle to IndexedDB
+   * Metadata for a recording anywhere in the chosen folder, not just the one being browsed
    */
-  private async saveFolderData(handle: FileSystemDirectoryHandle): Promise<void> {
-    const folderData: StoredFolderData = {
-      handle,
-      lastAccessed: new Date(),
-      folderName: handle.name,
-    };
+  async readRecordingMetadata(path: string): Promise<RecordingMetadata | null> {
+    const listed = this.findRecording(path);
+    if (listed?.metadata) {
+      return listed.metadata;
+    }
 
-    await this.indexedDb.set('handles', this.STORAGE_KEY, folderData);
+    try {
+      return await this.manifest.getEntry(
+        this.getGrantedBackend(),
+        splitPath(path).slice(0, -1),
+        this.basename(path),
+      );
+    } catch (error) {
+      console.error('Failed to read recording metadata:', error);
+      return null;
+    }
   }
 
   /**
-   * Verify that a folder handle is still valid
+   * Why a new filename cannot be used for a recording, or null if it is acceptable
+   * The extension has to stay the same so the file keeps playing as the same format
    */
-  private async verifyHandle(handle: FileSystemDirectoryHandle): Promise<boolean> {
-    try {
-      // Try to iterate the directory to check if it still exists
-      const entries = handle.entries();
-      await entries.next();
-      return true;
-    } catch {
-      return false;
+  validateRecordingName(currentName: string, newName: string): string | null {
+    const name = newName.trim();
+    const validationError = this.validateEntryName(name, 'File');
+    if (validationError) {
+      return validationError;
+    }
+
+    const extension = (filename: string): string => filename.split('.').pop()?.toLowerCase() ?? '';
+    if (!name.includes('.') || extension(name) !== extension(currentName)) {
+      return `The name has to end in .${extension(currentName)}`;
     }
+
+    return null;
   }
 
   /**
-   * Check permission state for a folder handle
+   * Rename a recording within its folder and carry its metadata over
+   * Fails if the name is invalid or another file already uses it
    */
-  private async checkPermission(handle: FileSystemDirectoryHandle): Promise<PermissionState> {
+  async renameRecording(path: string, newName: string): Promise<RecordingFileSummary> {
+    const filename = this.basename(path);
+    const folder = splitPath(path).slice(0, -1);
+    const targetName = newName.trim();
+    const backend = this.getGrantedBackend();
+    this.assertNotBeingWritten(path);
+
+    const validationError = this.validateRecordingName(filename, targetName);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    if (targetName === filename) {
+      return this.findRecording(path) ?? this.toSummary(await this.readRecordingFile(path), path);
+    }
+
+    if (await this.isNameTaken(backend, folder, targetName, filename)) {
+      throw new Error(`A file named "${targetName}" already exists in this folder`);
+    }
+
+    const targetPath = joinPath([...folder, targetName]);
+    let file: File;
     try {
-      const permission = await handle.queryPermission({ mode: 'readwrite' });
-      return permission;
-    } catch {
-      return 'unknown';
+      // Differing only in case is the same entry on case-insensitive file systems,
+      // so the file is renamed through a temporary name
+      if (targetName.toLowerCase() === filename.toLowerCase()) {
+        const temporaryPath = joinPath([...folder, `.rename-${Date.now()}-${filename}`]);
+        await backend.move(path, temporaryPath);
+        file = await backend.move(temporaryPath, targetPath);
+      } else {
+        file = await backend.move(path, targetPath);
+      }
+    } catch (error) {
+      console.error('Failed to rename recording:', error);
+      throw new Error('Recording could not be renamed');
+    }
+
+    const renamed = this.toSummary(file, targetPath);
+    try {
+      renamed.metadata = await this.manifest.renameEntry(backend, folder, filename, renamed);
+    } catch (error) {
+      console.error('Failed to move recording metadata to the new name:', error);
+      renamed.metadata = this.findRecording(path)?.metadata;
     }
+
+    this._recordings.update((recordings) =>
+      recordings.map((recording) => (recording.path === path ? renamed : recording)),
+    );
+    return renamed;
   }
 
   /**
-   * Save a recording blob to the selected folder
-   * (For future use)
+   * Move a recording into the trash folder; it can be restored until the trash is emptied
+   * or the retention period has passed
+   * Its manifest entry is only removed once the file is in the trash
    */
-  async saveRecording(blob: Blob, filename: string): Promise<void> {
-    const handle = this._folderHandle();
-    if (!handle) {
-      throw new FolderAccessError(FolderAccessErrorCode.NOT_FOUND, 'No folder selected');
+  async deleteRecording(path: string): Promise<void> {
+    const backend = this.getGrantedBackend();
+    this.assertNotBeingWritten(path);
+    const recording =
+      this.findRecording(path) ?? this.toSummary(await this.readRecordingFile(path), path);
+    const folder = splitPath(path).slice(0, -1);
+
+    let metadata: RecordingMetadata | null = recording.metadata ?? null;
+    try {
+      metadata = (await this.manifest.getEntry(backend, folder, recording.name)) ?? metadata;
+    } catch (error) {
+      console.error('Failed to read recording metadata:', error);
     }
 
-    const permission = this._permissionState();
-    if (permission !== 'granted') {
-      throw new FolderAccessError(
-        FolderAccessErrorCode.PERMISSION_DENIED,
-        'Permission not granted',
-      );
+    try {
+      const item = await this.trash.moveToTrash(backend, recording, metadata);
+      this._trashedRecordings.update((items) => [item, ...items]);
+    } catch (error) {
+      console.error('Failed to move recording to trash:', error);
+      throw new Error('Recording could not be moved to the trash');
     }
 
     try {
-      const fileHandle = await handle.getFileHandle(filename, { create: true });
-      const writable = await fileHandle.createWritable();
-      await writable.write(blob);
-      await writable.close();
+      await this.manifest.removeEntry(backend, folder, recording.name);
     } catch (error) {
-      console.error('Failed to save recording:', error);
-      throw new Error('Failed to save recording to folder');
+      console.error('Failed to remove recording metadata:', error);
     }
+
+    this._recordings.update((recordings) =>
+      recordings.filter((recording) => recording.path !== path),
+    );
   }
 
-  private isRecordingFile(filename: string): boolean {
+  /**
+   * Move a recording out of the trash to where it was deleted from
+   * Missing folders are recreated; if the name has been taken since, a numbered name
+   * such as "clip (2).webm" is used
+   */
+  async restoreRecording(trashName: string): Promise<RecordingFileSummary> {
+    const backend = this.getGrantedBackend();
+    const item = this._trashedRecordings().find((entry) => entry.trashName === trashName);
+    if (!item) {
+      throw new Error('Recording is no longer in the trash');
+    }
+
+    const folder = splitPath(item.originalName).slice(0, -1);
+    let restored: RecordingFileSummary;
+    try {
+      const targetName = await this.findAvailableName(
+        backend,
+        folder,
+        this.basename(item.originalName),
+      );
+      const targetPath = joinPath([...folder, targetName]);
+      restored = this.toSummary(
+        await this.trash.restore(backend, trashName, targetPath),
+        targetPath,
+      );
+    } catch (error) {
+      console.error('Failed to restore recording:', error);
+      throw new Error('Recording could not be restored');
+    }
+
+    try {
+      restored.metadata = await this.manifest.updateEntry(
+        backend,
+        folder,
+        restored,
+        item.metadata ?? this.manifest.createDefaultMetadata(restored),
+      );
+    } catch (error) {
+      console.error('Failed to restore recording metadata:', error);
+      restored.metadata = item.metadata ?? undefined;
+    }
+
+    this._trashedRecordings.update((items) =>
+      items.filter((entry) => entry.trashName !== trashName),
+    );
+    if (joinPath(folder) === joinPath(this._currentPath())) {
+      this._recordings.update((recordings) =>
+        [...recordings, restored].sort((a, b) => b.lastModified - a.lastModified),
+      );
+    }
+    return restored;
+  }
+
+  /**
+   * Permanently delete every recording in the trash
+   */
+  async emptyTrash(): Promise<void> {
+    const backend = this.getGrantedBackend();
+
+    try {
+      await this.trash.empty(backend);
+      this._trashedRecordings.set([]);
+    } catch (error) {
+      console.error('Failed to empty trash:', error);
+      throw new Error('Trash could not be emptied');
+    }
+  }
+
+  /**
+   * Reload the trash listing, purging recordings past the retention period
+   */
+  async refreshTrash(): Promise<void> {
+    const backend = this._backend();
+    if (!backend || this._permissionState() !== 'granted') {
+      this._trashedRecordings.set([]);
+      return;
+    }
+
+    try {
+      await this.trash.init();
+      this._trashedRecordings.set(await this.trash.list(backend));
+    } catch (error) {
+      console.error('Failed to load trash:', error);
+    }
+  }
+
+  /**
+   * Show the directory picker; throws AbortError if the user cancels
+   */
+  private async pickFolder(): Promise<FileSystemDirectoryHandle> {
+    // Check if API is supported
+    if (!('showDirectoryPicker' in window)) {
+      throw new FolderAccessError(
+        FolderAccessErrorCode.BROWSER_NOT_SUPPORTED,
+        'File System Access API is not supported in this browser',
+      );
+    }
+
+    return window.showDirectoryPicker({ mode: 'readwrite' });
+  }
+
+  private createWorkspace(
+    handle: FileSystemDirectoryHandle,
+    name: string,
+    lastUsed = Date.now(),
+  ): RecordingWorkspace {
+    return {
+      id: crypto.randomUUID(),
+      name,
+      handle,
+      folderName: handle.name,
+      createdAt: lastUsed,
+      lastUsed,
+    };
+  }
+
+  /**
+   * Make a stored workspace the active one and check its folder
+   * A folder that no longer exists is forgotten
+   */
+  private async activateWorkspace(workspace: RecordingWorkspace): Promise<boolean> {
+    // Verify handle is still valid
+    const isValid = await this.verifyHandle(workspace.handle);
+    if (!isValid) {
+      await this.removeWorkspace(workspace.id);
+      this._errorMessage.set(
+        `The folder of the "${workspace.name}" workspace is no longer accessible`,
+      );
+      return false;
+    }
+
+    // Check permission state
+    const permission = await this.checkPermission(workspace.handle);
+
+    if (workspace.id !== this._activeWorkspaceId()) {
+      this.resetActiveWorkspace();
+    }
+
+    const backend = new DirectoryStorageBackend('folder', workspace.handle);
+    this._activeWorkspaceId.set(workspace.id);
+    this.setBackend(backend, workspace.folderName, permission);
+
+    // Update last used time, which also keeps this workspace active on the next load
+    await this.saveWorkspace({ ...workspace, lastUsed: Date.now() }, permission);
+    await this.saveStorageBackendKind('folder');
+
+    if (permission === 'granted') {
+      await this.detectInterruptedRecordings(backend);
+      // Applies the trash retention period even if the trash is never opened
+      await this.refreshTrash();
+    }
+
+    return true;
+  }
+
+  /**
+   * Activate a workspace whose folder was just chosen in the picker, which grants access
+   */
+  private async openPickedWorkspace(workspace: RecordingWorkspace): Promise<void> {
+    this.resetActiveWorkspace();
+    await this.saveWorkspace({ ...workspace, lastUsed: Date.now() }, 'granted');
+    await this.saveStorageBackendKind('folder');
+
+    const backend = new DirectoryStorageBackend('folder', workspace.handle);
+    this._activeWorkspaceId.set(workspace.id);
+    this.setBackend(backend, workspace.folderName, 'granted');
+    await this.detectInterruptedRecordings(backend);
+  }
+
+  /**
+   * Switch to browser storage or downloads, which need no permission
+   */
+  private async openStorageBackend(kind: 'opfs' | 'download'): Promise<void> {
+    await this.openBackend(
+      kind === 'opfs'
+        ? new DirectoryStorageBackend('opfs', await this.openBrowserStorage())
+        : new DownloadStorageBackend(),
+    );
+  }
+
+  /**
+   * Use a backend that is not tied to a workspace
+   */
+  private async openBackend(backend: RecordingStorageBackend): Promise<void> {
+    this.resetActiveWorkspace();
+    this.setBackend(backend, backend.limits.label, 'granted');
+    await this.detectInterruptedRecordings(backend);
+    await this.refreshTrash();
+  }
+
+  /**
+   * The recordings folder in the Origin Private File System, created on first use
+   */
+  private async openBrowserStorage(): Promise<FileSystemDirectoryHandle> {
+    if (!navigator.storage || !('getDirectory' in navigator.storage)) {
+      throw new FolderAccessError(
+        FolderAccessErrorCode.BROWSER_NOT_SUPPORTED,
+        'Browser storage is not supported in this browser',
+      );
+    }
+
+    const root = await navigator.storage.getDirectory();
+    // Ask the browser not to clear recordings when space runs low; it may decline
+    await navigator.storage.persist().catch(() => false);
+    return root.getDirectoryHandle(this.BROWSER_STORAGE_FOLDER, { create: true });
+  }
+
+  private setBackend(
+    backend: RecordingStorageBackend,
+    name: string,
+    permission: PermissionState,
+  ): void {
+    this._backend.set(backend);
+    this._folderHandle.set(backend.directory);
+    this._folderName.set(name);
+    this._permissionState.set(permission);
+  }
+
+  private async saveStorageBackendKind(kind: StorageBackendKind): Promise<void> {
+    const settings: StorageBackendSettings = { kind, lastUpdated: Date.now() };
+
+    try {
+      await this.indexedDb.set('preferences', this.STORAGE_BACKEND_KEY, settings);
+    } catch (error) {
+      console.error('Failed to save storage choice:', error);
+    }
+  }
+
+  /**
+   * Clear the active workspace and everything listed from its folder
+   */
+  private resetActiveWorkspace(): void {
+    this._activeWorkspaceId.set(null);
+    this._backend.set(null);
+    this._folderHandle.set(null);
+    this._folderName.set(null);
+    this._permissionState.set('unknown');
+    this._interruptedRecordings.set([]);
+    this._currentPath.set([]);
+    this.clearRecordingsState();
+  }
+
+  /**
+   * Save a workspace to IndexedDB and the workspace list
+   */
+  private async saveWorkspace(
+    workspace: RecordingWorkspace,
+    permissionState: PermissionState,
+  ): Promise<void> {
+    const stored: RecordingWorkspace = {
+      id: workspace.id,
+      name: workspace.name,
+      handle: workspace.handle,
+      folderName: workspace.folderName,
+      createdAt: workspace.createdAt,
+      lastUsed: workspace.lastUsed,
+    };
+
+    await this.indexedDb.put(this.WORKSPACES_STORE, stored);
+    this._workspaces.update((workspaces) =>
+      [
+        ...workspaces.filter((existing) => existing.id !== stored.id),
+        { ...stored, permissionState },
+      ].sort((a, b) => b.lastUsed - a.lastUsed),
+    );
+  }
+
+  /**
+   * Load stored workspaces with their current permission, most recently used first
+   */
+  private async loadWorkspaces(): Promise<RecordingWorkspaceView[]> {
+    const stored = await this.indexedDb.getAll<RecordingWorkspace>(this.WORKSPACES_STORE);
+    const workspaces = await Promise.all(
+      stored.map(async (workspace) => ({
+        ...workspace,
+        permissionState: await this.checkPermission(workspace.handle),
+      })),
+    );
+
+    workspaces.sort((a, b) => b.lastUsed - a.lastUsed);
+    this._workspaces.set(workspaces);
+    return workspaces;
+  }
+
+  /**
+   * Turn the single folder stored before workspaces existed into the first workspace
+   */
+  private async migrateLegacyFolder(): Promise<void> {
+    const storedData = await this.indexedDb.get<StoredFolderData>(
+      'handles',
+      this.LEGACY_STORAGE_KEY,
+    );
+
+    if (!storedData?.handle) {
+      return;
+    }
+
+    const lastAccessed = new Date(storedData.lastAccessed).getTime();
+    await this.indexedDb.put(
+      this.WORKSPACES_STORE,
+      this.createWorkspace(
+        storedData.handle,
+        storedData.folderName,
+        Number.isNaN(lastAccessed) ? Date.now() : lastAccessed,
+      ),
+    );
+    await this.indexedDb.delete('handles', this.LEGACY_STORAGE_KEY);
+  }
+
+  private findWorkspace(id: string): RecordingWorkspaceView | undefined {
+    return this._workspaces().find((workspace) => workspace.id === id);
+  }
+
+  private setWorkspacePermission(id: string, permission: PermissionState): void {
+    this._workspaces.update((workspaces) =>
+      workspaces.map((workspace) =>
+        workspace.id === id ? { ...workspace, permissionState: permission } : workspace,
+      ),
+    );
+
+    if (id === this._activeWorkspaceId()) {
+      this._permissionState.set(permission);
+    }
+  }
+
+  /**
+   * Why a workspace name cannot be used, or null if it is acceptable
+   */
+  private validateWorkspaceName(name: string, workspaceId: string | null): string | null {
+    if (!name) {
+      return 'Enter a workspace name';
+    }
+
+    if (name.length > this.MAX_WORKSPACE_NAME_LENGTH) {
+      return `Workspace names can be at most ${this.MAX_WORKSPACE_NAME_LENGTH} characters long`;
+    }
+
+    const taken = this._workspaces().some(
+      (workspace) =>
+        workspace.id !== workspaceId && workspace.name.toLowerCase() === name.toLowerCase(),
+    );
+    return taken ? `A workspace named "${name}" already exists` : null;
+  }
+
+  /**
+   * Verify that a folder handle is still valid
+   */
+  private async verifyHandle(handle: FileSystemDirectoryHandle): Promise<boolean> {
+    try {
+      // Try to iterate the directory to check if it still exists
+      const entries = handle.entries();
+      await entries.next();
+      return true;
+    } catch (error) {
+      // Without permission the folder cannot be read, but it may well still be there
+      return (error as Error).name !== 'NotFoundError';
+    }
+  }
+
+  /**
+   * Check permission state for a folder handle
+   */
+  private async checkPermission(handle: FileSystemDirectoryHandle): Promise<PermissionState> {
+    try {
+      const permission = await handle.queryPermission({ mode: 'readwrite' });
+      return permission;
+    } catch {
+      return 'unknown';
+    }
+  }
+
+  /**
+   * Save a whole recording file to the current storage, replacing any file at that path
+   * Used to write back recordings that were rewritten after recording, e.g. made seekable
+   * The file goes into the active workspace unless another one is given
+   */
+  async saveRecording(blob: Blob, path: string, workspaceId?: string): Promise<void> {
+    const backend = this.getGrantedBackend(workspaceId);
+
+    try {
+      await backend.write(path, blob);
+    } catch (error) {
+      console.error('Failed to save recording:', error);
+      throw new Error('Failed to save recording to folder');
+    }
+  }
+
+  /**
+   * Open a recording file in the current storage for incremental writes
+   * In a folder or browser storage the file stays marked as pending in IndexedDB
+   * until close() succeeds, which lets the next session offer to recover it.
+   * The file goes into the active workspace unless another one is given.
+   */
+  async openRecordingWriter(path: string, workspaceId?: string): Promise<RecordingFileWriter> {
+    const backend = this.getGrantedBackend(workspaceId);
+    const resolvedWorkspaceId = this.resolveWorkspaceId(workspaceId);
+
+    let stream: StorageWriteStream;
+    try {
+      stream = await backend.stream(path);
+    } catch (error) {
+      console.error('Failed to create recording file:', error);
+      throw new Error('Failed to create recording file in folder');
+    }
+
+    if (backend.directory) {
+      try {
+        await this.addPendingRecording({
+          filename: path,
+          folderHandle: backend.directory,
+          startedAt: Date.now(),
+        });
+      } catch (error) {
+        // Some browsers cannot store handles in IndexedDB; record without crash recovery
+        console.error('Failed to mark recording as pending:', error);
+      }
+    }
+    this.activeWriterNames.add(path);
+
+    let bytesWritten = 0;
+
+    const append = async (chunk: Blob): Promise<void> => {
+      try {
+        await stream.append(chunk);
+      } catch (error) {
+        console.error('Failed to append recording chunk:', error);
+        throw new Error('Failed to write recording to folder');
+      }
+      bytesWritten += chunk.size;
+    };
+
+    const close = async (): Promise<void> => {
+      try {
+        await stream.close();
+        await this.removePendingRecording(path);
+      } finally {
+        this.activeWriterNames.delete(path);
+      }
+    };
+
+    const abort = async (): Promise<void> => {
+      this.activeWriterNames.delete(path);
+
+      try {
+        await stream.abort();
+      } catch (error) {
+        console.error('Failed to remove aborted recording:', error);
+      }
+
+      await this.removePendingRecording(path);
+    };
+
+    return {
+      filename: path,
+      workspaceId: resolvedWorkspaceId,
+      storageLimits: backend.limits,
+      get bytesWritten() {
+        return bytesWritten;
+      },
+      append,
+      close,
+      abort,
+    };
+  }
+
+  /**
+   * Keep a recording left behind by an interrupted session
+   */
+  async recoverInterruptedRecording(path: string): Promise<void> {
+    await this.removePendingRecording(path);
+    this._interruptedRecordings.update((recordings) =>
+      recordings.filter((recording) => recording.path !== path),
+    );
+    await this.refreshRecordings();
+  }
+
+  /**
+   * Delete a recording left behind by an interrupted session
+   */
+  async discardInterruptedRecording(path: string): Promise<void> {
+    const backend = this.getGrantedBackend();
+
+    try {
+      await backend.delete(path);
+    } catch (error) {
+      console.error('Failed to discard interrupted recording:', error);
+    }
+
+    await this.removePendingRecording(path);
+    this._interruptedRecordings.update((recordings) =>
+      recordings.filter((recording) => recording.path !== path),
+    );
+  }
+
+  /**
+   * Reconcile listed files with the folder manifest
+   * Falls back to bare file info so the list still loads if the manifest cannot be read
+   * or written; a manifest that could not be read is left as it is
+   */
+  private async attachMetadata(
+    backend: RecordingStorageBackend,
+    folder: string[],
+    files: RecordingFileSummary[],
+  ): Promise<RecordingFileSummary[]> {
+    try {
+      return await this.manifest.reconcile(backend, folder, files);
+    } catch (error) {
+      console.error('Failed to reconcile recordings manifest:', error);
+      return files.map((file) => ({
+        ...file,
+        metadata: this.manifest.createDefaultMetadata(file),
+      }));
+    }
+  }
+
+  /**
+   * Find partially written recordings in the given storage from sessions that never finalized
+   * Markers whose file is gone or empty are dropped; only storage on a directory handle
+   * has markers
+   */
+  private async detectInterruptedRecordings(backend: RecordingStorageBackend): Promise<void> {
+    const handle = backend.directory;
+    if (!handle) {
+      this._interruptedRecordings.set([]);
+      return;
+    }
+
+    try {
+      const pending = await this.getPendingRecordings();
+      const remaining: PendingRecordingData[] = [];
+      const interrupted: RecordingFileSummary[] = [];
+
+      for (const entry of pending) {
+        if (this.activeWriterNames.has(entry.filename)) {
+          remaining.push(entry);
+          continue;
+        }
+
+        const isSameFolder = await entry.folderHandle.isSameEntry(handle).catch(() => false);
+        if (!isSameFolder) {
+          remaining.push(entry);
+          continue;
+        }
+
+        try {
+          const file = await backend.read(entry.filename);
+          if (file.size === 0) {
+            await backend.delete(entry.filename);
+            continue;
+          }
+
+          remaining.push(entry);
+          interrupted.push(this.toSummary(file, entry.filename));
+        } catch (error) {
+          // A file removed outside the app drops the marker; any other failure, such as
+          // access not granted again yet or a locked file, keeps it for the next check
+          if ((error as Error).name !== 'NotFoundError') {
+            console.error('Failed to check interrupted recording:', error);
+            remaining.push(entry);
+          }
+        }
+      }
+
+      await this.indexedDb.set('preferences', this.PENDING_RECORDINGS_KEY, remaining);
+      this._interruptedRecordings.set(interrupted);
+    } catch (error) {
+      console.error('Failed to detect interrupted recordings:', error);
+    }
+  }
+
+  private async getPendingRecordings(): Promise<PendingRecordingData[]> {
+    return (
+      (await this.indexedDb.get<PendingRecordingData[]>(
+        'preferences',
+        this.PENDING_RECORDINGS_KEY,
+      )) ?? []
+    );
+  }
+
+  private async addPendingRecording(entry: PendingRecordingData): Promise<void> {
+    const pending = await this.getPendingRecordings();
+    await this.indexedDb.set('preferences', this.PENDING_RECORDINGS_KEY, [
+      ...pending.filter((item) => item.filename !== entry.filename),
+      entry,
+    ]);
+  }
+
+  private async removePendingRecording(filename: string): Promise<void> {
+    const pending = await this.getPendingRecordings();
+    await this.indexedDb.set(
+      'preferences',
+      this.PENDING_RECORDINGS_KEY,
+      pending.filter((item) => item.filename !== filename),
+    );
+  }
+
+  private findRecording(path: string): RecordingFileSummary | undefined {
+    return this._recordings().find((recording) => recording.path === path);
+  }
+
+  private toSummary(file: File, path: string): RecordingFileSummary {
+    return {
+      name: this.basename(path),
+      path,
+      mimeType: file.type,
+      size: file.size,
+      lastModified: file.lastModified,
+    };
+  }
+
+  private basename(path: string): string {
+    return splitPath(path).pop() ?? path;
+  }
+
+  /**
+   * Why a file or folder name cannot be used, or null if it is acceptable
+   */
+  private validateEntryName(name: string, kind: 'File' | 'Folder'): string | null {
+    if (!name) {
+      return `Enter a ${kind.toLowerCase()} name`;
+    }
+
+    if (name.length > 255) {
+      return `${kind} names can be at most 255 characters long`;
+    }
+
+    if (
+      INVALID_FILENAME_CHARACTERS.test(name) ||
+      [...name].some((character) => character.charCodeAt(0) < 32)
+    ) {
+      return `${kind} names cannot contain \\ / : * ? " < > |`;
+    }
+
+    if (name.startsWith('.') || name.endsWith('.')) {
+      return `${kind} names cannot start or end with a dot`;
+    }
+
+    if (RESERVED_FILENAMES.test(name)) {
+      return `"${name.split('.')[0]}" is a reserved name on Windows`;
+    }
+
+    return null;
+  }
+
+  private assertNotBeingWritten(path: string): void {
+    if (this.activeWriterNames.has(path)) {
+      throw new Error('This recording is still being written');
+    }
+  }
+
+  /**
+   * Whether a file or folder in the given folder already uses the name
+   * Names are compared ignoring case, as they clash on case-insensitive file systems;
+   * except is a name that may be ignored, e.g. the file being renamed
+   */
+  private async isNameTaken(
+    backend: RecordingStorageBackend,
+    folder: string[],
+    name: string,
+    except?: string,
+  ): Promise<boolean> {
+    const taken = await this.listTakenNames(backend, folder);
+    return taken.has(name.toLowerCase()) && name.toLowerCase() !== except?.toLowerCase();
+  }
+
+  /**
+   * The given name, or the first free numbered variant of it
+   */
+  private async findAvailableName(
+    backend: RecordingStorageBackend,
+    folder: string[],
+    filename: string,
+  ): Promise<string> {
+    const taken = await this.listTakenNames(backend, folder);
+    const extensionIndex = filename.lastIndexOf('.');
+    const base = extensionIndex > 0 ? filename.slice(0, extensionIndex) : filename;
+    const extension = extensionIndex > 0 ? filename.slice(extensionIndex) : '';
+
+    let candidate = filename;
+    for (let counter = 2; taken.has(candidate.toLowerCase()); counter++) {
+      candidate = `${base} (${counter})${extension}`;
+    }
+    return candidate;
+  }
+
+  /**
+   * Lower-cased names of the files and folders in a folder; none if it does not exist yet
+   */
+  private async listTakenNames(
+    backend: RecordingStorageBackend,
+    folder: string[],
+  ): Promise<Set<string>> {
+    let listing: StorageListing;
+    try {
+      listing = await backend.list(folder);
+    } catch (error) {
+      if ((error as Error).name === 'NotFoundError') {
+        return new Set();
+      }
+      throw error;
+    }
+
+    return new Set(
+      [...listing.folders, ...listing.files.map((file) => file.name)].map((name) =>
+        name.toLowerCase(),
+      ),
+    );
+  }
+
+  /**
+   * Return the given workspace's storage, throwing if it is missing or not writable
+   * Without an id, or for a workspace that has been removed, the current storage is used
+   */
+  private getGrantedBackend(workspaceId?: string): RecordingStorageBackend {
+    const workspace = workspaceId ? this.findWorkspace(workspaceId) : undefined;
+    if (workspace && workspace.id !== this._activeWorkspaceId()) {
+      if (workspace.permissionState !== 'granted') {
+        throw new FolderAccessError(
+          FolderAccessErrorCode.PERMISSION_DENIED,
+          `Access to the "${workspace.name}" workspace needs to be granted again`,
+        );
+      }
+
+      return new DirectoryStorageBackend('folder', workspace.handle);
+    }
+
+    const backend = this._backend();
+    if (!backend) {
+      throw new FolderAccessError(FolderAccessErrorCode.NOT_FOUND, 'No folder selected');
+    }
+
+    if (this._permissionState() !== 'granted') {
+      throw new FolderAccessError(
+        FolderAccessErrorCode.PERMISSION_DENIED,
+        'Permission not granted',
+      );
+    }
+
+    return backend;
+  }
+
+  /**
+   * Id of the workspace that getGrantedBackend() uses for the given id
+   * (null when recordings are not kept in a workspace)
+   */
+  private resolveWorkspaceId(workspaceId?: string): string | null {
+    return workspaceId && this.findWorkspace(workspaceId) ? workspaceId : this._activeWorkspaceId();
+  }
+
+  /**
+   * Check whether a recording holds audio only, by MIME type or file extension
+   */
+  isAudioRecording(recording: RecordingFileSummary): boolean {
+    if (recording.mimeType.startsWith('audio/')) {
+      return true;
+    }
+
+    const extension = recording.name.split('.').pop()?.toLowerCase() ?? '';
+    return ['mp3', 'wav', 'm4a', 'ogg', 'opus'].includes(extension);
+  }
+
+  /**
+   * Dot-files hold app data or are left over from an interrupted rename, like ".rename-…"
+   */
+  private isRecordingFile(filename: string): boolean {
+    if (filename.startsWith('.')) {
+      return false;
+    }
+
     const extension = filename.split('.').pop()?.toLowerCase() ?? '';
     const supportedExtensions = new Set([
       'webm',
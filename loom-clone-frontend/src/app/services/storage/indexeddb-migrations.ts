@@ -0,0 +1,89 @@
+import { IndexedDbMigration } from '../../models/storage.models';
+import {
+  MediaDeviceKind,
+  SelectedMediaDevices,
+  legacyEmptyDeviceSelectionKey,
+} from '../../models/media.models';
+
+/**
+ * Device selection shape written before selection keys were introduced
+ */
+interface LegacyDeviceSelection {
+  id: 'current';
+  cameraSelectionKey?: string | null;
+  microphoneSelectionKey?: string | null;
+  cameraDeviceId?: string | null;
+  microphoneDeviceId?: string | null;
+  lastSelected: number;
+}
+
+/**
+ * Map a legacy deviceId to the selection key format used by MediaDevicesService
+ * Empty device IDs (stored before permission was granted) cannot be matched to a device
+ * without enumerating, so they get a placeholder key that is resolved once devices are listed
+ */
+function toSelectionKey(deviceId: string | null | undefined, kind: MediaDeviceKind): string | null {
+  if (deviceId === null || deviceId === undefined) {
+    return null;
+  }
+
+  const normalizedDeviceId = deviceId.trim();
+  return normalizedDeviceId.length > 0
+    ? `${kind}:id:${normalizedDeviceId}`
+    : legacyEmptyDeviceSelectionKey(kind);
+}
+
+function migrateLegacyDeviceSelection(value: unknown): SelectedMediaDevices | undefined {
+  const selection = value as LegacyDeviceSelection | null;
+  if (!selection || !('cameraDeviceId' in selection || 'microphoneDeviceId' in selection)) {
+    return undefined;
+  }
+
+  return {
+    id: 'current',
+    cameraSelectionKey:
+      selection.cameraSelectionKey ?? toSelectionKey(selection.cameraDeviceId, 'videoinput'),
+    microphoneSelectionKey:
+      selection.microphoneSelectionKey ??
+      toSelectionKey(selection.microphoneDeviceId, 'audioinput'),
+    lastSelected: selection.lastSelected,
+  };
+}
+
+/**
+ * Ordered schema history for the loom-clone-storage database
+ * Append new steps with the next version number; never edit a step that has shipped
+ */
+export const INDEXED_DB_MIGRATIONS: readonly IndexedDbMigration[] = [
+  {
+    version: 1,
+    description: 'Create folder handle and preference stores',
+    createStores: [{ name: 'handles' }, { name: 'preferences' }],
+  },
+  {
+    version: 2,
+    description: 'Create device selection store',
+    createStores: [{ name: 'deviceSelections' }],
+  },
+  {
+    version: 3,
+    description: 'Convert legacy camera/microphone deviceId selections to selection keys',
+    transformRecords: [{ storeName: 'deviceSelections', transform: migrateLegacyDeviceSelection }],
+  },
+  {
+    version: 4,
+    description: 'Create recording thumbnail cache store',
+    createStores: [
+      {
+        name: 'thumbnails',
+        options: { keyPath: 'key' },
+        indexes: [{ name: 'name', keyPath: 'name' }],
+      },
+    ],
+  },
+  {
+    version: 5,
+    description: 'Create recording workspace store',
+    createStores: [{ name: 'workspaces', options: { keyPath: 'id' } }],
+  },
+];
@@ -0,0 +1,238 @@
+import { TestBed } from '@angular/core/testing';
+import { legacyEmptyDeviceSelectionKey } from '../../models/media.models';
+import { INDEXED_DB_MIGRATIONS } from './indexeddb-migrations';
+import { IndexedDbService } from './indexeddb.service';
+
+const DB_NAME = 'loom-clone-storage';
+
+interface CachedThumbnail {
+  key: string;
+  name: string;
+  size: number;
+}
+
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function deleteDatabase(): Promise<unknown> {
+  return settle(indexedDB.deleteDatabase(DB_NAME));
+}
+
+async function openRaw(version?: number): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, version);
+  if (version === 2) {
+    // The schema as it was before migrations existed
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore('handles');
+      request.result.createObjectStore('preferences');
+      request.result.createObjectStore('deviceSelections');
+    };
+  }
+  return settle(request);
+}
+
+async function putRaw(db: IDBDatabase, storeName: string, value: unknown, key: string) {
+  const transaction = db.transaction(storeName, 'readwrite');
+  transaction.objectStore(storeName).put(value, key);
+  await new Promise((resolve) => (transaction.oncomplete = resolve));
+}
+
+function migrateDeviceSelection(value: unknown): unknown {
+  const migration = INDEXED_DB_MIGRATIONS.find((step) => step.version === 3)!;
+  return migration.transformRecords![0].transform(value, 'current');
+}
+
+describe('IndexedDbService', () => {
+  let service: IndexedDbService;
+
+  beforeEach(async () => {
+    await deleteDatabase();
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(IndexedDbService);
+  });
+
+  afterAll(async () => {
+    await deleteDatabase();
+  });
+
+  describe('migrations', () => {
+    it('are numbered from 1 in ascending order without gaps', () => {
+      expect(INDEXED_DB_MIGRATIONS.map((migration) => migration.version)).toEqual(
+        INDEXED_DB_MIGRATIONS.map((_, index) => index + 1),
+      );
+    });
+
+    it('create every store on a fresh database', async () => {
+      await service.getAll('workspaces');
+
+      const db = await openRaw();
+      expect(db.version).toBe(INDEXED_DB_MIGRATIONS.length);
+      expect([...db.objectStoreNames].sort()).toEqual([
+        'deviceSelections',
+        'handles',
+        'preferences',
+        'thumbnails',
+        'workspaces',
+      ]);
+      expect([...db.transaction('thumbnails').objectStore('thumbnails').indexNames]).toEqual([
+        'name',
+      ]);
+      db.close();
+    });
+
+    it('upgrade a version 2 database and keep its records', async () => {
+      const legacy = await openRaw(2);
+      await putRaw(legacy, 'preferences', { retentionDays: 7 }, 'trash-settings');
+      await putRaw(
+        legacy,
+        'deviceSelections',
+        { id: 'current', cameraDeviceId: '', microphoneDeviceId: 'mic-1', lastSelected: 5 },
+        'current',
+      );
+      legacy.close();
+
+      expect(await service.get('preferences', 'trash-settings')).toEqual({ retentionDays: 7 });
+      expect(await service.get('deviceSelections', 'current')).toEqual({
+        id: 'current',
+        cameraSelectionKey: legacyEmptyDeviceSelectionKey('videoinput'),
+        microphoneSelectionKey: 'audioinput:id:mic-1',
+        lastSelected: 5,
+      });
+      expect(await service.getAll('workspaces')).toEqual([]);
+    });
+
+    it('convert legacy device IDs to selection keys', () => {
+      expect(
+        migrateDeviceSelection({
+          id: 'current',
+          cameraDeviceId: ' cam-1 ',
+          microphoneDeviceId: null,
+          lastSelected: 1,
+        }),
+      ).toEqual({
+        id: 'current',
+        cameraSelectionKey: 'videoinput:id:cam-1',
+        microphoneSelectionKey: null,
+        lastSelected: 1,
+      });
+    });
+
+    it('keep an empty legacy device ID for matching once devices are enumerated', () => {
+      const migrated = migrateDeviceSelection({
+        id: 'current',
+        cameraDeviceId: null,
+        microphoneDeviceId: '  ',
+        lastSelected: 1,
+      }) as { microphoneSelectionKey: string | null };
+
+      expect(migrated.microphoneSelectionKey).toBe(legacyEmptyDeviceSelectionKey('audioinput'));
+    });
+
+    it('leave selections that already use selection keys unchanged', () => {
+      expect(
+        migrateDeviceSelection({
+          id: 'current',
+          cameraSelectionKey: 'videoinput:id:cam-1',
+          microphoneSelectionKey: null,
+          lastSelected: 1,
+        }),
+      ).toBeUndefined();
+    });
+  });
+
+  describe('queries', () => {
+    const thumbnails: CachedThumbnail[] = [
+      { key: 'a-1', name: 'a.webm', size: 1 },
+      { key: 'a-2', name: 'a.webm', size: 2 },
+      { key: 'b-1', name: 'b.webm', size: 3 },
+    ];
+
+    beforeEach(async () => {
+      for (const thumbnail of thumbnails) {
+        await service.put('thumbnails', thumbnail);
+      }
+    });
+
+    it('get every record of a store or a key range', async () => {
+      expect(await service.getAll<CachedThumbnail>('thumbnails')).toEqual(thumbnails);
+      expect(
+        await service.getAll<CachedThumbnail>('thumbnails', IDBKeyRange.bound('a', 'a\uffff')),
+      ).toEqual(thumbnails.slice(0, 2));
+    });
+
+    it('get records by index', async () => {
+      expect(await service.getByIndex('thumbnails', 'name', 'b.webm')).toEqual(thumbnails[2]);
+      expect(await service.getByIndex('thumbnails', 'name', 'c.webm')).toBeUndefined();
+      expect(await service.getAllByIndex('thumbnails', 'name', 'a.webm')).toEqual(
+        thumbnails.slice(0, 2),
+      );
+    });
+
+    it('return nothing for a store that does not exist', async () => {
+      expect(await service.get('missing', 'key')).toBeUndefined();
+      expect(await service.getAll('missing')).toEqual([]);
+      expect(await service.getAllByIndex('missing', 'name')).toEqual([]);
+    });
+
+    it('iterate in either direction and stop when the callback returns false', async () => {
+      const keys: string[] = [];
+      await service.iterate<CachedThumbnail>(
+        'thumbnails',
+        (value) => {
+          keys.push(value.key);
+          return keys.length < 2;
+        },
+        { direction: 'prev' },
+      );
+
+      expect(keys).toEqual(['b-1', 'a-2']);
+    });
+
+    it('iterate over an index', async () => {
+      const sizes: number[] = [];
+      await service.iterate<CachedThumbnail>('thumbnails', (value) => void sizes.push(value.size), {
+        indexName: 'name',
+        query: 'a.webm',
+      });
+
+      expect(sizes).toEqual([1, 2]);
+    });
+
+    it('commit a transaction across stores once its work is done', async () => {
+      const result = await service.transaction(
+        ['thumbnails', 'preferences'],
+        'readwrite',
+        async (transaction) => {
+          await service.requestToPromise(transaction.objectStore('thumbnails').delete('b-1'));
+          transaction.objectStore('preferences').put(true, 'flag');
+          return 'done';
+        },
+      );
+
+      expect(result).toBe('done');
+      expect(await service.get('thumbnails', 'b-1')).toBeUndefined();
+      expect(await service.get('preferences', 'flag')).toBeTrue();
+    });
+
+    it('roll back a transaction whose work fails', async () => {
+      await expectAsync(
+        service.transaction(['thumbnails'], 'readwrite', async (transaction) => {
+          await service.requestToPromise(transaction.objectStore('thumbnails').clear());
+          throw new Error('work failed');
+        }),
+      ).toBeRejectedWithError('work failed');
+
+      expect(await service.getAll('thumbnails')).toEqual(thumbnails);
+    });
+
+    it('reject a transaction on a store that does not exist', async () => {
+      await expectAsync(
+        service.transaction(['missing'], 'readonly', () => undefined),
+      ).toBeRejectedWithError('IndexedDB store not found: missing');
+    });
+  });
+});
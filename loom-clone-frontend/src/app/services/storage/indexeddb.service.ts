@@ -1,15 +1,21 @@
 import { Injectable } from '@angular/core';
+import { IndexedDbIterateOptions, IndexedDbMigration } from '../../models/storage.models';
+import { INDEXED_DB_MIGRATIONS } from './indexeddb-migrations';
 
 /**
  * Generic IndexedDB service for storing and retrieving data
  * Provides a simple wrapper around IndexedDB operations
+ *
+ * The schema is defined by the ordered migrations in indexeddb-migrations.ts;
+ * the database version is always the version of the last migration
  */
 @Injectable({
   providedIn: 'root',
 })
 export class IndexedDbService {
   private readonly DB_NAME = 'loom-clone-storage';
-  private readonly DB_VERSION = 2;
+  private readonly migrations: readonly IndexedDbMigration[] = INDEXED_DB_MIGRATIONS;
+  private readonly DB_VERSION = this.migrations[this.migrations.length - 1].version;
   private dbPromise: Promise<IDBDatabase> | null = null;
 
   /**
@@ -31,36 +37,106 @@ export class IndexedDbService {
       const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
 
       request.onerror = () => {
+        this.dbPromise = null;
         reject(new Error('Failed to open IndexedDB database'));
       };
 
+      request.onblocked = () => {
+        console.warn('IndexedDB upgrade is blocked by another open tab');
+      };
+
       request.onsuccess = () => {
-        resolve(request.result);
+        const db = request.result;
+
+        // Let a newer version opened in another tab upgrade; reopen lazily on next use
+        db.onversionchange = () => {
+          db.close();
+          this.dbPromise = null;
+        };
+
+        resolve(db);
       };
 
       request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-
-        // Create object stores if they don't exist
-        if (!db.objectStoreNames.contains('handles')) {
-          db.createObjectStore('handles');
-        }
-        if (!db.objectStoreNames.contains('preferences')) {
-          db.createObjectStore('preferences');
-        }
-        if (!db.objectStoreNames.contains('deviceSelections')) {
-          db.createObjectStore('deviceSelections');
+        const db = request.result;
+        const transaction = request.transaction;
+        if (!transaction) {
+          return;
         }
+
+        this.runMigrations(db, transaction, event.oldVersion);
       };
     });
 
     return this.dbPromise;
   }
 
+  /**
+   * Apply every migration newer than the stored version, in order,
+   * inside the versionchange transaction
+   */
+  private runMigrations(db: IDBDatabase, transaction: IDBTransaction, oldVersion: number): void {
+    const pending = this.migrations.filter((migration) => migration.version > oldVersion);
+
+    for (const migration of pending) {
+      for (const storeDefinition of migration.createStores ?? []) {
+        if (this.hasStore(db, storeDefinition.name)) {
+          continue;
+        }
+
+        const store = db.createObjectStore(storeDefinition.name, storeDefinition.options);
+        for (const index of storeDefinition.indexes ?? []) {
+          store.createIndex(index.name, index.keyPath, index.options);
+        }
+      }
+
+      for (const { storeName, indexes } of migration.createIndexes ?? []) {
+        const store = transaction.objectStore(storeName);
+        for (const index of indexes) {
+          if (!store.indexNames.contains(index.name)) {
+            store.createIndex(index.name, index.keyPath, index.options);
+          }
+        }
+      }
+
+      for (const { storeName, transform } of migration.transformRecords ?? []) {
+        if (!this.hasStore(db, storeName)) {
+          continue;
+        }
+
+        const cursorRequest = transaction.objectStore(storeName).openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) {
+            return;
+          }
+
+          const updated = transform(cursor.value, cursor.primaryKey);
+          if (updated !== undefined) {
+            cursor.update(updated);
+          }
+          cursor.continue();
+        };
+      }
+    }
+  }
+
+  /**
+   * Wrap an IDBRequest in a Promise
+   * Safe to await inside transaction() work, as the transaction stays active
+   * while its requests resolve
+   */
+  requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+    });
+  }
+
   /**
    * Get a value from the specified object store
    */
-  async get<T>(storeName: string, key: string): Promise<T | undefined> {
+  async get<T>(storeName: string, key: IDBValidKey): Promise<T | undefined> {
     try {
       const db = await this.openDatabase();
 
@@ -88,10 +164,159 @@ export class IndexedDbService {
     }
   }
 
+  /**
+   * Get every value in the specified object store
+   */
+  async getAll<T>(storeName: string, query?: IDBValidKey | IDBKeyRange): Promise<T[]> {
+    try {
+      const db = await this.openDatabase();
+
+      if (!this.hasStore(db, storeName)) {
+        console.warn(`IndexedDB store not found: ${storeName}`);
+        return [];
+      }
+
+      const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+      return (await this.requestToPromise(store.getAll(query))) as T[];
+    } catch (error) {
+      console.error('IndexedDB getAll error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the first value matching a key in an index
+   */
+  async getByIndex<T>(
+    storeName: string,
+    indexName: string,
+    query: IDBValidKey | IDBKeyRange,
+  ): Promise<T | undefined> {
+    try {
+      const db = await this.openDatabase();
+
+      if (!this.hasStore(db, storeName)) {
+        console.warn(`IndexedDB store not found: ${storeName}`);
+        return undefined;
+      }
+
+      const index = db.transaction(storeName, 'readonly').objectStore(storeName).index(indexName);
+      return (await this.requestToPromise(index.get(query))) as T | undefined;
+    } catch (error) {
+      console.error('IndexedDB getByIndex error:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Get every value matching a key or range in an index
+   */
+  async getAllByIndex<T>(
+    storeName: string,
+    indexName: string,
+    query?: IDBValidKey | IDBKeyRange,
+  ): Promise<T[]> {
+    try {
+      const db = await this.openDatabase();
+
+      if (!this.hasStore(db, storeName)) {
+        console.warn(`IndexedDB store not found: ${storeName}`);
+        return [];
+      }
+
+      const index = db.transaction(storeName, 'readonly').objectStore(storeName).index(indexName);
+      return (await this.requestToPromise(index.getAll(query))) as T[];
+    } catch (error) {
+      console.error('IndexedDB getAllByIndex error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Walk a store or index with a cursor
+   * Return false from the callback to stop early
+   */
+  async iterate<T>(
+    storeName: string,
+    callback: (value: T, key: IDBValidKey) => boolean | void,
+    options: IndexedDbIterateOptions = {},
+  ): Promise<void> {
+    const db = await this.openDatabase();
+
+    if (!this.hasStore(db, storeName)) {
+      console.warn(`IndexedDB store not found: ${storeName}`);
+      return;
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+      const source = options.indexName ? store.index(options.indexName) : store;
+      const request = source.openCursor(options.query, options.direction);
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve();
+          return;
+        }
+
+        if (callback(cursor.value as T, cursor.primaryKey) === false) {
+          resolve();
+          return;
+        }
+
+        cursor.continue();
+      };
+
+      request.onerror = () => {
+        reject(new Error(`Failed to iterate ${storeName}`));
+      };
+    });
+  }
+
+  /**
+   * Run work against several stores in one transaction
+   * Resolves with the work result once the transaction has committed
+   */
+  async transaction<T>(
+    storeNames: string[],
+    mode: IDBTransactionMode,
+    work: (transaction: IDBTransaction) => Promise<T> | T,
+  ): Promise<T> {
+    const db = await this.openDatabase();
+
+    const missingStore = storeNames.find((storeName) => !this.hasStore(db, storeName));
+    if (missingStore) {
+      throw new Error(`IndexedDB store not found: ${missingStore}`);
+    }
+
+    const transaction = db.transaction(storeNames, mode);
+    const completed = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error ?? new Error('Transaction failed'));
+      transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+    });
+
+    try {
+      const result = await work(transaction);
+      await completed;
+      return result;
+    } catch (error) {
+      // Aborting rejects completed as well; the work's error is the one reported
+      completed.catch(() => undefined);
+      try {
+        transaction.abort();
+      } catch {
+        // Transaction already finished
+      }
+      throw error;
+    }
+  }
+
   /**
    * Set a value in the specified object store
    */
-  async set<T>(storeName: string, key: string, value: T): Promise<void> {
+  async set<T>(storeName: string, key: IDBValidKey, value: T): Promise<void> {
     const db = await this.openDatabase();
 
     if (!this.hasStore(db, storeName)) {
@@ -114,10 +339,29 @@ export class IndexedDbService {
     });
   }
 
+  /**
+   * Put a value into a store that uses in-line keys (a keyPath)
+   */
+  async put<T>(storeName: string, value: T): Promise<void> {
+    const db = await this.openDatabase();
+
+    if (!this.hasStore(db, storeName)) {
+      console.warn(`IndexedDB store not found: ${storeName}`);
+      return;
+    }
+
+    const store = db.transaction(storeName, 'readwrite').objectStore(storeName);
+    try {
+      await this.requestToPromise(store.put(value));
+    } catch {
+      throw new Error(`Failed to put value in ${storeName}`);
+    }
+  }
+
   /**
    * Delete a value from the specified object store
    */
-  async delete(storeName: string, key: string): Promise<void> {
+  async delete(storeName: string, key: IDBValidKey | IDBKeyRange): Promise<void> {
     const db = await this.openDatabase();
 
     if (!this.hasStore(db, storeName)) {
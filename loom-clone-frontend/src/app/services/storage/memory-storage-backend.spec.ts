@@ -0,0 +1,74 @@
+import { MemoryStorageBackend } from './memory-storage-backend';
+import { STORAGE_BACKEND_LIMITS } from './storage-backend-limits';
+
+describe('MemoryStorageBackend', () => {
+  let backend: MemoryStorageBackend;
+
+  beforeEach(() => {
+    backend = new MemoryStorageBackend();
+  });
+
+  it('lists the files and subfolders of one folder', async () => {
+    await backend.write('top.webm', new Blob(['a']));
+    await backend.write('2026/10/clip.webm', new Blob(['b']));
+    await backend.write('2026/notes.webm', new Blob(['c']));
+
+    const top = await backend.list([]);
+    const year = await backend.list(['2026']);
+
+    expect(top.files.map((file) => file.name)).toEqual(['top.webm']);
+    expect(top.folders).toEqual(['2026']);
+    expect(year.files.map((file) => file.name)).toEqual(['notes.webm']);
+    expect(year.folders).toEqual(['10']);
+  });
+
+  it('rejects missing files and folders with NotFoundError', async () => {
+    await expectAsync(backend.read('missing.webm')).toBeRejectedWith(
+      jasmine.objectContaining({ name: 'NotFoundError' }),
+    );
+    await expectAsync(backend.list(['missing'])).toBeRejectedWith(
+      jasmine.objectContaining({ name: 'NotFoundError' }),
+    );
+  });
+
+  it('grows a streamed file with every chunk and removes it on abort', async () => {
+    const stream = await backend.stream('take.webm');
+    await stream.append(new Blob(['ab'], { type: 'video/webm' }));
+    await stream.append(new Blob(['cd'], { type: 'video/webm' }));
+
+    const file = await backend.read('take.webm');
+    expect(await file.text()).toBe('abcd');
+    expect(file.type).toBe('video/webm');
+
+    await stream.abort();
+    expect((await backend.list([])).files).toEqual([]);
+  });
+
+  it('moves a file into folders it creates, keeping its type and last-modified time', async () => {
+    await backend.write('take.webm', new Blob(['ab'], { type: 'video/webm' }));
+    const original = await backend.read('take.webm');
+
+    const moved = await backend.move('take.webm', '2026/10/renamed.webm');
+
+    expect(moved.name).toBe('renamed.webm');
+    expect(moved.type).toBe('video/webm');
+    expect(moved.lastModified).toBe(original.lastModified);
+    expect(await (await backend.read('2026/10/renamed.webm')).text()).toBe('ab');
+    await expectAsync(backend.read('take.webm')).toBeRejectedWith(
+      jasmine.objectContaining({ name: 'NotFoundError' }),
+    );
+  });
+
+  it('keeps created folders while they are empty', async () => {
+    await backend.createFolder(['2026', '10']);
+
+    expect((await backend.list([])).folders).toEqual(['2026']);
+    expect(await backend.list(['2026', '10'])).toEqual({ files: [], folders: [] });
+  });
+
+  it('reports the limits of memory storage', () => {
+    expect(backend.kind).toBe('memory');
+    expect(backend.limits).toBe(STORAGE_BACKEND_LIMITS.memory);
+    expect(backend.limits.survivesReload).toBeFalse();
+  });
+});
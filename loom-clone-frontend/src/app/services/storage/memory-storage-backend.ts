@@ -0,0 +1,129 @@
+import {
+  RecordingStorageBackend,
+  StorageListing,
+  StorageUsage,
+  StorageWriteStream,
+} from '../../models/storage.models';
+import { STORAGE_BACKEND_LIMITS } from './storage-backend-limits';
+
+/**
+ * Storage backend that keeps files in a map, so services can be tested without a file system
+ * Folders exist once created or while they hold a file
+ */
+export class MemoryStorageBackend implements RecordingStorageBackend {
+  readonly kind = 'memory';
+  readonly limits = STORAGE_BACKEND_LIMITS.memory;
+  readonly directory = null;
+
+  private readonly files = new Map<string, File>();
+  private readonly folders = new Set<string>();
+
+  async list(folder: string[]): Promise<StorageListing> {
+    const prefix = folder.map((segment) => `${segment}/`).join('');
+    const files: File[] = [];
+    const folders = new Set<string>();
+
+    for (const [path, file] of this.files) {
+      if (!path.startsWith(prefix)) {
+        continue;
+      }
+
+      const [name, ...rest] = path.slice(prefix.length).split('/');
+      if (rest.length === 0) {
+        files.push(file);
+      } else {
+        folders.add(name);
+      }
+    }
+
+    for (const path of this.folders) {
+      if (path.startsWith(prefix)) {
+        folders.add(path.slice(prefix.length).split('/')[0]);
+      }
+    }
+
+    const isEmpty = files.length === 0 && folders.size === 0;
+    if (folder.length > 0 && isEmpty && !this.folders.has(folder.join('/'))) {
+      throw this.notFound(folder.join('/'));
+    }
+
+    return { files, folders: [...folders] };
+  }
+
+  async read(path: string): Promise<File> {
+    const file = this.files.get(this.normalize(path));
+    if (!file) {
+      throw this.notFound(path);
+    }
+    return file;
+  }
+
+  async write(path: string, data: Blob): Promise<void> {
+    this.files.set(this.normalize(path), this.toFile(path, [data], data.type));
+  }
+
+  async stream(path: string): Promise<StorageWriteStream> {
+    const key = this.normalize(path);
+    const chunks: Blob[] = [];
+    this.files.set(key, this.toFile(path, chunks, ''));
+
+    return {
+      // The file grows with every chunk, like one streamed to disk
+      append: async (chunk) => {
+        chunks.push(chunk);
+        this.files.set(key, this.toFile(path, chunks, chunks[0].type));
+      },
+      close: async () => undefined,
+      abort: async () => {
+        this.files.delete(key);
+      },
+    };
+  }
+
+  async delete(path: string): Promise<void> {
+    if (!this.files.delete(this.normalize(path))) {
+      throw this.notFound(path);
+    }
+  }
+
+  async move(path: string, newPath: string): Promise<File> {
+    const file = await this.read(path);
+    this.files.delete(this.normalize(path));
+    const moved = new File([file], newPath.split('/').pop() ?? newPath, {
+      type: file.type,
+      lastModified: file.lastModified,
+    });
+    this.files.set(this.normalize(newPath), moved);
+    return moved;
+  }
+
+  async createFolder(folder: string[]): Promise<void> {
+    for (let depth = 1; depth <= folder.length; depth++) {
+      this.folders.add(folder.slice(0, depth).join('/'));
+    }
+  }
+
+  async estimateUsage(): Promise<StorageUsage | null> {
+    let usage = 0;
+    for (const file of this.files.values()) {
+      usage += file.size;
+    }
+    return { usage, quota: Number.POSITIVE_INFINITY };
+  }
+
+  private normalize(path: string): string {
+    return path
+      .split('/')
+      .filter((segment) => segment.length > 0)
+      .join('/');
+  }
+
+  private toFile(path: string, parts: Blob[], type: string): File {
+    const name = path.split('/').pop() ?? path;
+    return new File(parts, name, { type, lastModified: Date.now() });
+  }
+
+  private notFound(path: string): DOMException {
+    return new DOMException(`"${path}" does not exist`, 'NotFoundError');
+  }
+}
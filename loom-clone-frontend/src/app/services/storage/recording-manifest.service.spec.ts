@@ -0,0 +1,103 @@
+import { RecordingFileSummary } from '../../models/media.models';
+import { RecordingManifest } from '../../models/storage.models';
+import { MemoryStorageBackend } from './memory-storage-backend';
+import { RecordingManifestService } from './recording-manifest.service';
+
+function summary(path: string, size: number, lastModified: number): RecordingFileSummary {
+  return {
+    name: path.split('/').pop()!,
+    path,
+    mimeType: 'video/webm',
+    size,
+    lastModified,
+  };
+}
+
+async function readManifest(
+  backend: MemoryStorageBackend,
+  folder: string[],
+): Promise<RecordingManifest> {
+  const file = await backend.read([...folder, '.loom-manifest.json'].join('/'));
+  return JSON.parse(await file.text()) as RecordingManifest;
+}
+
+describe('RecordingManifestService', () => {
+  let backend: MemoryStorageBackend;
+  let manifest: RecordingManifestService;
+
+  beforeEach(() => {
+    backend = new MemoryStorageBackend();
+    manifest = new RecordingManifestService();
+  });
+
+  it('gives files it has not seen default metadata', async () => {
+    const [recording] = await manifest.reconcile(backend, [], [summary('demo.webm', 10, 1000)]);
+
+    expect(recording.metadata?.title).toBe('demo');
+    expect(recording.metadata?.createdAt).toBe(1000);
+    expect(Object.keys((await readManifest(backend, [])).recordings)).toEqual(['demo.webm']);
+  });
+
+  it('keeps one manifest per folder', async () => {
+    await manifest.updateEntry(backend, ['2026', '10'], summary('2026/10/a.webm', 10, 1000), {
+      title: 'October',
+    });
+
+    expect(await manifest.getEntry(backend, [], 'a.webm')).toBeNull();
+    expect((await manifest.getEntry(backend, ['2026', '10'], 'a.webm'))?.title).toBe('October');
+  });
+
+  it('follows a file renamed outside the app by size and last-modified time', async () => {
+    await manifest.updateEntry(backend, [], summary('old.webm', 42, 5000), { title: 'Kickoff' });
+
+    const [recording] = await manifest.reconcile(backend, [], [summary('new.webm', 42, 5000)]);
+
+    expect(recording.metadata?.title).toBe('Kickoff');
+    expect(Object.keys((await readManifest(backend, [])).recordings)).toEqual(['new.webm']);
+  });
+
+  it('drops entries for files that are gone', async () => {
+    await manifest.updateEntry(backend, [], summary('gone.webm', 1, 1), { title: 'Gone' });
+    await manifest.reconcile(backend, [], []);
+
+    expect(await manifest.getEntry(backend, [], 'gone.webm')).toBeNull();
+  });
+
+  it('trims and de-duplicates tags', async () => {
+    const metadata = await manifest.updateEntry(backend, [], summary('demo.webm', 10, 1000), {
+      tags: [' demo ', 'demo', '', 'client'],
+    });
+
+    expect(metadata.tags).toEqual(['demo', 'client']);
+  });
+
+  it('moves metadata to a new name and returns it when removed', async () => {
+    await manifest.updateEntry(backend, [], summary('a.webm', 10, 1000), { title: 'Take one' });
+    await manifest.renameEntry(backend, [], 'a.webm', summary('b.webm', 10, 2000));
+
+    expect(await manifest.getEntry(backend, [], 'a.webm')).toBeNull();
+    expect((await manifest.removeEntry(backend, [], 'b.webm'))?.title).toBe('Take one');
+    expect(await manifest.getEntry(backend, [], 'b.webm')).toBeNull();
+  });
+
+  it('leaves a manifest it cannot read untouched', async () => {
+    await backend.write('.loom-manifest.json', new Blob(['not json']));
+
+    await expectAsync(
+      manifest.reconcile(backend, [], [summary('demo.webm', 10, 1000)]),
+    ).toBeRejected();
+    await expectAsync(
+      manifest.updateEntry(backend, [], summary('demo.webm', 10, 1000), { title: 'Demo' }),
+    ).toBeRejected();
+    expect(await (await backend.read('.loom-manifest.json')).text()).toBe('not json');
+  });
+
+  it('leaves a manifest of an unknown version untouched', async () => {
+    const future = JSON.stringify({ version: 2, recordings: {} });
+    await backend.write('.loom-manifest.json', new Blob([future]));
+
+    await expectAsync(manifest.getEntry(backend, [], 'demo.webm')).toBeRejected();
+    await expectAsync(manifest.removeEntry(backend, [], 'demo.webm')).toBeRejected();
+    expect(await (await backend.read('.loom-manifest.json')).text()).toBe(future);
+  });
+});
@@ -0,0 +1,287 @@
+import { Injectable } from '@angular/core';
+import {
+  RecordingManifest,
+  RecordingManifestEntry,
+  RecordingStorageBackend,
+} from '../../models/storage.models';
+import { RecordingFileSummary, RecordingMetadata } from '../../models/media.models';
+
+/**
+ * Service for the recordings manifest, a JSON file kept inside the recordings folder
+ * Holds titles, descriptions, tags and capture details so they travel with the folder;
+ * each subfolder has its own manifest for the recordings directly inside it
+ * Folders are given as path segments within a storage backend ([] = its top level)
+ *
+ * All reads and writes are serialized; every operation re-reads the manifest from disk
+ * so changes made by another tab or machine are not overwritten with stale data
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class RecordingManifestService {
+  private readonly MANIFEST_FILENAME = '.loom-manifest.json';
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Bring the manifest in line with the files currently in the folder and attach metadata
+   * - Files added outside the app get default metadata
+   * - Files renamed outside the app are matched by size and last-modified time
+   * - Entries for deleted files are dropped
+   */
+  reconcile(
+    backend: RecordingStorageBackend,
+    folder: string[],
+    files: RecordingFileSummary[],
+  ): Promise<RecordingFileSummary[]> {
+    return this.enqueue(async () => {
+      const manifest = await this.read(backend, folder);
+      const previous = manifest.recordings;
+      const next: Record<string, RecordingManifestEntry> = {};
+      const unmatchedFiles: RecordingFileSummary[] = [];
+
+      for (const file of files) {
+        const entry = previous[file.name];
+        if (entry) {
+          next[file.name] = { ...entry, size: file.size, lastModified: file.lastModified };
+        } else {
+          unmatchedFiles.push(file);
+        }
+      }
+
+      const orphanedEntries = Object.values(previous).filter((entry) => !next[entry.filename]);
+
+      for (const file of unmatchedFiles) {
+        const renamedIndex = orphanedEntries.findIndex(
+          (entry) => entry.size === file.size && entry.lastModified === file.lastModified,
+        );
+
+        if (renamedIndex >= 0) {
+          const [entry] = orphanedEntries.splice(renamedIndex, 1);
+          next[file.name] = { ...entry, filename: file.name };
+        } else {
+          next[file.name] = this.createEntry(file, this.createDefaultMetadata(file));
+        }
+      }
+
+      if (this.hasChanged(previous, next)) {
+        await this.write(backend, folder, { ...manifest, recordings: next });
+      }
+
+      return files.map((file) => ({ ...file, metadata: this.toMetadata(next[file.name]) }));
+    });
+  }
+
+  /**
+   * Metadata for one recording, or null if the manifest has no entry for it
+   */
+  getEntry(
+    backend: RecordingStorageBackend,
+    folder: string[],
+    filename: string,
+  ): Promise<RecordingMetadata | null> {
+    return this.enqueue(async () => {
+      const entry = (await this.read(backend, folder)).recordings[filename];
+      return entry ? this.toMetadata(entry) : null;
+    });
+  }
+
+  /**
+   * Merge metadata changes into a recording's manifest entry, creating it if needed
+   */
+  updateEntry(
+    backend: RecordingStorageBackend,
+    folder: string[],
+    file: RecordingFileSummary,
+    changes: Partial<RecordingMetadata>,
+  ): Promise<RecordingMetadata> {
+    return this.enqueue(async () => {
+      const manifest = await this.read(backend, folder);
+      const existing =
+        manifest.recordings[file.name] ?? this.createEntry(file, this.createDefaultMetadata(file));
+
+      const entry: RecordingManifestEntry = {
+        ...existing,
+        ...changes,
+        tags: changes.tags ? this.normalizeTags(changes.tags) : existing.tags,
+        filename: file.name,
+        size: file.size,
+        lastModified: file.lastModified,
+      };
+
+      await this.write(backend, folder, {
+        ...manifest,
+        recordings: { ...manifest.recordings, [file.name]: entry },
+      });
+
+      return this.toMetadata(entry);
+    });
+  }
+
+  /**
+   * Move a recording's manifest entry to its new filename
+   * The file may have a new last-modified time if the browser had to copy it
+   */
+  renameEntry(
+    backend: RecordingStorageBackend,
+    folder: string[],
+    previousName: string,
+    file: RecordingFileSummary,
+  ): Promise<RecordingMetadata> {
+    return this.enqueue(async () => {
+      const manifest = await this.read(backend, folder);
+      const recordings = { ...manifest.recordings };
+      const existing =
+        recordings[previousName] ?? this.createEntry(file, this.createDefaultMetadata(file));
+      delete recordings[previousName];
+
+      const entry: RecordingManifestEntry = {
+        ...existing,
+        filename: file.name,
+        size: file.size,
+        lastModified: file.lastModified,
+      };
+
+      await this.write(backend, folder, {
+        ...manifest,
+        recordings: { ...recordings, [file.name]: entry },
+      });
+      return this.toMetadata(entry);
+    });
+  }
+
+  /**
+   * Drop a recording's manifest entry, returning its metadata if it had one
+   */
+  removeEntry(
+    backend: RecordingStorageBackend,
+    folder: string[],
+    filename: string,
+  ): Promise<RecordingMetadata | null> {
+    return this.enqueue(async () => {
+      const manifest = await this.read(backend, folder);
+      const entry = manifest.recordings[filename];
+      if (!entry) {
+        return null;
+      }
+
+      const recordings = { ...manifest.recordings };
+      delete recordings[filename];
+      await this.write(backend, folder, { ...manifest, recordings });
+      return this.toMetadata(entry);
+    });
+  }
+
+  /**
+   * Default metadata for a file the manifest has not seen before
+   */
+  createDefaultMetadata(file: RecordingFileSummary): RecordingMetadata {
+    return {
+      title: file.name.replace(/\.[^.]+$/, ''),
+      description: '',
+      tags: [],
+      durationMs: null,
+      createdAt: file.lastModified,
+      sources: null,
+      markers: [],
+    };
+  }
+
+  /**
+   * A folder without a manifest file gets an empty one
+   * Any other failure, including a file that cannot be parsed or has an unknown version,
+   * is thrown so the real manifest is never overwritten with an empty one
+   */
+  private async read(
+    backend: RecordingStorageBackend,
+    folder: string[],
+  ): Promise<RecordingManifest> {
+    let text: string;
+    try {
+      const file = await backend.read(this.manifestPath(folder));
+      text = await file.text();
+    } catch (error) {
+      if ((error as Error).name === 'NotFoundError') {
+        return this.createEmptyManifest();
+      }
+      throw error;
+    }
+
+    const parsed = JSON.parse(text) as Partial<RecordingManifest>;
+    if (parsed.version !== 1 || typeof parsed.recordings !== 'object' || !parsed.recordings) {
+      throw new Error('Unsupported manifest format');
+    }
+
+    return { version: 1, updatedAt: parsed.updatedAt ?? 0, recordings: parsed.recordings };
+  }
+
+  private async write(
+    backend: RecordingStorageBackend,
+    folder: string[],
+    manifest: RecordingManifest,
+  ): Promise<void> {
+    await backend.write(
+      this.manifestPath(folder),
+      new Blob([JSON.stringify({ ...manifest, updatedAt: Date.now() }, null, 2)], {
+        type: 'application/json',
+      }),
+    );
+  }
+
+  private manifestPath(folder: string[]): string {
+    return [...folder, this.MANIFEST_FILENAME].join('/');
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private createEmptyManifest(): RecordingManifest {
+    return { version: 1, updatedAt: 0, recordings: {} };
+  }
+
+  private createEntry(
+    file: RecordingFileSummary,
+    metadata: RecordingMetadata,
+  ): RecordingManifestEntry {
+    return {
+      ...metadata,
+      filename: file.name,
+      size: file.size,
+      lastModified: file.lastModified,
+    };
+  }
+
+  private toMetadata(entry: RecordingManifestEntry): RecordingMetadata {
+    return {
+      title: entry.title,
+      description: entry.description,
+      tags: entry.tags,
+      durationMs: entry.durationMs,
+      createdAt: entry.createdAt,
+      sources: entry.sources,
+      // Entries written before markers existed have none
+      markers: entry.markers ?? [],
+    };
+  }
+
+  private normalizeTags(tags: string[]): string[] {
+    const normalized = tags.map((tag) => tag.trim()).filter((tag) => tag.length > 0);
+    return [...new Set(normalized)];
+  }
+
+  private hasChanged(
+    previous: Record<string, RecordingManifestEntry>,
+    next: Record<string, RecordingManifestEntry>,
+  ): boolean {
+    const nextNames = Object.keys(next);
+    if (nextNames.length !== Object.keys(previous).length) {
+      return true;
+    }
+
+    return nextNames.some(
+      (name) => !previous[name] || JSON.stringify(previous[name]) !== JSON.stringify(next[name]),
+    );
+  }
+}
@@ -0,0 +1,136 @@
+import { TestBed } from '@angular/core/testing';
+import { RecordingFileSummary, RecordingMetadata } from '../../models/media.models';
+import { MemoryStorageBackend } from './memory-storage-backend';
+import { RecordingTrashService } from './recording-trash.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INDEX_PATH = '.loom-trash/.trash-index.json';
+
+function summary(path: string): RecordingFileSummary {
+  return {
+    name: path.split('/').pop()!,
+    path,
+    mimeType: 'video/webm',
+    size: 5,
+    lastModified: 1000,
+  };
+}
+
+describe('RecordingTrashService', () => {
+  let backend: MemoryStorageBackend;
+  let trash: RecordingTrashService;
+  let now: number;
+
+  beforeEach(async () => {
+    backend = new MemoryStorageBackend();
+    TestBed.configureTestingModule({});
+    trash = TestBed.inject(RecordingTrashService);
+    await trash.init();
+    await trash.setRetentionDays(30);
+
+    now = 10 * DAY_MS;
+    spyOn(Date, 'now').and.callFake(() => now);
+  });
+
+  async function trashRecording(path: string, title: string | null = null) {
+    await backend.write(path, new Blob(['video'], { type: 'video/webm' }));
+    const metadata: RecordingMetadata | null = title
+      ? {
+          title,
+          description: '',
+          tags: [],
+          durationMs: null,
+          createdAt: 1000,
+          sources: null,
+          markers: [],
+        }
+      : null;
+    return trash.moveToTrash(backend, summary(path), metadata);
+  }
+
+  it('lists trashed recordings newest first with their metadata', async () => {
+    await trashRecording('2026/10/first.webm', 'First');
+    now += 1000;
+    await trashRecording('second.webm');
+
+    const items = await trash.list(backend);
+
+    expect(items.map((item) => item.originalName)).toEqual(['second.webm', '2026/10/first.webm']);
+    expect(items[1].metadata?.title).toBe('First');
+    await expectAsync(backend.read('2026/10/first.webm')).toBeRejected();
+  });
+
+  it('purges recordings older than the retention period', async () => {
+    const old = await trashRecording('old.webm');
+    now += 20 * DAY_MS;
+    await trashRecording('recent.webm');
+    now += 15 * DAY_MS;
+
+    const items = await trash.list(backend);
+
+    expect(items.map((item) => item.originalName)).toEqual(['recent.webm']);
+    expect(trash.expiresAt(items[0])).toBe(items[0].deletedAt + 30 * DAY_MS);
+    await expectAsync(backend.read(`.loom-trash/${old.trashName}`)).toBeRejected();
+  });
+
+  it('keeps recordings until the trash is emptied when retention is off', async () => {
+    await trash.setRetentionDays(0);
+    const item = await trashRecording('clip.webm');
+    now += 365 * DAY_MS;
+
+    expect(trash.expiresAt(item)).toBeNull();
+    expect(await trash.list(backend)).toEqual([item]);
+
+    await trash.empty(backend);
+    expect(await trash.list(backend)).toEqual([]);
+  });
+
+  it('drops entries whose file was removed and adds files the index does not cover', async () => {
+    const removed = await trashRecording('removed.webm');
+    await backend.delete(`.loom-trash/${removed.trashName}`);
+    await backend.write('.loom-trash/1700-found.webm', new Blob(['abc'], { type: 'video/webm' }));
+    await backend.write('.loom-trash/unnamed.webm', new Blob(['abc']));
+
+    const items = await trash.list(backend);
+
+    expect(items.map((item) => [item.trashName, item.originalName, item.deletedAt])).toEqual([
+      ['unnamed.webm', 'unnamed.webm', now],
+      ['1700-found.webm', 'found.webm', 1700],
+    ]);
+    const index = JSON.parse(await (await backend.read(INDEX_PATH)).text());
+    expect(Object.keys(index.items).sort()).toEqual(['1700-found.webm', 'unnamed.webm']);
+  });
+
+  it('restores a recording and removes it from the index', async () => {
+    const item = await trashRecording('clip.webm');
+
+    const file = await trash.restore(backend, item.trashName, 'archive/clip.webm');
+
+    expect(file.name).toBe('clip.webm');
+    expect(await (await backend.read('archive/clip.webm')).text()).toBe('video');
+    expect(await trash.list(backend)).toEqual([]);
+  });
+
+  it('leaves an index it cannot read untouched', async () => {
+    const item = await trashRecording('clip.webm');
+    await backend.write(INDEX_PATH, new Blob(['not json']));
+    await backend.write('other.webm', new Blob(['video']));
+
+    await expectAsync(trash.list(backend)).toBeRejected();
+    await expectAsync(trash.moveToTrash(backend, summary('other.webm'), null)).toBeRejected();
+    await expectAsync(trash.restore(backend, item.trashName, 'clip.webm')).toBeRejected();
+
+    expect(await (await backend.read(INDEX_PATH)).text()).toBe('not json');
+    expect(await (await backend.read('other.webm')).text()).toBe('video');
+    expect(await (await backend.read(`.loom-trash/${item.trashName}`)).text()).toBe('video');
+  });
+
+  it('leaves an index of an unknown version untouched', async () => {
+    const future = JSON.stringify({ version: 2, items: {} });
+    await trashRecording('clip.webm');
+    await backend.write(INDEX_PATH, new Blob([future]));
+
+    await expectAsync(trash.list(backend)).toBeRejectedWithError('Unsupported trash index format');
+    expect(await (await backend.read(INDEX_PATH)).text()).toBe(future);
+  });
+});
@@ -0,0 +1,274 @@
+import { Injectable, inject, signal } from '@angular/core';
+import {
+  RecordingStorageBackend,
+  RecordingTrashIndex,
+  StorageListing,
+  TrashSettings,
+  TrashedRecording,
+} from '../../models/storage.models';
+import { RecordingFileSummary, RecordingMetadata } from '../../models/media.models';
+import { IndexedDbService } from './indexeddb.service';
+
+const DEFAULT_TRASH_SETTINGS: TrashSettings = {
+  retentionDays: 30,
+  lastUpdated: 0,
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Service for the trash folder inside the recordings folder
+ * Deleted recordings are moved into a hidden subfolder together with their metadata and
+ * purged once they are older than the retention period
+ *
+ * Like the manifest, the trash index is a JSON file next to the files it describes, and
+ * every operation is serialized and re-reads it from the storage backend. An index that
+ * cannot be read is never overwritten
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class RecordingTrashService {
+  private readonly indexedDb = inject(IndexedDbService);
+  private readonly TRASH_FOLDER = '.loom-trash';
+  private readonly INDEX_FILENAME = '.trash-index.json';
+  private readonly TRASH_SETTINGS_KEY = 'trash-settings';
+  private queue: Promise<unknown> = Promise.resolve();
+  private hasInitialized = false;
+
+  private readonly _settings = signal<TrashSettings>(DEFAULT_TRASH_SETTINGS);
+
+  readonly settings = this._settings.asReadonly();
+
+  async init(): Promise<void> {
+    if (this.hasInitialized) {
+      return;
+    }
+
+    this.hasInitialized = true;
+    await this.loadSettings();
+  }
+
+  async setRetentionDays(retentionDays: number): Promise<void> {
+    await this.updateSettings({ retentionDays: Math.max(0, Math.round(retentionDays)) });
+  }
+
+  /**
+   * When a trashed recording will be purged, or null if it is kept until the trash is emptied
+   */
+  expiresAt(item: TrashedRecording): number | null {
+    const { retentionDays } = this._settings();
+    return retentionDays > 0 ? item.deletedAt + retentionDays * MS_PER_DAY : null;
+  }
+
+  /**
+   * List trashed recordings, newest first
+   * Purges expired items, drops index entries whose file was removed outside the app and
+   * adds files the index does not cover, e.g. when it was lost after a move into the trash
+   */
+  list(backend: RecordingStorageBackend): Promise<TrashedRecording[]> {
+    return this.enqueue(async () => {
+      const listing = await this.listTrash(backend);
+      if (!listing) {
+        return [];
+      }
+
+      const index = await this.read(backend);
+      const trashFiles = listing.files.filter((file) => file.name !== this.INDEX_FILENAME);
+      const trashNames = new Set(trashFiles.map((file) => file.name));
+      const found = trashFiles
+        .filter((file) => !index.items[file.name])
+        .map((file) => this.toTrashedRecording(file));
+      const items: Record<string, TrashedRecording> = {};
+      const now = Date.now();
+
+      for (const item of [...Object.values(index.items), ...found]) {
+        const expiresAt = this.expiresAt(item);
+        if (expiresAt !== null && expiresAt <= now) {
+          await backend.delete(this.trashPath(item.trashName)).catch(() => undefined);
+        } else if (trashNames.has(item.trashName)) {
+          items[item.trashName] = item;
+        }
+      }
+
+      const kept = Object.keys(items);
+      if (
+        kept.length !== Object.keys(index.items).length ||
+        kept.some((name) => !index.items[name])
+      ) {
+        await this.write(backend, { ...index, items });
+      }
+
+      return Object.values(items).sort((a, b) => b.deletedAt - a.deletedAt);
+    });
+  }
+
+  /**
+   * Move a recording from its folder into the trash, keeping its metadata for restoring
+   * The trash lives at the top of the storage, whichever subfolder the recording is in
+   */
+  moveToTrash(
+    backend: RecordingStorageBackend,
+    recording: RecordingFileSummary,
+    metadata: RecordingMetadata | null,
+  ): Promise<TrashedRecording> {
+    return this.enqueue(async () => {
+      const index = await this.read(backend);
+      const deletedAt = Date.now();
+      // Prefixed so recordings deleted under the same name do not overwrite each other
+      const trashName = `${deletedAt}-${recording.name}`;
+
+      await backend.move(recording.path, this.trashPath(trashName));
+
+      const item: TrashedRecording = {
+        trashName,
+        originalName: recording.path,
+        deletedAt,
+        mimeType: recording.mimeType,
+        size: recording.size,
+        lastModified: recording.lastModified,
+        metadata,
+      };
+
+      await this.write(backend, { ...index, items: { ...index.items, [trashName]: item } });
+      return item;
+    });
+  }
+
+  /**
+   * Move a trashed recording to the given path; missing folders are created
+   * Returns the restored file
+   */
+  restore(backend: RecordingStorageBackend, trashName: string, targetPath: string): Promise<File> {
+    return this.enqueue(async () => {
+      const index = await this.read(backend);
+      const file = await backend.move(this.trashPath(trashName), targetPath);
+      const items = { ...index.items };
+      delete items[trashName];
+      await this.write(backend, { ...index, items });
+
+      return file;
+    });
+  }
+
+  /**
+   * Permanently delete everything in the trash
+   */
+  empty(backend: RecordingStorageBackend): Promise<void> {
+    return this.enqueue(async () => {
+      const listing = await this.listTrash(backend);
+      for (const file of listing?.files ?? []) {
+        await backend.delete(this.trashPath(file.name));
+      }
+    });
+  }
+
+  /**
+   * Files in the trash folder, or null if nothing has been deleted yet
+   */
+  private async listTrash(backend: RecordingStorageBackend): Promise<StorageListing | null> {
+    try {
+      return await backend.list([this.TRASH_FOLDER]);
+    } catch (error) {
+      if ((error as Error).name === 'NotFoundError') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private trashPath(name: string): string {
+    return `${this.TRASH_FOLDER}/${name}`;
+  }
+
+  /**
+   * A trash entry for a file found in the trash folder without one
+   * The deletion time and original name are recovered from the trash name where possible;
+   * the recording is restored to the top folder
+   */
+  private toTrashedRecording(file: File): TrashedRecording {
+    const match = /^(\d+)-(.+)$/.exec(file.name);
+
+    return {
+      trashName: file.name,
+      originalName: match ? match[2] : file.name,
+      deletedAt: match ? Number(match[1]) : file.lastModified,
+      mimeType: file.type,
+      size: file.size,
+      lastModified: file.lastModified,
+      metadata: null,
+    };
+  }
+
+  /**
+   * Read the trash index; only a missing index counts as an empty trash
+   * Throws if the index cannot be read or parsed, so it is not overwritten
+   */
+  private async read(backend: RecordingStorageBackend): Promise<RecordingTrashIndex> {
+    let text: string;
+    try {
+      const file = await backend.read(this.trashPath(this.INDEX_FILENAME));
+      text = await file.text();
+    } catch (error) {
+      if ((error as Error).name === 'NotFoundError') {
+        return this.createEmptyIndex();
+      }
+      throw error;
+    }
+
+    const parsed = JSON.parse(text) as Partial<RecordingTrashIndex>;
+    if (parsed.version !== 1 || typeof parsed.items !== 'object' || !parsed.items) {
+      throw new Error('Unsupported trash index format');
+    }
+
+    return { version: 1, updatedAt: parsed.updatedAt ?? 0, items: parsed.items };
+  }
+
+  private async write(backend: RecordingStorageBackend, index: RecordingTrashIndex): Promise<void> {
+    await backend.write(
+      this.trashPath(this.INDEX_FILENAME),
+      new Blob([JSON.stringify({ ...index, updatedAt: Date.now() }, null, 2)], {
+        type: 'application/json',
+      }),
+    );
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private createEmptyIndex(): RecordingTrashIndex {
+    return { version: 1, updatedAt: 0, items: {} };
+  }
+
+  private async updateSettings(changes: Partial<TrashSettings>): Promise<void> {
+    this._settings.update((settings) => ({
+      ...settings,
+      ...changes,
+      lastUpdated: Date.now(),
+    }));
+
+    try {
+      await this.indexedDb.set('preferences', this.TRASH_SETTINGS_KEY, this._settings());
+    } catch (error) {
+      console.error('[RecordingTrashService] Failed to save trash settings:', error);
+    }
+  }
+
+  private async loadSettings(): Promise<void> {
+    try {
+      const settings = await this.indexedDb.get<TrashSettings>(
+        'preferences',
+        this.TRASH_SETTINGS_KEY,
+      );
+
+      if (settings) {
+        this._settings.set({ ...DEFAULT_TRASH_SETTINGS, ...settings });
+      }
+    } catch (error) {
+      console.error('[RecordingTrashService] Failed to load trash settings:', error);
+    }
+  }
+}
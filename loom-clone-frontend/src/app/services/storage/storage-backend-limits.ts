@@ -0,0 +1,55 @@
+import { StorageBackendKind, StorageBackendLimits } from '../../models/storage.models';
+
+/**
+ * What each storage backend can do, for choosing one before it is opened
+ */
+export const STORAGE_BACKEND_LIMITS: Record<StorageBackendKind, StorageBackendLimits> = {
+  folder: {
+    label: 'Folder on this computer',
+    description: 'Recordings are saved as files in a folder you choose.',
+    listable: true,
+    survivesReload: true,
+    visibleOnDisk: true,
+    crashSafe: true,
+    notes: [
+      'Needs Chrome, Edge or Opera',
+      'Access may have to be granted again after the browser restarts',
+    ],
+  },
+  opfs: {
+    label: 'Browser storage',
+    description: 'Recordings are kept in storage the browser reserves for this site.',
+    listable: true,
+    survivesReload: true,
+    visibleOnDisk: false,
+    crashSafe: true,
+    notes: [
+      'Files do not show up in your file manager; download a recording to share it',
+      'Space is limited to what the browser allows this site',
+      "Clearing this site's data deletes every recording",
+    ],
+  },
+  download: {
+    label: 'Download each recording',
+    description: "Each finished recording is saved through the browser's downloads.",
+    listable: false,
+    survivesReload: true,
+    visibleOnDisk: true,
+    crashSafe: false,
+    notes: [
+      'A recording is held in memory until it stops, so long recordings need plenty of memory',
+      'Closing the tab or a crash loses the recording in progress',
+      'Recordings do not appear in the library, and titles and markers are not kept',
+      'WebM downloads are not made seekable, so some players cannot skip through them',
+    ],
+  },
+  memory: {
+    label: 'Memory only',
+    description: 'Recordings are held in memory for as long as the page is open.',
+    listable: true,
+    survivesReload: false,
+    visibleOnDisk: false,
+    crashSafe: false,
+    notes: ['Everything is lost when the page is closed'],
+  },
+};
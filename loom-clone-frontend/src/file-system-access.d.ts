@@ -19,6 +19,8 @@ interface FileSystemFileHandle extends FileSystemHandle {
   readonly kind: 'file';
   getFile(): Promise<File>;
   createWritable(options?: FileSystemCreateWritableOptions): Promise<FileSystemWritableFileStream>;
+  // Not available in every browser yet
+  move?(destination: FileSystemDirectoryHandle, newName: string): Promise<void>;
 }
 
 interface FileSystemDirectoryHandle extends FileSystemHandle {
@@ -0,0 +1,19 @@
+/**
+ * TypeScript declarations for MediaStreamTrackProcessor (Insertable Streams for MediaStreamTrack)
+ * https://developer.mozilla.org/en-US/docs/Web/API/MediaStreamTrackProcessor
+ */
+
+interface MediaStreamTrackProcessorInit {
+  track: MediaStreamTrack;
+  maxBufferSize?: number;
+}
+
+interface MediaStreamTrackProcessor<T extends VideoFrame | AudioData> {
+  readonly readable: ReadableStream<T>;
+}
+
+declare const MediaStreamTrackProcessor: {
+  new <T extends VideoFrame | AudioData>(
+    init: MediaStreamTrackProcessorInit,
+  ): MediaStreamTrackProcessor<T>;
+};